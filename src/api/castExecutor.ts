@@ -0,0 +1,123 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { Worker } from "node:worker_threads";
+import { abortErrorFromSignal } from "../runner/abort";
+import { CastError, CastResult, castSpell } from "../runner/cast";
+import { CastErrorCode, CastOptions, ProgressEvent } from "../types";
+import { errorCodeOf } from "../util/errors";
+
+export type CastExecutionIsolation = "in_process" | "worker";
+
+// Everything except the live hooks, so a request can be structured-cloned into a worker thread.
+export type CastExecutionRequest = Omit<CastOptions, "signal" | "onEvent" | "events" | "quiet">;
+
+export type CastExecutionOutcome =
+  | { ok: true; result: CastResult }
+  | { ok: false; code: CastErrorCode; message: string; executionId?: string; logPath?: string };
+
+export type CastExecutor = (
+  request: CastExecutionRequest,
+  signal: AbortSignal,
+  onEvent: (event: ProgressEvent) => void
+) => Promise<CastExecutionOutcome>;
+
+export type CastWorkerRequestMessage = { type: "abort"; code: CastErrorCode; message: string };
+
+export type CastWorkerResponseMessage =
+  | { type: "event"; event: ProgressEvent }
+  | { type: "outcome"; outcome: CastExecutionOutcome };
+
+export const CAST_EXECUTION_ISOLATIONS: readonly CastExecutionIsolation[] = ["in_process", "worker"];
+
+export function createCastExecutor(isolation: CastExecutionIsolation): CastExecutor {
+  return isolation === "worker" ? runCastInWorker : runCastInProcess;
+}
+
+export async function runCastInProcess(
+  request: CastExecutionRequest,
+  signal: AbortSignal,
+  onEvent: (event: ProgressEvent) => void
+): Promise<CastExecutionOutcome> {
+  try {
+    const result = await castSpell({ ...request, quiet: true, signal, onEvent });
+    return { ok: true, result };
+  } catch (error) {
+    if (error instanceof CastError) {
+      return {
+        ok: false,
+        code: error.code,
+        message: error.message,
+        executionId: error.executionId,
+        logPath: error.logPath
+      };
+    }
+    return {
+      ok: false,
+      code: errorCodeOf(error) ?? "EXECUTION_FAILED",
+      message: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+function runCastInWorker(
+  request: CastExecutionRequest,
+  signal: AbortSignal,
+  onEvent: (event: ProgressEvent) => void
+): Promise<CastExecutionOutcome> {
+  return new Promise((resolve) => {
+    const worker = startCastWorker(request);
+    let settled = false;
+
+    const onAbort = (): void => {
+      const reason = abortErrorFromSignal(signal);
+      const message: CastWorkerRequestMessage = {
+        type: "abort",
+        code: reason.code ?? "EXECUTION_CANCELED",
+        message: reason.message
+      };
+      worker.postMessage(message);
+    };
+
+    const settle = (outcome: CastExecutionOutcome): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal.removeEventListener("abort", onAbort);
+      resolve(outcome);
+      // Work the cast left behind (e.g. an aborted node step) must not outlive the execution.
+      void worker.terminate();
+    };
+
+    worker.on("message", (message: CastWorkerResponseMessage) => {
+      if (message.type === "event") {
+        onEvent(message.event);
+        return;
+      }
+      settle(message.outcome);
+    });
+    worker.once("error", (error) => {
+      settle({ ok: false, code: "EXECUTION_FAILED", message: `cast worker failed: ${error.message}` });
+    });
+    worker.once("exit", (exitCode) => {
+      settle({ ok: false, code: "EXECUTION_FAILED", message: `cast worker exited with code ${exitCode}` });
+    });
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+}
+
+function startCastWorker(request: CastExecutionRequest): Worker {
+  const compiled = path.join(__dirname, "castWorker.js");
+  if (existsSync(compiled)) {
+    return new Worker(compiled, { workerData: request });
+  }
+
+  // Running from TypeScript sources (tsx dev mode, tests): load the worker through tsx's require hook.
+  const source = path.join(__dirname, "castWorker.ts");
+  return new Worker(`require("tsx/cjs"); require(${JSON.stringify(source)});`, { eval: true, workerData: request });
+}
@@ -0,0 +1,29 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { SpellError } from "../util/errors";
+import {
+  runCastInProcess,
+  type CastExecutionRequest,
+  type CastWorkerRequestMessage,
+  type CastWorkerResponseMessage
+} from "./castExecutor";
+
+// Worker-thread entry for SPELL_API_EXECUTION_ISOLATION=worker; the parent terminates it after the outcome.
+const port = parentPort;
+if (port) {
+  const controller = new AbortController();
+  port.on("message", (message: CastWorkerRequestMessage) => {
+    if (message.type === "abort") {
+      controller.abort(new SpellError(message.message, message.code));
+    }
+  });
+
+  const post = (message: CastWorkerResponseMessage): void => {
+    port.postMessage(message);
+  };
+
+  void runCastInProcess(workerData as CastExecutionRequest, controller.signal, (event) => {
+    post({ type: "event", event });
+  }).then((outcome) => {
+    post({ type: "outcome", outcome });
+  });
+}
@@ -0,0 +1,100 @@
+import { access } from "node:fs/promises";
+import path from "node:path";
+import { resolveInstalledBundle } from "../bundle/store";
+import type { ButtonRegistryEntry } from "../contract/buttonRegistry";
+import {
+  RuntimePolicyV1,
+  evaluateRuntimePolicy,
+  loadRuntimePolicy,
+  parseRuntimePolicyFile,
+  runtimePolicyFilePath
+} from "../policy";
+import { resolveRuntimePolicyContext } from "../policy/context";
+
+export type ExecutionPolicyScope = "global" | "tenant" | "button";
+
+export interface ExecutionPolicyLayer {
+  scope: ExecutionPolicyScope;
+  source: string;
+  policy: RuntimePolicyV1;
+  allow: boolean;
+  reason?: string;
+}
+
+// Recorded on the job so GET /spell-executions/:id shows which bound policy allowed or denied it.
+export interface ExecutionPolicyRecord {
+  allow: boolean;
+  reason?: string;
+  evaluated_at: string;
+  layers: ExecutionPolicyLayer[];
+}
+
+interface BoundPolicy {
+  scope: ExecutionPolicyScope;
+  source: string;
+  policy: RuntimePolicyV1;
+}
+
+// Returns null when neither the tenant nor the button binds a policy; the cast still applies ~/.spell/policy.json.
+export async function evaluateExecutionPolicy(
+  tenantPolicyDir: string,
+  tenantId: string,
+  entry: Pick<ButtonRegistryEntry, "button_id" | "spell_id" | "version" | "policy">
+): Promise<ExecutionPolicyRecord | null> {
+  const evaluatedAt = new Date().toISOString();
+  const bound: BoundPolicy[] = [];
+  try {
+    const tenantPolicy = await loadTenantPolicy(tenantPolicyDir, tenantId);
+    if (tenantPolicy) {
+      bound.push(tenantPolicy);
+    }
+  } catch (error) {
+    return { allow: false, reason: (error as Error).message, evaluated_at: evaluatedAt, layers: [] };
+  }
+  if (entry.policy) {
+    bound.push({ scope: "button", source: entry.button_id, policy: entry.policy });
+  }
+  if (bound.length === 0) {
+    return null;
+  }
+
+  let layers: BoundPolicy[];
+  let context: Awaited<ReturnType<typeof resolveRuntimePolicyContext>>;
+  try {
+    const globalPolicy = await loadRuntimePolicy();
+    layers = globalPolicy ? [{ scope: "global", source: runtimePolicyFilePath(), policy: globalPolicy }, ...bound] : bound;
+
+    const { manifest, bundlePath } = await resolveInstalledBundle(entry.spell_id, entry.version);
+    context = await resolveRuntimePolicyContext(manifest, bundlePath);
+  } catch (error) {
+    // A bound policy that cannot be evaluated must not let the job through.
+    return {
+      allow: false,
+      reason: `policy could not be evaluated: ${(error as Error).message}`,
+      evaluated_at: evaluatedAt,
+      layers: []
+    };
+  }
+
+  const evaluated: ExecutionPolicyLayer[] = layers.map((layer) => ({
+    ...layer,
+    ...evaluateRuntimePolicy(layer.policy, context)
+  }));
+  const denied = evaluated.find((layer) => !layer.allow);
+  return {
+    allow: !denied,
+    reason: denied ? `${denied.scope} policy: ${denied.reason}` : undefined,
+    evaluated_at: evaluatedAt,
+    layers: evaluated
+  };
+}
+
+async function loadTenantPolicy(tenantPolicyDir: string, tenantId: string): Promise<BoundPolicy | null> {
+  const filePath = path.join(tenantPolicyDir, `${tenantId}.json`);
+  try {
+    await access(filePath);
+  } catch {
+    return null;
+  }
+  return { scope: "tenant", source: filePath, policy: await parseRuntimePolicyFile(filePath) };
+}
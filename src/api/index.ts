@@ -1,3 +1,4 @@
+import { CAST_EXECUTION_ISOLATIONS, type CastExecutionIsolation } from "./castExecutor";
 import { startExecutionApiServer } from "./server";
 
 async function main(): Promise<void> {
@@ -16,6 +17,8 @@ async function main(): Promise<void> {
   const logRetentionDays = readOptionalIntegerEnv("SPELL_API_LOG_RETENTION_DAYS", 0);
   const logMaxFiles = readOptionalIntegerEnv("SPELL_API_LOG_MAX_FILES", 0);
   const forceRequireSignature = readBooleanEnv("SPELL_API_FORCE_REQUIRE_SIGNATURE", false);
+  const executionIsolation = readExecutionIsolationEnv("SPELL_API_EXECUTION_ISOLATION");
+  const tenantPolicyDir = process.env.SPELL_API_POLICY_DIR;
 
   const started = await startExecutionApiServer({
     port,
@@ -32,7 +35,9 @@ async function main(): Promise<void> {
     authKeys,
     logRetentionDays,
     logMaxFiles,
-    forceRequireSignature
+    forceRequireSignature,
+    executionIsolation,
+    tenantPolicyDir
   });
 
   process.stdout.write(`spell execution api listening on :${started.port}\n`);
@@ -102,3 +107,17 @@ function readBooleanEnv(name: string, fallback: boolean): boolean {
 
   throw new Error(`${name} must be a boolean (true/false/1/0)`);
 }
+
+function readExecutionIsolationEnv(name: string): CastExecutionIsolation | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return undefined;
+  }
+
+  const normalized = raw.trim().toLowerCase();
+  const matched = CAST_EXECUTION_ISOLATIONS.find((isolation) => isolation === normalized);
+  if (!matched) {
+    throw new Error(`${name} must be one of: ${CAST_EXECUTION_ISOLATIONS.join(", ")}`);
+  }
+  return matched;
+}
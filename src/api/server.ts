@@ -1,12 +1,20 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
-import { appendFile, mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
-import { tmpdir } from "node:os";
+import { appendFile, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
 import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
-import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
-import { loadButtonRegistryFromFile, resolveButtonEntry, type ButtonRegistryV1 } from "../contract/buttonRegistry";
-import { ensureSpellDirs, logsRoot } from "../util/paths";
+import {
+  loadButtonRegistryFromFile,
+  resolveButtonEntry,
+  type ButtonApproval,
+  type ButtonRegistryV1
+} from "../contract/buttonRegistry";
+import { CastErrorCode } from "../types";
+import { SpellError } from "../util/errors";
+import { ensureSpellDirs, logsRoot, tenantPoliciesRoot } from "../util/paths";
 import { resolveOutputReference } from "../util/outputs";
+import { redactSecrets } from "../util/redact";
+import { CastExecutionIsolation, CastExecutionOutcome, CastExecutor, createCastExecutor } from "./castExecutor";
+import { ExecutionPolicyRecord, evaluateExecutionPolicy } from "./executionPolicy";
 import { renderReceiptsClientJs, renderReceiptsHtml } from "./ui";
 
 export interface ExecutionApiServerOptions {
@@ -25,9 +33,11 @@ export interface ExecutionApiServerOptions {
   logRetentionDays?: number;
   logMaxFiles?: number;
   forceRequireSignature?: boolean;
+  executionIsolation?: CastExecutionIsolation;
+  tenantPolicyDir?: string;
 }
 
-type JobStatus = "queued" | "running" | "succeeded" | "failed" | "timeout" | "canceled";
+type JobStatus = "awaiting_approval" | "queued" | "running" | "succeeded" | "failed" | "timeout" | "canceled";
 
 interface ApiAuthKey {
   tenantId: string;
@@ -35,7 +45,9 @@ interface ApiAuthKey {
   token: string;
 }
 
-type ApiAuthContext = { ok: true; tenantId: string; role?: string } | { ok: false; errorCode: string; message: string };
+type ApiAuthContext =
+  | { ok: true; tenantId: string; role?: string; actorId?: string }
+  | { ok: false; errorCode: string; message: string };
 
 interface ExecutionJob {
   execution_id: string;
@@ -59,8 +71,32 @@ interface ExecutionJob {
   request?: ExecutionRequestSnapshot;
   retry_of?: string;
   retried_by?: string;
+  resume_from?: string;
+  policy?: ExecutionPolicyRecord;
+  approval?: ExecutionApproval;
 }
 
+type ApprovalDecision = "approve" | "reject";
+
+interface ExecutionApprovalDecision {
+  decision: ApprovalDecision;
+  actor_id: string;
+  actor_role: string;
+  decided_at: string;
+  comment?: string;
+}
+
+// Copied from the button when the job is created, so registry edits do not change jobs already waiting.
+interface ExecutionApproval {
+  approver_roles: string[];
+  required_approvals: number;
+  expires_at: string;
+  requested_by: string;
+  decisions: ExecutionApprovalDecision[];
+}
+
+type RetryMode = "recast" | "resume";
+
 interface ExecutionRequestSnapshot {
   input: Record<string, unknown>;
   dry_run: boolean;
@@ -72,7 +108,7 @@ interface ExecutionRequestSnapshot {
 
 interface ExecutionRuntimeState {
   cancelRequested: boolean;
-  child: ChildProcessWithoutNullStreams | null;
+  abortController: AbortController | null;
 }
 
 interface CreateExecutionRequest {
@@ -121,10 +157,30 @@ const DEFAULT_LOG_RETENTION_DAYS = 14;
 const DEFAULT_LOG_MAX_FILES = 500;
 const STREAM_POLL_INTERVAL_MS = 150;
 const STREAM_HEARTBEAT_MS = 15_000;
+const MAX_STEP_EVENTS_PER_EXECUTION = 1000;
+const MAX_STEP_EVENT_BUFFERS = 200;
 const DEFAULT_TENANT_ID = "default";
+const ANONYMOUS_ACTOR_ID = "anonymous";
 const AUTH_KEY_SEGMENT_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
 const IDEMPOTENCY_KEY_PRINTABLE_ASCII = /^[\x20-\x7E]+$/;
 const IDEMPOTENCY_KEY_MAX_LENGTH = 128;
+// Public failure messages per cast error code; null exposes the runtime message, which carries no input data.
+const CAST_FAILURE_MESSAGES: Record<CastErrorCode, string | null> = {
+  EXECUTION_FAILED: "execution failed",
+  EXECUTION_CANCELED: "execution canceled",
+  EXECUTION_TIMEOUT: null,
+  STEP_TIMEOUT: null,
+  INPUT_TOO_LARGE: null,
+  INPUT_SCHEMA_INVALID: "input schema invalid",
+  SIGNATURE_REQUIRED: "signature required",
+  RISK_CONFIRMATION_REQUIRED: "risk confirmation required",
+  BILLING_CONFIRMATION_REQUIRED: "billing confirmation required",
+  CONNECTOR_TOKEN_MISSING: "connector token missing",
+  PLATFORM_UNSUPPORTED: "platform unsupported",
+  POLICY_DENIED: null,
+  RESUME_REJECTED: null,
+  COMPENSATION_INCOMPLETE: null
+};
 
 export async function startExecutionApiServer(
   options: ExecutionApiServerOptions = {}
@@ -141,6 +197,7 @@ export async function startExecutionApiServer(
   const runningJobPromises = new Set<Promise<void>>();
   const tenantAuditPath = path.join(logsRoot(), "tenant-audit.jsonl");
   const runtimeStateByExecutionId = new Map<string, ExecutionRuntimeState>();
+  const stepEventsByExecutionId = new Map<string, Record<string, unknown>[]>();
   let tenantAuditQueue = Promise.resolve();
   let persistQueue = Promise.resolve();
 
@@ -152,8 +209,8 @@ export async function startExecutionApiServer(
       });
     await persistQueue;
   };
-  const appendTenantAudit = async (job: ExecutionJob): Promise<void> => {
-    const event = makeTenantAuditEvent(job);
+  const appendTenantAudit = async (job: ExecutionJob, decision?: ExecutionApprovalDecision): Promise<void> => {
+    const event = makeTenantAuditEvent(job, decision);
     const line = `${JSON.stringify(event)}\n`;
     tenantAuditQueue = tenantAuditQueue
       .catch(() => undefined)
@@ -163,6 +220,33 @@ export async function startExecutionApiServer(
     await tenantAuditQueue;
   };
 
+  // Expiry is applied lazily on authenticated requests, so no timer has to outlive the server.
+  const expireStaleApprovals = async (): Promise<void> => {
+    const nowMs = Date.now();
+    const expired: ExecutionJob[] = [];
+    for (const job of jobs.values()) {
+      if (job.status !== "awaiting_approval" || !job.approval || Date.parse(job.approval.expires_at) > nowMs) {
+        continue;
+      }
+      const canceled: ExecutionJob = {
+        ...job,
+        status: "canceled",
+        finished_at: new Date(nowMs).toISOString(),
+        error_code: "APPROVAL_EXPIRED",
+        message: "approval expired before enough approvers approved"
+      };
+      jobs.set(job.execution_id, canceled);
+      expired.push(canceled);
+    }
+    if (expired.length === 0) {
+      return;
+    }
+    await persistJobs();
+    for (const job of expired) {
+      await appendTenantAudit(job).catch(() => undefined);
+    }
+  };
+
   const bodyLimit = options.requestBodyLimitBytes ?? DEFAULT_BODY_LIMIT;
   const executionTimeoutMs = options.executionTimeoutMs ?? DEFAULT_TIMEOUT_MS;
   const rateWindowMs = options.rateLimitWindowMs ?? DEFAULT_RATE_WINDOW_MS;
@@ -183,6 +267,8 @@ export async function startExecutionApiServer(
   const logRetentionDays = options.logRetentionDays ?? DEFAULT_LOG_RETENTION_DAYS;
   const logMaxFiles = options.logMaxFiles ?? DEFAULT_LOG_MAX_FILES;
   const logsDirectory = logsRoot();
+  const executeCast = createCastExecutor(options.executionIsolation ?? "in_process");
+  const tenantPolicyDir = options.tenantPolicyDir ?? tenantPoliciesRoot();
 
   const prunedOnBoot = await applyLogRetentionPolicy(logsDirectory, jobs, logRetentionDays, logMaxFiles);
 
@@ -222,9 +308,10 @@ export async function startExecutionApiServer(
             message: authContext.message
           });
         }
+        await expireStaleApprovals();
       }
 
-      const checkSubmissionLimits = (tenantId: string): { statusCode: number; payload: Record<string, unknown> } | null => {
+      const checkConcurrencyLimits = (tenantId: string): { statusCode: number; payload: Record<string, unknown> } | null => {
         if (countInFlightJobs(jobs) >= maxConcurrentExecutions) {
           return {
             statusCode: 429,
@@ -247,6 +334,15 @@ export async function startExecutionApiServer(
           };
         }
 
+        return null;
+      };
+
+      const checkSubmissionLimits = (tenantId: string): { statusCode: number; payload: Record<string, unknown> } | null => {
+        const concurrencyError = checkConcurrencyLimits(tenantId);
+        if (concurrencyError) {
+          return concurrencyError;
+        }
+
         const ip = req.socket.remoteAddress ?? "unknown";
         if (!allowRate(ip, postHistoryByIp, rateWindowMs, rateMaxRequests)) {
           return {
@@ -289,8 +385,10 @@ export async function startExecutionApiServer(
           },
           job.require_signature,
           executionTimeoutMs,
+          executeCast,
           jobs,
           runtimeStateByExecutionId,
+          stepEventsByExecutionId,
           persistJobs,
           appendTenantAudit,
           {
@@ -306,11 +404,14 @@ export async function startExecutionApiServer(
         runningJobPromises.add(runningJob);
       };
 
+      // Jobs awaiting approval are recorded now and only started by the approval that completes them.
       const queueExecutionJob = async (job: ExecutionJob): Promise<void> => {
         jobs.set(job.execution_id, job);
         await persistJobs();
         await appendTenantAudit(job).catch(() => undefined);
-        startJobRunner(job);
+        if (job.status === "queued") {
+          startJobRunner(job);
+        }
       };
 
       if (method === "POST" && route === "/spell-executions") {
@@ -366,6 +467,7 @@ export async function startExecutionApiServer(
           parsed.actor_role ??
           req.headers["x-role"]?.toString() ??
           "anonymous";
+        const actorId = (authContext.ok ? authContext.actorId : undefined) ?? ANONYMOUS_ACTOR_ID;
         if (Array.isArray(entry.allowed_tenants) && entry.allowed_tenants.length > 0) {
           if (!entry.allowed_tenants.includes(tenantId)) {
             return sendJson(res, 403, {
@@ -451,6 +553,16 @@ export async function startExecutionApiServer(
           }
         }
 
+        const policyRecord = await evaluateExecutionPolicy(tenantPolicyDir, tenantId, entry);
+        if (policyRecord && !policyRecord.allow) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "POLICY_DENIED",
+            message: `policy denied: ${policyRecord.reason}`,
+            policy: policyRecord
+          });
+        }
+
         const executionId = `exec_${Date.now()}_${randomUUID().slice(0, 8)}`;
         const now = new Date().toISOString();
         const requireSignature = forceRequireSignature || entry.require_signature === true;
@@ -461,12 +573,14 @@ export async function startExecutionApiServer(
           spell_id: entry.spell_id,
           version: entry.version,
           require_signature: requireSignature,
-          status: "queued",
+          status: entry.approval ? "awaiting_approval" : "queued",
           tenant_id: tenantId,
           actor_role: actorRole,
           created_at: now,
           idempotency_key: idempotencyKey ?? undefined,
           idempotency_fingerprint: idempotencyFingerprint,
+          policy: policyRecord ?? undefined,
+          approval: entry.approval ? makeExecutionApproval(entry.approval, actorId, now) : undefined,
           request: {
             input: cloneExecutionInput(input),
             dry_run: dryRun,
@@ -517,12 +631,12 @@ export async function startExecutionApiServer(
 
         const runtimeState = runtimeStateByExecutionId.get(executionId) ?? {
           cancelRequested: false,
-          child: null
+          abortController: null
         };
         runtimeState.cancelRequested = true;
         runtimeStateByExecutionId.set(executionId, runtimeState);
-        if (existing.status === "running" && runtimeState.child) {
-          runtimeState.child.kill("SIGTERM");
+        if (existing.status === "running" && runtimeState.abortController) {
+          runtimeState.abortController.abort(new SpellError("execution canceled by request", "EXECUTION_CANCELED"));
         }
 
         const canceled: ExecutionJob = {
@@ -580,11 +694,46 @@ export async function startExecutionApiServer(
           });
         }
 
+        let retryMode: RetryMode;
+        try {
+          retryMode = parseRetryRequest(await readJsonBody(req, bodyLimit));
+        } catch (error) {
+          return sendJson(res, 400, { ok: false, error_code: "BAD_REQUEST", message: (error as Error).message });
+        }
+
+        if (retryMode === "resume" && !existing.runtime_execution_id) {
+          return sendJson(res, 409, {
+            ok: false,
+            error_code: "NOT_RESUMABLE",
+            message: "execution has no runtime log to resume from"
+          });
+        }
+
         const limitError = checkSubmissionLimits(existing.tenant_id);
         if (limitError) {
           return sendJson(res, limitError.statusCode, limitError.payload);
         }
 
+        // Policies and approval rules may have changed since the original job, so a retry is evaluated again.
+        const retryButton = registry.buttons.find((button) => button.button_id === existing.button_id);
+        const retryPolicyRecord = await evaluateExecutionPolicy(
+          tenantPolicyDir,
+          existing.tenant_id,
+          retryButton ?? {
+            button_id: existing.button_id,
+            spell_id: existing.spell_id,
+            version: existing.version
+          }
+        );
+        if (retryPolicyRecord && !retryPolicyRecord.allow) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "POLICY_DENIED",
+            message: `policy denied: ${retryPolicyRecord.reason}`,
+            policy: retryPolicyRecord
+          });
+        }
+
         const retryExecutionId = `exec_${Date.now()}_${randomUUID().slice(0, 8)}`;
         const queuedAt = new Date().toISOString();
         const retriedSource: ExecutionJob = {
@@ -597,12 +746,21 @@ export async function startExecutionApiServer(
           spell_id: existing.spell_id,
           version: existing.version,
           require_signature: existing.require_signature,
-          status: "queued",
+          status: retryButton?.approval ? "awaiting_approval" : "queued",
           tenant_id: existing.tenant_id,
           actor_role: existing.actor_role,
           created_at: queuedAt,
           request: cloneExecutionRequestSnapshot(existing.request),
-          retry_of: existing.execution_id
+          retry_of: existing.execution_id,
+          resume_from: retryMode === "resume" ? existing.runtime_execution_id : undefined,
+          policy: retryPolicyRecord ?? undefined,
+          approval: retryButton?.approval
+            ? makeExecutionApproval(
+                retryButton.approval,
+                (authContext.ok ? authContext.actorId : undefined) ?? ANONYMOUS_ACTOR_ID,
+                queuedAt
+              )
+            : undefined
         };
 
         jobs.set(existing.execution_id, retriedSource);
@@ -613,7 +771,173 @@ export async function startExecutionApiServer(
           execution_id: retryJob.execution_id,
           tenant_id: retryJob.tenant_id,
           status: retryJob.status,
-          retry_of: retryJob.retry_of
+          retry_of: retryJob.retry_of,
+          resume_from: retryJob.resume_from
+        });
+      }
+
+      const approvalRoute = /^\/spell-executions\/([^/]+)\/(approve|reject)$/.exec(route);
+      if (method === "POST" && approvalRoute) {
+        const executionId = approvalRoute[1] ? approvalRoute[1].trim() : "";
+        const decision = approvalRoute[2] as ApprovalDecision;
+        if (!executionId || !/^[a-zA-Z0-9_.-]+$/.test(executionId)) {
+          return sendJson(res, 400, { ok: false, error_code: "INVALID_EXECUTION_ID", message: "invalid execution id" });
+        }
+
+        const existing = jobs.get(executionId);
+        if (!existing) {
+          return sendJson(res, 404, { ok: false, error_code: "EXECUTION_NOT_FOUND", message: "execution not found" });
+        }
+
+        if (authKeys.length > 0 && authContext.ok && authContext.role !== "admin" && authContext.tenantId !== existing.tenant_id) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "TENANT_FORBIDDEN",
+            message: `tenant approval denied: ${existing.tenant_id}`
+          });
+        }
+
+        if (existing.status !== "awaiting_approval" || !existing.approval) {
+          return sendJson(res, 409, {
+            ok: false,
+            error_code: "NOT_AWAITING_APPROVAL",
+            message: `execution is not awaiting approval: ${existing.status}`
+          });
+        }
+
+        let parsedDecision: ApprovalDecisionRequest;
+        try {
+          parsedDecision = parseApprovalDecisionRequest(await readJsonBody(req, bodyLimit));
+        } catch (error) {
+          return sendJson(res, 400, { ok: false, error_code: "BAD_REQUEST", message: (error as Error).message });
+        }
+
+        // Approval is a security decision, so unlike submission the role never comes from the body or x-role.
+        const approverRole = authContext.ok ? authContext.role : undefined;
+        if (!approverRole) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "APPROVER_ROLE_REQUIRED",
+            message: "approval requires an API key with a bound role (SPELL_API_AUTH_KEYS)"
+          });
+        }
+        const approverId = (authContext.ok ? authContext.actorId : undefined) ?? ANONYMOUS_ACTOR_ID;
+        if (!existing.approval.approver_roles.includes(approverRole)) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "APPROVER_ROLE_NOT_ALLOWED",
+            message: `approver role not allowed: ${approverRole}`
+          });
+        }
+
+        if (approverId === existing.approval.requested_by) {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "SELF_APPROVAL_FORBIDDEN",
+            message: "approver must differ from the requester"
+          });
+        }
+
+        if (existing.approval.decisions.some((entry) => entry.actor_id === approverId)) {
+          return sendJson(res, 409, {
+            ok: false,
+            error_code: "ALREADY_DECIDED",
+            message: "approver has already decided on this execution"
+          });
+        }
+
+        const completesApproval =
+          decision === "approve" && countApprovals(existing.approval) + 1 >= existing.approval.required_approvals;
+
+        // Policies and schedule windows may have changed while the job was held, so the approval that queues it
+        // evaluates them again; a denial cancels the job and keeps the new trace on it.
+        let approvedPolicyRecord: ExecutionPolicyRecord | null = null;
+        if (completesApproval) {
+          const button = registry.buttons.find((entry) => entry.button_id === existing.button_id);
+          approvedPolicyRecord = await evaluateExecutionPolicy(
+            tenantPolicyDir,
+            existing.tenant_id,
+            button ?? { button_id: existing.button_id, spell_id: existing.spell_id, version: existing.version }
+          );
+          if (jobs.get(executionId) !== existing) {
+            return sendJson(res, 409, {
+              ok: false,
+              error_code: "APPROVAL_CONFLICT",
+              message: "execution changed while the approval was processed; retry the decision"
+            });
+          }
+
+          // Held jobs are not in-flight, so the approval that queues one must respect the concurrency limits.
+          // A limited approval is not recorded; the approver retries once a slot frees.
+          if (!approvedPolicyRecord || approvedPolicyRecord.allow) {
+            const limitError = checkConcurrencyLimits(existing.tenant_id);
+            if (limitError) {
+              return sendJson(res, limitError.statusCode, limitError.payload);
+            }
+          }
+        }
+
+        const decidedAt = new Date().toISOString();
+        const decisionRecord: ExecutionApprovalDecision = {
+          decision,
+          actor_id: approverId,
+          actor_role: approverRole,
+          decided_at: decidedAt,
+          comment: parsedDecision.comment
+        };
+        const approval: ExecutionApproval = {
+          ...existing.approval,
+          decisions: [...existing.approval.decisions, decisionRecord]
+        };
+        const approvals = countApprovals(approval);
+
+        let updated: ExecutionJob = { ...existing, approval };
+        if (decision === "reject") {
+          updated = {
+            ...updated,
+            status: "canceled",
+            finished_at: decidedAt,
+            error_code: "APPROVAL_REJECTED",
+            message: `execution rejected by approver role ${approverRole}`
+          };
+        } else if (approvedPolicyRecord && !approvedPolicyRecord.allow) {
+          updated = {
+            ...updated,
+            status: "canceled",
+            finished_at: decidedAt,
+            error_code: "POLICY_DENIED",
+            message: `policy denied: ${approvedPolicyRecord.reason}`,
+            policy: approvedPolicyRecord
+          };
+        } else if (completesApproval) {
+          updated = { ...updated, status: "queued", policy: approvedPolicyRecord ?? undefined };
+        }
+
+        jobs.set(executionId, updated);
+        await persistJobs();
+        await appendTenantAudit(updated, decisionRecord).catch(() => undefined);
+        if (updated.status === "queued") {
+          startJobRunner(updated);
+        }
+
+        if (updated.error_code === "POLICY_DENIED") {
+          return sendJson(res, 403, {
+            ok: false,
+            error_code: "POLICY_DENIED",
+            message: updated.message,
+            execution_id: updated.execution_id,
+            status: updated.status,
+            policy: updated.policy
+          });
+        }
+
+        return sendJson(res, 200, {
+          ok: true,
+          execution_id: updated.execution_id,
+          tenant_id: updated.tenant_id,
+          status: updated.status,
+          approvals,
+          required_approvals: approval.required_approvals
         });
       }
 
@@ -631,7 +955,8 @@ export async function startExecutionApiServer(
             required_confirmations: button.required_confirmations,
             require_signature: forceRequireSignature || button.require_signature === true,
             allowed_roles: button.allowed_roles,
-            allowed_tenants: button.allowed_tenants ?? null
+            allowed_tenants: button.allowed_tenants ?? null,
+            approval: button.approval ?? null
           }))
         });
       }
@@ -933,7 +1258,17 @@ export async function startExecutionApiServer(
           return true;
         };
 
+        let stepEventCursor = 0;
+        const emitStepEvents = (): void => {
+          const stepEvents = stepEventsByExecutionId.get(executionId) ?? [];
+          while (stepEventCursor < stepEvents.length) {
+            writeEvent("step", { execution_id: executionId, ...stepEvents[stepEventCursor] });
+            stepEventCursor += 1;
+          }
+        };
+
         const emitTerminalAndClose = (job: ExecutionJob): void => {
+          emitStepEvents();
           const snapshot = readSnapshot(job);
           writeEvent("terminal", snapshot);
           closeStream();
@@ -973,6 +1308,7 @@ export async function startExecutionApiServer(
             closeStream();
             return;
           }
+          emitStepEvents();
           emitIfChanged("execution", latest);
           if (isTerminalJobStatus(latest.status)) {
             emitTerminalAndClose(latest);
@@ -1045,8 +1381,10 @@ async function runJob(
   confirmations: { risk: boolean; billing: boolean },
   requireSignature: boolean,
   executionTimeoutMs: number,
+  executeCast: CastExecutor,
   jobs: Map<string, ExecutionJob>,
   runtimeStateByExecutionId: Map<string, ExecutionRuntimeState>,
+  stepEventsByExecutionId: Map<string, Record<string, unknown>[]>,
   persistJobs: () => Promise<void>,
   appendTenantAudit: (job: ExecutionJob) => Promise<void>,
   retention: {
@@ -1055,28 +1393,23 @@ async function runJob(
     logMaxFiles: number;
   }
 ): Promise<void> {
-  const cliPath = path.resolve(process.cwd(), "dist", "cli", "index.js");
-  const tempDir = await mkdtemp(path.join(tmpdir(), "spell-exec-api-"));
-  const inputPath = path.join(tempDir, "input.json");
   const runtimeState = runtimeStateByExecutionId.get(job.execution_id) ?? {
     cancelRequested: false,
-    child: null
+    abortController: null
   };
   runtimeStateByExecutionId.set(job.execution_id, runtimeState);
 
-  try {
-    await writeFile(inputPath, JSON.stringify(input), "utf8");
-
-    const args = [cliPath, "cast", job.spell_id, "--version", job.version, "--input", inputPath];
-    if (dryRun) args.push("--dry-run");
-    if (confirmations.risk) args.push("--yes");
-    if (confirmations.billing) args.push("--allow-billing");
-    if (requireSignature) {
-      args.push("--require-signature");
-    } else {
-      args.push("--allow-unsigned");
+  const stepEvents: Record<string, unknown>[] = [];
+  stepEventsByExecutionId.set(job.execution_id, stepEvents);
+  // Step events stay replayable after the job ends; only the most recent executions are kept.
+  for (const bufferedExecutionId of stepEventsByExecutionId.keys()) {
+    if (stepEventsByExecutionId.size <= MAX_STEP_EVENT_BUFFERS) {
+      break;
     }
+    stepEventsByExecutionId.delete(bufferedExecutionId);
+  }
 
+  try {
     if (isCancellationRequested(jobs, runtimeStateByExecutionId, job.execution_id)) {
       return;
     }
@@ -1094,53 +1427,45 @@ async function runJob(
       return;
     }
 
-    const child = spawn(process.execPath, args, {
-      shell: false,
-      cwd: process.cwd(),
-      env: process.env
-    });
-    runtimeState.child = child;
-    if (runtimeState.cancelRequested) {
-      child.kill("SIGTERM");
-    }
+    const abortController = new AbortController();
+    runtimeState.abortController = abortController;
 
-    let stdout = "";
-    let stderr = "";
     let timeoutHit = false;
-
-    child.stdout.on("data", (chunk) => {
-      stdout += chunk.toString();
-    });
-
-    child.stderr.on("data", (chunk) => {
-      stderr += chunk.toString();
-    });
-
     const timer = setTimeout(() => {
       timeoutHit = true;
-      child.kill("SIGTERM");
+      abortController.abort(new SpellError(`execution exceeded timeout ${executionTimeoutMs}ms`, "EXECUTION_TIMEOUT"));
     }, executionTimeoutMs);
 
-    const exitCode = await new Promise<number | null>((resolve, reject) => {
-      child.once("error", reject);
-      child.once("close", resolve);
-    }).catch(() => -1);
-
-    clearTimeout(timer);
-    runtimeState.child = null;
-
-    let runtimeExecutionId = findLineValue(stdout, "execution_id:");
-    let runtimeLogPath = findLineValue(stdout, "log:");
-    if (!runtimeLogPath) {
-      const inferred = await inferRuntimeLogFromDisk(retention.logsDirectory, job, running.started_at ?? job.created_at);
-      if (inferred) {
-        runtimeLogPath = inferred.path;
-        if (!runtimeExecutionId && inferred.executionId) {
-          runtimeExecutionId = inferred.executionId;
+    let outcome: CastExecutionOutcome;
+    try {
+      outcome = await executeCast(
+        {
+          id: job.spell_id,
+          version: job.version,
+          input,
+          paramPairs: [],
+          dryRun,
+          yes: confirmations.risk,
+          allowBilling: confirmations.billing,
+          requireSignature,
+          verbose: false,
+          resume: job.resume_from
+        },
+        abortController.signal,
+        (event) => {
+          if (stepEvents.length < MAX_STEP_EVENTS_PER_EXECUTION) {
+            stepEvents.push(redactSecrets({ ...event }));
+          }
         }
-      }
+      );
+    } finally {
+      clearTimeout(timer);
+      runtimeState.abortController = null;
     }
 
+    const runtimeExecutionId = outcome.ok ? outcome.result.executionId : outcome.executionId;
+    const runtimeLogPath = outcome.ok ? outcome.result.logPath : outcome.logPath;
+
     let receipt: Record<string, unknown> | undefined;
     if (runtimeLogPath) {
       receipt = await loadSanitizedReceipt(runtimeLogPath).catch(() => undefined);
@@ -1178,7 +1503,7 @@ async function runJob(
       return;
     }
 
-    if (exitCode === 0) {
+    if (outcome.ok) {
       const succeeded: ExecutionJob = {
         ...finishedBase,
         status: "succeeded",
@@ -1191,29 +1516,28 @@ async function runJob(
       return;
     }
 
-    const mapped = mapRuntimeError(stderr || stdout);
     const rollbackAssessment = assessRollbackFromReceipt(receipt);
-    const effectiveMapped = rollbackAssessment.manualRecoveryRequired
-      ? {
-          code: "COMPENSATION_INCOMPLETE",
-          message: `manual recovery required: compensation state=${rollbackAssessment.state ?? "unknown"}`
-        }
-      : mapped;
-    const status: JobStatus = effectiveMapped.code === "EXECUTION_TIMEOUT" ? "timeout" : "failed";
+    const mapped =
+      rollbackAssessment.manualRecoveryRequired || outcome.code === "COMPENSATION_INCOMPLETE"
+        ? {
+            code: "COMPENSATION_INCOMPLETE",
+            message: `manual recovery required: compensation state=${rollbackAssessment.state ?? "unknown"}`
+          }
+        : { code: outcome.code, message: CAST_FAILURE_MESSAGES[outcome.code] ?? outcome.message };
+    const status: JobStatus = mapped.code === "EXECUTION_TIMEOUT" ? "timeout" : "failed";
     const failed: ExecutionJob = {
       ...finishedBase,
       status,
-      error_code: effectiveMapped.code,
-      message: effectiveMapped.message
+      error_code: mapped.code,
+      message: mapped.message
     };
     jobs.set(job.execution_id, failed);
     await persistJobs();
     await appendTenantAudit(failed).catch(() => undefined);
     await applyLogRetentionAndPersist(retention, jobs, persistJobs);
   } finally {
-    runtimeState.child = null;
+    runtimeState.abortController = null;
     runtimeStateByExecutionId.delete(job.execution_id);
-    await rm(tempDir, { recursive: true, force: true });
   }
 }
 
@@ -1234,7 +1558,10 @@ function summarizeJob(job: ExecutionJob): Record<string, unknown> {
     message: job.message,
     runtime_execution_id: job.runtime_execution_id,
     retry_of: job.retry_of,
-    retried_by: job.retried_by
+    retried_by: job.retried_by,
+    resume_from: job.resume_from,
+    policy: job.policy,
+    approval: job.approval
   };
 }
 
@@ -1304,49 +1631,6 @@ async function readOutputValueFromRuntimeLog(runtimeLogPath: string, outputRef:
   return value;
 }
 
-function mapRuntimeError(raw: string): { code: string; message: string } {
-  const compensation = /manual recovery required: compensation state=([a-z_]+)/.exec(raw);
-  if (compensation) {
-    return {
-      code: "COMPENSATION_INCOMPLETE",
-      message: `manual recovery required: compensation state=${compensation[1]}`
-    };
-  }
-
-  const executionTimeout = /cast execution timed out after \d+ms(?: while running step '[^']+')?/.exec(raw);
-  if (executionTimeout) {
-    return { code: "EXECUTION_TIMEOUT", message: executionTimeout[0] };
-  }
-  const stepTimeout = /shell step '[^']+' timed out after \d+ms/.exec(raw);
-  if (stepTimeout) {
-    return { code: "STEP_TIMEOUT", message: stepTimeout[0] };
-  }
-  const inputTooLarge = /merged input is \d+ bytes, exceeds SPELL_RUNTIME_INPUT_MAX_BYTES=\d+/.exec(raw);
-  if (inputTooLarge) {
-    return { code: "INPUT_TOO_LARGE", message: inputTooLarge[0] };
-  }
-  if (/signature required:/.test(raw)) {
-    return { code: "SIGNATURE_REQUIRED", message: "signature required" };
-  }
-  if (/risk .* requires --yes/.test(raw)) {
-    return { code: "RISK_CONFIRMATION_REQUIRED", message: "risk confirmation required" };
-  }
-  if (/billing enabled requires --allow-billing/.test(raw)) {
-    return { code: "BILLING_CONFIRMATION_REQUIRED", message: "billing confirmation required" };
-  }
-  if (/missing connector token/.test(raw)) {
-    return { code: "CONNECTOR_TOKEN_MISSING", message: "connector token missing" };
-  }
-  if (/platform mismatch:/.test(raw)) {
-    return { code: "PLATFORM_UNSUPPORTED", message: "platform unsupported" };
-  }
-  if (/input does not match schema/.test(raw)) {
-    return { code: "INPUT_SCHEMA_INVALID", message: "input schema invalid" };
-  }
-
-  return { code: "EXECUTION_FAILED", message: "execution failed" };
-}
-
 function sanitizeRollbackSummary(raw: unknown): Record<string, unknown> | undefined {
   if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
     return undefined;
@@ -1384,71 +1668,6 @@ function assessRollbackFromReceipt(receipt: Record<string, unknown> | undefined)
   };
 }
 
-function findLineValue(stdout: string, prefix: string): string | undefined {
-  const lines = stdout.split(/\r?\n/);
-  for (const line of lines) {
-    if (line.startsWith(prefix)) {
-      return line.slice(prefix.length).trim();
-    }
-  }
-  return undefined;
-}
-
-async function inferRuntimeLogFromDisk(
-  logsDirectory: string,
-  job: ExecutionJob,
-  startedAtIso: string
-): Promise<{ path: string; executionId?: string } | null> {
-  const startedAtMs = Date.parse(startedAtIso);
-  const candidates = await readdir(logsDirectory).catch(() => []);
-
-  for (const name of candidates.sort().reverse()) {
-    if (!name.endsWith(".json") || name === "index.json") {
-      continue;
-    }
-
-    const candidatePath = path.join(logsDirectory, name);
-
-    let statInfo: Awaited<ReturnType<typeof stat>> | undefined;
-    try {
-      statInfo = await stat(candidatePath);
-    } catch {
-      continue;
-    }
-    if (!statInfo.isFile()) {
-      continue;
-    }
-
-    if (Number.isFinite(startedAtMs) && statInfo.mtimeMs + 1000 < startedAtMs) {
-      continue;
-    }
-
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(await readFile(candidatePath, "utf8"));
-    } catch {
-      continue;
-    }
-
-    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-      continue;
-    }
-
-    const log = parsed as Record<string, unknown>;
-    if (log.id !== job.spell_id || log.version !== job.version) {
-      continue;
-    }
-
-    const executionId = typeof log.execution_id === "string" ? log.execution_id : undefined;
-    return {
-      path: candidatePath,
-      executionId
-    };
-  }
-
-  return null;
-}
-
 function parseIdempotencyKey(
   headerValue: string | string[] | undefined
 ): { ok: true; key: string | null } | { ok: false; message: string } {
@@ -1530,6 +1749,65 @@ function canonicalizeForFingerprint(value: unknown): unknown {
   return value;
 }
 
+function parseRetryRequest(payload: unknown): RetryMode {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new Error("request body must be an object");
+  }
+
+  const obj = payload as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    if (key !== "mode") {
+      throw new Error(`unsupported field in request body: ${key}`);
+    }
+  }
+
+  const mode = obj.mode ?? "recast";
+  if (mode !== "recast" && mode !== "resume") {
+    throw new Error("mode must be recast or resume");
+  }
+
+  return mode;
+}
+
+interface ApprovalDecisionRequest {
+  comment?: string;
+}
+
+function parseApprovalDecisionRequest(payload: unknown): ApprovalDecisionRequest {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new Error("request body must be an object");
+  }
+
+  const obj = payload as Record<string, unknown>;
+  for (const key of Object.keys(obj)) {
+    if (key !== "comment") {
+      throw new Error(`unsupported field in request body: ${key}`);
+    }
+  }
+
+  if (obj.comment !== undefined && typeof obj.comment !== "string") {
+    throw new Error("comment must be a string");
+  }
+
+  return {
+    comment: obj.comment === undefined || obj.comment.trim() === "" ? undefined : obj.comment.trim()
+  };
+}
+
+function makeExecutionApproval(approval: ButtonApproval, requestedBy: string, createdAt: string): ExecutionApproval {
+  return {
+    approver_roles: [...approval.approver_roles],
+    required_approvals: approval.required_approvals,
+    expires_at: new Date(Date.parse(createdAt) + approval.expires_in_seconds * 1000).toISOString(),
+    requested_by: requestedBy,
+    decisions: []
+  };
+}
+
+function countApprovals(approval: ExecutionApproval): number {
+  return approval.decisions.filter((entry) => entry.decision === "approve").length;
+}
+
 function parseCreateExecutionRequest(payload: unknown): CreateExecutionRequest {
   if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
     throw new Error("request body must be an object");
@@ -1828,6 +2106,7 @@ function parseTimeFilter(raw: string | null, label: string): number | null {
 
 function isJobStatus(value: string): value is JobStatus {
   return (
+    value === "awaiting_approval" ||
     value === "queued" ||
     value === "running" ||
     value === "succeeded" ||
@@ -1871,7 +2150,7 @@ function authorizeRequest(
   if (authKeys.length > 0) {
     for (const key of authKeys) {
       if (secureTokenEquals(key.token, token)) {
-        return { ok: true, tenantId: key.tenantId, role: key.role };
+        return { ok: true, tenantId: key.tenantId, role: key.role, actorId: actorIdForToken(token) };
       }
     }
 
@@ -1880,13 +2159,18 @@ function authorizeRequest(
 
   for (const expectedToken of authTokens) {
     if (secureTokenEquals(expectedToken, token)) {
-      return { ok: true, tenantId: DEFAULT_TENANT_ID };
+      return { ok: true, tenantId: DEFAULT_TENANT_ID, actorId: actorIdForToken(token) };
     }
   }
 
   return { ok: false, errorCode: "AUTH_INVALID", message: "invalid authorization token" };
 }
 
+// Approvals tell callers apart by the token they present; the digest identifies it without exposing it.
+function actorIdForToken(token: string): string {
+  return `key_${createHash("sha256").update(token).digest("hex").slice(0, 12)}`;
+}
+
 function parseAuthKeys(entries: string[]): ApiAuthKey[] {
   const out: ApiAuthKey[] = [];
   const seenTokens = new Set<string>();
@@ -2035,7 +2319,8 @@ async function loadExecutionJobsIndex(filePath: string): Promise<Map<string, Exe
       require_signature: Boolean(partial.require_signature),
       request,
       retry_of: typeof partial.retry_of === "string" ? partial.retry_of : undefined,
-      retried_by: typeof partial.retried_by === "string" ? partial.retried_by : undefined
+      retried_by: typeof partial.retried_by === "string" ? partial.retried_by : undefined,
+      resume_from: typeof partial.resume_from === "string" ? partial.resume_from : undefined
     });
   }
 
@@ -2243,6 +2528,7 @@ function isExecutionJob(value: unknown): value is ExecutionJob {
     (obj.request === undefined || isExecutionRequestSnapshot(obj.request)) &&
     (obj.retry_of === undefined || typeof obj.retry_of === "string") &&
     (obj.retried_by === undefined || typeof obj.retried_by === "string") &&
+    (obj.resume_from === undefined || typeof obj.resume_from === "string") &&
     isJobStatus(obj.status)
   );
 }
@@ -2329,7 +2615,7 @@ function summarizeTenantUsage(
   };
 }
 
-function makeTenantAuditEvent(job: ExecutionJob): Record<string, unknown> {
+function makeTenantAuditEvent(job: ExecutionJob, decision?: ExecutionApprovalDecision): Record<string, unknown> {
   return {
     ts: new Date().toISOString(),
     tenant_id: job.tenant_id,
@@ -2337,7 +2623,15 @@ function makeTenantAuditEvent(job: ExecutionJob): Record<string, unknown> {
     button_id: job.button_id,
     status: job.status,
     actor_role: job.actor_role,
-    ...(job.error_code ? { error_code: job.error_code } : {})
+    ...(job.error_code ? { error_code: job.error_code } : {}),
+    ...(decision
+      ? {
+          approval_decision: decision.decision,
+          approver_id: decision.actor_id,
+          approver_role: decision.actor_role,
+          ...(decision.comment ? { approval_comment: decision.comment } : {})
+        }
+      : {})
   };
 }
 
@@ -82,7 +82,7 @@ export function renderReceiptsHtml(): string {
     .status { font-weight: 700; }
     .status.succeeded { color: var(--ok); }
     .status.failed, .status.timeout, .status.canceled { color: var(--err); }
-    .status.running, .status.queued { color: var(--warn); }
+    .status.running, .status.queued, .status.awaiting_approval { color: var(--warn); }
     .pill {
       display: inline-block;
       border: 1px solid var(--border);
@@ -101,6 +101,17 @@ export function renderReceiptsHtml(): string {
       font-size: 12px;
       margin: 0;
     }
+    .timeline {
+      list-style: none;
+      margin: 0 0 10px;
+      padding: 0;
+      font-family: "JetBrains Mono", monospace;
+      font-size: 12px;
+    }
+    .timeline li { border-left: 2px solid var(--border); padding: 2px 0 2px 8px; }
+    .timeline li.ok { border-left-color: var(--ok); }
+    .timeline li.err { border-left-color: var(--err); }
+    .timeline li.warn { border-left-color: var(--warn); }
     .full { grid-column: 1 / -1; }
     @media (max-width: 960px) {
       .container { grid-template-columns: 1fr; }
@@ -122,6 +133,12 @@ export function renderReceiptsHtml(): string {
       </div>
     </section>
 
+    <section class="panel full" id="approvalsPanel">
+      <h2>Pending Approvals</h2>
+      <div class="hint">Executions awaiting approval. The requester cannot approve or reject their own execution.</div>
+      <div id="approvals"></div>
+    </section>
+
     <section class="panel" id="buttonsPanel">
       <h2>Buttons</h2>
       <div class="hint">Generated from /api/buttons.</div>
@@ -130,12 +147,13 @@ export function renderReceiptsHtml(): string {
 
     <section class="panel" id="executionsPanel">
       <h2>Executions</h2>
-      <div class="hint">Shows queued/running/succeeded/failed/timeout/canceled, with API filters.</div>
+      <div class="hint">Shows awaiting_approval/queued/running/succeeded/failed/timeout/canceled, with API filters.</div>
       <div class="row" style="margin-bottom:10px">
         <div style="width:200px">
           <label>status filter</label>
           <select id="executionStatus" style="width:100%;background:#0b1220;border:1px solid var(--border);color:var(--text);border-radius:8px;padding:8px">
             <option value="">all</option>
+            <option value="awaiting_approval">awaiting_approval</option>
             <option value="queued">queued</option>
             <option value="running">running</option>
             <option value="succeeded">succeeded</option>
@@ -218,6 +236,8 @@ export function renderReceiptsHtml(): string {
       <h2>Execution Detail</h2>
       <div class="hint">Sanitized receipt only. Raw stdout/stderr is not exposed.</div>
       <div class="hint" id="executionLinks">Retry links: none</div>
+      <div class="hint">Step timeline (live while running)</div>
+      <ol class="timeline" id="stepTimeline"></ol>
       <pre id="executionDetail">{}</pre>
     </section>
   </div>
@@ -231,8 +251,10 @@ export function renderReceiptsClientJs(): string {
     "const state = {",
     "  buttons: [],",
     "  executions: [],",
+    "  approvals: [],",
     "  selectedButton: null,",
-    "  selectedExecutionId: null",
+    "  selectedExecutionId: null,",
+    "  stepTimeline: { executionId: null, entries: [] }",
     "};",
     "let executionStreamController = null;",
     "let executionStreamExecutionId = null;",
@@ -242,6 +264,7 @@ export function renderReceiptsClientJs(): string {
     "const el = {",
     '  buttons: document.getElementById("buttons"),',
     '  executions: document.getElementById("executions"),',
+    '  approvals: document.getElementById("approvals"),',
     '  buttonId: document.getElementById("buttonId"),',
     '  actorRole: document.getElementById("actorRole"),',
     '  dryRun: document.getElementById("dryRun"),',
@@ -252,6 +275,7 @@ export function renderReceiptsClientJs(): string {
     '  lastResponse: document.getElementById("lastResponse"),',
     '  executionDetail: document.getElementById("executionDetail"),',
     '  executionLinks: document.getElementById("executionLinks"),',
+    '  stepTimeline: document.getElementById("stepTimeline"),',
     '  guardHint: document.getElementById("guardHint"),',
     '  roleHint: document.getElementById("roleHint"),',
     '  tenantHint: document.getElementById("tenantHint"),',
@@ -275,7 +299,7 @@ export function renderReceiptsClientJs(): string {
     "el.executionTenantId.addEventListener('change', loadExecutions);",
     "el.executionFrom.addEventListener('change', loadExecutions);",
     "el.executionTo.addEventListener('change', loadExecutions);",
-    "el.apiToken.addEventListener('change', () => { stopExecutionStream(); stopListStream(); loadButtons(); loadExecutions(); });",
+    "el.apiToken.addEventListener('change', () => { stopExecutionStream(); stopListStream(); loadButtons(); loadExecutions(); loadApprovals(); });",
     "el.runForm.addEventListener('submit', submitExecution);",
     "",
     "async function loadButtons() {",
@@ -531,7 +555,7 @@ export function renderReceiptsClientJs(): string {
     "}",
     "",
     "function canCancelExecution(status) {",
-    "  return status === 'queued' || status === 'running';",
+    "  return status === 'awaiting_approval' || status === 'queued' || status === 'running';",
     "}",
     "",
     "function canRetryExecution(status) {",
@@ -564,10 +588,70 @@ export function renderReceiptsClientJs(): string {
     "  await loadExecutions();",
     "}",
     "",
+    "async function loadApprovals() {",
+    "  const res = await fetch('/api/spell-executions?status=awaiting_approval&limit=100', { headers: makeApiHeaders(false) });",
+    "  const payload = await res.json();",
+    "  state.approvals = payload.ok ? payload.executions || [] : [];",
+    "  renderApprovals();",
+    "}",
+    "",
+    "function renderApprovals() {",
+    "  el.approvals.innerHTML = '';",
+    "  if (state.approvals.length === 0) {",
+    "    el.approvals.textContent = 'No pending approvals';",
+    "    return;",
+    "  }",
+    "",
+    "  for (const execution of state.approvals) {",
+    "    const approval = execution.approval || {};",
+    "    const approvals = (approval.decisions || []).filter((entry) => entry.decision === 'approve').length;",
+    "    const card = document.createElement('div');",
+    "    card.className = 'card';",
+    "    card.innerHTML = [",
+    "      '<div class=\"status awaiting_approval\">' + escapeHtml(approvals) + '/' + escapeHtml(approval.required_approvals || '-') + ' approvals</div>',",
+    "      '<div class=\"hint\">' + escapeHtml(execution.execution_id) + ' | tenant: ' + escapeHtml(execution.tenant_id) + '</div>',",
+    "      '<div class=\"hint\">' + escapeHtml(execution.button_id) + ' -> ' + escapeHtml(execution.spell_id) + '@' + escapeHtml(execution.version) + '</div>',",
+    "      '<div class=\"hint\">requested by ' + escapeHtml(execution.actor_role) + ' (' + escapeHtml(approval.requested_by || '-') + ')</div>',",
+    "      '<div class=\"hint\">approver roles: ' + escapeHtml((approval.approver_roles || []).join(', ')) + ' | expires: ' + escapeHtml(approval.expires_at || '-') + '</div>',",
+    "      '<div>' +",
+    "        '<button data-approve-id=\"' + escapeHtml(execution.execution_id) + '\">Approve</button>' +",
+    "        ' <button class=\"secondary\" data-reject-id=\"' + escapeHtml(execution.execution_id) + '\">Reject</button>' +",
+    "      '</div>'",
+    "    ].join('');",
+    "    el.approvals.appendChild(card);",
+    "  }",
+    "",
+    "  for (const button of el.approvals.querySelectorAll('button[data-approve-id]')) {",
+    "    button.addEventListener('click', () => decideApproval(button.getAttribute('data-approve-id'), 'approve'));",
+    "  }",
+    "",
+    "  for (const button of el.approvals.querySelectorAll('button[data-reject-id]')) {",
+    "    button.addEventListener('click', () => decideApproval(button.getAttribute('data-reject-id'), 'reject'));",
+    "  }",
+    "}",
+    "",
+    "async function decideApproval(executionId, decision) {",
+    "  if (!executionId) return;",
+    "  const res = await fetch('/api/spell-executions/' + encodeURIComponent(executionId) + '/' + decision, {",
+    "    method: 'POST',",
+    "    headers: makeApiHeaders(true),",
+    "    body: JSON.stringify({})",
+    "  });",
+    "  const payload = await res.json();",
+    "  setLastResponse(payload);",
+    "  state.selectedExecutionId = executionId;",
+    "  await loadApprovals();",
+    "  await loadExecutions();",
+    "}",
+    "",
     "async function loadExecutionDetail(executionId) {",
     "  const res = await fetch('/api/spell-executions/' + encodeURIComponent(executionId), { headers: makeApiHeaders(false) });",
     "  const payload = await res.json();",
     "  state.selectedExecutionId = executionId;",
+    "  if (state.stepTimeline.executionId !== executionId) {",
+    "    state.stepTimeline = { executionId, entries: [] };",
+    "    renderStepTimeline();",
+    "  }",
     "  el.executionDetail.textContent = JSON.stringify(payload, null, 2);",
     "  renderExecutionLinks(payload.execution || {});",
     "  if (!payload.ok) {",
@@ -760,6 +844,10 @@ export function renderReceiptsClientJs(): string {
     "  if (!eventPayload || typeof eventPayload !== 'object') return;",
     "  const data = eventPayload.data;",
     "  if (!data || typeof data !== 'object') return;",
+    "  if (eventPayload.event === 'step') {",
+    "    appendStepTimelineEvent(data, expectedExecutionId);",
+    "    return;",
+    "  }",
     "  const execution = data.execution;",
     "  if (!execution || typeof execution !== 'object') return;",
     "  const executionId = String(execution.execution_id || '');",
@@ -782,6 +870,44 @@ export function renderReceiptsClientJs(): string {
     "  }",
     "}",
     "",
+    "function appendStepTimelineEvent(stepEvent, expectedExecutionId) {",
+    "  const executionId = String(stepEvent.execution_id || '');",
+    "  if (executionId === '' || executionId !== String(expectedExecutionId)) return;",
+    "  if (state.stepTimeline.executionId !== executionId) {",
+    "    state.stepTimeline = { executionId, entries: [] };",
+    "  }",
+    "  state.stepTimeline.entries.push(stepEvent);",
+    "  if (state.selectedExecutionId === executionId) {",
+    "    renderStepTimeline();",
+    "  }",
+    "}",
+    "",
+    "function renderStepTimeline() {",
+    "  el.stepTimeline.innerHTML = '';",
+    "  for (const entry of state.stepTimeline.entries) {",
+    "    const item = document.createElement('li');",
+    "    const type = String(entry.type || '');",
+    "    if (type === 'step_retry' || type === 'rollback_started') {",
+    "      item.className = 'warn';",
+    "    } else if (entry.success === true) {",
+    "      item.className = 'ok';",
+    "    } else if (entry.success === false) {",
+    "      item.className = 'err';",
+    "    }",
+    "    const time = String(entry.at || '').slice(11, 19);",
+    "    const subject = type === 'check_result' ? String(entry.check || '') : String(entry.step || '');",
+    "    const parts = [time, type, subject];",
+    "    if (type === 'step_retry') {",
+    "      parts.push('attempt ' + String(entry.attempt) + '/' + String(entry.max_attempts));",
+    "    }",
+    "    if (entry.message) {",
+    "      parts.push('- ' + String(entry.message));",
+    "    }",
+    "    item.textContent = parts.filter((part) => part !== '').join(' ');",
+    "    el.stepTimeline.appendChild(item);",
+    "  }",
+    "}",
+    "",
     "function applyExecutionListStreamEvent(eventPayload) {",
     "  if (!eventPayload || typeof eventPayload !== 'object') return;",
     "  if (eventPayload.event !== 'snapshot' && eventPayload.event !== 'executions') return;",
@@ -856,8 +982,9 @@ export function renderReceiptsClientJs(): string {
     "updateGuardHints();",
     "loadButtons();",
     "loadExecutions();",
+    "loadApprovals();",
     "window.addEventListener('beforeunload', () => { stopExecutionStream(); stopListStream(); });",
-    "setInterval(() => { if (!listStreamController) { loadExecutions(); } }, 5000);",
+    "setInterval(() => { loadApprovals(); if (!listStreamController) { loadExecutions(); } }, 5000);",
     ""
   ].join("\n");
 }
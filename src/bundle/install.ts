@@ -7,6 +7,7 @@ import {
   readFile,
   readdir,
   realpath,
+  rename,
   rm,
   stat,
   writeFile
@@ -14,9 +15,11 @@ import {
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { spawn } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import { toIdKey } from "../util/idKey";
 import { ensureSpellDirs, spellsRoot } from "../util/paths";
 import { SpellError } from "../util/errors";
+import { SpellBundleManifest } from "../types";
 import { loadManifestFromDir } from "./manifest";
 import { resolveRegistryInstallSource, type RegistryInstallSource } from "./registry";
 import { computeBundleDigest } from "../signature/bundleDigest";
@@ -30,6 +33,9 @@ export interface InstallResult {
 
 export interface InstallBundleOptions {
   registryName?: string;
+  reinstall?: boolean;
+  // Called with the verified source manifest before anything is written; throw to abort the install.
+  beforeInstall?: (manifest: SpellBundleManifest) => void | Promise<void>;
 }
 
 export async function installBundle(sourceInput: string, options: InstallBundleOptions = {}): Promise<InstallResult> {
@@ -42,7 +48,7 @@ export async function installBundle(sourceInput: string, options: InstallBundleO
     if (registrySource?.expectedDigest) {
       await verifyRegistryDigestPin(source.sourceRoot, registrySource.expectedDigest);
     }
-    return await installBundleFromSource(source.sourceRoot, source.provenance);
+    return await installBundleFromSource(source.sourceRoot, source.provenance, options);
   } finally {
     await source.cleanup();
   }
@@ -82,9 +88,14 @@ interface OciInstallProvenance {
   image: string;
 }
 
-async function installBundleFromSource(sourceRoot: string, provenance: InstallProvenance): Promise<InstallResult> {
+async function installBundleFromSource(
+  sourceRoot: string,
+  provenance: InstallProvenance,
+  options: InstallBundleOptions
+): Promise<InstallResult> {
   const { manifest, schemaPath } = await loadManifestFromDir(sourceRoot);
   const idKey = toIdKey(manifest.id);
+  await options.beforeInstall?.(manifest);
 
   await ensureSpellDirs();
 
@@ -105,12 +116,11 @@ async function installBundleFromSource(sourceRoot: string, provenance: InstallPr
     await writeFile(idFilePath, `${manifest.id}\n`, "utf8");
   }
 
-  if (await exists(targetVersionPath)) {
-    throw new SpellError(`already installed: ${manifest.id}@${manifest.version}`);
+  const versionExists = await exists(targetVersionPath);
+  if (versionExists && options.reinstall !== true) {
+    throw new SpellError(`already installed: ${manifest.id}@${manifest.version} (use --reinstall to replace it)`);
   }
 
-  await mkdir(targetVersionPath, { recursive: false });
-
   const srcManifestPath = path.join(sourceRoot, "spell.yaml");
   const srcSchemaPath = schemaPath;
   const srcStepsPath = path.join(sourceRoot, "steps");
@@ -120,26 +130,51 @@ async function installBundleFromSource(sourceRoot: string, provenance: InstallPr
   await assertPathWithinSource(sourceRoot, srcSchemaPath);
   await assertPathWithinSource(sourceRoot, srcStepsPath);
 
-  await copyFile(srcManifestPath, path.join(targetVersionPath, "spell.yaml"));
-  await copyFile(srcSchemaPath, path.join(targetVersionPath, "schema.json"));
+  // Build the version in a dot-prefixed staging dir (ignored by the store) and rename it into place,
+  // so a failed copy never leaves a partial version and --reinstall never exposes a half-replaced one.
+  const stagingPath = path.join(targetRoot, `.staging-${manifest.version}-${randomUUID().slice(0, 8)}`);
+  await mkdir(stagingPath, { recursive: false });
 
-  if (await exists(srcSigPath)) {
-    const info = await lstat(srcSigPath);
-    if (info.isSymbolicLink()) {
-      throw new SpellError(`symlink is not allowed: ${srcSigPath}`);
+  try {
+    await copyFile(srcManifestPath, path.join(stagingPath, "spell.yaml"));
+    await copyFile(srcSchemaPath, path.join(stagingPath, "schema.json"));
+
+    if (await exists(srcSigPath)) {
+      const info = await lstat(srcSigPath);
+      if (info.isSymbolicLink()) {
+        throw new SpellError(`symlink is not allowed: ${srcSigPath}`);
+      }
+
+      await assertPathWithinSource(sourceRoot, srcSigPath);
+      await copyFile(srcSigPath, path.join(stagingPath, "spell.sig.json"));
     }
 
-    await assertPathWithinSource(sourceRoot, srcSigPath);
-    await copyFile(srcSigPath, path.join(targetVersionPath, "spell.sig.json"));
-  }
+    const targetStepsPath = path.join(stagingPath, "steps");
+    await copyDirectorySafe(srcStepsPath, targetStepsPath, sourceRoot, "steps/");
+
+    for (const asset of manifest.assets ?? []) {
+      const srcAssetPath = path.join(sourceRoot, asset);
+      const targetAssetPath = path.join(stagingPath, asset);
+      await assertPathWithinSource(sourceRoot, srcAssetPath);
 
-  const targetStepsPath = path.join(targetVersionPath, "steps");
-  await copyDirectorySafe(srcStepsPath, targetStepsPath, sourceRoot);
+      if ((await lstat(srcAssetPath)).isDirectory()) {
+        await copyDirectorySafe(srcAssetPath, targetAssetPath, sourceRoot, "assets");
+      } else {
+        await mkdir(path.dirname(targetAssetPath), { recursive: true });
+        await copyFile(srcAssetPath, targetAssetPath);
+      }
+    }
 
-  await access(path.join(targetVersionPath, "spell.yaml"));
-  await access(path.join(targetVersionPath, "schema.json"));
-  await access(path.join(targetVersionPath, "steps"));
-  await writeSourceMetadata(targetVersionPath, provenance);
+    await access(path.join(stagingPath, "spell.yaml"));
+    await access(path.join(stagingPath, "schema.json"));
+    await access(path.join(stagingPath, "steps"));
+    await writeSourceMetadata(stagingPath, provenance);
+
+    await moveVersionIntoPlace(stagingPath, targetVersionPath, versionExists);
+  } catch (error) {
+    await rm(stagingPath, { recursive: true, force: true });
+    throw error;
+  }
 
   return {
     id: manifest.id,
@@ -297,6 +332,27 @@ async function cloneGitSource(source: string, expectedRegistryCommit?: string):
   }
 }
 
+// Resolves `<git-url>#<ref>` to the commit a clone of that ref would check out, without cloning.
+export async function resolveGitSourceCommit(source: string): Promise<string> {
+  const { gitUrl, ref } = parsePinnedGitSource(source);
+  const stdout = await runGitCommand(["ls-remote", gitUrl, ref], source, `failed to resolve git ref for '${source}'`);
+  const refs = new Map<string, string>();
+  for (const line of stdout.split("\n")) {
+    const [commit, name] = line.trim().split(/\s+/);
+    if (commit && name) {
+      refs.set(name, commit);
+    }
+  }
+
+  // Same preference as `git clone --branch`: a branch wins over a tag, and annotated tags resolve to their commit.
+  const commit =
+    refs.get(`refs/heads/${ref}`) ?? refs.get(`refs/tags/${ref}^{}`) ?? refs.get(`refs/tags/${ref}`);
+  if (!commit) {
+    throw new SpellError(`git ref not found for '${source}': ${ref}`);
+  }
+  return commit.toLowerCase();
+}
+
 function parsePinnedGitSource(source: string): { gitUrl: string; ref: string } {
   const hashIndex = source.lastIndexOf("#");
   if (hashIndex <= 0 || hashIndex === source.length - 1) {
@@ -435,6 +491,26 @@ async function runDockerCommand(args: string[], source: string, failureMessage:
   return stdout;
 }
 
+async function moveVersionIntoPlace(stagingPath: string, targetVersionPath: string, replace: boolean): Promise<void> {
+  if (!replace) {
+    await rename(stagingPath, targetVersionPath);
+    return;
+  }
+
+  const backupPath = path.join(
+    path.dirname(targetVersionPath),
+    `.replaced-${path.basename(targetVersionPath)}-${randomUUID().slice(0, 8)}`
+  );
+  await rename(targetVersionPath, backupPath);
+  try {
+    await rename(stagingPath, targetVersionPath);
+  } catch (error) {
+    await rename(backupPath, targetVersionPath);
+    throw error;
+  }
+  await rm(backupPath, { recursive: true, force: true });
+}
+
 async function writeSourceMetadata(targetVersionPath: string, provenance: InstallProvenance): Promise<void> {
   const payload = {
     ...provenance,
@@ -444,7 +520,12 @@ async function writeSourceMetadata(targetVersionPath: string, provenance: Instal
   await writeFile(path.join(targetVersionPath, "source.json"), `${JSON.stringify(payload, null, 2)}\n`, "utf8");
 }
 
-async function copyDirectorySafe(sourceDir: string, targetDir: string, sourceRoot: string): Promise<void> {
+async function copyDirectorySafe(
+  sourceDir: string,
+  targetDir: string,
+  sourceRoot: string,
+  label: string
+): Promise<void> {
   await mkdir(targetDir, { recursive: true });
   const entries = await readdir(sourceDir, { withFileTypes: true });
 
@@ -456,11 +537,11 @@ async function copyDirectorySafe(sourceDir: string, targetDir: string, sourceRoo
 
     const info = await lstat(srcPath);
     if (info.isSymbolicLink()) {
-      throw new SpellError(`symlink is not allowed in steps/: ${srcPath}`);
+      throw new SpellError(`symlink is not allowed in ${label}: ${srcPath}`);
     }
 
     if (info.isDirectory()) {
-      await copyDirectorySafe(srcPath, dstPath, sourceRoot);
+      await copyDirectorySafe(srcPath, dstPath, sourceRoot, label);
       continue;
     }
 
@@ -469,7 +550,7 @@ async function copyDirectorySafe(sourceDir: string, targetDir: string, sourceRoo
       continue;
     }
 
-    throw new SpellError(`unsupported file type in steps/: ${srcPath}`);
+    throw new SpellError(`unsupported file type in ${label}: ${srcPath}`);
   }
 }
 
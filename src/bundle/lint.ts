@@ -0,0 +1,364 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import Ajv2020, { type AnySchema } from "ajv/dist/2020";
+import { loadManifestFromDir, readManifestObject } from "./manifest";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintRule =
+  | "manifest"
+  | "depends-on-cycle"
+  | "when-output-upstream"
+  | "rollback-not-executable"
+  | "http-json"
+  | "template-token"
+  | "schema-compile"
+  | "mutating-effect-rollback";
+
+export interface LintFinding {
+  severity: LintSeverity;
+  rule: LintRule;
+  message: string;
+}
+
+export interface LintReport {
+  bundlePath: string;
+  findings: LintFinding[];
+  errors: number;
+  warnings: number;
+}
+
+// A lenient view of a raw step so deeper checks still run when the manifest itself does not load.
+interface LintStep {
+  name: string;
+  uses?: string;
+  run?: string;
+  rollback?: string;
+  dependsOn: string[];
+  when?: unknown;
+  forEach: boolean;
+  env: Record<string, unknown>;
+}
+
+const ajv = new Ajv2020({ allErrors: true, strict: false });
+const TEMPLATE_TOKEN_PATTERN = /{{([^{}]*)}}/g;
+const KNOWN_TOKEN_PATTERN = /^(INPUT|ENV|OUTPUT|ITEM|INDEX)(?:\.([A-Za-z0-9_.-]+))?$/;
+const OUTPUT_PATH_PATTERN = /^step\.([^.]+)\.(stdout|json)(?:\..+)?$/;
+
+export async function lintBundle(bundlePath: string): Promise<LintReport> {
+  const root = path.resolve(bundlePath);
+  const findings: LintFinding[] = [];
+
+  try {
+    await loadManifestFromDir(root);
+  } catch (error) {
+    findings.push({ severity: "error", rule: "manifest", message: (error as Error).message });
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = await readManifestObject(root);
+  } catch {
+    // Unreadable or unparsable spell.yaml is already reported by the manifest finding.
+    return buildReport(root, findings);
+  }
+
+  const steps = readLintSteps(raw["steps"]);
+  const inputProperties = await lintSchema(root, raw["inputs_schema"], findings);
+
+  findings.push(...findDependsOnCycles(steps));
+  findings.push(...findNonUpstreamConditions(steps));
+  findings.push(...(await findNonExecutableRollbacks(root, steps)));
+
+  for (const step of steps) {
+    for (const [key, value] of Object.entries(step.env)) {
+      findings.push(...lintTemplateTokens(value, `step '${step.name}' env.${key}`, step, inputProperties));
+    }
+
+    if (step.uses !== "http" || !step.run) {
+      continue;
+    }
+
+    let request: unknown;
+    try {
+      request = JSON.parse(await readFile(path.resolve(root, step.run), "utf8"));
+    } catch (error) {
+      findings.push({
+        severity: "error",
+        rule: "http-json",
+        message: `step '${step.name}' request ${step.run} is not valid JSON: ${(error as Error).message}`
+      });
+      continue;
+    }
+    findings.push(...lintTemplateTokens(request, `step '${step.name}' request ${step.run}`, step, inputProperties));
+  }
+
+  findings.push(...findMutatingEffectsWithoutRollback(raw["effects"], steps));
+  return buildReport(root, findings);
+}
+
+function buildReport(bundlePath: string, findings: LintFinding[]): LintReport {
+  return {
+    bundlePath,
+    findings,
+    errors: findings.filter((finding) => finding.severity === "error").length,
+    warnings: findings.filter((finding) => finding.severity === "warning").length
+  };
+}
+
+function readLintSteps(raw: unknown): LintStep[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const steps: LintStep[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      continue;
+    }
+    const obj = entry as Record<string, unknown>;
+    if (typeof obj.name !== "string" || !obj.name.trim()) {
+      continue;
+    }
+
+    steps.push({
+      name: obj.name,
+      uses: typeof obj.uses === "string" ? obj.uses : undefined,
+      run: typeof obj.run === "string" ? obj.run : undefined,
+      rollback: typeof obj.rollback === "string" ? obj.rollback : undefined,
+      dependsOn: Array.isArray(obj.depends_on)
+        ? obj.depends_on.filter((dep): dep is string => typeof dep === "string")
+        : [],
+      when: obj.when,
+      forEach: obj.for_each !== undefined,
+      env:
+        obj.env && typeof obj.env === "object" && !Array.isArray(obj.env) ? (obj.env as Record<string, unknown>) : {}
+    });
+  }
+  return steps;
+}
+
+async function lintSchema(
+  root: string,
+  inputsSchema: unknown,
+  findings: LintFinding[]
+): Promise<Set<string> | undefined> {
+  const schemaRel = typeof inputsSchema === "string" && inputsSchema.trim() ? inputsSchema : "./schema.json";
+
+  let schema: unknown;
+  try {
+    schema = JSON.parse(await readFile(path.resolve(root, schemaRel), "utf8"));
+  } catch (error) {
+    findings.push({
+      severity: "error",
+      rule: "schema-compile",
+      message: `${schemaRel} could not be read as JSON: ${(error as Error).message}`
+    });
+    return undefined;
+  }
+
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    findings.push({ severity: "error", rule: "schema-compile", message: `${schemaRel} must be a JSON object` });
+    return undefined;
+  }
+
+  try {
+    ajv.compile(schema as AnySchema);
+  } catch (error) {
+    findings.push({
+      severity: "error",
+      rule: "schema-compile",
+      message: `${schemaRel} does not compile: ${(error as Error).message}`
+    });
+    return undefined;
+  }
+
+  const properties = (schema as Record<string, unknown>).properties;
+  if (!properties || typeof properties !== "object" || Array.isArray(properties)) {
+    return undefined;
+  }
+  return new Set(Object.keys(properties));
+}
+
+function findDependsOnCycles(steps: LintStep[]): LintFinding[] {
+  const depsByName = new Map(steps.map((step) => [step.name, step.dependsOn]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const reported = new Set<string>();
+  const findings: LintFinding[] = [];
+
+  const visit = (name: string): void => {
+    state.set(name, "visiting");
+    stack.push(name);
+
+    for (const dep of depsByName.get(name) ?? []) {
+      if (!depsByName.has(dep)) {
+        continue;
+      }
+      if (state.get(dep) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(dep)), dep];
+        const key = [...new Set(cycle)].sort().join("\0");
+        if (!reported.has(key)) {
+          reported.add(key);
+          findings.push({
+            severity: "error",
+            rule: "depends-on-cycle",
+            message: `depends_on cycle never becomes runnable: ${cycle.join(" -> ")}`
+          });
+        }
+        continue;
+      }
+      if (state.get(dep) === undefined) {
+        visit(dep);
+      }
+    }
+
+    stack.pop();
+    state.set(name, "done");
+  };
+
+  for (const step of steps) {
+    if (state.get(step.name) === undefined) {
+      visit(step.name);
+    }
+  }
+  return findings;
+}
+
+function findNonUpstreamConditions(steps: LintStep[]): LintFinding[] {
+  const names = new Set(steps.map((step) => step.name));
+  const findings: LintFinding[] = [];
+
+  for (const step of steps) {
+    for (const outputPath of collectConditionOutputPaths(step.when)) {
+      const match = OUTPUT_PATH_PATTERN.exec(outputPath);
+      if (!match) {
+        continue;
+      }
+
+      const source = match[1];
+      if (!names.has(source)) {
+        findings.push({
+          severity: "error",
+          rule: "when-output-upstream",
+          message: `step '${step.name}' when.output_path ${outputPath} references unknown step '${source}'`
+        });
+      } else if (!step.dependsOn.includes(source)) {
+        findings.push({
+          severity: "error",
+          rule: "when-output-upstream",
+          message: `step '${step.name}' when.output_path ${outputPath} references step '${source}', which is not in its depends_on`
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+function collectConditionOutputPaths(condition: unknown): string[] {
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    return [];
+  }
+
+  const obj = condition as Record<string, unknown>;
+  const paths = typeof obj.output_path === "string" ? [obj.output_path.trim()] : [];
+  for (const key of ["all", "any"]) {
+    const nested = obj[key];
+    if (Array.isArray(nested)) {
+      paths.push(...nested.flatMap((entry) => collectConditionOutputPaths(entry)));
+    }
+  }
+  paths.push(...collectConditionOutputPaths(obj.not));
+  return paths;
+}
+
+async function findNonExecutableRollbacks(root: string, steps: LintStep[]): Promise<LintFinding[]> {
+  // Windows has no executable bit; rollbacks there are launched by interpreter association instead.
+  if (process.platform === "win32") {
+    return [];
+  }
+
+  const findings: LintFinding[] = [];
+  for (const step of steps) {
+    if (!step.rollback) {
+      continue;
+    }
+
+    const info = await stat(path.resolve(root, step.rollback)).catch(() => null);
+    if (info && info.isFile() && (info.mode & 0o111) === 0) {
+      findings.push({
+        severity: "error",
+        rule: "rollback-not-executable",
+        message: `step '${step.name}' rollback ${step.rollback} is not executable (chmod +x)`
+      });
+    }
+  }
+  return findings;
+}
+
+function lintTemplateTokens(
+  value: unknown,
+  label: string,
+  step: LintStep,
+  inputProperties: Set<string> | undefined
+): LintFinding[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => lintTemplateTokens(entry, label, step, inputProperties));
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap((entry) => lintTemplateTokens(entry, label, step, inputProperties));
+  }
+  if (typeof value !== "string") {
+    return [];
+  }
+
+  const findings: LintFinding[] = [];
+  const tokens = [...value.matchAll(TEMPLATE_TOKEN_PATTERN)];
+  const error = (message: string): void => {
+    findings.push({ severity: "error", rule: "template-token", message: `${label}: ${message}` });
+  };
+
+  if (value.split("{{").length - 1 !== tokens.length) {
+    error(`unterminated template token in '${value}'`);
+  }
+
+  for (const token of tokens) {
+    const inner = token[1].trim();
+    const match = KNOWN_TOKEN_PATTERN.exec(inner);
+    if (!match) {
+      error(`unresolved template token {{${inner}}}`);
+      continue;
+    }
+
+    const [, source, tokenPath] = match;
+    if ((source === "ITEM" || source === "INDEX") && !step.forEach) {
+      error(`{{${inner}}} is only available in for_each steps`);
+    } else if (source === "INDEX" && tokenPath !== undefined) {
+      error(`{{${inner}}} does not take a path`);
+    } else if ((source === "INPUT" || source === "ENV" || source === "OUTPUT") && tokenPath === undefined) {
+      error(`{{${inner}}} needs a path`);
+    } else if (source === "INPUT" && inputProperties && !inputProperties.has((tokenPath as string).split(".")[0])) {
+      findings.push({
+        severity: "warning",
+        rule: "template-token",
+        message: `${label}: {{${inner}}} is not declared in schema.json properties`
+      });
+    }
+  }
+  return findings;
+}
+
+function findMutatingEffectsWithoutRollback(rawEffects: unknown, steps: LintStep[]): LintFinding[] {
+  if (!Array.isArray(rawEffects) || steps.some((step) => step.rollback)) {
+    return [];
+  }
+
+  return rawEffects
+    .filter((effect): effect is Record<string, unknown> => !!effect && typeof effect === "object")
+    .filter((effect) => effect.mutates === true)
+    .map((effect) => ({
+      severity: "warning" as const,
+      rule: "mutating-effect-rollback" as const,
+      message: `effect ${String(effect.type)}:${String(effect.target)} mutates, but no step declares a rollback`
+    }));
+}
@@ -1,37 +1,31 @@
-import { access, readFile, stat } from "node:fs/promises";
+import { access, lstat, readFile, stat } from "node:fs/promises";
 import path from "node:path";
 import { load } from "js-yaml";
-import { SpellBundleManifest, SpellCheck, SpellStep, SpellStepCondition, SpellStepRetry } from "../types";
+import { SpellBundleManifest, SpellCheck, SpellStep, SpellStepCondition, SpellStepForEach, SpellStepRetry } from "../types";
 import { SpellError } from "../util/errors";
+import { collectOutputTemplateReferences, hasIterationTemplate } from "../util/template";
 
 const RISK_VALUES = new Set(["low", "medium", "high", "critical"]);
 const EXECUTION_VALUES = new Set(["host", "docker"]);
-const STEP_VALUES = new Set(["shell", "http"]);
+const STEP_VALUES = new Set(["shell", "http", "node"]);
+const NODE_STEP_EXTENSIONS = new Set([".js", ".mjs", ".cjs"]);
+const MAX_STEP_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ENV_PASSTHROUGH_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\*?$/;
+const CONDITION_COMBINATORS = ["all", "any", "not"] as const;
+const CONDITION_OPERATORS = ["equals", "not_equals", "in", "exists", "gt", "gte", "lt", "lte", "matches"];
+const CONDITION_KEYS = new Set<string>(["input_path", "output_path", ...CONDITION_OPERATORS, ...CONDITION_COMBINATORS]);
+const STEP_ENV_TEMPLATE_PATTERN = /{{\s*(INPUT|ENV)\.[A-Za-z0-9_.-]+\s*}}/g;
+const FOR_EACH_ENV_TEMPLATE_PATTERN = /{{\s*(?:(?:INPUT|ENV)\.[A-Za-z0-9_.-]+|ITEM(?:\.[A-Za-z0-9_.-]+)?|INDEX)\s*}}/g;
+const FOR_EACH_KEYS = new Set(["input_path", "output_path", "as", "max_parallel"]);
+const FOR_EACH_ALIAS_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
 const CHECK_VALUES = new Set(["exit_code", "file_exists", "http_status", "jsonpath_equals"]);
 const BILLING_MODES = new Set(["none", "upfront", "on_success", "subscription"]);
+// Paths the bundle layout already owns; assets live alongside them, never inside or over them.
+const RESERVED_ASSET_ROOTS = new Set(["spell.yaml", "schema.json", "spell.sig.json", "source.json", "steps"]);
 
 export async function loadManifestFromDir(bundlePath: string): Promise<{ manifest: SpellBundleManifest; schemaPath: string }> {
-  const manifestPath = path.join(bundlePath, "spell.yaml");
-
-  let rawYaml: string;
-  try {
-    rawYaml = await readFile(manifestPath, "utf8");
-  } catch {
-    throw new SpellError(`spell.yaml not found: ${manifestPath}`);
-  }
-
-  let parsed: unknown;
-  try {
-    parsed = load(rawYaml);
-  } catch (error) {
-    throw new SpellError(`failed to parse spell.yaml: ${(error as Error).message}`);
-  }
-
-  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-    throw new SpellError("spell.yaml must be a mapping object");
-  }
-
-  const manifest = parsed as Record<string, unknown>;
+  const manifest = await readManifestObject(bundlePath);
 
   const id = readRequiredString(manifest, "id");
   const version = readRequiredString(manifest, "version");
@@ -141,6 +135,13 @@ export async function loadManifestFromDir(bundlePath: string): Promise<{ manifes
     }
   }
 
+  const assets = parseOptionalAssets(manifest["assets"], bundlePath);
+  for (const asset of assets ?? []) {
+    await assertAssetEntry(bundlePath, asset);
+  }
+
+  await validateHttpStepOutputReferences(bundlePath, steps);
+
   const typedManifest: SpellBundleManifest = {
     id,
     version,
@@ -163,12 +164,98 @@ export async function loadManifestFromDir(bundlePath: string): Promise<{ manifes
       max_parallel_steps: maxParallelSteps
     },
     steps,
-    checks
+    checks,
+    assets
   };
 
   return { manifest: typedManifest, schemaPath };
 }
 
+// Reads only the asset list, for callers (digest, runner copy) that must not depend on full manifest validation.
+export async function readManifestAssets(bundlePath: string): Promise<string[]> {
+  const manifest = await readManifestObject(bundlePath);
+  return parseOptionalAssets(manifest["assets"], bundlePath) ?? [];
+}
+
+export async function readManifestObject(bundlePath: string): Promise<Record<string, unknown>> {
+  const manifestPath = path.join(bundlePath, "spell.yaml");
+
+  let rawYaml: string;
+  try {
+    rawYaml = await readFile(manifestPath, "utf8");
+  } catch {
+    throw new SpellError(`spell.yaml not found: ${manifestPath}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = load(rawYaml);
+  } catch (error) {
+    throw new SpellError(`failed to parse spell.yaml: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new SpellError("spell.yaml must be a mapping object");
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+function parseOptionalAssets(raw: unknown, bundlePath: string): string[] | undefined {
+  const entries = parseOptionalStringArray(raw, "assets");
+  if (!entries) {
+    return undefined;
+  }
+
+  const assets: string[] = [];
+  entries.forEach((entry, idx) => {
+    const label = `assets[${idx}]`;
+    if (path.isAbsolute(entry) || path.win32.isAbsolute(entry)) {
+      throw new SpellError(`${label} must be a bundle-relative path`);
+    }
+
+    ensurePathWithin(bundlePath, path.resolve(bundlePath, entry), label);
+    const normalized = path.posix.normalize(entry.replace(/\\/g, "/")).replace(/\/+$/, "");
+    if (normalized === "." || normalized === "") {
+      throw new SpellError(`${label} must not be the bundle root`);
+    }
+
+    const topLevel = normalized.split("/")[0];
+    if (RESERVED_ASSET_ROOTS.has(topLevel)) {
+      throw new SpellError(`${label} must not reference reserved bundle path: ${topLevel}`);
+    }
+
+    const overlapping = assets.find(
+      (existing) => existing === normalized || normalized.startsWith(`${existing}/`) || existing.startsWith(`${normalized}/`)
+    );
+    if (overlapping) {
+      throw new SpellError(`${label} overlaps another asset: ${overlapping}`);
+    }
+
+    assets.push(normalized);
+  });
+
+  return assets;
+}
+
+export async function assertAssetEntry(bundlePath: string, asset: string): Promise<void> {
+  // Every component is checked so a symlinked parent directory cannot redirect the asset outside the bundle.
+  const segments = asset.split("/");
+  for (let i = 1; i <= segments.length; i += 1) {
+    const partial = segments.slice(0, i).join("/");
+    const info = await lstat(path.join(bundlePath, partial)).catch(() => null);
+    if (!info) {
+      throw new SpellError(`asset not found: ${asset}`);
+    }
+    if (info.isSymbolicLink()) {
+      throw new SpellError(`symlink is not allowed in assets: ${partial}`);
+    }
+    if (i === segments.length && !info.isFile() && !info.isDirectory()) {
+      throw new SpellError(`unsupported asset type: ${asset}`);
+    }
+  }
+}
+
 function parseSteps(rawSteps: unknown[]): SpellStep[] {
   if (rawSteps.length === 0) {
     throw new SpellError("steps must not be empty");
@@ -193,10 +280,17 @@ function parseSteps(rawSteps: unknown[]): SpellStep[] {
     seenNames.add(name);
 
     const run = readRequiredString(obj, "run");
+    if (uses === "node" && !NODE_STEP_EXTENSIONS.has(path.extname(run).toLowerCase())) {
+      throw new SpellError(`steps[${idx}].run must be a .js, .mjs or .cjs module for uses=node`);
+    }
     const rollback = parseOptionalString(obj["rollback"], `steps[${idx}].rollback`);
     const retry = parseOptionalStepRetry(obj["retry"], `steps[${idx}].retry`);
     const dependsOn = parseOptionalStringArray(obj["depends_on"], `steps[${idx}].depends_on`);
     const when = parseOptionalStepCondition(obj["when"], `steps[${idx}].when`);
+    const timeoutMs = parseOptionalStepTimeoutMs(obj["timeout_ms"], `steps[${idx}].timeout_ms`);
+    const forEach = parseOptionalStepForEach(obj["for_each"], `steps[${idx}].for_each`);
+    const env = parseOptionalStepEnv(obj["env"], `steps[${idx}].env`, forEach !== undefined);
+    const envPassthrough = parseOptionalEnvPassthrough(obj["env_passthrough"], `steps[${idx}].env_passthrough`);
 
     return {
       uses: uses as SpellStep["uses"],
@@ -205,7 +299,11 @@ function parseSteps(rawSteps: unknown[]): SpellStep[] {
       rollback,
       retry,
       depends_on: dependsOn,
-      when
+      when,
+      timeout_ms: timeoutMs,
+      env,
+      env_passthrough: envPassthrough,
+      for_each: forEach
     };
   });
 
@@ -304,18 +402,39 @@ function parseOptionalStepCondition(raw: unknown, label: string): SpellStepCondi
     return undefined;
   }
 
+  return parseStepCondition(raw, label);
+}
+
+function parseStepCondition(raw: unknown, label: string): SpellStepCondition {
   if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
     throw new SpellError(`${label} must be an object`);
   }
 
   const condition = raw as Record<string, unknown>;
-  const allowedKeys = new Set(["input_path", "output_path", "equals", "not_equals"]);
   for (const key of Object.keys(condition)) {
-    if (!allowedKeys.has(key)) {
+    if (!CONDITION_KEYS.has(key)) {
       throw new SpellError(`${label}.${key} is not supported`);
     }
   }
 
+  const combinators = CONDITION_COMBINATORS.filter((key) => condition[key] !== undefined);
+  if (combinators.length > 0) {
+    if (combinators.length > 1 || Object.keys(condition).length > 1) {
+      throw new SpellError(`${label} must define exactly one of all, any or not without other keys`);
+    }
+
+    if (combinators[0] === "not") {
+      return { not: parseStepCondition(condition["not"], `${label}.not`) };
+    }
+
+    const key = combinators[0];
+    const entries = condition[key];
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new SpellError(`${label}.${key} must be a non-empty array of conditions`);
+    }
+    return { [key]: entries.map((entry, idx) => parseStepCondition(entry, `${label}.${key}[${idx}]`)) };
+  }
+
   const inputPath = condition["input_path"];
   const outputPath = condition["output_path"];
   const hasInputPath = inputPath !== undefined;
@@ -331,18 +450,72 @@ function parseOptionalStepCondition(raw: unknown, label: string): SpellStepCondi
     throw new SpellError(`${label}.output_path must be a non-empty string`);
   }
 
-  const hasEquals = Object.prototype.hasOwnProperty.call(condition, "equals");
-  const hasNotEquals = Object.prototype.hasOwnProperty.call(condition, "not_equals");
-  if (!hasEquals && !hasNotEquals) {
-    throw new SpellError(`${label} must define equals or not_equals`);
+  const has = (key: string): boolean => Object.prototype.hasOwnProperty.call(condition, key);
+  if (!CONDITION_OPERATORS.some((key) => has(key))) {
+    throw new SpellError(`${label} must define at least one of ${CONDITION_OPERATORS.join(", ")}`);
   }
 
-  return {
-    input_path: hasInputPath ? (inputPath as string).trim() : undefined,
-    output_path: hasOutputPath ? (outputPath as string).trim() : undefined,
-    equals: hasEquals ? condition["equals"] : undefined,
-    not_equals: hasNotEquals ? condition["not_equals"] : undefined
-  };
+  const parsed: SpellStepCondition = hasInputPath
+    ? { input_path: (inputPath as string).trim() }
+    : { output_path: (outputPath as string).trim() };
+
+  if (has("equals")) {
+    parsed.equals = condition["equals"];
+  }
+  if (has("not_equals")) {
+    parsed.not_equals = condition["not_equals"];
+  }
+
+  if (has("in")) {
+    if (!Array.isArray(condition["in"])) {
+      throw new SpellError(`${label}.in must be an array`);
+    }
+    parsed.in = condition["in"];
+  }
+
+  if (has("exists")) {
+    if (typeof condition["exists"] !== "boolean") {
+      throw new SpellError(`${label}.exists must be a boolean`);
+    }
+    parsed.exists = condition["exists"];
+  }
+
+  for (const key of ["gt", "gte", "lt", "lte"] as const) {
+    if (has(key)) {
+      const value = condition[key];
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new SpellError(`${label}.${key} must be a finite number`);
+      }
+      parsed[key] = value;
+    }
+  }
+
+  if (has("matches")) {
+    const pattern = condition["matches"];
+    if (typeof pattern !== "string" || !pattern) {
+      throw new SpellError(`${label}.matches must be a non-empty string`);
+    }
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new SpellError(`${label}.matches is not a valid regular expression: ${(error as Error).message}`);
+    }
+    parsed.matches = pattern;
+  }
+
+  return parsed;
+}
+
+function collectConditionOutputPaths(condition: SpellStepCondition | undefined): string[] {
+  if (!condition) {
+    return [];
+  }
+
+  const nested = [...(condition.all ?? []), ...(condition.any ?? []), ...(condition.not ? [condition.not] : [])];
+  return [
+    ...(condition.output_path ? [condition.output_path] : []),
+    ...nested.flatMap((entry) => collectConditionOutputPaths(entry))
+  ];
 }
 
 function parseOptionalStepRetry(raw: unknown, label: string): SpellStepRetry | undefined {
@@ -380,6 +553,108 @@ function parseOptionalStepRetry(raw: unknown, label: string): SpellStepRetry | u
   };
 }
 
+function parseOptionalStepTimeoutMs(raw: unknown, label: string): number | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 1 || raw > MAX_STEP_TIMEOUT_MS) {
+    throw new SpellError(`${label} must be an integer between 1 and ${MAX_STEP_TIMEOUT_MS}`);
+  }
+
+  return raw;
+}
+
+function parseOptionalStepForEach(raw: unknown, label: string): SpellStepForEach | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an object`);
+  }
+
+  const forEach = raw as Record<string, unknown>;
+  for (const key of Object.keys(forEach)) {
+    if (!FOR_EACH_KEYS.has(key)) {
+      throw new SpellError(`${label}.${key} is not supported`);
+    }
+  }
+
+  const inputPath = parseOptionalString(forEach["input_path"], `${label}.input_path`);
+  const outputPath = parseOptionalString(forEach["output_path"], `${label}.output_path`);
+  if ((inputPath === undefined) === (outputPath === undefined)) {
+    throw new SpellError(`${label} must define exactly one of input_path or output_path`);
+  }
+
+  const alias = parseOptionalString(forEach["as"], `${label}.as`);
+  if (alias !== undefined && !FOR_EACH_ALIAS_PATTERN.test(alias)) {
+    throw new SpellError(`${label}.as must be an identifier`);
+  }
+
+  const maxParallel = forEach["max_parallel"];
+  if (maxParallel !== undefined) {
+    if (typeof maxParallel !== "number" || !Number.isInteger(maxParallel) || maxParallel < 1 || maxParallel > 32) {
+      throw new SpellError(`${label}.max_parallel must be an integer between 1 and 32`);
+    }
+  }
+
+  return {
+    input_path: inputPath,
+    output_path: outputPath,
+    as: alias,
+    max_parallel: maxParallel as number | undefined
+  };
+}
+
+function parseOptionalStepEnv(raw: unknown, label: string, allowIteration: boolean): Record<string, string> | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an object`);
+  }
+
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!ENV_NAME_PATTERN.test(key)) {
+      throw new SpellError(`${label}.${key} is not a valid environment variable name`);
+    }
+    if (typeof value !== "string") {
+      throw new SpellError(`${label}.${key} must be a string`);
+    }
+    const allowedTemplates = allowIteration ? FOR_EACH_ENV_TEMPLATE_PATTERN : STEP_ENV_TEMPLATE_PATTERN;
+    if (/{{/.test(value.replace(allowedTemplates, ""))) {
+      throw new SpellError(
+        allowIteration
+          ? `${label}.${key} only supports {{INPUT.*}}, {{ENV.*}}, {{ITEM.*}} and {{INDEX}} templates`
+          : `${label}.${key} only supports {{INPUT.*}} and {{ENV.*}} templates`
+      );
+    }
+    out[key] = value;
+  }
+
+  return out;
+}
+
+function parseOptionalEnvPassthrough(raw: unknown, label: string): string[] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an array of strings`);
+  }
+
+  return raw.map((value, idx) => {
+    if (typeof value !== "string" || !ENV_PASSTHROUGH_PATTERN.test(value.trim())) {
+      throw new SpellError(`${label}[${idx}] must be an environment variable name (optionally ending with *)`);
+    }
+    return value.trim();
+  });
+}
+
 function validateStepDependencies(steps: SpellStep[]): void {
   const nameSet = new Set(steps.map((step) => step.name));
   const indexByName = new Map(steps.map((step, idx) => [step.name, idx]));
@@ -405,10 +680,10 @@ function validateStepDependencies(steps: SpellStep[]): void {
       dependents.set(dep, list);
     }
 
-    if (step.when?.output_path) {
-      const match = /^step\.([^.]+)\.(stdout|json)(?:\..+)?$/.exec(step.when.output_path);
+    for (const outputPath of collectConditionOutputPaths(step.when)) {
+      const match = /^step\.([^.]+)\.(stdout|json)(?:\..+)?$/.exec(outputPath);
       if (!match) {
-        throw new SpellError(`step '${step.name}' when.output_path is invalid: ${step.when.output_path}`);
+        throw new SpellError(`step '${step.name}' when.output_path is invalid: ${outputPath}`);
       }
       const sourceStep = match[1];
       if (!nameSet.has(sourceStep)) {
@@ -419,6 +694,17 @@ function validateStepDependencies(steps: SpellStep[]): void {
       }
     }
 
+    const forEachOutputPath = step.for_each?.output_path;
+    if (forEachOutputPath !== undefined) {
+      const match = /^step\.([^.]+)\.(stdout|json)(?:\..+)?$/.exec(forEachOutputPath);
+      if (!match) {
+        throw new SpellError(`step '${step.name}' for_each.output_path is invalid: ${forEachOutputPath}`);
+      }
+      if (!seenDeps.has(match[1])) {
+        throw new SpellError(`step '${step.name}' for_each.output_path requires depends_on '${match[1]}'`);
+      }
+    }
+
     inDegree.set(step.name, deps.length);
   }
 
@@ -443,6 +729,57 @@ function validateStepDependencies(steps: SpellStep[]): void {
   }
 }
 
+async function validateHttpStepOutputReferences(bundlePath: string, steps: SpellStep[]): Promise<void> {
+  const stepByName = new Map(steps.map((step) => [step.name, step]));
+
+  for (const step of steps) {
+    if (step.uses !== "http") {
+      continue;
+    }
+
+    const raw = await readFile(path.resolve(bundlePath, step.run), "utf8");
+    if (!step.for_each && hasIterationTemplate(raw)) {
+      throw new SpellError(`step '${step.name}' uses {{ITEM}} or {{INDEX}} templates without for_each`);
+    }
+
+    const refs = collectOutputTemplateReferences(raw);
+    if (refs.length === 0) {
+      continue;
+    }
+
+    const upstream = collectUpstreamStepNames(step, stepByName);
+    for (const ref of refs) {
+      const match = /^step\.([^.]+)\.(stdout|json)(?:\..+)?$/.exec(ref);
+      if (!match) {
+        throw new SpellError(`step '${step.name}' template {{OUTPUT.${ref}}} is invalid`);
+      }
+      const sourceStep = match[1];
+      if (!stepByName.has(sourceStep)) {
+        throw new SpellError(`step '${step.name}' template {{OUTPUT.${ref}}} references unknown step '${sourceStep}'`);
+      }
+      if (!upstream.has(sourceStep)) {
+        throw new SpellError(`step '${step.name}' template {{OUTPUT.${ref}}} requires depends_on chain to '${sourceStep}'`);
+      }
+    }
+  }
+}
+
+function collectUpstreamStepNames(step: SpellStep, stepByName: Map<string, SpellStep>): Set<string> {
+  const upstream = new Set<string>();
+  const queue = [...(step.depends_on ?? [])];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    if (upstream.has(current)) {
+      continue;
+    }
+    upstream.add(current);
+    queue.push(...(stepByName.get(current)?.depends_on ?? []));
+  }
+
+  return upstream;
+}
+
 function ensurePathWithin(root: string, target: string, label: string): void {
   const rel = path.relative(path.resolve(root), target);
   if (rel.startsWith("..") || path.isAbsolute(rel)) {
@@ -1,13 +1,17 @@
+import { createPrivateKey, createPublicKey, sign, verify } from "node:crypto";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
 import Ajv2020, { type AnySchema } from "ajv/dist/2020";
 import { SpellError } from "../util/errors";
 import { fetchHttp } from "../util/http";
-import { registryConfigPath, spellHome } from "../util/paths";
+import { registryConfigPath, registryStatePath, spellHome } from "../util/paths";
 import { compareVersionDesc, selectLatestVersion } from "../util/version";
 
 export interface RegistryIndexRef {
   name: string;
   url: string;
+  // ed25519 spki DER as base64url; when set, the index must carry a valid detached signature.
+  public_key?: string;
 }
 
 export interface RegistryConfigV1 {
@@ -15,10 +19,14 @@ export interface RegistryConfigV1 {
   indexes: RegistryIndexRef[];
 }
 
+export type RegistryIndexSignatureStatus = "verified" | "unsigned";
+
 export interface RegistryValidationResult {
   name: string;
   url: string;
   spellCount: number;
+  signature: RegistryIndexSignatureStatus;
+  serial?: number;
 }
 
 export interface RegistryCatalogQuery {
@@ -45,9 +53,30 @@ export interface RegistrySpellEntry {
 
 export interface RegistryIndexV1 {
   version: "v1";
+  // Increases with every published index; signed indexes must not go backwards (rollback protection).
+  serial?: number;
   spells: RegistrySpellEntry[];
 }
 
+// Detached signature published next to the index as `<index-url>.sig`, over the raw index bytes.
+export interface RegistryIndexSignatureV1 {
+  version: "v1";
+  key_id: string;
+  algorithm: "ed25519";
+  signature: string; // base64url
+}
+
+export interface SignRegistryIndexResult {
+  signaturePath: string;
+  keyId: string;
+  serial: number;
+}
+
+interface LoadedRegistryIndex {
+  index: RegistryIndexV1;
+  signature: RegistryIndexSignatureStatus;
+}
+
 export interface RegistryInstallRef {
   id: string;
   version: string;
@@ -85,7 +114,8 @@ const registryConfigSchema = {
         required: ["name", "url"],
         properties: {
           name: { type: "string", minLength: 1 },
-          url: { type: "string", minLength: 1 }
+          url: { type: "string", minLength: 1 },
+          public_key: { type: "string", pattern: "^[A-Za-z0-9_-]+$" }
         }
       }
     }
@@ -99,6 +129,7 @@ const registryIndexSchema = {
   required: ["version", "spells"],
   properties: {
     version: { const: "v1" },
+    serial: { type: "integer", minimum: 0 },
     spells: {
       type: "array",
       items: {
@@ -117,22 +148,40 @@ const registryIndexSchema = {
   }
 } as const;
 
+const registryIndexSignatureSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  additionalProperties: false,
+  required: ["version", "key_id", "algorithm", "signature"],
+  properties: {
+    version: { const: "v1" },
+    key_id: { type: "string", minLength: 1 },
+    algorithm: { const: "ed25519" },
+    signature: { type: "string", pattern: "^[A-Za-z0-9_-]+$" }
+  }
+} as const;
+
 const validateRegistryConfig = ajv.compile(registryConfigSchema as AnySchema);
 const validateRegistryIndex = ajv.compile(registryIndexSchema as AnySchema);
+const validateRegistryIndexSignature = ajv.compile(registryIndexSignatureSchema as AnySchema);
 const PINNED_GIT_SOURCE_PATTERN = /^(?:https:\/\/.+|ssh:\/\/.+|git@[^:]+:.+)#.+$/i;
 
-export async function setDefaultRegistryIndex(rawUrl: string): Promise<RegistryConfigV1> {
+export async function setDefaultRegistryIndex(rawUrl: string, publicKey?: string): Promise<RegistryConfigV1> {
   const url = normalizeHttpUrl(rawUrl, "registry URL");
   const config: RegistryConfigV1 = {
     version: "v1",
-    indexes: [{ name: "default", url }]
+    indexes: [withPublicKey({ name: "default", url }, publicKey)]
   };
 
   await writeRegistryConfig(config);
   return config;
 }
 
-export async function addRegistryIndex(rawName: string, rawUrl: string): Promise<RegistryConfigV1> {
+export async function addRegistryIndex(
+  rawName: string,
+  rawUrl: string,
+  publicKey?: string
+): Promise<RegistryConfigV1> {
   const name = normalizeRegistryIndexName(rawName, "registry index name");
   const url = normalizeHttpUrl(rawUrl, "registry URL");
   const config = await readRegistryConfig();
@@ -142,7 +191,7 @@ export async function addRegistryIndex(rawName: string, rawUrl: string): Promise
 
   const nextConfig: RegistryConfigV1 = {
     version: "v1",
-    indexes: [...config.indexes, { name, url }]
+    indexes: [...config.indexes, withPublicKey({ name, url }, publicKey)]
   };
   await writeRegistryConfig(nextConfig);
   return nextConfig;
@@ -179,11 +228,13 @@ export async function validateRegistryIndexes(rawName?: string): Promise<Registr
 
   for (const index of indexes) {
     try {
-      const loadedIndex = await fetchRegistryIndex(index.url);
+      const loaded = await fetchRegistryIndex(index);
       results.push({
         name: index.name,
         url: index.url,
-        spellCount: loadedIndex.spells.length
+        spellCount: loaded.index.spells.length,
+        signature: loaded.signature,
+        serial: loaded.index.serial
       });
     } catch (error) {
       throw new SpellError(`registry validation failed for '${index.name}': ${(error as Error).message}`);
@@ -199,7 +250,7 @@ export async function listRegistryCatalog(
 ): Promise<RegistryCatalogResult> {
   const config = await readRegistryConfig();
   const selectedIndex = selectRegistryInstallIndex(config, rawName);
-  const index = await fetchRegistryIndex(selectedIndex.url);
+  const { index } = await fetchRegistryIndex(selectedIndex);
   const spells = filterRegistryCatalogSpells(index.spells, query);
 
   return {
@@ -259,6 +310,9 @@ export function parseRegistryConfigJson(raw: string, source: string): RegistryCo
     seenNames.add(normalizedName);
     index.name = normalizedName;
     normalizeHttpUrl(index.url, `registry index URL (${index.name})`);
+    if (index.public_key !== undefined) {
+      parseRegistryPublicKey(index.public_key, `registry index public_key (${index.name})`);
+    }
   }
 
   return config;
@@ -371,14 +425,14 @@ export async function resolveRegistryInstallSource(
   const config = await readRegistryConfig();
   const selectedIndex = selectRegistryInstallIndex(config, preferredRegistryName);
 
-  const index = await fetchRegistryIndex(selectedIndex.url);
+  const { index } = await fetchRegistryIndex(selectedIndex);
   const entry = resolveRegistryEntry(index, parsed.id, parsed.version);
   const resolvedRef: RegistryInstallRef = {
     id: parsed.id,
     version: entry.version
   };
   const source = entry.source.trim();
-  if (!PINNED_GIT_SOURCE_PATTERN.test(source)) {
+  if (!isPinnedGitRegistrySource(source)) {
     throw new SpellError(
       `invalid registry source for ${resolvedRef.id}@${resolvedRef.version}: expected '<git-url>#<ref>', got '${entry.source}'`
     );
@@ -398,20 +452,143 @@ export async function resolveRegistryInstallSource(
   };
 }
 
-async function fetchRegistryIndex(url: string): Promise<RegistryIndexV1> {
+export function isPinnedGitRegistrySource(source: string): boolean {
+  return PINNED_GIT_SOURCE_PATTERN.test(source);
+}
+
+export function parseRegistryIndexSignatureJson(raw: string, source: string): RegistryIndexSignatureV1 {
+  const parsed = parseJson(raw, "registry index signature", source);
+  const ok = validateRegistryIndexSignature(parsed);
+  if (!ok) {
+    throw new SpellError(
+      `registry index signature validation failed: ${formatAjvErrors(validateRegistryIndexSignature.errors ?? [])}`
+    );
+  }
+
+  return parsed as RegistryIndexSignatureV1;
+}
+
+export function registryIndexSignatureUrl(indexUrl: string): string {
+  const url = new URL(indexUrl);
+  url.pathname = `${url.pathname}.sig`;
+  return url.toString();
+}
+
+// Writes `<index-file>.sig`; the index must declare a serial so verifiers can reject rollbacks.
+export async function signRegistryIndexFile(
+  indexPath: string,
+  privateKeyPath: string,
+  keyId: string
+): Promise<SignRegistryIndexResult> {
+  const resolvedIndexPath = path.resolve(indexPath);
+  const raw = await readFile(resolvedIndexPath, "utf8").catch(() => {
+    throw new SpellError(`registry index not found: ${indexPath}`);
+  });
+  const index = parseRegistryIndexJson(raw, resolvedIndexPath);
+  if (index.serial === undefined) {
+    throw new SpellError("registry index must declare serial before signing");
+  }
+
+  const privateKeyRaw = await readFile(path.resolve(privateKeyPath), "utf8").catch(() => {
+    throw new SpellError(`private key file not found: ${privateKeyPath}`);
+  });
+  let privateKey: ReturnType<typeof createPrivateKey>;
+  try {
+    privateKey = createPrivateKey(privateKeyRaw);
+  } catch (error) {
+    throw new SpellError(`failed to parse private key: ${(error as Error).message}`);
+  }
+
+  const payload: RegistryIndexSignatureV1 = {
+    version: "v1",
+    key_id: keyId,
+    algorithm: "ed25519",
+    signature: sign(null, Buffer.from(raw, "utf8"), privateKey).toString("base64url")
+  };
+  const signaturePath = `${resolvedIndexPath}.sig`;
+  await writeFile(signaturePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+
+  return { signaturePath, keyId, serial: index.serial };
+}
+
+async function fetchRegistryIndex(ref: RegistryIndexRef): Promise<LoadedRegistryIndex> {
+  const raw = await fetchRegistryDocument(ref.url, "registry index");
+  const index = parseRegistryIndexJson(raw, ref.url);
+  if (ref.public_key === undefined) {
+    return { index, signature: "unsigned" };
+  }
+
+  const signatureUrl = registryIndexSignatureUrl(ref.url);
+  const signature = parseRegistryIndexSignatureJson(
+    await fetchRegistryDocument(signatureUrl, "registry index signature"),
+    signatureUrl
+  );
+  const publicKey = parseRegistryPublicKey(ref.public_key, `registry index public_key (${ref.name})`);
+  if (!verify(null, Buffer.from(raw, "utf8"), publicKey, Buffer.from(signature.signature, "base64url"))) {
+    throw new SpellError(`registry index signature verification failed for '${ref.name}' (key_id=${signature.key_id})`);
+  }
+
+  if (index.serial === undefined) {
+    throw new SpellError(`signed registry index '${ref.name}' must declare serial`);
+  }
+  await recordRegistryIndexSerial(ref, index.serial);
+  return { index, signature: "verified" };
+}
+
+async function fetchRegistryDocument(url: string, kind: string): Promise<string> {
   let response: Awaited<ReturnType<typeof fetchHttp>>;
   try {
     response = await fetchHttp(url);
   } catch (error) {
-    throw new SpellError(`failed to fetch registry index '${url}': ${(error as Error).message}`);
+    throw new SpellError(`failed to fetch ${kind} '${url}': ${(error as Error).message}`);
   }
 
   if (!response.ok) {
-    throw new SpellError(`failed to fetch registry index '${url}': HTTP ${response.status}`);
+    throw new SpellError(`failed to fetch ${kind} '${url}': HTTP ${response.status}`);
+  }
+
+  return response.text();
+}
+
+// Remembers the highest verified serial per index URL and refuses to go back to an older index.
+async function recordRegistryIndexSerial(ref: RegistryIndexRef, serial: number): Promise<void> {
+  const state = await readRegistryState();
+  const lastSeen = state.serials[ref.url];
+  if (lastSeen !== undefined && serial < lastSeen) {
+    throw new SpellError(
+      `registry index rollback detected for '${ref.name}': serial ${serial} is older than last seen ${lastSeen}`
+    );
+  }
+  if (lastSeen === serial) {
+    return;
+  }
+
+  state.serials[ref.url] = serial;
+  await mkdir(spellHome(), { recursive: true });
+  await writeFile(registryStatePath(), `${JSON.stringify(state, null, 2)}\n`, "utf8");
+}
+
+async function readRegistryState(): Promise<{ version: "v1"; serials: Record<string, number> }> {
+  let raw: string;
+  try {
+    raw = await readFile(registryStatePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: "v1", serials: {} };
+    }
+    throw new SpellError(`failed to read registry state '${registryStatePath()}': ${(error as Error).message}`);
   }
 
-  const raw = await response.text();
-  return parseRegistryIndexJson(raw, url);
+  const parsed = parseJson(raw, "registry state", registryStatePath()) as { serials?: unknown };
+  const serials: Record<string, number> = {};
+  if (parsed && typeof parsed.serials === "object" && parsed.serials !== null) {
+    for (const [url, value] of Object.entries(parsed.serials)) {
+      if (Number.isInteger(value)) {
+        serials[url] = value as number;
+      }
+    }
+  }
+  return { version: "v1", serials };
 }
 
 function filterRegistryCatalogSpells(
@@ -523,6 +700,28 @@ function normalizeHttpUrl(rawValue: string, label: string): string {
   return parsed.toString();
 }
 
+function withPublicKey(ref: RegistryIndexRef, rawPublicKey?: string): RegistryIndexRef {
+  if (rawPublicKey === undefined) {
+    return ref;
+  }
+  const publicKey = rawPublicKey.trim();
+  parseRegistryPublicKey(publicKey, "registry public key");
+  return { ...ref, public_key: publicKey };
+}
+
+function parseRegistryPublicKey(value: string, label: string): ReturnType<typeof createPublicKey> {
+  let publicKey: ReturnType<typeof createPublicKey>;
+  try {
+    publicKey = createPublicKey({ key: Buffer.from(value, "base64url"), format: "der", type: "spki" });
+  } catch (error) {
+    throw new SpellError(`invalid ${label}: ${(error as Error).message}`);
+  }
+  if (publicKey.asymmetricKeyType !== "ed25519") {
+    throw new SpellError(`invalid ${label}: expected an ed25519 key`);
+  }
+  return publicKey;
+}
+
 function normalizeRegistryIndexName(rawValue: string, label: string): string {
   const value = rawValue.trim();
   if (!value) {
@@ -0,0 +1,122 @@
+import { access, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SpellError } from "../util/errors";
+import { computeBundleDigest } from "../signature/bundleDigest";
+import { loadManifestFromDir } from "./manifest";
+import { resolveGitSourceCommit } from "./install";
+import {
+  isPinnedGitRegistrySource,
+  parseRegistryIndexJson,
+  signRegistryIndexFile,
+  type RegistryIndexV1,
+  type RegistrySpellEntry
+} from "./registry";
+
+export interface PublishRegistryEntryOptions {
+  indexPath: string;
+  source: string;
+  // Skips `git ls-remote`; needed when the git remote is not reachable from the publishing machine.
+  commit?: string;
+  force?: boolean;
+  privateKeyPath?: string;
+  keyId?: string;
+}
+
+export interface PublishRegistryEntryResult {
+  entry: RegistrySpellEntry;
+  change: "added" | "replaced" | "unchanged";
+  indexPath: string;
+  serial?: number;
+  // "stale" means an existing <index-file>.sig no longer matches the rewritten index.
+  signature?: "signed" | "stale";
+}
+
+// Upserts one id@version entry into a local index file; the bundle directory should be a checkout of `source`.
+export async function publishRegistryEntry(
+  bundlePath: string,
+  options: PublishRegistryEntryOptions
+): Promise<PublishRegistryEntryResult> {
+  const source = options.source.trim();
+  // Registry installs only resolve git sources, so an oci: entry would be published but never installable.
+  if (source.startsWith("oci:")) {
+    throw new SpellError(
+      `oci sources are not supported by registry installs: ${options.source} (expected <git-url>#<ref>)`
+    );
+  }
+  if (!isPinnedGitRegistrySource(source)) {
+    throw new SpellError(`invalid registry source: ${options.source} (expected <git-url>#<ref>)`);
+  }
+  if (options.commit !== undefined && !/^[0-9a-fA-F]{40}$/.test(options.commit.trim())) {
+    throw new SpellError(`invalid commit: ${options.commit} (expected a 40-character SHA-1)`);
+  }
+
+  const bundleRoot = path.resolve(bundlePath);
+  const { manifest } = await loadManifestFromDir(bundleRoot);
+  const digest = await computeBundleDigest(bundleRoot);
+
+  const commit =
+    options.commit !== undefined ? options.commit.trim().toLowerCase() : await resolveGitSourceCommit(source);
+
+  const entry: RegistrySpellEntry = {
+    id: manifest.id,
+    version: manifest.version,
+    source,
+    commit,
+    digest: `sha256:${digest.valueHex}`
+  };
+
+  const indexPath = path.resolve(options.indexPath);
+  const index = await readRegistryIndexFileIfExists(indexPath);
+  const existing = index.spells.find((spell) => spell.id === entry.id && spell.version === entry.version);
+  if (existing && sameRegistryEntry(existing, entry)) {
+    return { entry, change: "unchanged", indexPath, serial: index.serial };
+  }
+  if (existing && options.force !== true) {
+    throw new SpellError(`registry entry already exists: ${entry.id}@${entry.version} (use --force to replace it)`);
+  }
+
+  const spells = existing
+    ? index.spells
+        .filter((spell) => spell === existing || spell.id !== entry.id || spell.version !== entry.version)
+        .map((spell) => (spell === existing ? entry : spell))
+    : [...index.spells, entry];
+  const next: RegistryIndexV1 = { version: "v1", serial: (index.serial ?? 0) + 1, spells };
+  const serialized = `${JSON.stringify(next, null, 2)}\n`;
+  parseRegistryIndexJson(serialized, indexPath);
+
+  await mkdir(path.dirname(indexPath), { recursive: true });
+  await writeFile(indexPath, serialized, "utf8");
+
+  const change = existing ? "replaced" : "added";
+  if (options.privateKeyPath) {
+    await signRegistryIndexFile(indexPath, options.privateKeyPath, options.keyId ?? "default");
+    return { entry, change, indexPath, serial: next.serial, signature: "signed" };
+  }
+
+  const hasSignature = await access(`${indexPath}.sig`)
+    .then(() => true)
+    .catch(() => false);
+  return { entry, change, indexPath, serial: next.serial, signature: hasSignature ? "stale" : undefined };
+}
+
+async function readRegistryIndexFileIfExists(indexPath: string): Promise<RegistryIndexV1> {
+  let raw: string;
+  try {
+    raw = await readFile(indexPath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: "v1", spells: [] };
+    }
+    throw new SpellError(`failed to read registry index: ${indexPath}: ${(error as Error).message}`);
+  }
+
+  return parseRegistryIndexJson(raw, indexPath);
+}
+
+function sameRegistryEntry(a: RegistrySpellEntry, b: RegistrySpellEntry): boolean {
+  return (
+    a.source === b.source &&
+    (a.commit ?? "").toLowerCase() === (b.commit ?? "").toLowerCase() &&
+    (a.digest ?? "").toLowerCase() === (b.digest ?? "").toLowerCase()
+  );
+}
@@ -0,0 +1,150 @@
+import { createReadStream } from "node:fs";
+import { realpath, stat } from "node:fs/promises";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import path from "node:path";
+import { URL } from "node:url";
+import { SpellError } from "../util/errors";
+
+export interface RegistryServerOptions {
+  port?: number;
+  host?: string;
+}
+
+export interface StartedRegistryServer {
+  port: number;
+  host: string;
+  close: () => Promise<void>;
+}
+
+const DEFAULT_PORT = 8790;
+const DEFAULT_HOST = "127.0.0.1";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json; charset=utf-8",
+  ".sig": "application/json; charset=utf-8",
+  ".tgz": "application/gzip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar"
+};
+
+// Serves a registry directory (index, detached signature, bundle tarballs) as static files, read-only.
+export async function startRegistryServer(
+  rootDir: string,
+  options: RegistryServerOptions = {}
+): Promise<StartedRegistryServer> {
+  const root = await realpath(path.resolve(rootDir)).catch(() => {
+    throw new SpellError(`registry directory not found: ${rootDir}`);
+  });
+  if (!(await stat(root)).isDirectory()) {
+    throw new SpellError(`registry directory must be a directory: ${rootDir}`);
+  }
+
+  const host = options.host ?? DEFAULT_HOST;
+  const server = createServer(async (req, res) => {
+    try {
+      await handleRequest(root, req, res);
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      writeError(res, 500, "INTERNAL_ERROR", (error as Error).message);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => resolve());
+  });
+
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new SpellError("failed to resolve registry server address");
+  }
+
+  return {
+    port: address.port,
+    host,
+    close: async () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          resolve();
+        });
+      })
+  };
+}
+
+async function handleRequest(root: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const method = req.method ?? "GET";
+  if (method !== "GET" && method !== "HEAD") {
+    res.setHeader("allow", "GET, HEAD");
+    writeError(res, 405, "METHOD_NOT_ALLOWED", `method not allowed: ${method}`);
+    return;
+  }
+
+  const pathname = new URL(req.url ?? "/", "http://127.0.0.1").pathname;
+  const filePath = await resolveServedFile(root, pathname);
+  if (!filePath) {
+    writeError(res, 404, "NOT_FOUND", `not found: ${pathname}`);
+    return;
+  }
+
+  const fileStat = await stat(filePath);
+  res.statusCode = 200;
+  res.setHeader("content-type", CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream");
+  res.setHeader("content-length", fileStat.size);
+  if (method === "HEAD") {
+    res.end();
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const stream = createReadStream(filePath);
+    stream.once("error", reject);
+    res.once("finish", resolve);
+    stream.pipe(res);
+  });
+}
+
+// Returns null for anything outside the root (including via symlinks), dotfiles, directories and missing files.
+async function resolveServedFile(root: string, pathname: string): Promise<string | null> {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+
+  const segments = decoded.split("/").filter((segment) => segment.length > 0);
+  if (
+    segments.length === 0 ||
+    segments.some((segment) => segment.startsWith(".") || segment.includes("\\") || segment.includes("\0"))
+  ) {
+    return null;
+  }
+
+  const resolved = await realpath(path.join(root, ...segments)).catch(() => null);
+  if (!resolved || !isWithin(root, resolved)) {
+    return null;
+  }
+
+  const resolvedStat = await stat(resolved).catch(() => null);
+  return resolvedStat?.isFile() ? resolved : null;
+}
+
+function isWithin(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function writeError(res: ServerResponse, statusCode: number, errorCode: string, message: string): void {
+  const body = `${JSON.stringify({ error_code: errorCode, message })}\n`;
+  res.statusCode = statusCode;
+  res.setHeader("content-type", "application/json; charset=utf-8");
+  res.setHeader("content-length", Buffer.byteLength(body));
+  res.end(body);
+}
@@ -0,0 +1,151 @@
+import { chmod, mkdir, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SpellError } from "../util/errors";
+
+export type ScaffoldTemplate = "shell" | "http" | "docker";
+
+export const SCAFFOLD_TEMPLATES: readonly ScaffoldTemplate[] = ["shell", "http", "docker"];
+
+export interface ScaffoldBundleOptions {
+  template?: ScaffoldTemplate;
+  outDir?: string;
+}
+
+export interface ScaffoldResult {
+  id: string;
+  template: ScaffoldTemplate;
+  bundlePath: string;
+  files: string[];
+}
+
+interface ScaffoldFile {
+  rel: string;
+  content: string;
+  executable?: boolean;
+}
+
+const SCAFFOLD_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*(?:\/[A-Za-z0-9][A-Za-z0-9._-]*)*$/;
+const HOST_PLATFORMS = ["darwin/arm64", "darwin/x64", "linux/amd64", "linux/arm64", "win32/x64"];
+const DOCKER_PLATFORMS = ["linux/amd64", "linux/arm64"];
+
+export async function scaffoldBundle(id: string, options: ScaffoldBundleOptions = {}): Promise<ScaffoldResult> {
+  const template = options.template ?? "shell";
+  if (!SCAFFOLD_TEMPLATES.includes(template)) {
+    throw new SpellError(`unknown template: ${template} (expected one of: ${SCAFFOLD_TEMPLATES.join(", ")})`);
+  }
+
+  if (!SCAFFOLD_ID_PATTERN.test(id) || id.length > 200) {
+    throw new SpellError(`invalid spell id for init: ${id} (use letters, digits, '.', '_', '-' and '/' separators)`);
+  }
+
+  const bundlePath = path.resolve(options.outDir ?? id.split("/").pop() ?? id);
+  const existing = await readdir(bundlePath).catch(() => null);
+  if (existing && existing.length > 0) {
+    throw new SpellError(`target directory is not empty: ${bundlePath}`);
+  }
+
+  const files = buildScaffoldFiles(id, template);
+  await mkdir(path.join(bundlePath, "steps"), { recursive: true });
+  for (const file of files) {
+    const filePath = path.join(bundlePath, file.rel);
+    await writeFile(filePath, file.content, "utf8");
+    if (file.executable) {
+      await chmod(filePath, 0o755);
+    }
+  }
+
+  return { id, template, bundlePath, files: files.map((file) => file.rel) };
+}
+
+function buildScaffoldFiles(id: string, template: ScaffoldTemplate): ScaffoldFile[] {
+  const schema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 }
+    },
+    required: ["name"],
+    additionalProperties: false
+  };
+
+  const files: ScaffoldFile[] = [
+    { rel: "schema.json", content: `${JSON.stringify(schema, null, 2)}\n` },
+    { rel: "spell.yaml", content: buildManifest(id, template) }
+  ];
+
+  if (template === "http") {
+    const request = {
+      method: "POST",
+      url: "https://api.example.test/v1/greetings",
+      headers: { "content-type": "application/json" },
+      body: { name: "{{INPUT.name}}" }
+    };
+    files.push({ rel: "steps/request.json", content: `${JSON.stringify(request, null, 2)}\n` });
+    return files;
+  }
+
+  files.push({
+    rel: "steps/main.js",
+    executable: true,
+    content: [
+      "#!/usr/bin/env node",
+      'const fs = require("node:fs");',
+      "",
+      'const input = JSON.parse(fs.readFileSync(process.env.INPUT_JSON, "utf8"));',
+      "process.stdout.write(`hello ${input.name}\\n`);",
+      ""
+    ].join("\n")
+  });
+  return files;
+}
+
+function buildManifest(id: string, template: ScaffoldTemplate): string {
+  const name = id.split("/").pop() ?? id;
+  const lines = [
+    `id: ${id}`,
+    "version: 0.1.0",
+    `name: ${name}`,
+    `summary: ${template} spell scaffolded by spell init`,
+    "inputs_schema: ./schema.json",
+    "risk: low",
+    "permissions: []",
+    "effects:"
+  ];
+
+  if (template === "http") {
+    lines.push("  - type: notify", "    target: api", "    mutates: false");
+  } else {
+    lines.push("  - type: notify", "    target: stdout", "    mutates: false");
+  }
+
+  lines.push(
+    "billing:",
+    "  enabled: false",
+    "  mode: none",
+    "  currency: USD",
+    "  max_amount: 0",
+    "runtime:"
+  );
+
+  if (template === "docker") {
+    lines.push(
+      "  execution: docker",
+      "  # the image must provide spell-runner on PATH",
+      `  docker_image: ghcr.io/example/${name}:0.1.0`,
+      "  platforms:",
+      ...DOCKER_PLATFORMS.map((platform) => `    - ${platform}`)
+    );
+  } else {
+    lines.push("  execution: host", "  platforms:", ...HOST_PLATFORMS.map((platform) => `    - ${platform}`));
+  }
+
+  lines.push("steps:");
+  if (template === "http") {
+    lines.push("  - uses: http", "    name: request", "    run: steps/request.json");
+  } else {
+    lines.push("  - uses: shell", "    name: main", "    run: steps/main.js");
+  }
+
+  lines.push("checks:", "  - type: exit_code", "    params: {}", "");
+  return lines.join("\n");
+}
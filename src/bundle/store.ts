@@ -140,12 +140,13 @@ export function summarizeSchema(schema: unknown): { required: string[]; keyTypes
   return { required, keyTypes };
 }
 
-async function listVersionDirs(idRoot: string): Promise<string[]> {
+// Dot-prefixed directories are install/uninstall staging areas, never versions.
+export async function listVersionDirs(idRoot: string): Promise<string[]> {
   const entries = await readdir(idRoot, { withFileTypes: true });
   return entries
     .filter((entry) => entry.isDirectory())
     .map((entry) => entry.name)
-    .filter((name) => name !== "." && name !== "..");
+    .filter((name) => !name.startsWith("."));
 }
 
 export async function readSchemaFromManifest(manifest: SpellBundleManifest, bundlePath: string): Promise<unknown> {
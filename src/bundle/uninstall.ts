@@ -0,0 +1,168 @@
+import { randomUUID } from "node:crypto";
+import { access, readFile, readdir, rename, rm } from "node:fs/promises";
+import path from "node:path";
+import { loadButtonRegistryFromFile } from "../contract/buttonRegistry";
+import { SpellError } from "../util/errors";
+import { toIdKey } from "../util/idKey";
+import { spellsRoot } from "../util/paths";
+import { compareVersionDesc } from "../util/version";
+import { listVersionDirs } from "./store";
+
+export interface RemovedSpellVersion {
+  id: string;
+  version: string;
+}
+
+export interface RemoveSpellOptions {
+  force?: boolean;
+  buttonRegistryPath?: string;
+}
+
+export interface UninstallSpellOptions extends RemoveSpellOptions {
+  version?: string;
+  all?: boolean;
+}
+
+interface RemovalPlan {
+  id: string;
+  idRoot: string;
+  versions: string[];
+}
+
+export async function uninstallSpell(id: string, options: UninstallSpellOptions = {}): Promise<RemovedSpellVersion[]> {
+  if (options.version !== undefined && options.all === true) {
+    throw new SpellError("--version and --all cannot be used together");
+  }
+
+  const idRoot = path.join(spellsRoot(), toIdKey(id));
+  await access(idRoot).catch(() => {
+    throw new SpellError(`spell not installed: ${id}`);
+  });
+
+  const persistedId = await readPersistedId(idRoot);
+  if (persistedId !== id) {
+    throw new SpellError(`id mismatch in spell.id.txt: expected '${id}', found '${persistedId}'`);
+  }
+
+  const versions = (await listVersionDirs(idRoot)).sort(compareVersionDesc);
+  let targets: string[];
+  if (options.all === true) {
+    targets = versions;
+  } else if (options.version !== undefined) {
+    if (!versions.includes(options.version)) {
+      throw new SpellError(`version not installed for ${id}: ${options.version}`);
+    }
+    targets = [options.version];
+  } else if (versions.length <= 1) {
+    targets = versions;
+  } else {
+    throw new SpellError(`multiple versions installed for ${id}: ${versions.join(", ")} (use --version or --all)`);
+  }
+
+  const plan: RemovalPlan = { id, idRoot, versions: targets };
+  await assertNotPinned([plan], options);
+  return removePlannedVersions(plan);
+}
+
+export async function pruneSpells(keep: number, options: RemoveSpellOptions = {}): Promise<RemovedSpellVersion[]> {
+  if (!Number.isInteger(keep) || keep < 1) {
+    throw new SpellError("--keep must be a positive integer");
+  }
+
+  const root = spellsRoot();
+  let idKeys: string[];
+  try {
+    idKeys = await readdir(root);
+  } catch {
+    return [];
+  }
+
+  const plans: RemovalPlan[] = [];
+  for (const idKey of idKeys.sort()) {
+    const idRoot = path.join(root, idKey);
+    const id = await readPersistedId(idRoot);
+    const versions = (await listVersionDirs(idRoot)).sort(compareVersionDesc);
+    if (versions.length > keep) {
+      plans.push({ id, idRoot, versions: versions.slice(keep) });
+    }
+  }
+
+  // Every pin is checked before anything is deleted, so a refused prune leaves the store untouched.
+  await assertNotPinned(plans, options);
+
+  const removed: RemovedSpellVersion[] = [];
+  for (const plan of plans) {
+    removed.push(...(await removePlannedVersions(plan)));
+  }
+  return removed;
+}
+
+async function readPersistedId(idRoot: string): Promise<string> {
+  const idFile = path.join(idRoot, "spell.id.txt");
+  try {
+    return (await readFile(idFile, "utf8")).trim();
+  } catch {
+    throw new SpellError(`missing spell.id.txt under ${idRoot}`);
+  }
+}
+
+async function assertNotPinned(plans: RemovalPlan[], options: RemoveSpellOptions): Promise<void> {
+  if (options.force === true || plans.every((plan) => plan.versions.length === 0)) {
+    return;
+  }
+
+  const pins = await loadButtonPins(options.buttonRegistryPath);
+  const violations: string[] = [];
+  for (const plan of plans) {
+    for (const version of plan.versions) {
+      const buttons = pins.get(`${plan.id}@${version}`);
+      if (buttons) {
+        violations.push(`${plan.id}@${version} (buttons: ${buttons.join(", ")})`);
+      }
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new SpellError(
+      `refusing to remove versions pinned by the button registry: ${violations.join("; ")} (use --force to remove anyway)`
+    );
+  }
+}
+
+// Resolves the registry the same way the execution API does; only an explicitly configured path must exist.
+async function loadButtonPins(explicitPath?: string): Promise<Map<string, string[]>> {
+  const configuredPath = explicitPath ?? process.env.SPELL_BUTTON_REGISTRY_PATH;
+  const registryPath = configuredPath ?? path.join(process.cwd(), "examples", "button-registry.v1.json");
+
+  if (configuredPath === undefined) {
+    try {
+      await access(registryPath);
+    } catch {
+      return new Map();
+    }
+  }
+
+  const registry = await loadButtonRegistryFromFile(registryPath);
+  const pins = new Map<string, string[]>();
+  for (const button of registry.buttons) {
+    const key = `${button.spell_id}@${button.version}`;
+    pins.set(key, [...(pins.get(key) ?? []), button.button_id]);
+  }
+  return pins;
+}
+
+async function removePlannedVersions(plan: RemovalPlan): Promise<RemovedSpellVersion[]> {
+  const removed: RemovedSpellVersion[] = [];
+  for (const version of plan.versions) {
+    // Rename first so the version disappears from the store at once, then delete at leisure.
+    const trashPath = path.join(plan.idRoot, `.removing-${version}-${randomUUID().slice(0, 8)}`);
+    await rename(path.join(plan.idRoot, version), trashPath);
+    await rm(trashPath, { recursive: true, force: true });
+    removed.push({ id: plan.id, version });
+  }
+
+  if ((await listVersionDirs(plan.idRoot)).length === 0) {
+    await rm(plan.idRoot, { recursive: true, force: true });
+  }
+  return removed;
+}
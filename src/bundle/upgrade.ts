@@ -0,0 +1,227 @@
+import { SpellBundleManifest, SpellRisk } from "../types";
+import { SpellError } from "../util/errors";
+import { compareVersionDesc, selectLatestVersion } from "../util/version";
+import { installBundle } from "./install";
+import { listRegistryCatalog, readRegistryConfig } from "./registry";
+import { listInstalledSpells, resolveInstalledBundle } from "./store";
+
+export interface OutdatedSpell {
+  id: string;
+  installedVersion: string;
+  latestVersion: string;
+  registryName: string;
+}
+
+export type ManifestChangeField = "risk" | "permissions" | "effects" | "billing";
+
+export interface ManifestChange {
+  field: ManifestChangeField;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+export interface UpgradePlan {
+  id: string;
+  fromVersion: string;
+  toVersion: string;
+  registryName: string;
+  changes: ManifestChange[];
+  escalations: string[];
+}
+
+export type UpgradeResult =
+  | { status: "up_to_date"; id: string; version: string }
+  | { status: "upgraded"; plan: UpgradePlan };
+
+export interface UpgradeSpellOptions {
+  registryName?: string;
+  yes?: boolean;
+  onPlan?: (plan: UpgradePlan) => void;
+}
+
+interface RegistryLatest {
+  version: string;
+  registryName: string;
+}
+
+const RISK_ORDER: Record<SpellRisk, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3
+};
+
+export async function listOutdatedSpells(registryName?: string): Promise<OutdatedSpell[]> {
+  const installed = await listInstalledSpells();
+  const installedById = new Map<string, string[]>();
+  for (const spell of installed) {
+    installedById.set(spell.id, [...(installedById.get(spell.id) ?? []), spell.version]);
+  }
+
+  const latestById = await collectRegistryLatest(registryName);
+  const outdated: OutdatedSpell[] = [];
+  for (const [id, versions] of installedById) {
+    const latest = latestById.get(id);
+    const installedVersion = selectLatestVersion(versions);
+    if (latest && compareVersionDesc(latest.version, installedVersion) < 0) {
+      outdated.push({
+        id,
+        installedVersion,
+        latestVersion: latest.version,
+        registryName: latest.registryName
+      });
+    }
+  }
+
+  return outdated.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function upgradeSpell(id: string, options: UpgradeSpellOptions = {}): Promise<UpgradeResult> {
+  const installed = await resolveInstalledBundle(id);
+  const fromVersion = installed.manifest.version;
+  const latest = (await collectRegistryLatest(options.registryName)).get(id);
+  if (!latest) {
+    throw new SpellError(`registry entry not found: ${id}`);
+  }
+
+  if (compareVersionDesc(latest.version, fromVersion) >= 0) {
+    return { status: "up_to_date", id, version: fromVersion };
+  }
+
+  let plan: UpgradePlan | undefined;
+  await installBundle(`registry:${id}@${latest.version}`, {
+    registryName: latest.registryName,
+    beforeInstall: (manifest) => {
+      if (manifest.id !== id) {
+        throw new SpellError(`registry bundle id mismatch: expected '${id}', found '${manifest.id}'`);
+      }
+
+      plan = {
+        id,
+        fromVersion,
+        toVersion: manifest.version,
+        registryName: latest.registryName,
+        ...diffManifests(installed.manifest, manifest)
+      };
+      options.onPlan?.(plan);
+
+      if (plan.escalations.length > 0 && options.yes !== true) {
+        throw new SpellError(
+          `upgrade of ${id} to ${manifest.version} requires --yes: ${plan.escalations.join("; ")}`
+        );
+      }
+    }
+  });
+
+  if (!plan) {
+    throw new SpellError(`upgrade of ${id} did not resolve a manifest`);
+  }
+  return { status: "upgraded", plan };
+}
+
+export function diffManifests(
+  before: SpellBundleManifest,
+  after: SpellBundleManifest
+): { changes: ManifestChange[]; escalations: string[] } {
+  const changes: ManifestChange[] = [];
+  const escalations: string[] = [];
+
+  if (before.risk !== after.risk) {
+    changes.push({ field: "risk", kind: "changed", before: before.risk, after: after.risk });
+    if (RISK_ORDER[after.risk] > RISK_ORDER[before.risk]) {
+      escalations.push(`risk escalates from ${before.risk} to ${after.risk}`);
+    }
+  }
+
+  changes.push(
+    ...diffSets(
+      "permissions",
+      before.permissions.flatMap((permission) => formatPermission(permission.connector, permission.scopes)),
+      after.permissions.flatMap((permission) => formatPermission(permission.connector, permission.scopes))
+    )
+  );
+
+  const effectChanges = diffSets("effects", before.effects.map(formatEffect), after.effects.map(formatEffect));
+  changes.push(...effectChanges);
+
+  const previouslyMutating = new Set(
+    before.effects.filter((effect) => effect.mutates).map((effect) => `${effect.type}:${effect.target}`)
+  );
+  for (const effect of after.effects) {
+    if (effect.mutates && !previouslyMutating.has(`${effect.type}:${effect.target}`)) {
+      escalations.push(`adds mutating effect ${effect.type}:${effect.target}`);
+    }
+  }
+
+  const beforeBilling = formatBilling(before);
+  const afterBilling = formatBilling(after);
+  if (beforeBilling !== afterBilling) {
+    changes.push({ field: "billing", kind: "changed", before: beforeBilling, after: afterBilling });
+  }
+
+  return { changes, escalations };
+}
+
+export function formatManifestChange(change: ManifestChange): string {
+  switch (change.kind) {
+    case "added":
+      return `${change.field}\t+ ${change.after}`;
+    case "removed":
+      return `${change.field}\t- ${change.before}`;
+    default:
+      return `${change.field}\t${change.before} -> ${change.after}`;
+  }
+}
+
+async function collectRegistryLatest(registryName?: string): Promise<Map<string, RegistryLatest>> {
+  const config = await readRegistryConfig();
+  const names = registryName === undefined ? config.indexes.map((index) => index.name) : [registryName];
+  const latestById = new Map<string, RegistryLatest>();
+
+  // Indexes are read in config order, so an earlier index wins when two publish the same version.
+  for (const name of names) {
+    const catalog = await listRegistryCatalog(name, { latestOnly: true });
+    for (const entry of catalog.spells) {
+      const current = latestById.get(entry.id);
+      if (!current || compareVersionDesc(entry.version, current.version) < 0) {
+        latestById.set(entry.id, { version: entry.version, registryName: catalog.name });
+      }
+    }
+  }
+
+  return latestById;
+}
+
+function diffSets(field: ManifestChangeField, before: string[], after: string[]): ManifestChange[] {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const changes: ManifestChange[] = [];
+  for (const value of [...beforeSet].sort()) {
+    if (!afterSet.has(value)) {
+      changes.push({ field, kind: "removed", before: value });
+    }
+  }
+  for (const value of [...afterSet].sort()) {
+    if (!beforeSet.has(value)) {
+      changes.push({ field, kind: "added", after: value });
+    }
+  }
+  return changes;
+}
+
+function formatPermission(connector: string, scopes: string[]): string[] {
+  return scopes.length === 0 ? [connector] : scopes.map((scope) => `${connector}:${scope}`);
+}
+
+function formatEffect(effect: SpellBundleManifest["effects"][number]): string {
+  return `${effect.type}:${effect.target}${effect.mutates ? " (mutates)" : ""}`;
+}
+
+function formatBilling(manifest: SpellBundleManifest): string {
+  const billing = manifest.billing;
+  if (!billing.enabled) {
+    return "disabled";
+  }
+  return `${billing.mode} ${billing.max_amount} ${billing.currency}`;
+}
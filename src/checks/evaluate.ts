@@ -4,13 +4,14 @@ import { CheckResult, SpellCheck } from "../types";
 import { SpellError } from "../util/errors";
 import { getByDotPath } from "../util/object";
 import { resolveOutputReference } from "../util/outputs";
-import { fetchHttp } from "../util/http";
+import { fetchHttp, type HttpFetcher } from "../util/http";
 
 export async function evaluateChecks(
   checks: SpellCheck[],
   bundlePath: string,
   outputs: Record<string, unknown>,
-  stepsSucceeded: boolean
+  stepsSucceeded: boolean,
+  fetcher: HttpFetcher = fetchHttp
 ): Promise<CheckResult[]> {
   const results: CheckResult[] = [];
 
@@ -50,7 +51,7 @@ export async function evaluateChecks(
         throw new SpellError("http_status check needs params.url or params.url_from_output");
       }
 
-      const response = await fetchHttp(resolvedUrl);
+      const response = await fetcher(resolvedUrl);
       const ok = response.status === expect;
 
       results.push({
@@ -11,20 +11,36 @@ import {
   readRegistryConfigIfExists,
   removeRegistryIndex,
   setDefaultRegistryIndex,
+  signRegistryIndexFile,
   validateRegistryIndexes
 } from "../bundle/registry";
+import { publishRegistryEntry } from "../bundle/registryPublish";
+import { startRegistryServer } from "../bundle/registryServer";
 import { listInstalledSpells, readSchemaFromManifest, resolveInstalledBundle, summarizeSchema } from "../bundle/store";
+import { lintBundle } from "../bundle/lint";
+import { SCAFFOLD_TEMPLATES, scaffoldBundle } from "../bundle/scaffold";
+import { pruneSpells, uninstallSpell } from "../bundle/uninstall";
+import { formatManifestChange, listOutdatedSpells, upgradeSpell, type UpgradePlan } from "../bundle/upgrade";
 import { generateSigningKeypair, signBundleFromPrivateKey } from "../signature/signing";
 import { castSpell } from "../runner/cast";
+import { runBundleTests } from "../runner/bundleTests";
+import { formatJunitReport, formatTapReport } from "../runner/testReports";
+import { exportTrustBundle, importTrustBundle, readTrustBundle } from "../signature/trustBundle";
 import { verifyBundleSignature } from "../signature/verify";
 import { inspectLicense, listLicenses, removeLicense, restoreLicense, revokeLicense, upsertLicense } from "../license/store";
 import { loadRuntimePolicy, parseRuntimePolicyFile, runtimePolicyFilePath } from "../policy";
+import { explainAllInstalledSpells, explainInstalledSpell, type PolicyExplanation } from "../policy/explain";
 import {
   loadPublisherTrust,
   listTrustedPublishers,
   removeTrustedPublisherKey,
   removeTrustedPublisher,
+  isTrustRevocationMode,
   restoreTrustedPublisherKey,
+  planPublisherKeyRotation,
+  rotateTrustedPublisherKey,
+  setPublisherRevocationMode,
+  setPublisherTrustThreshold,
   revokeTrustedPublisherKey,
   upsertTrustedPublisherKey
 } from "../signature/trustStore";
@@ -47,19 +63,149 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
       "Path, git URL (requires #<ref>), oci:<image-ref>, or registry:<id>[@<version|latest>]"
     )
     .option("--registry <name>", "Registry index name (for registry:<id> sources)")
-    .action(async (source: string, options: { registry?: string }) => {
-      const result = await installBundle(source, { registryName: options.registry });
+    .option("--reinstall", "Atomically replace the version if it is already installed", false)
+    .action(async (source: string, options: { registry?: string; reinstall?: boolean }) => {
+      const result = await installBundle(source, {
+        registryName: options.registry,
+        reinstall: options.reinstall === true
+      });
       process.stdout.write(`${result.id}@${result.version}\n`);
     });
 
+  program
+    .command("uninstall")
+    .description("Remove installed versions of a spell")
+    .argument("<id>", "Spell id")
+    .option("--version <version>", "Remove only this version")
+    .option("--all", "Remove every installed version", false)
+    .option("--force", "Remove versions even if a button registry entry pins them", false)
+    .option("--button-registry <path>", "Button registry checked for pins (default: SPELL_BUTTON_REGISTRY_PATH)")
+    .action(
+      async (
+        id: string,
+        options: { version?: string; all?: boolean; force?: boolean; buttonRegistry?: string }
+      ) => {
+        const removed = await uninstallSpell(id, {
+          version: options.version,
+          all: options.all === true,
+          force: options.force === true,
+          buttonRegistryPath: options.buttonRegistry
+        });
+        for (const entry of removed) {
+          process.stdout.write(`removed\t${entry.id}@${entry.version}\n`);
+        }
+      }
+    );
+
+  program
+    .command("outdated")
+    .description("List installed spells that have a newer version in the configured registries")
+    .option("--registry <name>", "Compare against one registry index instead of all")
+    .action(async (options: { registry?: string }) => {
+      const outdated = await listOutdatedSpells(options.registry);
+      if (outdated.length === 0) {
+        process.stdout.write("All installed spells are up to date\n");
+        return;
+      }
+
+      process.stdout.write("id\tinstalled\tlatest\tregistry\n");
+      for (const entry of outdated) {
+        process.stdout.write(`${entry.id}\t${entry.installedVersion}\t${entry.latestVersion}\t${entry.registryName}\n`);
+      }
+    });
+
+  program
+    .command("upgrade")
+    .description("Install the newest registry version of installed spells")
+    .argument("[id]", "Spell id to upgrade")
+    .option("--all", "Upgrade every outdated spell", false)
+    .option("--registry <name>", "Upgrade from one registry index instead of all")
+    .option("--yes", "Accept upgrades that escalate risk or add mutating effects", false)
+    .action(async (id: string | undefined, options: { all?: boolean; registry?: string; yes?: boolean }) => {
+      if ((id === undefined) === (options.all !== true)) {
+        throw new SpellError("specify exactly one of <id> or --all");
+      }
+
+      const upgradeOptions = {
+        registryName: options.registry,
+        yes: options.yes === true,
+        onPlan: (plan: UpgradePlan) => {
+          process.stdout.write(`upgrade\t${plan.id}\t${plan.fromVersion} -> ${plan.toVersion}\t${plan.registryName}\n`);
+          for (const change of plan.changes) {
+            process.stdout.write(`${formatManifestChange(change)}\n`);
+          }
+        }
+      };
+
+      if (id !== undefined) {
+        const result = await upgradeSpell(id, upgradeOptions);
+        if (result.status === "up_to_date") {
+          process.stdout.write(`up to date\t${result.id}@${result.version}\n`);
+          return;
+        }
+        process.stdout.write(`${result.plan.id}@${result.plan.toVersion}\n`);
+        return;
+      }
+
+      const outdated = await listOutdatedSpells(options.registry);
+      if (outdated.length === 0) {
+        process.stdout.write("All installed spells are up to date\n");
+        return;
+      }
+
+      // Keep going past a refused or failed upgrade so one spell cannot block the rest.
+      const failed: string[] = [];
+      for (const entry of outdated) {
+        try {
+          const result = await upgradeSpell(entry.id, upgradeOptions);
+          if (result.status === "upgraded") {
+            process.stdout.write(`${result.plan.id}@${result.plan.toVersion}\n`);
+          }
+        } catch (error) {
+          failed.push(entry.id);
+          process.stderr.write(`${entry.id}: ${(error as Error).message}\n`);
+        }
+      }
+
+      if (failed.length > 0) {
+        throw new SpellError(`upgrade failed for: ${failed.join(", ")}`);
+      }
+    });
+
+  program
+    .command("prune")
+    .description("Remove all but the newest installed versions of every spell")
+    .requiredOption("--keep <n>", "Number of newest versions to keep per spell id")
+    .option("--force", "Remove versions even if a button registry entry pins them", false)
+    .option("--button-registry <path>", "Button registry checked for pins (default: SPELL_BUTTON_REGISTRY_PATH)")
+    .action(async (options: { keep: string; force?: boolean; buttonRegistry?: string }) => {
+      const raw = options.keep.trim();
+      if (!/^\d+$/.test(raw) || Number(raw) <= 0) {
+        throw new SpellError("--keep must be a positive integer");
+      }
+
+      const removed = await pruneSpells(Number(raw), {
+        force: options.force === true,
+        buttonRegistryPath: options.buttonRegistry
+      });
+      if (removed.length === 0) {
+        process.stdout.write("Nothing to prune\n");
+        return;
+      }
+      for (const entry of removed) {
+        process.stdout.write(`removed\t${entry.id}@${entry.version}\n`);
+      }
+    });
+
   const registry = program.command("registry").description("Manage spell registry indexes");
 
   registry
     .command("set")
     .description("Set or replace the default registry index URL")
     .argument("<url>", "URL to spell-index.v1.json")
-    .action(async (url: string) => {
-      const config = await setDefaultRegistryIndex(url);
+    .option("--public-key <base64url>", "Require index signatures by this ed25519 key (spki der)")
+    .action(async (url: string, options: { publicKey?: string }) => {
+      const config = await setDefaultRegistryIndex(url, options.publicKey);
       process.stdout.write(`default\t${config.indexes[0].url}\n`);
     });
 
@@ -68,8 +214,9 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
     .description("Add a named registry index")
     .argument("<name>", "Unique registry index name")
     .argument("<url>", "URL to spell-index.v1.json")
-    .action(async (name: string, url: string) => {
-      const config = await addRegistryIndex(name, url);
+    .option("--public-key <base64url>", "Require index signatures by this ed25519 key (spki der)")
+    .action(async (name: string, url: string, options: { publicKey?: string }) => {
+      const config = await addRegistryIndex(name, url, options.publicKey);
       const added = config.indexes.find((index) => index.name === name.trim());
       process.stdout.write(`${added?.name ?? name.trim()}\t${added?.url ?? url}\n`);
     });
@@ -90,8 +237,74 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
     .action(async (options: { name?: string }) => {
       const results = await validateRegistryIndexes(options.name);
       for (const result of results) {
-        process.stdout.write(`${result.name}\t${result.url}\t${result.spellCount}\n`);
+        process.stdout.write(
+          `${result.name}\t${result.url}\t${result.spellCount}\t${result.signature}\t${result.serial ?? "-"}\n`
+        );
+      }
+    });
+
+  registry
+    .command("sign")
+    .description("Write a detached signature (<index-file>.sig) for a registry index")
+    .argument("<index-file>", "Path to spell-index.v1.json")
+    .requiredOption("--private-key <file>", "PKCS#8 private key (PEM)")
+    .option("--key-id <id>", "Key id", "default")
+    .action(async (indexFile: string, options: { privateKey: string; keyId: string }) => {
+      const result = await signRegistryIndexFile(indexFile, options.privateKey, options.keyId);
+      process.stdout.write(`signed: ${result.signaturePath}\n`);
+      process.stdout.write(`key_id: ${result.keyId}\n`);
+      process.stdout.write(`serial: ${result.serial}\n`);
+    });
+
+  registry
+    .command("publish")
+    .description("Add or update a bundle's entry in a local registry index file")
+    .argument("<bundle-path>", "Local bundle directory (a checkout of --source)")
+    .requiredOption("--index <file>", "Registry index file to write (created when missing)")
+    .requiredOption("--source <source>", "Entry source: <git-url>#<ref>")
+    .option("--commit <sha>", "Pin this commit instead of resolving --source with git ls-remote")
+    .option("--force", "Replace an existing entry for the same id@version", false)
+    .option("--private-key <file>", "Re-sign the index with this PKCS#8 private key (PEM)")
+    .option("--key-id <id>", "Key id used with --private-key", "default")
+    .action(
+      async (
+        bundlePath: string,
+        options: { index: string; source: string; commit?: string; force?: boolean; privateKey?: string; keyId: string }
+      ) => {
+        const result = await publishRegistryEntry(bundlePath, {
+          indexPath: options.index,
+          source: options.source,
+          commit: options.commit,
+          force: options.force === true,
+          privateKeyPath: options.privateKey,
+          keyId: options.keyId
+        });
+        process.stdout.write(`${result.change}\t${result.entry.id}@${result.entry.version}\n`);
+        process.stdout.write(`index: ${result.indexPath}\n`);
+        process.stdout.write(`serial: ${result.serial ?? "-"}\n`);
+        process.stdout.write(`commit: ${result.entry.commit ?? "-"}\n`);
+        process.stdout.write(`digest: ${result.entry.digest ?? "-"}\n`);
+        if (result.signature === "signed") {
+          process.stdout.write(`signed: ${result.indexPath}.sig\n`);
+        } else if (result.signature === "stale") {
+          process.stdout.write(`warning: ${result.indexPath}.sig is stale; run 'spell registry sign' again\n`);
+        }
+      }
+    );
+
+  registry
+    .command("serve")
+    .description("Serve a registry directory (index, signature, bundle tarballs) over local HTTP")
+    .argument("<dir>", "Directory containing spell-index.v1.json and related files")
+    .option("--port <number>", "Port to listen on (0 picks a free port)", "8790")
+    .option("--host <host>", "Address to bind", "127.0.0.1")
+    .action(async (dir: string, options: { port: string; host: string }) => {
+      const rawPort = options.port.trim();
+      if (!/^\d+$/.test(rawPort) || Number(rawPort) > 65535) {
+        throw new SpellError("--port must be an integer between 0 and 65535");
       }
+      const started = await startRegistryServer(dir, { port: Number(rawPort), host: options.host });
+      process.stdout.write(`serving\t${path.resolve(dir)}\thttp://${started.host}:${started.port}/\n`);
     });
 
   registry
@@ -165,9 +378,10 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
         return;
       }
 
-      process.stdout.write("name\turl\n");
+      process.stdout.write("name\turl\tpublic_key\n");
       for (const index of config.indexes) {
-        process.stdout.write(`${index.name}\t${index.url}\n`);
+        const publicKey = index.public_key ? shortenPublicKeyFingerprint(index.public_key) : "-";
+        process.stdout.write(`${index.name}\t${index.url}\t${publicKey}\n`);
       }
     });
 
@@ -210,6 +424,119 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
       process.stdout.write(`policy written: ${destination}\n`);
     });
 
+  policy
+    .command("explain")
+    .description("Trace every runtime policy rule against installed spells without casting")
+    .argument("[id]", "Installed spell id")
+    .option("--version <version>", "Installed version (default: latest)")
+    .option("--policy-file <path>", "Policy JSON to evaluate instead of the configured policy")
+    .option("--all", "Evaluate every installed spell and print a rule matrix")
+    .action(async (id: string | undefined, options: { version?: string; policyFile?: string; all?: boolean }) => {
+      if (options.all === true && (id !== undefined || options.version !== undefined)) {
+        throw new SpellError("--all cannot be combined with an id or --version");
+      }
+      if (options.all !== true && id === undefined) {
+        throw new SpellError("missing spell id (or use --all)");
+      }
+
+      const policySource = options.policyFile ? path.resolve(options.policyFile) : runtimePolicyFilePath();
+      const runtimePolicy = options.policyFile
+        ? await parseRuntimePolicyFile(policySource)
+        : await loadRuntimePolicy();
+      process.stdout.write(
+        runtimePolicy ? `policy\t${policySource}\n` : `No runtime policy configured at ${policySource}; every spell is allowed\n`
+      );
+
+      if (options.all === true) {
+        writePolicyMatrix(await explainAllInstalledSpells(runtimePolicy));
+        return;
+      }
+
+      const explanation = await explainInstalledSpell(runtimePolicy, id as string, options.version);
+      const { context, trace } = explanation;
+      process.stdout.write(`spell\t${explanation.id}@${explanation.version}\n`);
+      process.stdout.write(
+        `context\tpublisher=${context.publisher} risk=${context.risk} execution=${context.execution} platform=${context.platform} signature=${context.signature_status ?? "unknown"}\n`
+      );
+      for (const rule of trace.rules) {
+        process.stdout.write(`${rule.outcome}\t${rule.rule}${rule.reason ? `\t${rule.reason}` : ""}\n`);
+      }
+      process.stdout.write(`decision\t${trace.allow ? "allow" : "deny"}${trace.reason ? `\t${trace.reason}` : ""}\n`);
+    });
+
+  program
+    .command("init")
+    .description("Scaffold a new spell bundle directory")
+    .argument("<id>", "Spell id for the new bundle")
+    .option("--template <template>", `Bundle template (${SCAFFOLD_TEMPLATES.join("|")})`, "shell")
+    .option("--out <dir>", "Target directory (default: last segment of the id)")
+    .action(async (id: string, options: { template: string; out?: string }) => {
+      const template = SCAFFOLD_TEMPLATES.find((entry) => entry === options.template);
+      if (!template) {
+        throw new SpellError(`--template must be one of: ${SCAFFOLD_TEMPLATES.join(", ")}`);
+      }
+
+      const result = await scaffoldBundle(id, { template, outDir: options.out });
+      process.stdout.write(`${result.id}\t${result.template}\t${result.bundlePath}\n`);
+      for (const file of result.files) {
+        process.stdout.write(`created\t${file}\n`);
+      }
+    });
+
+  program
+    .command("lint")
+    .description("Statically check a local spell bundle and report every finding")
+    .argument("<path>", "Local bundle directory")
+    .option("--format <format>", "Output format (text|json)", "text")
+    .action(async (bundlePath: string, options: { format: string }) => {
+      if (options.format !== "text" && options.format !== "json") {
+        throw new SpellError("--format must be one of: text, json");
+      }
+
+      const report = await lintBundle(bundlePath);
+      if (options.format === "json") {
+        process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      } else if (report.findings.length === 0) {
+        process.stdout.write("No findings\n");
+      } else {
+        for (const finding of report.findings) {
+          process.stdout.write(`${finding.severity}\t${finding.rule}\t${finding.message}\n`);
+        }
+        process.stdout.write(`${report.errors} error(s), ${report.warnings} warning(s)\n`);
+      }
+
+      if (report.errors > 0) {
+        throw new SpellError(`lint failed: ${report.errors} error(s)`);
+      }
+    });
+
+  program
+    .command("test")
+    .description("Run a local bundle's tests/*.yaml cases with stubbed http steps")
+    .argument("<path>", "Local bundle directory")
+    .option("--format <format>", "Report format (tap|junit)", "tap")
+    .option("--output <file>", "Write the report to a file instead of stdout")
+    .action(async (bundlePath: string, options: { format: string; output?: string }) => {
+      if (options.format !== "tap" && options.format !== "junit") {
+        throw new SpellError("--format must be one of: tap, junit");
+      }
+
+      const run = await runBundleTests(bundlePath);
+      const report = options.format === "junit" ? formatJunitReport(run) : formatTapReport(run);
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        await mkdir(path.dirname(outputPath), { recursive: true });
+        await writeFile(outputPath, report, "utf8");
+        process.stdout.write(`${run.passed} passed, ${run.failed} failed\n`);
+      } else {
+        process.stdout.write(report);
+      }
+
+      if (run.failed > 0) {
+        throw new SpellError(`${run.failed} of ${run.cases.length} test case(s) failed`);
+      }
+    });
+
   program
     .command("list")
     .description("List installed spells")
@@ -291,6 +618,10 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
       process.stdout.write(`status: ${result.status}\n`);
       process.stdout.write(`publisher: ${result.publisher}\n`);
       process.stdout.write(`key_id: ${result.key_id ?? "-"}\n`);
+      if (result.signers.length > 0) {
+        const signers = result.signers.map((signer) => `${signer.publisher}:${signer.key_id}`).join(",");
+        process.stdout.write(`signers: ${signers}\n`);
+      }
       process.stdout.write(`digest: ${result.digest ?? "-"}\n`);
       process.stdout.write(`message: ${result.message}\n`);
 
@@ -313,6 +644,8 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
     .option("--allow-unsigned", "Allow unsigned bundles (overrides signature requirement)", false)
     .option("--verbose", "Verbose logs", false)
     .option("--profile <name>", "Reserved for future use")
+    .option("--resume <execution-id>", "Resume a failed execution from its unfinished steps")
+    .option("--events <target>", "Write NDJSON progress events to a file path or fd:<n>")
     .action(
       async (
         id: string,
@@ -327,6 +660,8 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
           allowUnsigned: boolean;
           verbose: boolean;
           profile?: string;
+          resume?: string;
+          events?: string;
         }
       ) => {
         const requireSignature = options.allowUnsigned ? false : options.requireSignature;
@@ -340,7 +675,9 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
           allowBilling: options.allowBilling,
           requireSignature,
           verbose: options.verbose,
-          profile: options.profile
+          profile: options.profile,
+          resume: options.resume,
+          events: options.events
         });
 
         process.stdout.write(`execution_id: ${result.executionId}\n`);
@@ -380,6 +717,7 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
     .requiredOption("--private-key <file>", "PKCS#8 private key (PEM)")
     .option("--key-id <id>", "Key id", "default")
     .option("--publisher <name>", "Publisher override (defaults to id prefix)")
+    .option("--append", "Add this signature to the existing spell.sig.json", false)
     .action(
       async (
         localPath: string,
@@ -387,19 +725,23 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
           privateKey: string;
           keyId: string;
           publisher?: string;
+          append: boolean;
         }
       ) => {
         const result = await signBundleFromPrivateKey({
           bundlePath: localPath,
           privateKeyPath: options.privateKey,
           keyId: options.keyId,
-          publisher: options.publisher
+          publisher: options.publisher,
+          append: options.append
         });
 
         process.stdout.write(`signed: ${result.signaturePath}\n`);
         process.stdout.write(`publisher: ${result.publisher}\n`);
         process.stdout.write(`key_id: ${result.keyId}\n`);
         process.stdout.write(`digest: ${result.digestHex}\n`);
+        process.stdout.write(`signed_at: ${result.signedAt}\n`);
+        process.stdout.write(`signatures: ${result.signatureCount}\n`);
       }
     );
 
@@ -491,23 +833,33 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
     .argument("<publisher>", "Publisher (id prefix before first slash)")
     .argument("<public-key>", "ed25519 public key (spki der) as base64url")
     .option("--key-id <id>", "Key id", "default")
-    .action(async (publisher: string, publicKey: string, options: { keyId: string }) => {
-      const trimmed = publicKey.trim();
-      try {
-        const der = Buffer.from(trimmed, "base64url");
-        createPublicKey({ key: der, format: "der", type: "spki" });
-      } catch (error) {
-        throw new SpellError(`invalid public key: ${(error as Error).message}`);
-      }
-
-      await upsertTrustedPublisherKey(publisher, {
-        key_id: options.keyId,
-        algorithm: "ed25519",
-        public_key: trimmed
-      });
+    .option("--not-before <iso>", "Reject signatures made before this time")
+    .option("--not-after <iso>", "Reject signatures made at or after this time")
+    .action(
+      async (
+        publisher: string,
+        publicKey: string,
+        options: { keyId: string; notBefore?: string; notAfter?: string }
+      ) => {
+        const trimmed = publicKey.trim();
+        try {
+          const der = Buffer.from(trimmed, "base64url");
+          createPublicKey({ key: der, format: "der", type: "spki" });
+        } catch (error) {
+          throw new SpellError(`invalid public key: ${(error as Error).message}`);
+        }
 
-      process.stdout.write(`trusted publisher=${publisher} key_id=${options.keyId}\n`);
-    });
+        await upsertTrustedPublisherKey(publisher, {
+          key_id: options.keyId,
+          algorithm: "ed25519",
+          public_key: trimmed,
+          not_before: options.notBefore,
+          not_after: options.notAfter
+        });
+
+        process.stdout.write(`trusted publisher=${publisher} key_id=${options.keyId}\n`);
+      }
+    );
 
   trust
     .command("list")
@@ -538,13 +890,115 @@ export async function runCli(argv: string[] = process.argv): Promise<number> {
         throw new SpellError(`trusted publisher not found: ${publisher}`);
       }
 
-      process.stdout.write("key_id\tstatus\talgorithm\tfingerprint\n");
+      process.stdout.write(`threshold: ${trustRecord.threshold ?? 1}\n`);
+      process.stdout.write(`revocation_mode: ${trustRecord.revocation_mode ?? "strict"}\n`);
+      process.stdout.write("key_id\tstatus\talgorithm\tfingerprint\tnot_before\tnot_after\n");
       for (const key of trustRecord.keys) {
         const status = key.revoked === true ? "revoked" : "active";
-        process.stdout.write(
-          `${key.key_id}\t${status}\t${key.algorithm}\t${shortenPublicKeyFingerprint(key.public_key)}\n`
-        );
+        const fingerprint = shortenPublicKeyFingerprint(key.public_key);
+        const validity = `${key.not_before ?? "-"}\t${key.not_after ?? "-"}`;
+        process.stdout.write(`${key.key_id}\t${status}\t${key.algorithm}\t${fingerprint}\t${validity}\n`);
+      }
+    });
+
+  trust
+    .command("set-threshold")
+    .description("Require signatures from this many distinct trusted keys of a publisher")
+    .argument("<publisher>", "Publisher (id prefix before first slash)")
+    .argument("<count>", "Number of keys that must sign (1 disables multi-signature)")
+    .action(async (publisher: string, count: string) => {
+      const threshold = Number(count);
+      const updated = await setPublisherTrustThreshold(publisher, threshold);
+      process.stdout.write(`threshold publisher=${publisher} threshold=${updated.threshold ?? 1}\n`);
+    });
+
+  trust
+    .command("export")
+    .description("Export trusted publishers as a trust bundle")
+    .option("--publisher <name>", "Publisher to export (repeatable; defaults to all)", collectParams, [])
+    .option("--out <file>", "Write the bundle to a file instead of stdout")
+    .option("--sign-key <file>", "Sign the bundle with this PKCS#8 private key (PEM)")
+    .option("--key-id <id>", "Key id recorded in the bundle signature", "root")
+    .action(async (options: { publisher: string[]; out?: string; signKey?: string; keyId: string }) => {
+      const bundle = await exportTrustBundle({
+        publishers: options.publisher,
+        signingKeyPath: options.signKey,
+        keyId: options.keyId
+      });
+      const serialized = `${JSON.stringify(bundle, null, 2)}\n`;
+      if (!options.out) {
+        process.stdout.write(serialized);
+        return;
+      }
+
+      await writeFile(path.resolve(options.out), serialized, "utf8");
+      process.stdout.write(`exported: ${path.resolve(options.out)}\n`);
+      process.stdout.write(`publishers: ${bundle.publishers.length}\n`);
+      process.stdout.write(`signed: ${bundle.signature ? "yes" : "no"}\n`);
+    });
+
+  trust
+    .command("import")
+    .description("Import a trust bundle from a file or URL, replacing the listed publishers")
+    .argument("<file-or-url>", "Trust bundle path or http(s) URL")
+    .option("--dry-run", "Show the changes without applying them", false)
+    .option("--prune", "Also remove trusted publishers the bundle does not list", false)
+    .action(async (source: string, options: { dryRun: boolean; prune: boolean }) => {
+      const bundle = await readTrustBundle(source);
+      const result = await importTrustBundle(bundle, { dryRun: options.dryRun, prune: options.prune });
+
+      process.stdout.write(`signature: ${result.signature}\n`);
+      process.stdout.write("change\tpublisher\tkey_id\n");
+      for (const change of result.changes.filter((entry) => entry.change !== "unchanged")) {
+        process.stdout.write(`${change.change}\t${change.publisher}\t${change.key_id ?? "-"}\n`);
+      }
+      const unchanged = result.changes.filter((entry) => entry.change === "unchanged").length;
+      process.stdout.write(`unchanged: ${unchanged}\n`);
+      process.stdout.write(`applied: ${result.applied}\n`);
+    });
+
+  trust
+    .command("set-revocation-mode")
+    .description("Choose whether a revoked key still vouches for signatures made before its revocation")
+    .argument("<publisher>", "Publisher (id prefix before first slash)")
+    .argument("<mode>", "strict | signed_before")
+    .action(async (publisher: string, mode: string) => {
+      if (!isTrustRevocationMode(mode)) {
+        throw new SpellError(`invalid revocation mode: ${mode} (expected strict or signed_before)`);
+      }
+      await setPublisherRevocationMode(publisher, mode);
+      process.stdout.write(`revocation_mode publisher=${publisher} mode=${mode}\n`);
+    });
+
+  trust
+    .command("rotate")
+    .description("Generate a new signing key, trust it from now on and retire the current keys")
+    .argument("<publisher>", "Publisher (id prefix before first slash)")
+    .requiredOption("--key-id <id>", "New key id")
+    .option("--retire <key-id>", "Key to retire (repeatable; defaults to every active key)", collectParams, [])
+    .option("--out-dir <dir>", "Output directory for the new keypair", ".spell-keys")
+    .action(async (publisher: string, options: { keyId: string; retire: string[]; outDir: string }) => {
+      const trustRecord = await loadPublisherTrust(publisher);
+      if (!trustRecord) {
+        throw new SpellError(`trusted publisher not found: ${publisher}`);
       }
+      const retireKeyIds = options.retire.length > 0 ? options.retire : undefined;
+      // Validate before generating so a refused rotation leaves no orphan keypair behind.
+      planPublisherKeyRotation(trustRecord, options.keyId, retireKeyIds);
+
+      const generated = await generateSigningKeypair({ publisher, keyId: options.keyId, outDir: options.outDir });
+      const result = await rotateTrustedPublisherKey(
+        publisher,
+        { key_id: generated.keyId, algorithm: "ed25519", public_key: generated.publicKeyBase64Url },
+        retireKeyIds
+      );
+
+      process.stdout.write(`publisher: ${publisher}\n`);
+      process.stdout.write(`key_id: ${result.added.key_id}\n`);
+      process.stdout.write(`not_before: ${result.added.not_before}\n`);
+      process.stdout.write(`retired: ${result.retired.length > 0 ? result.retired.join(",") : "-"}\n`);
+      process.stdout.write(`private_key: ${generated.privateKeyPath}\n`);
+      process.stdout.write(`public_key_base64url: ${generated.publicKeyBase64Url}\n`);
     });
 
   trust
@@ -636,6 +1090,27 @@ function shortenPublicKeyFingerprint(publicKeyBase64Url: string): string {
   return `${fingerprint.slice(0, 12)}...${fingerprint.slice(-8)}`;
 }
 
+// Only rules that apply to at least one spell get a column; "-" marks a rule that did not apply to that spell.
+function writePolicyMatrix(explanations: PolicyExplanation[]): void {
+  const columns = [
+    ...new Set(
+      explanations.flatMap((explanation) =>
+        explanation.trace.rules.filter((rule) => rule.outcome !== "not_applicable").map((rule) => rule.rule)
+      )
+    )
+  ];
+  process.stdout.write(`${["spell", "decision", ...columns].join("\t")}\n`);
+  for (const explanation of explanations) {
+    const outcomes = new Map(explanation.trace.rules.map((rule) => [rule.rule, rule.outcome]));
+    const cells = columns.map((column) => {
+      const outcome = outcomes.get(column);
+      return outcome === undefined || outcome === "not_applicable" ? "-" : outcome;
+    });
+    const decision = explanation.trace.allow ? "allow" : "deny";
+    process.stdout.write(`${[`${explanation.id}@${explanation.version}`, decision, ...cells].join("\t")}\n`);
+  }
+}
+
 if (require.main === module) {
   runCli().then((code) => {
     process.exitCode = code;
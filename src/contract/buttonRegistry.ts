@@ -1,5 +1,6 @@
 import { readFile } from "node:fs/promises";
 import Ajv2020, { type AnySchema } from "ajv/dist/2020";
+import { RuntimePolicyV1, parseRuntimePolicy } from "../policy";
 import { SpellError } from "../util/errors";
 
 export interface ButtonRequiredConfirmations {
@@ -7,6 +8,13 @@ export interface ButtonRequiredConfirmations {
   billing: boolean;
 }
 
+// Jobs for the button wait in `awaiting_approval` until enough approvers other than the requester approve.
+export interface ButtonApproval {
+  approver_roles: string[];
+  required_approvals: number;
+  expires_in_seconds: number;
+}
+
 export interface ButtonRegistryEntry {
   button_id: string;
   spell_id: string;
@@ -16,6 +24,9 @@ export interface ButtonRegistryEntry {
   require_signature?: boolean;
   allowed_roles: string[];
   allowed_tenants?: string[];
+  // Evaluated with the tenant policy and ~/.spell/policy.json before a job is queued; every bound policy must allow.
+  policy?: RuntimePolicyV1;
+  approval?: ButtonApproval;
   label?: string;
   description?: string;
 }
@@ -73,6 +84,21 @@ const registrySchema = {
             minItems: 1,
             items: { type: "string", minLength: 1 }
           },
+          policy: { type: "object" },
+          approval: {
+            type: "object",
+            additionalProperties: false,
+            required: ["approver_roles", "required_approvals", "expires_in_seconds"],
+            properties: {
+              approver_roles: {
+                type: "array",
+                minItems: 1,
+                items: { type: "string", minLength: 1 }
+              },
+              required_approvals: { type: "integer", minimum: 1 },
+              expires_in_seconds: { type: "integer", minimum: 1 }
+            }
+          },
           label: { type: "string" },
           description: { type: "string" }
         }
@@ -108,6 +134,11 @@ export async function loadButtonRegistryFromFile(filePath: string): Promise<Butt
 
   const registry = parsed as ButtonRegistryV1;
   assertUniqueButtonIds(registry.buttons);
+  for (const entry of registry.buttons) {
+    if (entry.policy !== undefined) {
+      entry.policy = parseButtonPolicy(entry.button_id, entry.policy);
+    }
+  }
 
   return registry;
 }
@@ -120,6 +151,14 @@ export function resolveButtonEntry(registry: ButtonRegistryV1, buttonId: string)
   return found;
 }
 
+function parseButtonPolicy(buttonId: string, raw: unknown): RuntimePolicyV1 {
+  try {
+    return parseRuntimePolicy(raw);
+  } catch (error) {
+    throw new SpellError(`button registry validation failed: ${buttonId} policy: ${(error as Error).message}`);
+  }
+}
+
 function assertUniqueButtonIds(buttons: ButtonRegistryEntry[]): void {
   const seen = new Set<string>();
 
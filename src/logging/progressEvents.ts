@@ -0,0 +1,48 @@
+import { createWriteStream } from "node:fs";
+import path from "node:path";
+import { ProgressEvent } from "../types";
+import { SpellError } from "../util/errors";
+import { redactSecrets } from "../util/redact";
+
+export type ProgressEventListener = (event: ProgressEvent) => void;
+
+export interface ProgressEventSink {
+  emit: ProgressEventListener;
+  close(): Promise<void>;
+}
+
+// Target is either a file path (appended to) or `fd:<n>` for an inherited file descriptor.
+export function openProgressEventSink(target: string): ProgressEventSink {
+  const trimmed = target.trim();
+  if (!trimmed) {
+    throw new SpellError("invalid --events target: empty");
+  }
+
+  const fdMatch = /^fd:(\d+)$/.exec(trimmed);
+  if (trimmed.startsWith("fd:") && (!fdMatch || Number(fdMatch[1]) < 1)) {
+    throw new SpellError(`invalid --events target: ${target}`);
+  }
+
+  const stream = fdMatch
+    ? createWriteStream("", { fd: Number(fdMatch[1]) })
+    : createWriteStream(path.resolve(trimmed), { flags: "a" });
+  // Progress output is best-effort and must never fail the cast itself.
+  stream.on("error", () => undefined);
+
+  return {
+    emit: (event) => {
+      if (stream.destroyed || stream.writableEnded) {
+        return;
+      }
+      stream.write(`${JSON.stringify(redactSecrets(event))}\n`);
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        if (stream.destroyed || stream.writableEnded) {
+          resolve();
+          return;
+        }
+        stream.end(() => resolve());
+      })
+  };
+}
@@ -0,0 +1,33 @@
+import { publisherFromId } from "../signature/trustStore";
+import { verifyBundleSignature } from "../signature/verify";
+import { SpellBundleManifest } from "../types";
+import { detectTargetPlatform } from "../util/platform";
+import { RuntimePolicyContext } from "./index";
+
+export function runtimePolicyContextFromManifest(
+  manifest: SpellBundleManifest,
+  signatureStatus: RuntimePolicyContext["signature_status"]
+): RuntimePolicyContext {
+  return {
+    spell_id: manifest.id,
+    publisher: publisherFromId(manifest.id),
+    risk: manifest.risk,
+    execution: manifest.runtime.execution,
+    effects: manifest.effects,
+    permissions: manifest.permissions,
+    billing: manifest.billing,
+    platform: detectTargetPlatform(manifest.runtime.execution),
+    signature_status: signatureStatus
+  };
+}
+
+// Same signature handling as cast preflight: a verification error counts as an invalid signature.
+export async function resolveRuntimePolicyContext(
+  manifest: SpellBundleManifest,
+  bundlePath: string
+): Promise<RuntimePolicyContext> {
+  const status = await verifyBundleSignature(manifest, bundlePath)
+    .then((result) => result.status)
+    .catch(() => "invalid" as const);
+  return runtimePolicyContextFromManifest(manifest, status);
+}
@@ -0,0 +1,29 @@
+import { listInstalledSpells, resolveInstalledBundle } from "../bundle/store";
+import { RuntimePolicyContext, RuntimePolicyTrace, RuntimePolicyV1, traceRuntimePolicy } from "./index";
+import { resolveRuntimePolicyContext } from "./context";
+
+export interface PolicyExplanation {
+  id: string;
+  version: string;
+  context: RuntimePolicyContext;
+  trace: RuntimePolicyTrace;
+}
+
+export async function explainInstalledSpell(
+  policy: RuntimePolicyV1 | null,
+  id: string,
+  version?: string
+): Promise<PolicyExplanation> {
+  const { manifest, bundlePath } = await resolveInstalledBundle(id, version);
+  const context = await resolveRuntimePolicyContext(manifest, bundlePath);
+  return { id: manifest.id, version: manifest.version, context, trace: traceRuntimePolicy(policy, context) };
+}
+
+export async function explainAllInstalledSpells(policy: RuntimePolicyV1 | null): Promise<PolicyExplanation[]> {
+  const installed = await listInstalledSpells();
+  const explanations: PolicyExplanation[] = [];
+  for (const spell of installed) {
+    explanations.push(await explainInstalledSpell(policy, spell.id, spell.version));
+  }
+  return explanations;
+}
@@ -1,13 +1,17 @@
 import { readFile } from "node:fs/promises";
-import { RuntimeExecution, SpellEffect, SpellRisk } from "../types";
+import { RuntimeExecution, SpellBilling, SpellEffect, SpellPermission, SpellRisk } from "../types";
 import { SpellError } from "../util/errors";
 import { runtimePolicyPath } from "../util/paths";
+import { platformMatches } from "../util/platform";
+import { describeScheduleRule, isScheduleRuleActive, isValidTimeZone, parseClockTime } from "./schedule";
 
 const POLICY_VERSION = "v1";
 
 const ALLOW_DENY_VALUES = new Set(["allow", "deny"]);
 const RISK_VALUES = new Set<SpellRisk>(["low", "medium", "high", "critical"]);
 const EXECUTION_VALUES = new Set<RuntimeExecution>(["host", "docker"]);
+const BILLING_MODE_VALUES = new Set<SpellBilling["mode"]>(["none", "upfront", "on_success", "subscription"]);
+const WEEKDAY_VALUES = new Set<PolicyWeekday>(["mon", "tue", "wed", "thu", "fri", "sat", "sun"]);
 
 const RISK_ORDER: Record<SpellRisk, number> = {
   low: 0,
@@ -36,12 +40,57 @@ export interface RuntimePolicyV1 {
     deny_types?: string[];
     deny_mutations?: boolean;
   };
+  permissions?: {
+    allow_connectors?: string[];
+    deny_connectors?: string[];
+    // Glob patterns over `connector:scope`; `*` matches any run of characters.
+    deny_scopes?: string[];
+  };
+  billing?: {
+    // Caps keyed by currency; a billed spell in a currency without a cap is denied.
+    max_amount?: Record<string, number>;
+    allow_modes?: SpellBilling["mode"][];
+  };
+  platforms?: {
+    allow?: string[];
+  };
   signature?: {
     require_verified?: boolean;
   };
   rollback?: {
     require_full_compensation?: boolean;
   };
+  schedule?: RuntimePolicyScheduleRule[];
+}
+
+export type PolicyWeekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+// Weekly window in the rule's timezone; `end` may be 24:00, and an `end` before `start` runs past midnight.
+export interface RuntimePolicyScheduleWindow {
+  days?: PolicyWeekday[];
+  start: string;
+  end: string;
+}
+
+// Absolute range of ISO 8601 timestamps; `to` is exclusive.
+export interface RuntimePolicyScheduleDateRange {
+  from: string;
+  to: string;
+}
+
+export interface RuntimePolicyScheduleRule {
+  name: string;
+  // deny: matching spells are denied while a window is active; allow: they are denied outside every window.
+  action: "allow" | "deny";
+  timezone?: string;
+  windows?: RuntimePolicyScheduleWindow[];
+  dates?: RuntimePolicyScheduleDateRange[];
+  // All given selectors must match; a rule without `match` applies to every spell.
+  match?: {
+    spells?: string[];
+    risk?: SpellRisk[];
+    mutates?: boolean;
+  };
 }
 
 export interface RuntimePolicyContext {
@@ -50,6 +99,10 @@ export interface RuntimePolicyContext {
   risk: SpellRisk;
   execution: RuntimeExecution;
   effects: SpellEffect[];
+  permissions: SpellPermission[];
+  billing: SpellBilling;
+  // Platform the cast would run on (`os/arch`), i.e. the docker platform for docker execution.
+  platform: string;
   signature_status?: "skipped" | "verified" | "unsigned" | "untrusted" | "invalid";
 }
 
@@ -86,7 +139,21 @@ export function parseRuntimePolicy(raw: unknown): RuntimePolicyV1 {
   const obj = raw as Record<string, unknown>;
   assertOnlyKeys(
     obj,
-    ["version", "default", "spells", "publishers", "max_risk", "runtime", "effects", "signature", "rollback"],
+    [
+      "version",
+      "default",
+      "spells",
+      "publishers",
+      "max_risk",
+      "runtime",
+      "effects",
+      "permissions",
+      "billing",
+      "platforms",
+      "signature",
+      "rollback",
+      "schedule"
+    ],
     "policy"
   );
 
@@ -105,8 +172,12 @@ export function parseRuntimePolicy(raw: unknown): RuntimePolicyV1 {
   const maxRisk = parseMaxRisk(obj.max_risk);
   const runtime = parseRuntime(obj.runtime);
   const effects = parseEffects(obj.effects);
+  const permissions = parsePermissions(obj.permissions);
+  const billing = parseBilling(obj.billing);
+  const platforms = parsePlatforms(obj.platforms);
   const signature = parseSignature(obj.signature);
   const rollback = parseRollback(obj.rollback);
+  const schedule = parseSchedule(obj.schedule);
 
   return {
     version: "v1",
@@ -116,107 +187,308 @@ export function parseRuntimePolicy(raw: unknown): RuntimePolicyV1 {
     max_risk: maxRisk,
     runtime,
     effects,
+    permissions,
+    billing,
+    platforms,
     signature,
-    rollback
+    rollback,
+    schedule
   };
 }
 
-export function evaluateRuntimePolicy(
-  policy: RuntimePolicyV1 | null,
-  context: RuntimePolicyContext
-): RuntimePolicyDecision {
-  if (!policy) {
-    return { allow: true };
-  }
+export type RuntimePolicyRuleOutcome = "pass" | "deny" | "not_applicable";
 
-  const denySpells = policy.spells?.deny ?? [];
-  if (denySpells.includes(context.spell_id)) {
-    return {
-      allow: false,
-      reason: `spell '${context.spell_id}' is denied`
-    };
-  }
+export interface RuntimePolicyRuleResult {
+  rule: string;
+  outcome: RuntimePolicyRuleOutcome;
+  reason?: string;
+}
 
-  const allowSpells = policy.spells?.allow;
-  if (allowSpells && !allowSpells.includes(context.spell_id)) {
-    return {
-      allow: false,
-      reason: `spell '${context.spell_id}' is not allowed`
-    };
-  }
+export interface RuntimePolicyTrace extends RuntimePolicyDecision {
+  rules: RuntimePolicyRuleResult[];
+}
 
-  const denyPublishers = policy.publishers?.deny ?? [];
-  if (denyPublishers.includes(context.publisher)) {
-    return {
-      allow: false,
-      reason: `publisher '${context.publisher}' is denied`
-    };
-  }
+// Tests inject a fixed clock so schedule rules are deterministic.
+export type RuntimePolicyClock = () => Date;
 
-  const allowPublishers = policy.publishers?.allow;
-  if (allowPublishers && !allowPublishers.includes(context.publisher)) {
-    return {
-      allow: false,
-      reason: `publisher '${context.publisher}' is not allowed`
-    };
-  }
+type RuntimePolicyRuleCheck = (
+  policy: RuntimePolicyV1,
+  context: RuntimePolicyContext,
+  now: Date
+) => Omit<RuntimePolicyRuleResult, "rule">;
 
-  if (policy.max_risk && RISK_ORDER[context.risk] > RISK_ORDER[policy.max_risk]) {
-    return {
-      allow: false,
-      reason: `risk '${context.risk}' exceeds max_risk '${policy.max_risk}'`
-    };
-  }
+const NOT_APPLICABLE = { outcome: "not_applicable" } as const;
+const PASS = { outcome: "pass" } as const;
 
-  const allowedExecutions = policy.runtime?.allow_execution;
-  if (allowedExecutions && !allowedExecutions.includes(context.execution)) {
-    return {
-      allow: false,
-      reason: `runtime execution '${context.execution}' is not allowed`
-    };
-  }
+function deny(reason: string): Omit<RuntimePolicyRuleResult, "rule"> {
+  return { outcome: "deny", reason };
+}
 
-  const mutatingEffect = policy.effects?.deny_mutations ? context.effects.find((effect) => effect.mutates) : undefined;
-  if (mutatingEffect) {
-    return {
-      allow: false,
-      reason: `effect type '${mutatingEffect.type}' mutates target '${mutatingEffect.target}' and mutations are denied`
-    };
+// Evaluation order; the first denying rule is the decision, so deny lists come before their allow lists.
+const RUNTIME_POLICY_RULES: ReadonlyArray<{ rule: string; check: RuntimePolicyRuleCheck }> = [
+  {
+    rule: "spells.deny",
+    check: (policy, context) => {
+      if (!policy.spells?.deny) {
+        return NOT_APPLICABLE;
+      }
+      return policy.spells.deny.includes(context.spell_id) ? deny(`spell '${context.spell_id}' is denied`) : PASS;
+    }
+  },
+  {
+    rule: "spells.allow",
+    check: (policy, context) => {
+      if (!policy.spells?.allow) {
+        return NOT_APPLICABLE;
+      }
+      return policy.spells.allow.includes(context.spell_id) ? PASS : deny(`spell '${context.spell_id}' is not allowed`);
+    }
+  },
+  {
+    rule: "publishers.deny",
+    check: (policy, context) => {
+      if (!policy.publishers?.deny) {
+        return NOT_APPLICABLE;
+      }
+      return policy.publishers.deny.includes(context.publisher)
+        ? deny(`publisher '${context.publisher}' is denied`)
+        : PASS;
+    }
+  },
+  {
+    rule: "publishers.allow",
+    check: (policy, context) => {
+      if (!policy.publishers?.allow) {
+        return NOT_APPLICABLE;
+      }
+      return policy.publishers.allow.includes(context.publisher)
+        ? PASS
+        : deny(`publisher '${context.publisher}' is not allowed`);
+    }
+  },
+  {
+    rule: "max_risk",
+    check: (policy, context) => {
+      if (!policy.max_risk) {
+        return NOT_APPLICABLE;
+      }
+      return RISK_ORDER[context.risk] > RISK_ORDER[policy.max_risk]
+        ? deny(`risk '${context.risk}' exceeds max_risk '${policy.max_risk}'`)
+        : PASS;
+    }
+  },
+  {
+    rule: "runtime.allow_execution",
+    check: (policy, context) => {
+      if (!policy.runtime?.allow_execution) {
+        return NOT_APPLICABLE;
+      }
+      return policy.runtime.allow_execution.includes(context.execution)
+        ? PASS
+        : deny(`runtime execution '${context.execution}' is not allowed`);
+    }
+  },
+  {
+    rule: "platforms.allow",
+    check: (policy, context) => {
+      if (!policy.platforms?.allow) {
+        return NOT_APPLICABLE;
+      }
+      return platformMatches(policy.platforms.allow, context.platform)
+        ? PASS
+        : deny(`platform '${context.platform}' is not allowed`);
+    }
+  },
+  {
+    rule: "effects.deny_mutations",
+    check: (policy, context) => {
+      if (policy.effects?.deny_mutations !== true) {
+        return NOT_APPLICABLE;
+      }
+      const mutatingEffect = context.effects.find((effect) => effect.mutates);
+      return mutatingEffect
+        ? deny(
+            `effect type '${mutatingEffect.type}' mutates target '${mutatingEffect.target}' and mutations are denied`
+          )
+        : PASS;
+    }
+  },
+  {
+    rule: "effects.deny_types",
+    check: (policy, context) => {
+      const denyTypes = policy.effects?.deny_types;
+      if (!denyTypes) {
+        return NOT_APPLICABLE;
+      }
+      const deniedEffect = context.effects.find((effect) => denyTypes.includes(effect.type));
+      return deniedEffect ? deny(`effect type '${deniedEffect.type}' is denied`) : PASS;
+    }
+  },
+  {
+    rule: "effects.allow_types",
+    check: (policy, context) => {
+      const allowTypes = policy.effects?.allow_types;
+      if (!allowTypes) {
+        return NOT_APPLICABLE;
+      }
+      const notAllowedEffect = context.effects.find((effect) => !allowTypes.includes(effect.type));
+      return notAllowedEffect ? deny(`effect type '${notAllowedEffect.type}' is not allowed`) : PASS;
+    }
+  },
+  {
+    rule: "permissions.deny_connectors",
+    check: (policy, context) => {
+      const denyConnectors = policy.permissions?.deny_connectors;
+      if (!denyConnectors) {
+        return NOT_APPLICABLE;
+      }
+      const deniedConnector = context.permissions.find((permission) => denyConnectors.includes(permission.connector));
+      return deniedConnector ? deny(`connector '${deniedConnector.connector}' is denied`) : PASS;
+    }
+  },
+  {
+    rule: "permissions.allow_connectors",
+    check: (policy, context) => {
+      const allowConnectors = policy.permissions?.allow_connectors;
+      if (!allowConnectors) {
+        return NOT_APPLICABLE;
+      }
+      const notAllowed = context.permissions.find((permission) => !allowConnectors.includes(permission.connector));
+      return notAllowed ? deny(`connector '${notAllowed.connector}' is not allowed`) : PASS;
+    }
+  },
+  {
+    rule: "permissions.deny_scopes",
+    check: (policy, context) => {
+      if (!policy.permissions?.deny_scopes) {
+        return NOT_APPLICABLE;
+      }
+      const patterns = policy.permissions.deny_scopes.map((pattern) => ({ pattern, regex: globToRegExp(pattern) }));
+      for (const permission of context.permissions) {
+        for (const scope of permission.scopes) {
+          const scopeRef = `${permission.connector}:${scope}`;
+          const matched = patterns.find((entry) => entry.regex.test(scopeRef));
+          if (matched) {
+            return deny(`permission '${scopeRef}' is denied by '${matched.pattern}'`);
+          }
+        }
+      }
+      return PASS;
+    }
+  },
+  {
+    rule: "billing.allow_modes",
+    check: (policy, context) => {
+      // Unbilled spells never charge, so billing rules do not apply to them.
+      if (!policy.billing?.allow_modes || !context.billing.enabled) {
+        return NOT_APPLICABLE;
+      }
+      return policy.billing.allow_modes.includes(context.billing.mode)
+        ? PASS
+        : deny(`billing mode '${context.billing.mode}' is not allowed`);
+    }
+  },
+  {
+    rule: "billing.max_amount",
+    check: (policy, context) => {
+      if (!policy.billing?.max_amount || !context.billing.enabled) {
+        return NOT_APPLICABLE;
+      }
+      const { currency, max_amount: amount } = context.billing;
+      const cap = policy.billing.max_amount[currency];
+      if (cap === undefined) {
+        return deny(`billing currency '${currency}' has no max_amount`);
+      }
+      return amount > cap ? deny(`billing max_amount ${amount} ${currency} exceeds policy max_amount ${cap}`) : PASS;
+    }
+  },
+  {
+    rule: "signature.require_verified",
+    check: (policy, context) => {
+      if (policy.signature?.require_verified !== true) {
+        return NOT_APPLICABLE;
+      }
+      return context.signature_status === "verified"
+        ? PASS
+        : deny(`signature status '${context.signature_status ?? "unknown"}' is not allowed (verified required)`);
+    }
+  },
+  {
+    rule: "schedule",
+    check: (policy, context, now) => {
+      if (!policy.schedule) {
+        return NOT_APPLICABLE;
+      }
+      const matching = policy.schedule.filter((rule) => scheduleRuleMatches(rule, context));
+      if (matching.length === 0) {
+        return NOT_APPLICABLE;
+      }
+      for (const rule of matching) {
+        const active = isScheduleRuleActive(rule, now);
+        if (rule.action === "deny" && active) {
+          return deny(`schedule '${rule.name}' denies this spell during ${active}`);
+        }
+        if (rule.action === "allow" && !active) {
+          return deny(`schedule '${rule.name}' allows this spell only during ${describeScheduleRule(rule)}`);
+        }
+      }
+      return PASS;
+    }
+  },
+  {
+    rule: "default",
+    check: (policy) => (policy.default === "deny" ? deny("default policy is deny") : PASS)
   }
+];
 
-  const denyTypes = policy.effects?.deny_types;
-  const deniedEffect = denyTypes ? context.effects.find((effect) => denyTypes.includes(effect.type)) : undefined;
-  if (deniedEffect) {
-    return {
-      allow: false,
-      reason: `effect type '${deniedEffect.type}' is denied`
-    };
-  }
+export function evaluateRuntimePolicy(
+  policy: RuntimePolicyV1 | null,
+  context: RuntimePolicyContext,
+  clock: RuntimePolicyClock = () => new Date()
+): RuntimePolicyDecision {
+  const { allow, reason } = traceRuntimePolicy(policy, context, clock);
+  return allow ? { allow } : { allow, reason };
+}
 
-  const allowTypes = policy.effects?.allow_types;
-  const notAllowedEffect = allowTypes ? context.effects.find((effect) => !allowTypes.includes(effect.type)) : undefined;
-  if (notAllowedEffect) {
-    return {
-      allow: false,
-      reason: `effect type '${notAllowedEffect.type}' is not allowed`
-    };
+// Runs every rule, even after a denial, so `spell policy explain` can show the whole evaluation.
+export function traceRuntimePolicy(
+  policy: RuntimePolicyV1 | null,
+  context: RuntimePolicyContext,
+  clock: RuntimePolicyClock = () => new Date()
+): RuntimePolicyTrace {
+  if (!policy) {
+    return { allow: true, rules: [] };
   }
 
-  if (policy.signature?.require_verified === true && context.signature_status !== "verified") {
-    return {
-      allow: false,
-      reason: `signature status '${context.signature_status ?? "unknown"}' is not allowed (verified required)`
-    };
-  }
+  const now = clock();
+  const rules = RUNTIME_POLICY_RULES.map(({ rule, check }) => ({ rule, ...check(policy, context, now) }));
+  const denied = rules.find((result) => result.outcome === "deny");
+  return denied ? { allow: false, reason: denied.reason, rules } : { allow: true, rules };
+}
 
-  if (policy.default === "deny") {
-    return {
-      allow: false,
-      reason: "default policy is deny"
-    };
+function scheduleRuleMatches(rule: RuntimePolicyScheduleRule, context: RuntimePolicyContext): boolean {
+  const { match } = rule;
+  if (!match) {
+    return true;
+  }
+  if (match.spells && !match.spells.some((pattern) => globToRegExp(pattern).test(context.spell_id))) {
+    return false;
   }
+  if (match.risk && !match.risk.includes(context.risk)) {
+    return false;
+  }
+  if (match.mutates !== undefined && context.effects.some((effect) => effect.mutates) !== match.mutates) {
+    return false;
+  }
+  return true;
+}
 
-  return { allow: true };
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`);
 }
 
 function parsePublishers(raw: unknown): RuntimePolicyV1["publishers"] | undefined {
@@ -300,6 +572,88 @@ function parseEffects(raw: unknown): RuntimePolicyV1["effects"] | undefined {
   };
 }
 
+function parsePermissions(raw: unknown): RuntimePolicyV1["permissions"] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidPolicy("permissions must be an object");
+  }
+
+  const obj = raw as Record<string, unknown>;
+  assertOnlyKeys(obj, ["allow_connectors", "deny_connectors", "deny_scopes"], "permissions");
+
+  const denyScopes = parseStringArray(obj.deny_scopes, "permissions.deny_scopes");
+  denyScopes?.forEach((pattern, idx) => {
+    if (!pattern.includes(":")) {
+      throw invalidPolicy(`permissions.deny_scopes[${idx}] must match 'connector:scope', got '${pattern}'`);
+    }
+  });
+
+  return {
+    allow_connectors: parseStringArray(obj.allow_connectors, "permissions.allow_connectors"),
+    deny_connectors: parseStringArray(obj.deny_connectors, "permissions.deny_connectors"),
+    deny_scopes: denyScopes
+  };
+}
+
+function parseBilling(raw: unknown): RuntimePolicyV1["billing"] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidPolicy("billing must be an object");
+  }
+
+  const obj = raw as Record<string, unknown>;
+  assertOnlyKeys(obj, ["max_amount", "allow_modes"], "billing");
+
+  let maxAmount: Record<string, number> | undefined;
+  if (obj.max_amount !== undefined) {
+    if (!obj.max_amount || typeof obj.max_amount !== "object" || Array.isArray(obj.max_amount)) {
+      throw invalidPolicy("billing.max_amount must be an object of currency to amount");
+    }
+    maxAmount = {};
+    for (const [currency, amount] of Object.entries(obj.max_amount as Record<string, unknown>)) {
+      if (!currency.trim()) {
+        throw invalidPolicy("billing.max_amount currency must be a non-empty string");
+      }
+      if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+        throw invalidPolicy(`billing.max_amount.${currency} must be a non-negative number`);
+      }
+      maxAmount[currency] = amount;
+    }
+  }
+
+  const allowModes = parseStringArray(obj.allow_modes, "billing.allow_modes")?.map((value, idx) => {
+    if (!BILLING_MODE_VALUES.has(value as SpellBilling["mode"])) {
+      throw invalidPolicy(`billing.allow_modes[${idx}] must be one of none|upfront|on_success|subscription`);
+    }
+    return value as SpellBilling["mode"];
+  });
+
+  return {
+    max_amount: maxAmount,
+    allow_modes: allowModes
+  };
+}
+
+function parsePlatforms(raw: unknown): RuntimePolicyV1["platforms"] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidPolicy("platforms must be an object");
+  }
+
+  const obj = raw as Record<string, unknown>;
+  assertOnlyKeys(obj, ["allow"], "platforms");
+
+  return {
+    allow: parseStringArray(obj.allow, "platforms.allow")
+  };
+}
+
 function parseSignature(raw: unknown): RuntimePolicyV1["signature"] | undefined {
   if (raw === undefined) {
     return undefined;
@@ -332,6 +686,158 @@ function parseRollback(raw: unknown): RuntimePolicyV1["rollback"] | undefined {
   };
 }
 
+function parseSchedule(raw: unknown): RuntimePolicyV1["schedule"] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    throw invalidPolicy("schedule must be an array of rules");
+  }
+
+  const names = new Set<string>();
+  return raw.map((entry, idx) => {
+    const label = `schedule[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw invalidPolicy(`${label} must be an object`);
+    }
+
+    const obj = entry as Record<string, unknown>;
+    assertOnlyKeys(obj, ["name", "action", "timezone", "windows", "dates", "match"], label);
+
+    if (typeof obj.name !== "string" || !obj.name.trim()) {
+      throw invalidPolicy(`${label}.name must be a non-empty string`);
+    }
+    const name = obj.name.trim();
+    if (names.has(name)) {
+      throw invalidPolicy(`${label}.name '${name}' is duplicated`);
+    }
+    names.add(name);
+
+    if (typeof obj.action !== "string" || !ALLOW_DENY_VALUES.has(obj.action)) {
+      throw invalidPolicy(`${label}.action must be 'allow' or 'deny'`);
+    }
+
+    let timezone: string | undefined;
+    if (obj.timezone !== undefined) {
+      if (typeof obj.timezone !== "string" || !isValidTimeZone(obj.timezone)) {
+        throw invalidPolicy(`${label}.timezone must be an IANA time zone, got '${String(obj.timezone)}'`);
+      }
+      timezone = obj.timezone;
+    }
+
+    const windows = parseScheduleWindows(obj.windows, `${label}.windows`);
+    const dates = parseScheduleDates(obj.dates, `${label}.dates`);
+    if (!windows?.length && !dates?.length) {
+      throw invalidPolicy(`${label} must declare windows or dates`);
+    }
+
+    return {
+      name,
+      action: obj.action as RuntimePolicyScheduleRule["action"],
+      timezone,
+      windows,
+      dates,
+      match: parseScheduleMatch(obj.match, `${label}.match`)
+    };
+  });
+}
+
+function parseScheduleWindows(raw: unknown, label: string): RuntimePolicyScheduleWindow[] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    throw invalidPolicy(`${label} must be an array`);
+  }
+
+  return raw.map((entry, idx) => {
+    const windowLabel = `${label}[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw invalidPolicy(`${windowLabel} must be an object`);
+    }
+
+    const obj = entry as Record<string, unknown>;
+    assertOnlyKeys(obj, ["days", "start", "end"], windowLabel);
+
+    const days = parseStringArray(obj.days, `${windowLabel}.days`)?.map((value, dayIdx) => {
+      if (!WEEKDAY_VALUES.has(value as PolicyWeekday)) {
+        throw invalidPolicy(`${windowLabel}.days[${dayIdx}] must be one of mon|tue|wed|thu|fri|sat|sun`);
+      }
+      return value as PolicyWeekday;
+    });
+
+    const start = parseClockTime(obj.start, false);
+    if (start === null) {
+      throw invalidPolicy(`${windowLabel}.start must be HH:MM between 00:00 and 23:59`);
+    }
+    const end = parseClockTime(obj.end, true);
+    if (end === null) {
+      throw invalidPolicy(`${windowLabel}.end must be HH:MM between 00:00 and 24:00`);
+    }
+    if (start === end) {
+      throw invalidPolicy(`${windowLabel}.end must differ from start`);
+    }
+
+    return { days, start: obj.start as string, end: obj.end as string };
+  });
+}
+
+function parseScheduleDates(raw: unknown, label: string): RuntimePolicyScheduleDateRange[] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(raw)) {
+    throw invalidPolicy(`${label} must be an array`);
+  }
+
+  return raw.map((entry, idx) => {
+    const rangeLabel = `${label}[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw invalidPolicy(`${rangeLabel} must be an object`);
+    }
+
+    const obj = entry as Record<string, unknown>;
+    assertOnlyKeys(obj, ["from", "to"], rangeLabel);
+
+    const from = typeof obj.from === "string" ? Date.parse(obj.from) : Number.NaN;
+    if (Number.isNaN(from)) {
+      throw invalidPolicy(`${rangeLabel}.from must be an ISO 8601 timestamp`);
+    }
+    const to = typeof obj.to === "string" ? Date.parse(obj.to) : Number.NaN;
+    if (Number.isNaN(to)) {
+      throw invalidPolicy(`${rangeLabel}.to must be an ISO 8601 timestamp`);
+    }
+    if (to <= from) {
+      throw invalidPolicy(`${rangeLabel}.to must be after from`);
+    }
+
+    return { from: obj.from as string, to: obj.to as string };
+  });
+}
+
+function parseScheduleMatch(raw: unknown, label: string): RuntimePolicyScheduleRule["match"] | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw invalidPolicy(`${label} must be an object`);
+  }
+
+  const obj = raw as Record<string, unknown>;
+  assertOnlyKeys(obj, ["spells", "risk", "mutates"], label);
+
+  return {
+    spells: parseStringArray(obj.spells, `${label}.spells`),
+    risk: parseStringArray(obj.risk, `${label}.risk`)?.map((value, idx) => {
+      if (!RISK_VALUES.has(value as SpellRisk)) {
+        throw invalidPolicy(`${label}.risk[${idx}] must be one of low|medium|high|critical`);
+      }
+      return value as SpellRisk;
+    }),
+    mutates: parseBoolean(obj.mutates, `${label}.mutates`)
+  };
+}
+
 function parseStringArray(raw: unknown, label: string): string[] | undefined {
   if (raw === undefined) {
     return undefined;
@@ -0,0 +1,97 @@
+import type {
+  PolicyWeekday,
+  RuntimePolicyScheduleDateRange,
+  RuntimePolicyScheduleRule,
+  RuntimePolicyScheduleWindow
+} from "./index";
+
+const WEEKDAYS: PolicyWeekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_TIMEZONE = "UTC";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Returns minutes since midnight, or null; `24:00` is only accepted as a window end.
+export function parseClockTime(raw: unknown, allowEndOfDay: boolean): number | null {
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const match = /^(\d{2}):(\d{2})$/.exec(raw);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (Number(match[2]) > 59 || minutes > MINUTES_PER_DAY || (minutes === MINUTES_PER_DAY && !allowEndOfDay)) {
+    return null;
+  }
+  return minutes;
+}
+
+// Returns a description of the window or date range containing `now`, or null when none does.
+export function isScheduleRuleActive(rule: RuntimePolicyScheduleRule, now: Date): string | null {
+  const timeZone = rule.timezone ?? DEFAULT_TIMEZONE;
+  const activeWindow = rule.windows?.find((window) => isWindowActive(window, timeZone, now));
+  if (activeWindow) {
+    return describeWindow(activeWindow, timeZone);
+  }
+  const activeRange = rule.dates?.find((range) => isDateRangeActive(range, now));
+  return activeRange ? describeDateRange(activeRange) : null;
+}
+
+export function describeScheduleRule(rule: RuntimePolicyScheduleRule): string {
+  const timeZone = rule.timezone ?? DEFAULT_TIMEZONE;
+  return [
+    ...(rule.windows ?? []).map((window) => describeWindow(window, timeZone)),
+    ...(rule.dates ?? []).map(describeDateRange)
+  ].join(" or ");
+}
+
+function isWindowActive(window: RuntimePolicyScheduleWindow, timeZone: string, now: Date): boolean {
+  const start = parseClockTime(window.start, false) ?? 0;
+  const end = parseClockTime(window.end, true) ?? MINUTES_PER_DAY;
+  const { weekday, minutes } = zonedWeekdayAndMinutes(now, timeZone);
+  const onDay = (day: number): boolean => !window.days || window.days.includes(WEEKDAYS[(day + 7) % 7]);
+
+  if (start < end) {
+    return onDay(weekday) && minutes >= start && minutes < end;
+  }
+  // Overnight window: the part after midnight belongs to the previous day's window.
+  return (onDay(weekday) && minutes >= start) || (onDay(weekday - 1) && minutes < end);
+}
+
+function isDateRangeActive(range: RuntimePolicyScheduleDateRange, now: Date): boolean {
+  const time = now.getTime();
+  return time >= Date.parse(range.from) && time < Date.parse(range.to);
+}
+
+function zonedWeekdayAndMinutes(now: Date, timeZone: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23"
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find((entry) => entry.type === type)?.value ?? "";
+
+  return {
+    weekday: WEEKDAYS.indexOf(part("weekday").toLowerCase() as PolicyWeekday),
+    minutes: Number(part("hour")) * 60 + Number(part("minute"))
+  };
+}
+
+function describeWindow(window: RuntimePolicyScheduleWindow, timeZone: string): string {
+  const days = window.days ? window.days.join(",") : "daily";
+  return `${days} ${window.start}-${window.end} ${timeZone}`;
+}
+
+function describeDateRange(range: RuntimePolicyScheduleDateRange): string {
+  return `${range.from}..${range.to}`;
+}
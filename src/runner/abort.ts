@@ -0,0 +1,17 @@
+import { SpellError } from "../util/errors";
+
+// Callers abort with a coded SpellError (cancel vs. timeout); anything else counts as a cancel.
+export function abortErrorFromSignal(signal: AbortSignal): SpellError {
+  const reason: unknown = signal.reason;
+  if (reason instanceof SpellError) {
+    return reason;
+  }
+  const detail = reason instanceof Error ? `: ${reason.message}` : "";
+  return new SpellError(`cast aborted${detail}`, "EXECUTION_CANCELED");
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw abortErrorFromSignal(signal);
+  }
+}
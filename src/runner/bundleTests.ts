@@ -0,0 +1,379 @@
+import { isDeepStrictEqual } from "node:util";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { load } from "js-yaml";
+import { loadManifestFromDir } from "../bundle/manifest";
+import { readSchemaFromManifest } from "../bundle/store";
+import { evaluateChecks } from "../checks/evaluate";
+import { runHttpStep } from "../steps/httpStep";
+import { CheckResult, SpellBundleManifest, StepResult } from "../types";
+import { SpellError } from "../util/errors";
+import { HttpFetcher } from "../util/http";
+import { resolveOutputReference } from "../util/outputs";
+import { ExecuteStepsOptions, executeSteps } from "./executeSteps";
+import { validateInputAgainstSchema } from "./input";
+
+export interface BundleHttpStub {
+  method: string;
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface BundleTestCase {
+  name: string;
+  file: string;
+  input: Record<string, unknown>;
+  env: Record<string, string>;
+  // Stubs per http step name; "checks" holds the responses for http_status checks.
+  http: Record<string, BundleHttpStub[]>;
+  expect: BundleTestExpectation;
+}
+
+export interface BundleTestExpectation {
+  success: boolean;
+  error?: string;
+  ran?: string[];
+  skipped?: string[];
+  outputs?: Record<string, unknown>;
+  checks?: Array<{ type: string; success: boolean }>;
+}
+
+export interface BundleTestCaseResult {
+  name: string;
+  file: string;
+  passed: boolean;
+  failures: string[];
+  durationMs: number;
+}
+
+export interface BundleTestRun {
+  id: string;
+  version: string;
+  bundlePath: string;
+  cases: BundleTestCaseResult[];
+  passed: number;
+  failed: number;
+}
+
+const CHECK_STUBS_KEY = "checks";
+const TEST_CASE_KEYS = new Set(["name", "input", "env", "http", "expect"]);
+const EXPECT_KEYS = new Set(["success", "error", "ran", "skipped", "outputs", "checks"]);
+
+export async function runBundleTests(bundlePath: string): Promise<BundleTestRun> {
+  const root = path.resolve(bundlePath);
+  const { manifest } = await loadManifestFromDir(root);
+  const cases = await loadBundleTestCases(root, manifest);
+
+  const results: BundleTestCaseResult[] = [];
+  for (const testCase of cases) {
+    results.push(await runBundleTestCase(manifest, root, testCase));
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    id: manifest.id,
+    version: manifest.version,
+    bundlePath: root,
+    cases: results,
+    passed,
+    failed: results.length - passed
+  };
+}
+
+export async function loadBundleTestCases(bundlePath: string, manifest: SpellBundleManifest): Promise<BundleTestCase[]> {
+  const testsDir = path.join(bundlePath, "tests");
+  const names = await readdir(testsDir).catch(() => [] as string[]);
+  const files = names.filter((name) => /\.ya?ml$/i.test(name)).sort();
+  if (files.length === 0) {
+    throw new SpellError(`no test cases found: ${path.join(testsDir, "*.yaml")}`);
+  }
+
+  const httpStepNames = new Set(manifest.steps.filter((step) => step.uses === "http").map((step) => step.name));
+  const stepNames = new Set(manifest.steps.map((step) => step.name));
+  const cases: BundleTestCase[] = [];
+  for (const file of files) {
+    let parsed: unknown;
+    try {
+      parsed = load(await readFile(path.join(testsDir, file), "utf8"));
+    } catch (error) {
+      throw new SpellError(`tests/${file}: failed to parse YAML: ${(error as Error).message}`);
+    }
+    cases.push(parseBundleTestCase(parsed, `tests/${file}`, httpStepNames, stepNames));
+  }
+  return cases;
+}
+
+function parseBundleTestCase(
+  raw: unknown,
+  file: string,
+  httpStepNames: Set<string>,
+  stepNames: Set<string>
+): BundleTestCase {
+  const obj = requireObject(raw, file);
+  rejectUnknownKeys(obj, TEST_CASE_KEYS, file);
+
+  const name = obj.name === undefined ? path.basename(file).replace(/\.ya?ml$/i, "") : requireString(obj.name, `${file}: name`);
+  const input = obj.input === undefined ? {} : requireObject(obj.input, `${file}: input`);
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(obj.env === undefined ? {} : requireObject(obj.env, `${file}: env`))) {
+    env[key] = requireString(value, `${file}: env.${key}`);
+  }
+
+  const http: Record<string, BundleHttpStub[]> = {};
+  for (const [stepName, stubs] of Object.entries(obj.http === undefined ? {} : requireObject(obj.http, `${file}: http`))) {
+    if (stepName !== CHECK_STUBS_KEY && !httpStepNames.has(stepName)) {
+      throw new SpellError(`${file}: http.${stepName} is not an http step`);
+    }
+    if (!Array.isArray(stubs)) {
+      throw new SpellError(`${file}: http.${stepName} must be an array of stubs`);
+    }
+    http[stepName] = stubs.map((stub, idx) => parseHttpStub(stub, `${file}: http.${stepName}[${idx}]`));
+  }
+
+  const expectRaw = obj.expect === undefined ? {} : requireObject(obj.expect, `${file}: expect`);
+  rejectUnknownKeys(expectRaw, EXPECT_KEYS, `${file}: expect`);
+  const expectation: BundleTestExpectation = {
+    success: expectRaw.success === undefined ? true : requireBoolean(expectRaw.success, `${file}: expect.success`)
+  };
+  if (expectRaw.error !== undefined) {
+    expectation.error = requireString(expectRaw.error, `${file}: expect.error`);
+  }
+  for (const key of ["ran", "skipped"] as const) {
+    if (expectRaw[key] !== undefined) {
+      const names = requireStringArray(expectRaw[key], `${file}: expect.${key}`);
+      const unknown = names.find((stepName) => !stepNames.has(stepName));
+      if (unknown) {
+        throw new SpellError(`${file}: expect.${key} references unknown step '${unknown}'`);
+      }
+      expectation[key] = names;
+    }
+  }
+  if (expectRaw.outputs !== undefined) {
+    expectation.outputs = requireObject(expectRaw.outputs, `${file}: expect.outputs`);
+  }
+  if (expectRaw.checks !== undefined) {
+    if (!Array.isArray(expectRaw.checks)) {
+      throw new SpellError(`${file}: expect.checks must be an array`);
+    }
+    expectation.checks = expectRaw.checks.map((entry, idx) => {
+      const check = requireObject(entry, `${file}: expect.checks[${idx}]`);
+      return {
+        type: requireString(check.type, `${file}: expect.checks[${idx}].type`),
+        success: requireBoolean(check.success, `${file}: expect.checks[${idx}].success`)
+      };
+    });
+  }
+
+  return { name, file, input, env, http, expect: expectation };
+}
+
+function parseHttpStub(raw: unknown, label: string): BundleHttpStub {
+  const obj = requireObject(raw, label);
+  rejectUnknownKeys(obj, new Set(["method", "url", "status", "headers", "body"]), label);
+
+  const status = obj.status === undefined ? 200 : obj.status;
+  if (typeof status !== "number" || !Number.isInteger(status) || status < 100 || status > 599) {
+    throw new SpellError(`${label}.status must be an integer between 100 and 599`);
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(obj.headers === undefined ? {} : requireObject(obj.headers, `${label}.headers`))) {
+    headers[key.toLowerCase()] = requireString(value, `${label}.headers.${key}`);
+  }
+
+  return {
+    method: obj.method === undefined ? "GET" : requireString(obj.method, `${label}.method`).toUpperCase(),
+    url: requireString(obj.url, `${label}.url`),
+    status,
+    headers,
+    body: obj.body
+  };
+}
+
+async function runBundleTestCase(
+  manifest: SpellBundleManifest,
+  bundlePath: string,
+  testCase: BundleTestCase
+): Promise<BundleTestCaseResult> {
+  const startedAt = Date.now();
+  const failures: string[] = [];
+  const tempDir = await mkdtemp(path.join(tmpdir(), "spell-test-input-"));
+
+  let outputs: Record<string, unknown> = {};
+  let stepResults: StepResult[] = [];
+  let checks: CheckResult[] = [];
+  let errorMessage: string | undefined;
+  // A step that fails never produces a step result, so the run set comes from step_started events.
+  const started = new Set<string>();
+  const forEachStepNames = new Set(manifest.steps.filter((step) => step.for_each).map((step) => step.name));
+
+  try {
+    const inputPath = path.join(tempDir, "input.json");
+    await writeFile(inputPath, JSON.stringify(testCase.input), "utf8");
+    const env: NodeJS.ProcessEnv = { ...process.env, ...testCase.env, INPUT_JSON: inputPath };
+
+    const schema = await readSchemaFromManifest(manifest, bundlePath);
+    validateInputAgainstSchema(schema, testCase.input);
+
+    const httpRunner: ExecuteStepsOptions["httpRunner"] = (step, runPath, input, stepEnv, stepOutputs, signal, iteration) =>
+      runHttpStep(step, runPath, input, stepEnv, stepOutputs, signal, iteration, createStubFetcher(testCase, toManifestStepName(step.name, forEachStepNames)));
+
+    try {
+      const run = await executeSteps(manifest, bundlePath, testCase.input, env, {
+        httpRunner,
+        onEvent: (event) => {
+          if (event.type === "step_started" && event.step) {
+            started.add(toManifestStepName(event.step, forEachStepNames));
+          }
+        }
+      });
+      outputs = run.outputs;
+      stepResults = run.stepResults;
+    } catch (error) {
+      const failed = error as { outputs?: Record<string, unknown>; stepResults?: StepResult[] };
+      outputs = failed.outputs ?? {};
+      stepResults = failed.stepResults ?? [];
+      throw error;
+    }
+
+    checks = await evaluateChecks(manifest.checks, bundlePath, outputs, true, createStubFetcher(testCase, CHECK_STUBS_KEY));
+    const failedCheck = checks.find((check) => !check.success);
+    if (failedCheck) {
+      throw new SpellError(`check failed: ${failedCheck.message}`);
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+
+  const expectation = testCase.expect;
+  if (expectation.success && errorMessage !== undefined) {
+    failures.push(`expected success, got error: ${errorMessage}`);
+  }
+  if (!expectation.success && errorMessage === undefined) {
+    failures.push("expected failure, but the cast succeeded");
+  }
+  if (expectation.error !== undefined && !(errorMessage ?? "").includes(expectation.error)) {
+    failures.push(`expected error containing '${expectation.error}', got '${errorMessage ?? "(none)"}'`);
+  }
+
+  const ran = [...started].sort();
+  const skipped = collectSkippedStepNames(stepResults, new Set(manifest.steps.map((step) => step.name)));
+  if (expectation.ran && !sameNames(expectation.ran, ran)) {
+    failures.push(`expected ran [${[...expectation.ran].sort().join(", ")}], got [${ran.join(", ")}]`);
+  }
+  if (expectation.skipped && !sameNames(expectation.skipped, skipped)) {
+    failures.push(`expected skipped [${[...expectation.skipped].sort().join(", ")}], got [${skipped.join(", ")}]`);
+  }
+
+  for (const [outputPath, expected] of Object.entries(expectation.outputs ?? {})) {
+    const actual = resolveOutputReference(outputs, outputPath);
+    if (!isDeepStrictEqual(actual, expected)) {
+      failures.push(`output ${outputPath} expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+
+  (expectation.checks ?? []).forEach((expected, idx) => {
+    const actual = checks[idx];
+    if (!actual) {
+      failures.push(`check[${idx}] ${expected.type} was not evaluated`);
+    } else if (actual.type !== expected.type || actual.success !== expected.success) {
+      failures.push(
+        `check[${idx}] expected ${expected.type} success=${expected.success}, got ${actual.type} success=${actual.success} (${actual.message})`
+      );
+    }
+  });
+
+  return {
+    name: testCase.name,
+    file: testCase.file,
+    passed: failures.length === 0,
+    failures,
+    durationMs: Date.now() - startedAt
+  };
+}
+
+// for_each iterations run as `<step>[<index>]`; stubs and `ran` refer to the manifest step.
+function toManifestStepName(stepName: string, forEachStepNames: Set<string>): string {
+  const match = /^(.+)\[\d+\]$/.exec(stepName);
+  return match && forEachStepNames.has(match[1]) ? match[1] : stepName;
+}
+
+// Unmatched requests fail the step the same way a network error would, so a missing stub is visible.
+function createStubFetcher(testCase: BundleTestCase, stubKey: string): HttpFetcher {
+  const stubs = testCase.http[stubKey] ?? [];
+  return async (input, init) => {
+    const url = String(input);
+    const method = (init?.method ?? "GET").toUpperCase();
+    const stub = stubs.find((entry) => entry.method === method && entry.url === url);
+    if (!stub) {
+      throw new SpellError(`no http stub for ${method} ${url} (${stubKey})`);
+    }
+
+    const headers: Record<string, string> = { ...stub.headers };
+    let body: string | undefined;
+    if (typeof stub.body === "string") {
+      body = stub.body;
+    } else if (stub.body !== undefined) {
+      body = JSON.stringify(stub.body);
+      headers["content-type"] ??= "application/json";
+    }
+
+    return new Response(body ?? null, { status: stub.status, headers }) as unknown as Awaited<ReturnType<HttpFetcher>>;
+  };
+}
+
+function collectSkippedStepNames(stepResults: StepResult[], stepNames: Set<string>): string[] {
+  const names = new Set<string>();
+  for (const result of stepResults) {
+    if (stepNames.has(result.stepName) && (result.message ?? "").startsWith("skipped")) {
+      names.add(result.stepName);
+    }
+  }
+  return [...names].sort();
+}
+
+function sameNames(expected: string[], actual: string[]): boolean {
+  return isDeepStrictEqual([...new Set(expected)].sort(), actual);
+}
+
+function requireObject(raw: unknown, label: string): Record<string, unknown> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an object`);
+  }
+  return raw as Record<string, unknown>;
+}
+
+function requireString(raw: unknown, label: string): string {
+  if (typeof raw !== "string" || !raw.trim()) {
+    throw new SpellError(`${label} must be a non-empty string`);
+  }
+  return raw;
+}
+
+function requireBoolean(raw: unknown, label: string): boolean {
+  if (typeof raw !== "boolean") {
+    throw new SpellError(`${label} must be a boolean`);
+  }
+  return raw;
+}
+
+function requireStringArray(raw: unknown, label: string): string[] {
+  if (!Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an array of strings`);
+  }
+  return raw.map((entry, idx) => requireString(entry, `${label}[${idx}]`));
+}
+
+function rejectUnknownKeys(obj: Record<string, unknown>, allowed: Set<string>, label: string): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.has(key)) {
+      throw new SpellError(`${label}: ${key} is not supported`);
+    }
+  }
+}
@@ -1,10 +1,13 @@
+import path from "node:path";
 import pino from "pino";
 import { evaluateChecks } from "../checks/evaluate";
 import { readSchemaFromManifest, resolveInstalledBundle } from "../bundle/store";
 import { writeExecutionLog, makeExecutionId } from "../logging/executionLog";
-import { CastOptions, ExecutionLog } from "../types";
-import { SpellError } from "../util/errors";
-import { detectDockerPlatformForHost, detectHostPlatform, platformMatches } from "../util/platform";
+import { ProgressEventListener, ProgressEventSink, openProgressEventSink } from "../logging/progressEvents";
+import { resolveExecutionLogPath } from "../logging/readExecutionLog";
+import { CastErrorCode, CastOptions, CheckResult, ExecutionLog, StepResult, StepResumeState } from "../types";
+import { SpellError, errorCodeOf } from "../util/errors";
+import { detectHostPlatform, detectTargetPlatform, platformMatches } from "../util/platform";
 import { buildInput, validateInputAgainstSchema } from "./input";
 import { runHost } from "./hostRunner";
 import { DockerExecutionError, runDocker } from "./dockerRunner";
@@ -14,7 +17,11 @@ import { publisherFromId } from "../signature/trustStore";
 import { findMatchingLicenseForBilling } from "../license/store";
 import { readRuntimeExecutionTimeoutMs, readRuntimeInputMaxBytes } from "./runtimeLimits";
 import { RuntimePolicyV1, evaluateRuntimePolicy, loadRuntimePolicy } from "../policy";
+import { runtimePolicyContextFromManifest } from "../policy/context";
 import { StepExecutionError } from "./executeSteps";
+import { throwIfAborted } from "./abort";
+import { loadResumeState } from "./resume";
+import { computeBundleDigest } from "../signature/bundleDigest";
 
 export interface CastResult {
   executionId: string;
@@ -22,10 +29,31 @@ export interface CastResult {
   outputs: Record<string, unknown>;
 }
 
+// Thrown by castSpell once the failed execution log is written; code is stable for API mapping.
+export class CastError extends SpellError {
+  declare readonly code: CastErrorCode;
+  readonly executionId: string;
+  readonly logPath: string;
+
+  constructor(message: string, code: CastErrorCode, executionId: string, logPath: string) {
+    super(message, code);
+    this.name = "CastError";
+    this.executionId = executionId;
+    this.logPath = logPath;
+  }
+}
+
 export async function castSpell(options: CastOptions): Promise<CastResult> {
   const logger = pino({ level: options.verbose ? "debug" : "info" });
   const startedAt = new Date().toISOString();
   let runtimePolicy: RuntimePolicyV1 | null = null;
+  let events: ProgressEventSink | undefined;
+  let emitProgress: ProgressEventListener | undefined = options.onEvent;
+  let dockerProgressStreamed = false;
+  const emitDockerProgress: ProgressEventListener = (event) => {
+    dockerProgressStreamed = true;
+    emitProgress?.(event);
+  };
 
   let executionId = makeExecutionId(options.id, options.version ?? "latest");
 
@@ -59,6 +87,17 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
   };
 
   try {
+    if (options.events !== undefined) {
+      const sink = openProgressEventSink(options.events);
+      events = sink;
+      emitProgress = options.onEvent
+        ? (event) => {
+            sink.emit(event);
+            options.onEvent?.(event);
+          }
+        : sink.emit;
+    }
+
     const runtimeInputMaxBytes = readRuntimeInputMaxBytes();
     const runtimeExecutionTimeoutMs = readRuntimeExecutionTimeoutMs();
 
@@ -78,6 +117,11 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
       }
     };
 
+    const bundleDigest = await computeBundleDigest(bundlePath)
+      .then((digest) => digest.valueHex)
+      .catch(() => undefined);
+    log.bundle_digest = bundleDigest;
+
     runtimePolicy = await loadRuntimePolicy();
 
     log.signature = {
@@ -85,11 +129,12 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
       status: "skipped"
     };
 
-    const input = await buildInput(options.inputFile, options.paramPairs);
+    const input = options.input ? structuredClone(options.input) : await buildInput(options.inputFile, options.paramPairs);
     const inputSizeBytes = Buffer.byteLength(JSON.stringify(input), "utf8");
     if (inputSizeBytes > runtimeInputMaxBytes) {
       throw new SpellError(
-        `merged input is ${inputSizeBytes} bytes, exceeds SPELL_RUNTIME_INPUT_MAX_BYTES=${runtimeInputMaxBytes}`
+        `merged input is ${inputSizeBytes} bytes, exceeds SPELL_RUNTIME_INPUT_MAX_BYTES=${runtimeInputMaxBytes}`,
+        "INPUT_TOO_LARGE"
       );
     }
     log.input = input;
@@ -103,7 +148,8 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
       publisher: publisherFromId(manifest.id),
       key_id: undefined,
       digest: undefined,
-      message: (error as Error).message
+      message: (error as Error).message,
+      signers: []
     }));
 
     log.signature = {
@@ -111,19 +157,16 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
       status: sigResult.status,
       publisher: sigResult.publisher,
       key_id: sigResult.key_id,
-      digest: sigResult.digest
+      digest: sigResult.digest,
+      signers: sigResult.signers.length > 0 ? sigResult.signers : undefined
     };
 
-    const policyDecision = evaluateRuntimePolicy(runtimePolicy, {
-      spell_id: manifest.id,
-      publisher: publisherFromId(manifest.id),
-      risk: manifest.risk,
-      execution: manifest.runtime.execution,
-      effects: manifest.effects,
-      signature_status: sigResult.status
-    });
+    const policyDecision = evaluateRuntimePolicy(
+      runtimePolicy,
+      runtimePolicyContextFromManifest(manifest, sigResult.status)
+    );
     if (!policyDecision.allow) {
-      throw new SpellError(`policy denied: ${policyDecision.reason}`);
+      throw new SpellError(`policy denied: ${policyDecision.reason}`, "POLICY_DENIED");
     }
 
     if (options.requireSignature) {
@@ -131,21 +174,21 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
     }
 
     const hostPlatform = detectHostPlatform();
-    const dockerPlatform = detectDockerPlatformForHost();
-    const platformTarget = manifest.runtime.execution === "docker" ? dockerPlatform : hostPlatform;
+    const platformTarget = detectTargetPlatform(manifest.runtime.execution);
     const platformOk = platformMatches(manifest.runtime.platforms, platformTarget);
     if (!platformOk) {
       throw new SpellError(
-        `platform mismatch: host=${hostPlatform}, runtime=${manifest.runtime.execution}, target=${platformTarget}, spell supports=${manifest.runtime.platforms.join(",")}`
+        `platform mismatch: host=${hostPlatform}, runtime=${manifest.runtime.execution}, target=${platformTarget}, spell supports=${manifest.runtime.platforms.join(",")}`,
+        "PLATFORM_UNSUPPORTED"
       );
     }
 
     if ((manifest.risk === "high" || manifest.risk === "critical") && !options.yes) {
-      throw new SpellError(`risk ${manifest.risk} requires --yes`);
+      throw new SpellError(`risk ${manifest.risk} requires --yes`, "RISK_CONFIRMATION_REQUIRED");
     }
 
     if (manifest.billing.enabled && !options.allowBilling) {
-      throw new SpellError("billing enabled requires --allow-billing");
+      throw new SpellError("billing enabled requires --allow-billing", "BILLING_CONFIRMATION_REQUIRED");
     }
 
     if (manifest.billing.enabled) {
@@ -162,11 +205,24 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
     for (const permission of manifest.permissions) {
       const tokenKey = `CONNECTOR_${permission.connector.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_TOKEN`;
       if (!process.env[tokenKey]) {
-        throw new SpellError(`missing connector token ${tokenKey}`);
+        throw new SpellError(`missing connector token ${tokenKey}`, "CONNECTOR_TOKEN_MISSING");
       }
     }
 
-    process.stdout.write(`${renderExecutionSummary(manifest)}\n`);
+    let resume: StepResumeState | undefined;
+    if (options.resume !== undefined) {
+      log.resumed_from = path.basename(resolveExecutionLogPath(options.resume));
+      if (executionId === log.resumed_from) {
+        // Execution ids have second resolution; never overwrite the log being resumed.
+        executionId = makeExecutionId(manifest.id, manifest.version, new Date(Date.now() + 1000));
+        log.execution_id = executionId;
+      }
+      resume = await loadResumeState(options.resume, manifest, bundleDigest, input);
+    }
+
+    if (!options.quiet) {
+      process.stdout.write(`${renderExecutionSummary(manifest)}\n`);
+    }
 
     if (options.dryRun) {
       log.success = true;
@@ -179,10 +235,24 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
       };
     }
 
+    throwIfAborted(options.signal);
+
     if (manifest.runtime.execution === "docker") {
       logger.debug({ id: manifest.id, version: manifest.version }, "starting docker execution");
 
-      const dockerResult = await runDocker(manifest, bundlePath, input, runtimeExecutionTimeoutMs);
+      const dockerResult = await runDocker(
+        manifest,
+        bundlePath,
+        input,
+        runtimeExecutionTimeoutMs,
+        resume,
+        options.signal,
+        emitDockerProgress
+      );
+      // Runner images that predate progress lines report results only on exit, so progress is replayed then.
+      if (!dockerProgressStreamed) {
+        replayProgressEvents(emitProgress, dockerResult.stepResults, dockerResult.checks);
+      }
       log.steps = dockerResult.stepResults;
       log.outputs = dockerResult.outputs;
       log.checks = dockerResult.checks;
@@ -200,12 +270,21 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
 
     logger.debug({ id: manifest.id, version: manifest.version }, "starting host execution");
 
-    const runResult = await runHost(manifest, bundlePath, input, runtimeExecutionTimeoutMs);
+    const runResult = await runHost(
+      manifest,
+      bundlePath,
+      input,
+      runtimeExecutionTimeoutMs,
+      resume,
+      emitProgress,
+      options.signal
+    );
     log.steps = runResult.stepResults;
     log.outputs = runResult.outputs;
 
     const checkResults = await evaluateChecks(manifest.checks, bundlePath, runResult.outputs, true);
     log.checks = checkResults;
+    replayProgressEvents(emitProgress, [], checkResults);
 
     const failedChecks = checkResults.filter((entry) => !entry.success);
     if (failedChecks.length > 0) {
@@ -223,6 +302,7 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
     };
   } catch (error) {
     let finalError = error instanceof Error ? error : new SpellError(String(error));
+    let code: CastErrorCode = errorCodeOf(error) ?? "EXECUTION_FAILED";
 
     if (error instanceof StepExecutionError) {
       log.steps = error.stepResults;
@@ -234,14 +314,19 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
         const rollback = applyRollbackPolicy(error.rollback, runtimePolicy);
         log.rollback = rollback;
         if (rollback.manual_recovery_required) {
+          code = "COMPENSATION_INCOMPLETE";
           finalError = new SpellError(
-            `manual recovery required: compensation state=${rollback.state}; ${finalError.message}`
+            `manual recovery required: compensation state=${rollback.state}; ${finalError.message}`,
+            code
           );
         }
       }
     }
 
     if (error instanceof DockerExecutionError) {
+      if (!dockerProgressStreamed) {
+        replayProgressEvents(emitProgress, error.stepResults, error.checks);
+      }
       log.steps = error.stepResults;
       log.outputs = error.outputs;
       log.checks = error.checks;
@@ -249,8 +334,10 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
         const rollback = applyRollbackPolicy(error.rollback, runtimePolicy);
         log.rollback = rollback;
         if (rollback.manual_recovery_required) {
+          code = "COMPENSATION_INCOMPLETE";
           finalError = new SpellError(
-            `manual recovery required: compensation state=${rollback.state}; ${finalError.message}`
+            `manual recovery required: compensation state=${rollback.state}; ${finalError.message}`,
+            code
           );
         }
       }
@@ -258,8 +345,36 @@ export async function castSpell(options: CastOptions): Promise<CastResult> {
 
     log.error = finalError.message;
     log.finished_at = new Date().toISOString();
-    await writeExecutionLog(log);
-    throw finalError;
+    const logPath = await writeExecutionLog(log);
+    throw new CastError(finalError.message, code, executionId, logPath);
+  } finally {
+    await events?.close();
+  }
+}
+
+function replayProgressEvents(
+  emit: ProgressEventListener | undefined,
+  stepResults: StepResult[],
+  checks: CheckResult[]
+): void {
+  if (!emit) {
+    return;
+  }
+
+  for (const stepResult of stepResults) {
+    emit({
+      type: "step_finished",
+      at: stepResult.finished_at,
+      step: stepResult.stepName,
+      uses: stepResult.uses,
+      success: stepResult.success,
+      message: stepResult.message
+    });
+  }
+
+  const at = new Date().toISOString();
+  for (const check of checks) {
+    emit({ type: "check_result", at, check: check.type, success: check.success, message: check.message });
   }
 }
 
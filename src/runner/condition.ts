@@ -0,0 +1,142 @@
+import { isDeepStrictEqual } from "node:util";
+import { SpellStepCondition } from "../types";
+import { getByDotPath } from "../util/object";
+import { resolveOutputReference } from "../util/outputs";
+
+export interface ConditionEvaluation {
+  matched: boolean;
+  explanation: string;
+}
+
+const COMPARISON_OPERATORS = ["gt", "gte", "lt", "lte"] as const;
+
+export function evaluateStepCondition(
+  condition: SpellStepCondition,
+  input: Record<string, unknown>,
+  outputs: Record<string, unknown>
+): ConditionEvaluation {
+  if (condition.all) {
+    const parts = condition.all.map((entry) => evaluateStepCondition(entry, input, outputs));
+    return {
+      matched: parts.every((part) => part.matched),
+      explanation: `all(${parts.map(formatPart).join(", ")})`
+    };
+  }
+
+  if (condition.any) {
+    const parts = condition.any.map((entry) => evaluateStepCondition(entry, input, outputs));
+    return {
+      matched: parts.some((part) => part.matched),
+      explanation: `any(${parts.map(formatPart).join(", ")})`
+    };
+  }
+
+  if (condition.not) {
+    const inner = evaluateStepCondition(condition.not, input, outputs);
+    return {
+      matched: !inner.matched,
+      explanation: `not(${formatPart(inner)})`
+    };
+  }
+
+  return evaluateLeafCondition(condition, input, outputs);
+}
+
+function evaluateLeafCondition(
+  condition: SpellStepCondition,
+  input: Record<string, unknown>,
+  outputs: Record<string, unknown>
+): ConditionEvaluation {
+  let label: string;
+  let actual: unknown;
+  let missingOutput = false;
+
+  if (condition.input_path) {
+    label = `input_path ${condition.input_path}`;
+    actual = getByDotPath(input, condition.input_path);
+  } else if (condition.output_path) {
+    label = `output_path ${condition.output_path}`;
+    try {
+      actual = resolveOutputReference(outputs, condition.output_path);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!message.startsWith("output reference not found:")) {
+        throw error;
+      }
+      missingOutput = true;
+    }
+  } else {
+    return { matched: true, explanation: "always" };
+  }
+
+  const checks: Array<{ text: string; ok: boolean }> = [];
+  const has = (key: keyof SpellStepCondition): boolean => Object.prototype.hasOwnProperty.call(condition, key);
+
+  if (has("exists")) {
+    checks.push({ text: `exists ${String(condition.exists)}`, ok: (actual !== undefined) === condition.exists });
+  }
+  if (has("equals")) {
+    checks.push({ text: `equals ${formatValue(condition.equals)}`, ok: isDeepStrictEqual(actual, condition.equals) });
+  }
+  if (has("not_equals")) {
+    checks.push({
+      text: `not_equals ${formatValue(condition.not_equals)}`,
+      ok: !isDeepStrictEqual(actual, condition.not_equals)
+    });
+  }
+  if (condition.in) {
+    checks.push({
+      text: `in ${formatValue(condition.in)}`,
+      ok: condition.in.some((candidate) => isDeepStrictEqual(actual, candidate))
+    });
+  }
+  for (const operator of COMPARISON_OPERATORS) {
+    const expected = condition[operator];
+    if (expected !== undefined) {
+      checks.push({ text: `${operator} ${expected}`, ok: compareNumber(actual, operator, expected) });
+    }
+  }
+  if (condition.matches !== undefined) {
+    checks.push({
+      text: `matches /${condition.matches}/`,
+      ok: typeof actual === "string" && new RegExp(condition.matches).test(actual)
+    });
+  }
+
+  // A missing upstream output only satisfies explicit existence checks.
+  const matched = missingOutput && !has("exists") ? false : checks.every((check) => check.ok);
+  const actualText = missingOutput || actual === undefined ? "<missing>" : formatValue(actual);
+  return {
+    matched,
+    explanation: `${label}=${actualText} ${checks.map((check) => check.text).join(" and ")}`
+  };
+}
+
+function compareNumber(actual: unknown, operator: (typeof COMPARISON_OPERATORS)[number], expected: number): boolean {
+  if (typeof actual !== "number" || Number.isNaN(actual)) {
+    return false;
+  }
+
+  switch (operator) {
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+  }
+}
+
+function formatPart(part: ConditionEvaluation): string {
+  return `${part.explanation} -> ${part.matched}`;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value);
+  if (text === undefined) {
+    return String(value);
+  }
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
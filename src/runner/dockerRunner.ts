@@ -2,8 +2,18 @@ import { mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { spawn } from "node:child_process";
-import { SpellBundleManifest, CheckResult, RollbackSummary, StepResult } from "../types";
-import { SpellError } from "../util/errors";
+import {
+  CastErrorCode,
+  CheckResult,
+  ProgressEvent,
+  RollbackSummary,
+  SpellBundleManifest,
+  StepResult,
+  StepResumeState
+} from "../types";
+import { ProgressEventListener } from "../logging/progressEvents";
+import { SpellError, isCastErrorCode } from "../util/errors";
+import { abortErrorFromSignal } from "./abort";
 import { formatExecutionTimeoutMessage } from "./runtimeLimits";
 
 type DockerNetworkMode = "none" | "bridge" | "host";
@@ -24,6 +34,7 @@ const DEFAULT_DOCKER_PIDS_LIMIT = 256;
 export interface DockerRunnerResult {
   success: boolean;
   error?: string;
+  error_code?: CastErrorCode;
   stepResults: StepResult[];
   outputs: Record<string, unknown>;
   checks: CheckResult[];
@@ -41,9 +52,10 @@ export class DockerExecutionError extends SpellError {
     stepResults: StepResult[],
     outputs: Record<string, unknown>,
     checks: CheckResult[],
-    rollback?: RollbackSummary
+    rollback?: RollbackSummary,
+    code?: CastErrorCode
   ) {
-    super(message);
+    super(message, code);
     this.stepResults = stepResults;
     this.outputs = outputs;
     this.checks = checks;
@@ -55,7 +67,10 @@ export async function runDocker(
   manifest: SpellBundleManifest,
   bundlePath: string,
   input: Record<string, unknown>,
-  executionTimeoutMs?: number
+  executionTimeoutMs?: number,
+  resume?: StepResumeState,
+  signal?: AbortSignal,
+  onEvent?: ProgressEventListener
 ): Promise<DockerRunnerResult> {
   const dockerImage = manifest.runtime.docker_image;
   if (!dockerImage) {
@@ -65,13 +80,35 @@ export async function runDocker(
   const tempDir = await mkdtemp(path.join(tmpdir(), "spell-docker-"));
   const inputPath = path.join(tempDir, "input.json");
   await writeFile(inputPath, JSON.stringify(input), "utf8");
+  if (resume) {
+    await writeFile(path.join(tempDir, "resume.json"), JSON.stringify(resume), "utf8");
+  }
 
   try {
-    const args = buildDockerArgs(dockerImage, bundlePath, tempDir, manifest);
-    const { code, stdout, stderr, timedOut } = await runProcess("docker", args, process.cwd(), executionTimeoutMs);
+    const args = buildDockerArgs(dockerImage, bundlePath, tempDir, manifest, process.env, resume !== undefined);
+    const onStdoutLine = onEvent
+      ? (line: string): void => {
+          const event = parseRunnerEventLine(line);
+          if (event) {
+            onEvent(event);
+          }
+        }
+      : undefined;
+    const { code, stdout, stderr, timedOut } = await runProcess(
+      "docker",
+      args,
+      process.cwd(),
+      executionTimeoutMs,
+      signal,
+      onStdoutLine
+    );
+
+    if (signal?.aborted) {
+      throw abortErrorFromSignal(signal);
+    }
 
     if (timedOut && executionTimeoutMs !== undefined) {
-      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs));
+      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs), "EXECUTION_TIMEOUT");
     }
 
     let parsed: DockerRunnerResult | undefined;
@@ -88,7 +125,14 @@ export async function runDocker(
     if (parsed) {
       if (!parsed.success) {
         const message = parsed.error ?? (stderr.trim() || `docker exited with code ${code}`);
-        throw new DockerExecutionError(message, parsed.stepResults, parsed.outputs, parsed.checks, parsed.rollback);
+        throw new DockerExecutionError(
+          message,
+          parsed.stepResults,
+          parsed.outputs,
+          parsed.checks,
+          parsed.rollback,
+          parsed.error_code
+        );
       }
       return parsed;
     }
@@ -114,7 +158,8 @@ export function buildDockerArgs(
   bundlePath: string,
   tempDir: string,
   manifest: SpellBundleManifest,
-  env: NodeJS.ProcessEnv = process.env
+  env: NodeJS.ProcessEnv = process.env,
+  withResumeState = false
 ): string[] {
   const inputInContainer = "/tmp/spell-input/input.json";
   const runnerWorkRoot = "/spell-work";
@@ -172,6 +217,9 @@ export function buildDockerArgs(
   }
 
   args.push(dockerImage, "spell-runner", "/spell/spell.yaml", inputInContainer);
+  if (withResumeState) {
+    args.push("/tmp/spell-input/resume.json");
+  }
   return args;
 }
 
@@ -298,8 +346,34 @@ function readDockerCpus(env: NodeJS.ProcessEnv): string | undefined {
   return value;
 }
 
+// Returns the progress event carried by a `{"event": ...}` runner line, or undefined for any other line.
+export function parseRunnerEventLine(line: string): ProgressEvent | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed) as unknown;
+  } catch {
+    return undefined;
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return undefined;
+  }
+  const event = (parsed as Record<string, unknown>).event;
+  if (!event || typeof event !== "object" || Array.isArray(event) || typeof (event as ProgressEvent).type !== "string") {
+    return undefined;
+  }
+  return event as ProgressEvent;
+}
+
+// The result is the last stdout line; earlier lines are progress events.
 function parseRunnerJson(stdout: string): DockerRunnerResult {
-  const trimmed = stdout.trim();
+  const lines = stdout.split("\n").filter((line) => line.trim() !== "");
+  const trimmed = lines.length > 0 ? lines[lines.length - 1].trim() : "";
   if (!trimmed) {
     throw new SpellError("docker runner produced no output");
   }
@@ -319,6 +393,7 @@ function parseRunnerJson(stdout: string): DockerRunnerResult {
   return {
     success: Boolean(obj.success),
     error: typeof obj.error === "string" ? obj.error : undefined,
+    error_code: isCastErrorCode(obj.error_code) ? obj.error_code : undefined,
     stepResults: Array.isArray(obj.stepResults) ? (obj.stepResults as StepResult[]) : [],
     outputs: obj.outputs && typeof obj.outputs === "object" && !Array.isArray(obj.outputs) ? (obj.outputs as Record<string, unknown>) : {},
     checks: Array.isArray(obj.checks) ? (obj.checks as CheckResult[]) : [],
@@ -333,7 +408,9 @@ async function runProcess(
   command: string,
   args: string[],
   cwd: string,
-  timeoutMs?: number
+  timeoutMs?: number,
+  signal?: AbortSignal,
+  onStdoutLine?: (line: string) => void
 ): Promise<{ code: number; stdout: string; stderr: string; timedOut: boolean }> {
   const child = spawn(command, args, {
     shell: false,
@@ -343,9 +420,16 @@ async function runProcess(
 
   let stdout = "";
   let stderr = "";
+  let lineStart = 0;
 
   child.stdout.on("data", (chunk) => {
     stdout += chunk.toString();
+    let newline = stdout.indexOf("\n", lineStart);
+    while (newline !== -1) {
+      onStdoutLine?.(stdout.slice(lineStart, newline));
+      lineStart = newline + 1;
+      newline = stdout.indexOf("\n", lineStart);
+    }
   });
 
   child.stderr.on("data", (chunk) => {
@@ -360,6 +444,10 @@ async function runProcess(
       child.kill("SIGKILL");
     }, timeoutMs);
   }
+  const onAbort = (): void => {
+    child.kill("SIGKILL");
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
 
   let code: number;
   try {
@@ -371,6 +459,7 @@ async function runProcess(
     if (timer) {
       clearTimeout(timer);
     }
+    signal?.removeEventListener("abort", onAbort);
   }
 
   return { code, stdout, stderr, timedOut };
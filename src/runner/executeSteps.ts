@@ -1,18 +1,33 @@
 import path from "node:path";
-import { CheckResult, RollbackSummary, SpellBundleManifest, SpellStep, StepResult } from "../types";
-import { runHttpStep, HttpStepExecution } from "../steps/httpStep";
+import {
+  CastErrorCode,
+  CheckResult,
+  RollbackSummary,
+  SpellBundleManifest,
+  SpellStep,
+  SpellStepForEach,
+  StepIteration,
+  StepResult,
+  StepResumeState
+} from "../types";
+import { runHttpStep, HttpStepError, HttpStepExecution } from "../steps/httpStep";
+import { runNodeStep, NodeStepExecution } from "../steps/nodeStep";
 import { runShellStep, ShellStepExecution } from "../steps/shellStep";
-import { SpellError } from "../util/errors";
+import { ProgressEventListener } from "../logging/progressEvents";
+import { SpellError, errorCodeOf } from "../util/errors";
 import { getByDotPath } from "../util/object";
 import { resolveOutputReference } from "../util/outputs";
+import { throwIfAborted } from "./abort";
+import { evaluateStepCondition } from "./condition";
 import { formatExecutionTimeoutMessage } from "./runtimeLimits";
+import { bindIterationInputJson, resolveStepEnv } from "./stepEnv";
 
 type ShellRunner = (
   step: SpellStep,
   runPath: string,
   cwd: string,
   env: NodeJS.ProcessEnv,
-  options?: { maxDurationMs?: number; executionTimeoutMs?: number }
+  options?: { maxDurationMs?: number; executionTimeoutMs?: number; stepTimeoutMs?: number; signal?: AbortSignal }
 ) => Promise<ShellStepExecution>;
 
 type HttpRunner = (
@@ -20,21 +35,72 @@ type HttpRunner = (
   runPath: string,
   input: Record<string, unknown>,
   env: NodeJS.ProcessEnv,
-  signal?: AbortSignal
+  outputs: Record<string, unknown>,
+  signal?: AbortSignal,
+  iteration?: StepIteration
 ) => Promise<HttpStepExecution>;
 
+type NodeRunner = (
+  step: SpellStep,
+  runPath: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  options?: {
+    maxDurationMs?: number;
+    executionTimeoutMs?: number;
+    stepTimeoutMs?: number;
+    iteration?: StepIteration;
+    signal?: AbortSignal;
+  }
+) => Promise<NodeStepExecution>;
+
 export interface ExecuteStepsOptions {
   executionTimeoutMs?: number;
   shellRunner?: ShellRunner;
   httpRunner?: HttpRunner;
+  nodeRunner?: NodeRunner;
+  resume?: StepResumeState;
+  onEvent?: ProgressEventListener;
+  // Aborting stops pending and running steps; configured rollbacks still run afterwards.
+  signal?: AbortSignal;
+}
+
+interface StepRunners {
+  shell: ShellRunner;
+  http: HttpRunner;
+  node: NodeRunner;
+}
+
+// One executed step, or one executed for_each iteration of it; rollback runs once per entry.
+export interface ExecutedStep {
+  stepName: string;
+  iteration?: StepIteration;
 }
 
 interface StepExecutionOutcome {
   stepName: string;
+  stepResults: StepResult[];
+  executions: ExecutedStep[];
+  outputEntries?: Record<string, unknown>;
+}
+
+interface StepRunResult {
   stepResult: StepResult;
-  executed: boolean;
-  outputKey?: string;
-  outputValue?: unknown;
+  stdout?: string;
+  json?: unknown;
+}
+
+// Carries the iterations of a for_each step that succeeded before one failed, so they are rolled back.
+class ForEachIterationError extends SpellError {
+  readonly stepResults: StepResult[];
+  readonly executions: ExecutedStep[];
+
+  constructor(message: string, stepResults: StepResult[], executions: ExecutedStep[], cause: unknown) {
+    super(message, errorCodeOf(cause));
+    this.stepResults = stepResults;
+    this.executions = executions;
+  }
 }
 
 export class StepExecutionError extends SpellError {
@@ -48,9 +114,10 @@ export class StepExecutionError extends SpellError {
     outputs: Record<string, unknown>,
     stepResults: StepResult[],
     checks: CheckResult[] = [],
-    rollback?: RollbackSummary
+    rollback?: RollbackSummary,
+    code?: CastErrorCode
   ) {
-    super(message);
+    super(message, code);
     this.outputs = outputs;
     this.stepResults = stepResults;
     this.checks = checks;
@@ -67,15 +134,44 @@ export async function executeSteps(
 ): Promise<{ outputs: Record<string, unknown>; stepResults: StepResult[]; executedStepNames: string[] }> {
   const outputs: Record<string, unknown> = {};
   const stepResults: StepResult[] = [];
-  const executedStepNames: string[] = [];
+  const executions: ExecutedStep[] = [];
   const pending = new Map(manifest.steps.map((step) => [step.name, step]));
   const completed = new Set<string>();
   const indexByName = new Map(manifest.steps.map((step, idx) => [step.name, idx]));
   const executionDeadlineMs = options.executionTimeoutMs !== undefined ? Date.now() + options.executionTimeoutMs : undefined;
   const maxParallel = manifest.runtime.max_parallel_steps ?? 1;
+  const emit: ProgressEventListener = options.onEvent ?? (() => undefined);
+
+  if (options.resume) {
+    const restoredAt = new Date().toISOString();
+    Object.assign(outputs, options.resume.outputs);
+    for (const step of manifest.steps) {
+      if (!options.resume.completedStepNames.includes(step.name)) {
+        continue;
+      }
+      stepResults.push({
+        stepName: step.name,
+        uses: step.uses,
+        started_at: restoredAt,
+        finished_at: restoredAt,
+        success: true,
+        message: "restored from resumed execution"
+      });
+      emitStepFinished(emit, stepResults[stepResults.length - 1]);
+      pending.delete(step.name);
+      completed.add(step.name);
+    }
+  }
 
   const shellRunner = options.shellRunner ?? runShellStep;
-  const httpRunner = options.httpRunner ?? runHttpStep;
+  const runners = bindAbortSignal(
+    {
+      shell: shellRunner,
+      http: options.httpRunner ?? runHttpStep,
+      node: options.nodeRunner ?? runNodeStep
+    },
+    options.signal
+  );
 
   try {
     while (pending.size > 0) {
@@ -91,10 +187,21 @@ export async function executeSteps(
       ready.sort((a, b) => (indexByName.get(a.name) ?? 0) - (indexByName.get(b.name) ?? 0));
 
       for (let cursor = 0; cursor < ready.length; cursor += maxParallel) {
+        throwIfAborted(options.signal);
         const batch = ready.slice(cursor, cursor + maxParallel);
         const settled = await Promise.allSettled(
           batch.map(async (step) =>
-            runStepWithCondition(step, bundlePath, input, env, outputs, executionDeadlineMs, options.executionTimeoutMs, shellRunner, httpRunner)
+            runStepWithCondition(
+              step,
+              bundlePath,
+              input,
+              env,
+              outputs,
+              executionDeadlineMs,
+              options.executionTimeoutMs,
+              runners,
+              emit
+            )
           )
         );
 
@@ -104,17 +211,22 @@ export async function executeSteps(
             if (rejectedReason === undefined) {
               rejectedReason = entry.reason;
             }
+            if (entry.reason instanceof ForEachIterationError) {
+              stepResults.push(...entry.reason.stepResults);
+              executions.push(...entry.reason.executions);
+            }
+            if (entry.reason instanceof HttpStepError) {
+              stepResults.push(entry.reason.stepResult);
+            }
             continue;
           }
 
           const outcome = entry.value;
-          stepResults.push(outcome.stepResult);
-          if (outcome.outputKey !== undefined) {
-            outputs[outcome.outputKey] = outcome.outputValue;
-          }
-          if (outcome.executed) {
-            executedStepNames.push(outcome.stepName);
+          stepResults.push(...outcome.stepResults);
+          if (outcome.outputEntries !== undefined) {
+            Object.assign(outputs, outcome.outputEntries);
           }
+          executions.push(...outcome.executions);
           pending.delete(outcome.stepName);
           completed.add(outcome.stepName);
         }
@@ -129,16 +241,26 @@ export async function executeSteps(
       manifest,
       bundlePath,
       env,
-      executedStepNames,
+      input,
+      executions,
       executionDeadlineMs,
       options.executionTimeoutMs,
-      shellRunner
+      shellRunner,
+      emit
     );
     stepResults.push(...rollbackRun.stepResults);
     const message = error instanceof Error ? error.message : String(error);
-    throw new StepExecutionError(message, { ...outputs }, [...stepResults], [], rollbackRun.summary);
+    throw new StepExecutionError(
+      message,
+      { ...outputs },
+      [...stepResults],
+      [],
+      rollbackRun.summary,
+      errorCodeOf(error)
+    );
   }
 
+  const executedStepNames = Array.from(new Set(executions.map((execution) => execution.stepName)));
   return { outputs, stepResults, executedStepNames };
 }
 
@@ -150,108 +272,309 @@ async function runStepWithCondition(
   outputs: Record<string, unknown>,
   executionDeadlineMs: number | undefined,
   executionTimeoutMs: number | undefined,
-  shellRunner: ShellRunner,
-  httpRunner: HttpRunner
+  runners: StepRunners,
+  emit: ProgressEventListener
 ): Promise<StepExecutionOutcome> {
   const now = new Date().toISOString();
-  const shouldRun = shouldRunStep(step, input, outputs);
-  if (!shouldRun) {
+  const condition = step.when ? evaluateStepCondition(step.when, input, outputs) : undefined;
+  if (condition && !condition.matched) {
+    const skipped: StepResult = {
+      stepName: step.name,
+      uses: step.uses,
+      started_at: now,
+      finished_at: now,
+      success: true,
+      message: `skipped by condition: ${condition.explanation}`
+    };
+    emitStepFinished(emit, skipped);
     return {
       stepName: step.name,
-      stepResult: {
-        stepName: step.name,
-        uses: step.uses,
-        started_at: now,
-        finished_at: now,
-        success: true,
-        message: "skipped by condition"
-      },
-      executed: false
+      stepResults: [skipped],
+      executions: []
     };
   }
 
-  const runPath = path.resolve(bundlePath, step.run);
-  const retry = normalizeStepRetry(step);
+  if (step.for_each) {
+    return runForEachStep(step, bundlePath, input, env, outputs, executionDeadlineMs, executionTimeoutMs, runners, emit);
+  }
 
-  if (step.uses === "shell") {
-    const result = await runShellStepWithRetry(
-      step,
-      runPath,
-      bundlePath,
-      env,
-      executionDeadlineMs,
-      executionTimeoutMs,
-      retry,
-      shellRunner
-    );
+  const result = await runSingleStep(
+    step,
+    bundlePath,
+    input,
+    env,
+    outputs,
+    executionDeadlineMs,
+    executionTimeoutMs,
+    runners,
+    emit
+  );
+  const outputEntries: Record<string, unknown> = {};
+  if (result.stdout !== undefined) {
+    outputEntries[`step.${step.name}.stdout`] = result.stdout;
+  }
+  if (result.json !== undefined) {
+    outputEntries[`step.${step.name}.json`] = result.json;
+  }
+
+  return {
+    stepName: step.name,
+    stepResults: [result.stepResult],
+    executions: [{ stepName: step.name }],
+    outputEntries
+  };
+}
+
+async function runForEachStep(
+  step: SpellStep,
+  bundlePath: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  executionDeadlineMs: number | undefined,
+  executionTimeoutMs: number | undefined,
+  runners: StepRunners,
+  emit: ProgressEventListener
+): Promise<StepExecutionOutcome> {
+  const forEach = step.for_each as SpellStepForEach;
+  const items = resolveForEachItems(step, forEach, input, outputs);
+
+  if (items.length === 0) {
+    const now = new Date().toISOString();
+    const skipped: StepResult = {
+      stepName: step.name,
+      uses: step.uses,
+      started_at: now,
+      finished_at: now,
+      success: true,
+      message: "skipped: for_each has no items"
+    };
+    emitStepFinished(emit, skipped);
     return {
       stepName: step.name,
-      stepResult: result.stepResult,
-      executed: true,
-      outputKey: `step.${step.name}.stdout`,
-      outputValue: result.stdout
+      stepResults: [skipped],
+      executions: [],
+      outputEntries: { [`step.${step.name}.json`]: [] }
     };
   }
 
-  if (step.uses === "http") {
-    const result = await runHttpStepWithRetry(
+  const maxParallel = forEach.max_parallel ?? 1;
+  const results: StepRunResult[] = [];
+  const executions: ExecutedStep[] = [];
+
+  for (let cursor = 0; cursor < items.length; cursor += maxParallel) {
+    const batch = items.slice(cursor, cursor + maxParallel).map((item, offset) => ({ item, index: cursor + offset }));
+    const settled = await Promise.allSettled(
+      batch.map(async (iteration) =>
+        runSingleStep(
+          { ...step, name: `${step.name}[${iteration.index}]` },
+          bundlePath,
+          buildIterationInput(step, input, iteration),
+          env,
+          outputs,
+          executionDeadlineMs,
+          executionTimeoutMs,
+          runners,
+          emit,
+          iteration
+        )
+      )
+    );
+
+    let rejectedReason: unknown;
+    settled.forEach((entry, offset) => {
+      if (entry.status === "rejected") {
+        if (rejectedReason === undefined) {
+          rejectedReason = entry.reason;
+        }
+        return;
+      }
+      results.push(entry.value);
+      executions.push({ stepName: step.name, iteration: batch[offset] });
+    });
+
+    if (rejectedReason !== undefined) {
+      const message = rejectedReason instanceof Error ? rejectedReason.message : String(rejectedReason);
+      const failedResults = rejectedReason instanceof HttpStepError ? [rejectedReason.stepResult] : [];
+      throw new ForEachIterationError(
+        message,
+        [...results.map((result) => result.stepResult), ...failedResults],
+        executions,
+        rejectedReason
+      );
+    }
+  }
+
+  const outputEntries: Record<string, unknown> = {
+    [`step.${step.name}.json`]: results.map((result) => result.json ?? null)
+  };
+  if (step.uses === "shell") {
+    outputEntries[`step.${step.name}.stdout`] = results.map((result) => result.stdout ?? "").join("");
+  }
+
+  return {
+    stepName: step.name,
+    stepResults: results.map((result) => result.stepResult),
+    executions,
+    outputEntries
+  };
+}
+
+function resolveForEachItems(
+  step: SpellStep,
+  forEach: SpellStepForEach,
+  input: Record<string, unknown>,
+  outputs: Record<string, unknown>
+): unknown[] {
+  const source =
+    forEach.input_path !== undefined
+      ? getByDotPath(input, forEach.input_path)
+      : resolveOutputReference(outputs, forEach.output_path as string);
+
+  if (!Array.isArray(source)) {
+    const sourcePath = forEach.input_path !== undefined ? `input_path ${forEach.input_path}` : `output_path ${forEach.output_path}`;
+    throw new SpellError(`step '${step.name}' for_each ${sourcePath} must resolve to an array`);
+  }
+
+  return source;
+}
+
+function buildIterationInput(
+  step: SpellStep,
+  input: Record<string, unknown>,
+  iteration: StepIteration | undefined
+): Record<string, unknown> {
+  const alias = step.for_each?.as;
+  if (!iteration || !alias) {
+    return input;
+  }
+  return { ...input, [alias]: iteration.item };
+}
+
+async function runSingleStep(
+  step: SpellStep,
+  bundlePath: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  executionDeadlineMs: number | undefined,
+  executionTimeoutMs: number | undefined,
+  runners: StepRunners,
+  emit: ProgressEventListener,
+  iteration?: StepIteration
+): Promise<StepRunResult> {
+  emit({ type: "step_started", at: new Date().toISOString(), step: step.name, uses: step.uses });
+  try {
+    const result = await runStepByKind(
       step,
-      runPath,
+      bundlePath,
       input,
       env,
+      outputs,
       executionDeadlineMs,
       executionTimeoutMs,
-      retry,
-      httpRunner
+      runners,
+      emit,
+      iteration
     );
-    return {
-      stepName: step.name,
-      stepResult: result.stepResult,
-      executed: true,
-      outputKey: `step.${step.name}.json`,
-      outputValue: result.responseBody
-    };
+    emitStepFinished(emit, result.stepResult);
+    return result;
+  } catch (error) {
+    emit({
+      type: "step_finished",
+      at: new Date().toISOString(),
+      step: step.name,
+      uses: step.uses,
+      success: false,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
   }
-
-  throw new SpellError(`unsupported step type: ${step.uses}`);
 }
 
-export function shouldRunStep(
+async function runStepByKind(
   step: SpellStep,
+  bundlePath: string,
   input: Record<string, unknown>,
-  outputs: Record<string, unknown>
-): boolean {
-  const condition = step.when;
-  if (!condition) {
-    return true;
-  }
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  executionDeadlineMs: number | undefined,
+  executionTimeoutMs: number | undefined,
+  runners: StepRunners,
+  emit: ProgressEventListener,
+  iteration: StepIteration | undefined
+): Promise<StepRunResult> {
+  const runPath = path.resolve(bundlePath, step.run);
+  const retry = normalizeStepRetry(step);
+  const stepEnv = resolveStepEnv(step, input, env, iteration);
+  const releaseInputJson = await bindIterationInputJson(stepEnv, input, iteration);
 
-  let actual: unknown;
-  if (condition.input_path) {
-    actual = getByDotPath(input, condition.input_path);
-  } else if (condition.output_path) {
-    try {
-      actual = resolveOutputReference(outputs, condition.output_path);
-    } catch (error) {
-      const message = (error as Error).message;
-      if (message.startsWith("output reference not found:")) {
-        return false;
-      }
-      throw error;
+  try {
+    if (step.uses === "shell") {
+      const result = await runShellStepWithRetry(
+        step,
+        runPath,
+        bundlePath,
+        stepEnv,
+        executionDeadlineMs,
+        executionTimeoutMs,
+        retry,
+        runners.shell,
+        emit
+      );
+      return { stepResult: result.stepResult, stdout: result.stdout, json: result.json };
+    }
+
+    if (step.uses === "http") {
+      const result = await runHttpStepWithRetry(
+        step,
+        runPath,
+        input,
+        stepEnv,
+        outputs,
+        executionDeadlineMs,
+        executionTimeoutMs,
+        retry,
+        runners.http,
+        emit,
+        iteration
+      );
+      return { stepResult: result.stepResult, json: result.responseBody };
+    }
+
+    if (step.uses === "node") {
+      const result = await runNodeStepWithRetry(
+        step,
+        runPath,
+        input,
+        stepEnv,
+        outputs,
+        executionDeadlineMs,
+        executionTimeoutMs,
+        retry,
+        runners.node,
+        emit,
+        iteration
+      );
+      return { stepResult: result.stepResult, json: result.json };
     }
-  } else {
-    return true;
-  }
 
-  if (Object.prototype.hasOwnProperty.call(condition, "equals") && actual !== condition.equals) {
-    return false;
+    throw new SpellError(`unsupported step type: ${step.uses}`);
+  } finally {
+    await releaseInputJson();
   }
+}
 
-  if (Object.prototype.hasOwnProperty.call(condition, "not_equals") && actual === condition.not_equals) {
-    return false;
+export function shouldRunStep(
+  step: SpellStep,
+  input: Record<string, unknown>,
+  outputs: Record<string, unknown>
+): boolean {
+  if (!step.when) {
+    return true;
   }
 
-  return true;
+  return evaluateStepCondition(step.when, input, outputs).matched;
 }
 
 interface NormalizedStepRetry {
@@ -274,18 +597,20 @@ async function runShellStepWithRetry(
   executionDeadlineMs: number | undefined,
   executionTimeoutMs: number | undefined,
   retry: NormalizedStepRetry,
-  shellRunner: ShellRunner
+  shellRunner: ShellRunner,
+  emit: ProgressEventListener
 ): Promise<ShellStepExecution> {
   for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
     const remainingExecutionMs = executionDeadlineMs !== undefined ? executionDeadlineMs - Date.now() : undefined;
     if (remainingExecutionMs !== undefined && remainingExecutionMs <= 0) {
-      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name));
+      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name), "EXECUTION_TIMEOUT");
     }
 
     try {
       const result = await shellRunner(step, runPath, bundlePath, env, {
         maxDurationMs: remainingExecutionMs,
-        executionTimeoutMs
+        executionTimeoutMs,
+        stepTimeoutMs: step.timeout_ms
       });
       return {
         ...result,
@@ -295,6 +620,7 @@ async function runShellStepWithRetry(
       if (attempt >= retry.maxAttempts) {
         throw toRetryError(error, attempt, retry.maxAttempts);
       }
+      emitRetryAttempt(emit, step, error, attempt, retry.maxAttempts);
       await waitForRetryBackoff(step.name, retry.backoffMs, executionDeadlineMs, executionTimeoutMs);
     }
   }
@@ -307,15 +633,18 @@ async function runHttpStepWithRetry(
   runPath: string,
   input: Record<string, unknown>,
   env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
   executionDeadlineMs: number | undefined,
   executionTimeoutMs: number | undefined,
   retry: NormalizedStepRetry,
-  httpRunner: HttpRunner
+  httpRunner: HttpRunner,
+  emit: ProgressEventListener,
+  iteration?: StepIteration
 ): Promise<HttpStepExecution> {
   for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
     const remainingExecutionMs = executionDeadlineMs !== undefined ? executionDeadlineMs - Date.now() : undefined;
     if (remainingExecutionMs !== undefined && remainingExecutionMs <= 0) {
-      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name));
+      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name), "EXECUTION_TIMEOUT");
     }
 
     try {
@@ -324,9 +653,11 @@ async function runHttpStepWithRetry(
         runPath,
         input,
         env,
+        outputs,
         remainingExecutionMs,
         executionTimeoutMs,
-        httpRunner
+        httpRunner,
+        iteration
       );
       return {
         ...result,
@@ -336,6 +667,7 @@ async function runHttpStepWithRetry(
       if (attempt >= retry.maxAttempts) {
         throw toRetryError(error, attempt, retry.maxAttempts);
       }
+      emitRetryAttempt(emit, step, error, attempt, retry.maxAttempts);
       await waitForRetryBackoff(step.name, retry.backoffMs, executionDeadlineMs, executionTimeoutMs);
     }
   }
@@ -343,6 +675,100 @@ async function runHttpStepWithRetry(
   throw new SpellError(`step failed: ${step.name}`);
 }
 
+async function runNodeStepWithRetry(
+  step: SpellStep,
+  runPath: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  executionDeadlineMs: number | undefined,
+  executionTimeoutMs: number | undefined,
+  retry: NormalizedStepRetry,
+  nodeRunner: NodeRunner,
+  emit: ProgressEventListener,
+  iteration?: StepIteration
+): Promise<NodeStepExecution> {
+  for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
+    const remainingExecutionMs = executionDeadlineMs !== undefined ? executionDeadlineMs - Date.now() : undefined;
+    if (remainingExecutionMs !== undefined && remainingExecutionMs <= 0) {
+      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name), "EXECUTION_TIMEOUT");
+    }
+
+    try {
+      const result = await nodeRunner(step, runPath, input, env, outputs, {
+        maxDurationMs: remainingExecutionMs,
+        executionTimeoutMs,
+        stepTimeoutMs: step.timeout_ms,
+        iteration
+      });
+      return {
+        ...result,
+        stepResult: annotateSuccessfulAttempt(result.stepResult, attempt, retry.maxAttempts)
+      };
+    } catch (error) {
+      if (attempt >= retry.maxAttempts) {
+        throw toRetryError(error, attempt, retry.maxAttempts);
+      }
+      emitRetryAttempt(emit, step, error, attempt, retry.maxAttempts);
+      await waitForRetryBackoff(step.name, retry.backoffMs, executionDeadlineMs, executionTimeoutMs);
+    }
+  }
+
+  throw new SpellError(`step failed: ${step.name}`);
+}
+
+// Every step attempt observes the cast-level signal; rollbacks use the unbound shell runner on purpose.
+function bindAbortSignal(runners: StepRunners, signal: AbortSignal | undefined): StepRunners {
+  if (!signal) {
+    return runners;
+  }
+
+  return {
+    shell: async (step, runPath, cwd, env, runOptions) => {
+      throwIfAborted(signal);
+      return runners.shell(step, runPath, cwd, env, { ...runOptions, signal });
+    },
+    http: async (step, runPath, input, env, outputs, stepSignal, iteration) => {
+      throwIfAborted(signal);
+      const combined = stepSignal ? AbortSignal.any([signal, stepSignal]) : signal;
+      return runners.http(step, runPath, input, env, outputs, combined, iteration);
+    },
+    node: async (step, runPath, input, env, outputs, runOptions) => {
+      throwIfAborted(signal);
+      return runners.node(step, runPath, input, env, outputs, { ...runOptions, signal });
+    }
+  };
+}
+
+function emitStepFinished(emit: ProgressEventListener, stepResult: StepResult): void {
+  emit({
+    type: "step_finished",
+    at: stepResult.finished_at,
+    step: stepResult.stepName,
+    uses: stepResult.uses,
+    success: stepResult.success,
+    message: stepResult.message
+  });
+}
+
+function emitRetryAttempt(
+  emit: ProgressEventListener,
+  step: SpellStep,
+  error: unknown,
+  attempt: number,
+  maxAttempts: number
+): void {
+  emit({
+    type: "step_retry",
+    at: new Date().toISOString(),
+    step: step.name,
+    uses: step.uses,
+    attempt,
+    max_attempts: maxAttempts,
+    message: error instanceof Error ? error.message : String(error)
+  });
+}
+
 function annotateSuccessfulAttempt(stepResult: StepResult, attempt: number, maxAttempts: number): StepResult {
   if (maxAttempts <= 1) {
     return stepResult;
@@ -359,12 +785,16 @@ function toRetryError(error: unknown, attempt: number, maxAttempts: number): Spe
   if (error instanceof SpellError && maxAttempts <= 1) {
     return error;
   }
-  const message = error instanceof Error ? error.message : String(error);
-  if (maxAttempts <= 1 || message.includes(`attempt ${attempt}/${maxAttempts}`)) {
-    return new SpellError(message);
+  const baseMessage = error instanceof Error ? error.message : String(error);
+  const message =
+    maxAttempts <= 1 || baseMessage.includes(`attempt ${attempt}/${maxAttempts}`)
+      ? baseMessage
+      : `${baseMessage} (attempt ${attempt}/${maxAttempts})`;
+  if (error instanceof HttpStepError) {
+    return new HttpStepError(message, error.stepResult);
   }
 
-  return new SpellError(`${message} (attempt ${attempt}/${maxAttempts})`);
+  return new SpellError(message, errorCodeOf(error));
 }
 
 async function waitForRetryBackoff(
@@ -380,7 +810,7 @@ async function waitForRetryBackoff(
   if (executionDeadlineMs !== undefined) {
     const remaining = executionDeadlineMs - Date.now();
     if (remaining <= 0 || remaining < backoffMs) {
-      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, stepName));
+      throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, stepName), "EXECUTION_TIMEOUT");
     }
   }
 
@@ -394,25 +824,35 @@ async function runHttpStepWithExecutionTimeout(
   runPath: string,
   input: Record<string, unknown>,
   env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
   remainingExecutionMs: number | undefined,
   executionTimeoutMs: number | undefined,
-  httpRunner: HttpRunner
+  httpRunner: HttpRunner,
+  iteration: StepIteration | undefined
 ): Promise<HttpStepExecution> {
-  if (remainingExecutionMs === undefined) {
-    return httpRunner(step, runPath, input, env);
+  const stepTimeoutMs = step.timeout_ms;
+  if (remainingExecutionMs === undefined && stepTimeoutMs === undefined) {
+    return httpRunner(step, runPath, input, env, outputs, undefined, iteration);
   }
 
-  if (remainingExecutionMs <= 0) {
-    throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name));
+  if (remainingExecutionMs !== undefined && remainingExecutionMs <= 0) {
+    throw new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name), "EXECUTION_TIMEOUT");
   }
 
+  const cappedByExecution =
+    remainingExecutionMs !== undefined && (stepTimeoutMs === undefined || remainingExecutionMs < stepTimeoutMs);
+  const timeoutMs = cappedByExecution ? (remainingExecutionMs as number) : (stepTimeoutMs as number);
   const controller = new AbortController();
   const timer = setTimeout(() => {
-    controller.abort(new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name)));
-  }, remainingExecutionMs);
+    controller.abort(
+      cappedByExecution
+        ? new SpellError(formatExecutionTimeoutMessage(executionTimeoutMs as number, step.name), "EXECUTION_TIMEOUT")
+        : new SpellError(`http step '${step.name}' timed out after ${timeoutMs}ms`, "STEP_TIMEOUT")
+    );
+  }, timeoutMs);
 
   try {
-    return await httpRunner(step, runPath, input, env, controller.signal);
+    return await httpRunner(step, runPath, input, env, outputs, controller.signal, iteration);
   } finally {
     clearTimeout(timer);
   }
@@ -422,10 +862,12 @@ export async function runConfiguredRollbacks(
   manifest: SpellBundleManifest,
   bundlePath: string,
   env: NodeJS.ProcessEnv,
-  executedStepNames: string[],
+  input: Record<string, unknown>,
+  executedSteps: ExecutedStep[],
   executionDeadlineMs: number | undefined,
   executionTimeoutMs: number | undefined,
-  shellRunner: ShellRunner = runShellStep
+  shellRunner: ShellRunner = runShellStep,
+  emit: ProgressEventListener = () => undefined
 ): Promise<{ stepResults: StepResult[]; summary: RollbackSummary }> {
   const rollbackResults: StepResult[] = [];
   const stepMap = new Map(manifest.steps.map((step) => [step.name, step]));
@@ -435,8 +877,8 @@ export async function runConfiguredRollbacks(
   let rollbackSucceededSteps = 0;
   let rollbackFailedSteps = 0;
 
-  for (let i = executedStepNames.length - 1; i >= 0; i -= 1) {
-    const stepName = executedStepNames[i];
+  for (let i = executedSteps.length - 1; i >= 0; i -= 1) {
+    const { stepName, iteration } = executedSteps[i];
     const sourceStep = stepMap.get(stepName);
     if (!sourceStep || !sourceStep.rollback) {
       continue;
@@ -445,13 +887,18 @@ export async function runConfiguredRollbacks(
 
     const rollbackStep: SpellStep = {
       uses: "shell",
-      name: `rollback.${sourceStep.name}`,
-      run: sourceStep.rollback
+      name: iteration ? `rollback.${sourceStep.name}[${iteration.index}]` : `rollback.${sourceStep.name}`,
+      for_each: sourceStep.for_each,
+      run: sourceStep.rollback,
+      timeout_ms: sourceStep.timeout_ms,
+      env: sourceStep.env,
+      env_passthrough: sourceStep.env_passthrough
     };
     const rollbackPath = path.resolve(bundlePath, rollbackStep.run);
     const remainingExecutionMs = executionDeadlineMs !== undefined ? executionDeadlineMs - Date.now() : undefined;
     const startedAt = new Date().toISOString();
     rollbackAttemptedSteps += 1;
+    emit({ type: "rollback_started", at: startedAt, step: rollbackStep.name, uses: rollbackStep.uses });
 
     if (remainingExecutionMs !== undefined && remainingExecutionMs <= 0) {
       rollbackFailedSteps += 1;
@@ -464,14 +911,19 @@ export async function runConfiguredRollbacks(
         success: false,
         message: formatExecutionTimeoutMessage(executionTimeoutMs as number, rollbackStep.name)
       });
+      emitStepFinished(emit, rollbackResults[rollbackResults.length - 1]);
       break;
     }
 
     try {
-      const result = await shellRunner(rollbackStep, rollbackPath, bundlePath, env, {
+      const rollbackInput = buildIterationInput(rollbackStep, input, iteration);
+      const rollbackEnv = resolveStepEnv(rollbackStep, rollbackInput, env, iteration);
+      const releaseInputJson = await bindIterationInputJson(rollbackEnv, rollbackInput, iteration);
+      const result = await shellRunner(rollbackStep, rollbackPath, bundlePath, rollbackEnv, {
         maxDurationMs: remainingExecutionMs,
-        executionTimeoutMs
-      });
+        executionTimeoutMs,
+        stepTimeoutMs: rollbackStep.timeout_ms
+      }).finally(releaseInputJson);
       rollbackSucceededSteps += 1;
       rollbackResults.push({
         ...result.stepResult,
@@ -490,9 +942,10 @@ export async function runConfiguredRollbacks(
         message: `rollback failed: ${(error as Error).message}`
       });
     }
+    emitStepFinished(emit, rollbackResults[rollbackResults.length - 1]);
   }
 
-  const totalExecutedSteps = executedStepNames.length;
+  const totalExecutedSteps = executedSteps.length;
   const rollbackSkippedWithoutHandlerSteps = Math.max(0, totalExecutedSteps - rollbackPlannedSteps);
   const summary = buildRollbackSummary({
     totalExecutedSteps,
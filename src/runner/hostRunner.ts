@@ -1,14 +1,18 @@
 import { mkdtemp, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
-import { SpellBundleManifest, StepResult } from "../types";
+import { ProgressEventListener } from "../logging/progressEvents";
+import { SpellBundleManifest, StepResult, StepResumeState } from "../types";
 import { executeSteps } from "./executeSteps";
 
 export async function runHost(
   manifest: SpellBundleManifest,
   bundlePath: string,
   input: Record<string, unknown>,
-  executionTimeoutMs?: number
+  executionTimeoutMs?: number,
+  resume?: StepResumeState,
+  onEvent?: ProgressEventListener,
+  signal?: AbortSignal
 ): Promise<{ outputs: Record<string, unknown>; stepResults: StepResult[] }> {
   const tempDir = await mkdtemp(path.join(tmpdir(), "spell-input-"));
   const inputPath = path.join(tempDir, "input.json");
@@ -20,6 +24,9 @@ export async function runHost(
   };
 
   return executeSteps(manifest, bundlePath, input, env, {
-    executionTimeoutMs
+    executionTimeoutMs,
+    resume,
+    onEvent,
+    signal
   });
 }
@@ -36,6 +36,6 @@ export function validateInputAgainstSchema(schema: unknown, input: Record<string
     const messages = (validate.errors ?? [])
       .map((e) => `${e.instancePath || "/"} ${e.message}`.trim())
       .join("; ");
-    throw new SpellError(`input does not match schema: ${messages}`);
+    throw new SpellError(`input does not match schema: ${messages}`, "INPUT_SCHEMA_INVALID");
   }
 }
@@ -0,0 +1,89 @@
+import { isDeepStrictEqual } from "node:util";
+import { readExecutionLogJson } from "../logging/readExecutionLog";
+import { SpellBundleManifest, StepResumeState } from "../types";
+import { SpellError } from "../util/errors";
+import { REDACTED, redactSecrets } from "../util/redact";
+
+export async function loadResumeState(
+  executionId: string,
+  manifest: SpellBundleManifest,
+  bundleDigest: string | undefined,
+  input: Record<string, unknown>
+): Promise<StepResumeState> {
+  const log = await readExecutionLogJson(executionId);
+  return buildResumeState(executionId, log, manifest, bundleDigest, input);
+}
+
+export function buildResumeState(
+  executionId: string,
+  log: Record<string, unknown>,
+  manifest: SpellBundleManifest,
+  bundleDigest: string | undefined,
+  input: Record<string, unknown>
+): StepResumeState {
+  if (log.success === true) {
+    throw new SpellError(`cannot resume ${executionId}: execution already succeeded`, "RESUME_REJECTED");
+  }
+
+  if (log.id !== manifest.id || log.version !== manifest.version) {
+    throw new SpellError(
+      `cannot resume ${executionId}: it ran ${String(log.id)}@${String(log.version)}, not ${manifest.id}@${manifest.version}`,
+      "RESUME_REJECTED"
+    );
+  }
+
+  if (typeof log.bundle_digest !== "string") {
+    throw new SpellError(`cannot resume ${executionId}: log has no bundle digest`, "RESUME_REJECTED");
+  }
+  if (log.bundle_digest !== bundleDigest) {
+    throw new SpellError(`cannot resume ${executionId}: bundle digest changed`, "RESUME_REJECTED");
+  }
+
+  // Logs are written redacted, so compare against the redacted form of the new input.
+  if (!isDeepStrictEqual(redactSecrets(input), log.input)) {
+    throw new SpellError(`cannot resume ${executionId}: input changed`, "RESUME_REJECTED");
+  }
+
+  const rollback = log.rollback as { rollback_attempted_steps?: unknown } | undefined;
+  if (typeof rollback?.rollback_attempted_steps === "number" && rollback.rollback_attempted_steps > 0) {
+    throw new SpellError(
+      `cannot resume ${executionId}: rollback already ran for ${rollback.rollback_attempted_steps} step(s)`,
+      "RESUME_REJECTED"
+    );
+  }
+
+  const loggedOutputs = isRecord(log.outputs) ? log.outputs : {};
+  const loggedSteps = Array.isArray(log.steps) ? log.steps.filter(isRecord) : [];
+  const succeededStepNames = new Set(
+    loggedSteps.filter((entry) => entry.success === true).map((entry) => entry.stepName)
+  );
+
+  const outputs: Record<string, unknown> = {};
+  const completedStepNames: string[] = [];
+  for (const step of manifest.steps) {
+    // for_each steps log one result per iteration; only a fully collected output array proves completion.
+    const completed = step.for_each
+      ? succeededStepNames.has(step.name) || Array.isArray(loggedOutputs[`step.${step.name}.json`])
+      : succeededStepNames.has(step.name);
+    if (!completed) {
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(loggedOutputs)) {
+      if (!key.startsWith(`step.${step.name}.`)) {
+        continue;
+      }
+      if (JSON.stringify(value).includes(REDACTED)) {
+        throw new SpellError(`cannot resume ${executionId}: output ${key} was redacted in the log`, "RESUME_REJECTED");
+      }
+      outputs[key] = value;
+    }
+    completedStepNames.push(step.name);
+  }
+
+  return { outputs, completedStepNames };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
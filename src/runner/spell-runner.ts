@@ -2,11 +2,12 @@
 import { access, chmod, copyFile, lstat, mkdir, mkdtemp, readFile, readdir, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
-import { loadManifestFromDir } from "../bundle/manifest";
+import { ProgressEventListener } from "../logging/progressEvents";
+import { assertAssetEntry, loadManifestFromDir, readManifestAssets } from "../bundle/manifest";
 import { readSchemaFromManifest } from "../bundle/store";
 import { evaluateChecks } from "../checks/evaluate";
-import { CheckResult, RollbackSummary, StepResult } from "../types";
-import { SpellError } from "../util/errors";
+import { CastErrorCode, CheckResult, RollbackSummary, StepResult, StepResumeState } from "../types";
+import { SpellError, errorCodeOf } from "../util/errors";
 import { detectHostPlatform, platformMatches } from "../util/platform";
 import { validateInputAgainstSchema } from "./input";
 import { executeSteps, StepExecutionError } from "./executeSteps";
@@ -14,6 +15,7 @@ import { executeSteps, StepExecutionError } from "./executeSteps";
 interface RunnerResult {
   success: boolean;
   error?: string;
+  error_code?: CastErrorCode;
   stepResults: StepResult[];
   outputs: Record<string, unknown>;
   checks: CheckResult[];
@@ -21,16 +23,21 @@ interface RunnerResult {
 }
 
 async function main(): Promise<void> {
-  const [manifestPath, inputPath] = process.argv.slice(2);
+  const [manifestPath, inputPath, resumePath] = process.argv.slice(2);
   if (!manifestPath || !inputPath) {
-    process.stderr.write("usage: spell-runner <spell.yaml> <input.json>\n");
+    process.stderr.write("usage: spell-runner <spell.yaml> <input.json> [resume.json]\n");
     process.exitCode = 1;
     return;
   }
 
-  const result = await runSpellRunner(manifestPath, inputPath).catch((error) => ({
+  // Progress events go out as `{"event": ...}` lines ahead of the final result line so the host can stream them.
+  const onEvent: ProgressEventListener = (event) => {
+    process.stdout.write(`${JSON.stringify({ event })}\n`);
+  };
+  const result = await runSpellRunner(manifestPath, inputPath, resumePath, onEvent).catch((error) => ({
     success: false,
     error: (error as Error).message,
+    error_code: errorCodeOf(error),
     stepResults: [],
     outputs: {},
     checks: []
@@ -40,7 +47,12 @@ async function main(): Promise<void> {
   process.exitCode = result.success ? 0 : 1;
 }
 
-export async function runSpellRunner(manifestPath: string, inputPath: string): Promise<RunnerResult> {
+export async function runSpellRunner(
+  manifestPath: string,
+  inputPath: string,
+  resumePath?: string,
+  onEvent?: ProgressEventListener
+): Promise<RunnerResult> {
   const sourceDir = path.dirname(path.resolve(manifestPath));
   const workRoot = resolveRunnerWorkRoot();
   await mkdir(workRoot, { recursive: true });
@@ -64,7 +76,8 @@ export async function runSpellRunner(manifestPath: string, inputPath: string): P
     const hostPlatform = detectHostPlatform();
     if (!platformMatches(manifest.runtime.platforms, hostPlatform)) {
       throw new SpellError(
-        `platform mismatch: host=${hostPlatform}, spell supports=${manifest.runtime.platforms.join(",")}`
+        `platform mismatch: host=${hostPlatform}, spell supports=${manifest.runtime.platforms.join(",")}`,
+        "PLATFORM_UNSUPPORTED"
       );
     }
 
@@ -73,11 +86,16 @@ export async function runSpellRunner(manifestPath: string, inputPath: string): P
       INPUT_JSON: inputPath
     };
 
-    const stepsRun = await executeSteps(manifest, workDir, input, env);
+    const resume = resumePath ? await readResumeJson(resumePath) : undefined;
+    const stepsRun = await executeSteps(manifest, workDir, input, env, { resume, onEvent });
     stepResults.push(...stepsRun.stepResults);
     Object.assign(outputs, stepsRun.outputs);
 
     checks = await evaluateChecks(manifest.checks, workDir, outputs, true);
+    const checkedAt = new Date().toISOString();
+    for (const check of checks) {
+      onEvent?.({ type: "check_result", at: checkedAt, check: check.type, success: check.success, message: check.message });
+    }
     const failed = checks.filter((entry) => !entry.success);
     if (failed.length > 0) {
       throw new SpellError(`check failed: ${failed[0].message}`);
@@ -100,6 +118,7 @@ export async function runSpellRunner(manifestPath: string, inputPath: string): P
     return {
       success: false,
       error: (error as Error).message,
+      error_code: errorCodeOf(error),
       stepResults,
       outputs,
       checks,
@@ -128,6 +147,19 @@ async function readInputJson(inputPath: string): Promise<Record<string, unknown>
   return parsed as Record<string, unknown>;
 }
 
+async function readResumeJson(resumePath: string): Promise<StepResumeState> {
+  const parsed = JSON.parse(await readFile(resumePath, "utf8")) as Partial<StepResumeState> | null;
+  if (
+    !parsed ||
+    typeof parsed.outputs !== "object" ||
+    parsed.outputs === null ||
+    !Array.isArray(parsed.completedStepNames)
+  ) {
+    throw new SpellError("resume.json must contain outputs and completedStepNames");
+  }
+  return { outputs: parsed.outputs, completedStepNames: parsed.completedStepNames };
+}
+
 async function copyBundleForExecution(sourceDir: string, targetDir: string): Promise<void> {
   const srcManifestPath = path.join(sourceDir, "spell.yaml");
   const srcSchemaPath = path.join(sourceDir, "schema.json");
@@ -141,10 +173,25 @@ async function copyBundleForExecution(sourceDir: string, targetDir: string): Pro
   await copyFile(srcSchemaPath, path.join(targetDir, "schema.json"));
 
   const targetStepsPath = path.join(targetDir, "steps");
-  await copyDirectoryNoSymlinks(srcStepsPath, targetStepsPath);
+  await copyDirectoryNoSymlinks(srcStepsPath, targetStepsPath, "steps/");
+
+  for (const asset of await readManifestAssets(sourceDir)) {
+    await assertAssetEntry(sourceDir, asset);
+    const srcAssetPath = path.join(sourceDir, asset);
+    const targetAssetPath = path.join(targetDir, asset);
+    const info = await lstat(srcAssetPath);
+
+    if (info.isDirectory()) {
+      await copyDirectoryNoSymlinks(srcAssetPath, targetAssetPath, "assets");
+    } else {
+      await mkdir(path.dirname(targetAssetPath), { recursive: true });
+      await copyFile(srcAssetPath, targetAssetPath);
+      await chmod(targetAssetPath, info.mode & 0o777);
+    }
+  }
 }
 
-async function copyDirectoryNoSymlinks(sourceDir: string, targetDir: string): Promise<void> {
+async function copyDirectoryNoSymlinks(sourceDir: string, targetDir: string, label: string): Promise<void> {
   await mkdir(targetDir, { recursive: true });
   const entries = await readdir(sourceDir, { withFileTypes: true });
 
@@ -154,11 +201,11 @@ async function copyDirectoryNoSymlinks(sourceDir: string, targetDir: string): Pr
 
     const info = await lstat(srcPath);
     if (info.isSymbolicLink()) {
-      throw new SpellError(`symlink is not allowed in steps/: ${srcPath}`);
+      throw new SpellError(`symlink is not allowed in ${label}: ${srcPath}`);
     }
 
     if (info.isDirectory()) {
-      await copyDirectoryNoSymlinks(srcPath, dstPath);
+      await copyDirectoryNoSymlinks(srcPath, dstPath, label);
       continue;
     }
 
@@ -168,7 +215,7 @@ async function copyDirectoryNoSymlinks(sourceDir: string, targetDir: string): Pr
       continue;
     }
 
-    throw new SpellError(`unsupported file type in steps/: ${srcPath}`);
+    throw new SpellError(`unsupported file type in ${label}: ${srcPath}`);
   }
 }
 
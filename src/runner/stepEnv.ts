@@ -0,0 +1,67 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { SpellStep, StepIteration } from "../types";
+import { applyTemplate } from "../util/template";
+
+// Runtime-controlled variables that a step always inherits, even with env_passthrough.
+const ALWAYS_PASSED_ENV = ["PATH", "SystemRoot", "INPUT_JSON", "SPELL_RUNTIME_STEP_TIMEOUT_MS"];
+
+export function resolveStepEnv(
+  step: SpellStep,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  iteration?: StepIteration
+): NodeJS.ProcessEnv {
+  const out: NodeJS.ProcessEnv = step.env_passthrough ? pickPassthroughEnv(env, step.env_passthrough) : { ...env };
+
+  if (iteration) {
+    out.SPELL_ITEM_JSON = JSON.stringify(iteration.item ?? null);
+    out.SPELL_ITEM_INDEX = String(iteration.index);
+  }
+
+  for (const [key, template] of Object.entries(step.env ?? {})) {
+    const resolved = applyTemplate(template, input, env, {}, iteration);
+    out[key] = typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+  }
+
+  return out;
+}
+
+// INPUT_JSON is always a file path; a for_each iteration gets its own file with the iteration input (including the
+// `as` alias). Returns the cleanup for that file.
+export async function bindIterationInputJson(
+  stepEnv: NodeJS.ProcessEnv,
+  input: Record<string, unknown>,
+  iteration?: StepIteration
+): Promise<() => Promise<void>> {
+  if (!iteration || stepEnv.INPUT_JSON === undefined) {
+    return async () => undefined;
+  }
+
+  const dir = await mkdtemp(path.join(tmpdir(), "spell-iteration-input-"));
+  const inputPath = path.join(dir, "input.json");
+  await writeFile(inputPath, JSON.stringify(input), "utf8");
+  stepEnv.INPUT_JSON = inputPath;
+  return () => rm(dir, { recursive: true, force: true });
+}
+
+function pickPassthroughEnv(env: NodeJS.ProcessEnv, passthrough: string[]): NodeJS.ProcessEnv {
+  const out: NodeJS.ProcessEnv = {};
+  const patterns = [...ALWAYS_PASSED_ENV, ...passthrough];
+
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined && patterns.some((pattern) => matchesEnvPattern(key, pattern))) {
+      out[key] = value;
+    }
+  }
+
+  return out;
+}
+
+function matchesEnvPattern(key: string, pattern: string): boolean {
+  if (pattern.endsWith("*")) {
+    return key.startsWith(pattern.slice(0, -1));
+  }
+  return key === pattern;
+}
@@ -24,6 +24,11 @@ export function renderExecutionSummary(manifest: SpellBundleManifest): string {
     }
   }
 
+  lines.push("steps:");
+  for (const step of manifest.steps) {
+    lines.push(`  - name=${step.name}, uses=${step.uses}, run=${step.run}`);
+  }
+
   lines.push(
     `billing: enabled=${manifest.billing.enabled}, mode=${manifest.billing.mode}, max_amount=${manifest.billing.max_amount}, currency=${manifest.billing.currency}`
   );
@@ -0,0 +1,55 @@
+import { BundleTestRun } from "./bundleTests";
+
+export type BundleTestReportFormat = "tap" | "junit";
+
+export function formatTapReport(run: BundleTestRun): string {
+  const lines = ["TAP version 13", `1..${run.cases.length}`];
+  run.cases.forEach((result, idx) => {
+    lines.push(`${result.passed ? "ok" : "not ok"} ${idx + 1} - ${result.name}`);
+    if (!result.passed) {
+      lines.push("  ---", `  file: ${result.file}`, "  failures:");
+      lines.push(...result.failures.map((failure) => `    - ${JSON.stringify(failure)}`));
+      lines.push("  ...");
+    }
+  });
+  lines.push(`# ${run.id}@${run.version}: ${run.passed} passed, ${run.failed} failed`);
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatJunitReport(run: BundleTestRun): string {
+  const suiteName = escapeXml(`${run.id}@${run.version}`);
+  const totalSeconds = formatSeconds(run.cases.reduce((sum, result) => sum + result.durationMs, 0));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuite name="${suiteName}" tests="${run.cases.length}" failures="${run.failed}" errors="0" time="${totalSeconds}">`
+  ];
+
+  for (const result of run.cases) {
+    const attrs = `classname="${suiteName}" name="${escapeXml(result.name)}" file="${escapeXml(result.file)}" time="${formatSeconds(result.durationMs)}"`;
+    if (result.passed) {
+      lines.push(`  <testcase ${attrs}/>`);
+      continue;
+    }
+    lines.push(
+      `  <testcase ${attrs}>`,
+      `    <failure message="${escapeXml(result.failures[0] ?? "failed")}">${escapeXml(result.failures.join("\n"))}</failure>`,
+      "  </testcase>"
+    );
+  }
+
+  lines.push("</testsuite>");
+  return `${lines.join("\n")}\n`;
+}
+
+function formatSeconds(durationMs: number): string {
+  return (durationMs / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -1,6 +1,7 @@
 import { createHash } from "node:crypto";
 import { lstat, readdir, readFile, stat } from "node:fs/promises";
 import path from "node:path";
+import { assertAssetEntry, readManifestAssets } from "../bundle/manifest";
 import { SpellError } from "../util/errors";
 
 export interface BundleDigest {
@@ -13,6 +14,7 @@ export interface BundleDigest {
 // - spell.yaml (bytes)
 // - schema.json (bytes)
 // - steps/** (file paths + bytes)
+// - manifest assets (file paths + bytes; directories are walked)
 //
 // spell.sig.json is intentionally excluded.
 export async function computeBundleDigest(bundlePath: string): Promise<BundleDigest> {
@@ -35,13 +37,28 @@ export async function computeBundleDigest(bundlePath: string): Promise<BundleDig
     { rel: "schema.json", abs: schemaPath }
   ];
 
-  const stepFiles = await collectFilesNoSymlinks(stepsRoot);
+  const stepFiles = await collectFilesNoSymlinks(stepsRoot, "steps/");
   for (const absPath of stepFiles) {
     const relFromSteps = path.relative(stepsRoot, absPath);
     const rel = normalizeRelPath(path.posix.join("steps", relFromSteps));
     entries.push({ rel, abs: absPath });
   }
 
+  for (const asset of await readManifestAssets(root)) {
+    await assertAssetEntry(root, asset);
+    const assetPath = path.join(root, asset);
+    const assetStat = await stat(assetPath);
+    if (assetStat.isFile()) {
+      entries.push({ rel: asset, abs: assetPath });
+      continue;
+    }
+
+    for (const absPath of await collectFilesNoSymlinks(assetPath, "assets")) {
+      const rel = normalizeRelPath(path.posix.join(asset, path.relative(assetPath, absPath)));
+      entries.push({ rel, abs: absPath });
+    }
+  }
+
   entries.sort((a, b) => a.rel.localeCompare(b.rel));
 
   const hash = createHash("sha256");
@@ -75,7 +92,7 @@ async function assertRegularFile(filePath: string, label: string): Promise<void>
   }
 }
 
-async function collectFilesNoSymlinks(rootDir: string): Promise<string[]> {
+async function collectFilesNoSymlinks(rootDir: string, label: string): Promise<string[]> {
   const out: string[] = [];
 
   async function walk(dir: string): Promise<void> {
@@ -84,7 +101,7 @@ async function collectFilesNoSymlinks(rootDir: string): Promise<string[]> {
       const absPath = path.join(dir, entry.name);
       const info = await lstat(absPath);
       if (info.isSymbolicLink()) {
-        throw new SpellError(`symlink is not allowed in steps/: ${absPath}`);
+        throw new SpellError(`symlink is not allowed in ${label}: ${absPath}`);
       }
 
       if (info.isDirectory()) {
@@ -97,7 +114,7 @@ async function collectFilesNoSymlinks(rootDir: string): Promise<string[]> {
         continue;
       }
 
-      throw new SpellError(`unsupported file type in steps/: ${absPath}`);
+      throw new SpellError(`unsupported file type in ${label}: ${absPath}`);
     }
   }
 
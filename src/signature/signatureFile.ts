@@ -7,6 +7,7 @@ export interface SpellSignatureV1 {
   publisher: string;
   key_id: string;
   algorithm: "ed25519";
+  signed_at?: string; // ISO timestamp, covered by the signature
   digest: {
     algorithm: "sha256";
     value: string; // hex
@@ -14,7 +15,24 @@ export interface SpellSignatureV1 {
   signature: string; // base64url
 }
 
-export async function readSignatureFile(bundlePath: string): Promise<SpellSignatureV1 | null> {
+export interface SpellSignatureEntry {
+  publisher: string;
+  key_id: string;
+  algorithm: "ed25519";
+  signed_at?: string; // ISO timestamp, covered by the signature
+  signature: string; // base64url
+}
+
+// Every entry signs the same bundle digest; entries under another publisher are countersignatures.
+export interface SpellSignatureV2 {
+  version: "v2";
+  digest: SpellSignatureV1["digest"];
+  signatures: SpellSignatureEntry[];
+}
+
+export type SpellSignatureFile = SpellSignatureV1 | SpellSignatureV2;
+
+export async function readSignatureFile(bundlePath: string): Promise<SpellSignatureFile | null> {
   const filePath = path.join(bundlePath, "spell.sig.json");
   try {
     await access(filePath);
@@ -42,18 +60,101 @@ export async function readSignatureFile(bundlePath: string): Promise<SpellSignat
 
   const obj = parsed as Record<string, unknown>;
   const version = readRequiredString(obj, "version");
+  if (version === "v2") {
+    return parseSignatureV2(obj);
+  }
   if (version !== "v1") {
     throw new SpellError(`unsupported signature version: ${version}`);
   }
 
-  const publisher = readRequiredString(obj, "publisher");
-  const keyId = readRequiredString(obj, "key_id");
-  const algorithm = readRequiredString(obj, "algorithm");
+  const entry = parseSignatureEntry(obj, "spell.sig.json");
+  return {
+    version: "v1",
+    publisher: entry.publisher,
+    key_id: entry.key_id,
+    algorithm: entry.algorithm,
+    signed_at: entry.signed_at,
+    digest: parseDigest(obj.digest),
+    signature: entry.signature
+  };
+}
+
+export function signatureEntries(sig: SpellSignatureFile): SpellSignatureEntry[] {
+  if (sig.version === "v2") {
+    return sig.signatures;
+  }
+  return [
+    {
+      publisher: sig.publisher,
+      key_id: sig.key_id,
+      algorithm: sig.algorithm,
+      signed_at: sig.signed_at,
+      signature: sig.signature
+    }
+  ];
+}
+
+// Signatures without signed_at cover the raw digest; otherwise the timestamp is bound into the signed bytes.
+export function signedMessage(digest: Buffer, signedAt?: string): Buffer {
+  if (signedAt === undefined) {
+    return digest;
+  }
+  return Buffer.concat([digest, Buffer.from(`\nsigned_at=${signedAt}`, "utf8")]);
+}
+
+function parseSignatureV2(obj: Record<string, unknown>): SpellSignatureV2 {
+  const signaturesRaw = obj.signatures;
+  if (!Array.isArray(signaturesRaw) || signaturesRaw.length === 0) {
+    throw new SpellError("spell.sig.json.signatures must be a non-empty array");
+  }
+
+  const seen = new Set<string>();
+  const signatures = signaturesRaw.map((entry, idx) => {
+    const label = `spell.sig.json.signatures[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new SpellError(`${label} must be an object`);
+    }
+    const parsedEntry = parseSignatureEntry(entry as Record<string, unknown>, label);
+    const signerKey = `${parsedEntry.publisher}\0${parsedEntry.key_id}`;
+    if (seen.has(signerKey)) {
+      throw new SpellError(`duplicate signature for publisher=${parsedEntry.publisher} key_id=${parsedEntry.key_id}`);
+    }
+    seen.add(signerKey);
+    return parsedEntry;
+  });
+
+  return {
+    version: "v2",
+    digest: parseDigest(obj.digest),
+    signatures
+  };
+}
+
+function parseSignatureEntry(obj: Record<string, unknown>, label: string): SpellSignatureEntry {
+  const publisher = readRequiredString(obj, "publisher", label);
+  const keyId = readRequiredString(obj, "key_id", label);
+  const algorithm = readRequiredString(obj, "algorithm", label);
   if (algorithm !== "ed25519") {
     throw new SpellError(`unsupported signature algorithm: ${algorithm}`);
   }
 
-  const digestRaw = obj.digest;
+  const signature = readRequiredString(obj, "signature", label);
+  if (!/^[A-Za-z0-9_-]+$/.test(signature)) {
+    throw new SpellError(`${label}.signature must be base64url`);
+  }
+
+  let signedAt: string | undefined;
+  if (obj.signed_at !== undefined) {
+    if (typeof obj.signed_at !== "string" || Number.isNaN(Date.parse(obj.signed_at))) {
+      throw new SpellError(`${label}.signed_at must be an ISO timestamp`);
+    }
+    signedAt = obj.signed_at;
+  }
+
+  return { publisher, key_id: keyId, algorithm: "ed25519", signed_at: signedAt, signature };
+}
+
+function parseDigest(digestRaw: unknown): SpellSignatureV1["digest"] {
   if (!digestRaw || typeof digestRaw !== "object" || Array.isArray(digestRaw)) {
     throw new SpellError("spell.sig.json.digest must be an object");
   }
@@ -68,26 +169,13 @@ export async function readSignatureFile(bundlePath: string): Promise<SpellSignat
     throw new SpellError("spell.sig.json.digest.value must be a sha256 hex string");
   }
 
-  const signature = readRequiredString(obj, "signature");
-  if (!/^[A-Za-z0-9_-]+$/.test(signature)) {
-    throw new SpellError("spell.sig.json.signature must be base64url");
-  }
-
-  return {
-    version: "v1",
-    publisher,
-    key_id: keyId,
-    algorithm: "ed25519",
-    digest: { algorithm: "sha256", value: digestValue.toLowerCase() },
-    signature
-  };
+  return { algorithm: "sha256", value: digestValue.toLowerCase() };
 }
 
-function readRequiredString(obj: Record<string, unknown>, key: string): string {
+function readRequiredString(obj: Record<string, unknown>, key: string, label = "spell.sig.json"): string {
   const value = obj[key];
   if (typeof value !== "string" || !value.trim()) {
-    throw new SpellError(`spell.sig.json missing '${key}' string`);
+    throw new SpellError(`${label} missing '${key}' string`);
   }
   return value.trim();
 }
-
@@ -5,6 +5,13 @@ import { loadManifestFromDir } from "../bundle/manifest";
 import { SpellError } from "../util/errors";
 import { sanitizeIdForFilename } from "../util/idKey";
 import { computeBundleDigest } from "./bundleDigest";
+import {
+  SpellSignatureEntry,
+  SpellSignatureV2,
+  readSignatureFile,
+  signatureEntries,
+  signedMessage
+} from "./signatureFile";
 import { publisherFromId } from "./trustStore";
 
 interface KeygenOptions {
@@ -26,6 +33,8 @@ interface SignBundleOptions {
   privateKeyPath: string;
   keyId: string;
   publisher?: string;
+  // Adds the signature to the existing spell.sig.json (written as v2) instead of replacing it.
+  append?: boolean;
 }
 
 export interface SignBundleResult {
@@ -33,6 +42,8 @@ export interface SignBundleResult {
   digestHex: string;
   publisher: string;
   keyId: string;
+  signedAt: string;
+  signatureCount: number;
 }
 
 export async function generateSigningKeypair(options: KeygenOptions): Promise<KeygenResult> {
@@ -71,9 +82,11 @@ export async function signBundleFromPrivateKey(options: SignBundleOptions): Prom
   const { manifest } = await loadManifestFromDir(bundlePath);
   const derivedPublisher = publisherFromId(manifest.id);
   const publisher = options.publisher?.trim() || derivedPublisher;
-  if (publisher !== derivedPublisher) {
+  // Only an appended signature may use another publisher: that is a countersignature, e.g. from a reviewer.
+  if (publisher !== derivedPublisher && !options.append) {
     throw new SpellError(`publisher mismatch: manifest expects '${derivedPublisher}', got '${publisher}'`);
   }
+  validateSimpleToken(publisher, "publisher");
 
   const privateKeyRaw = await readFile(path.resolve(options.privateKeyPath), "utf8").catch(() => {
     throw new SpellError(`private key file not found: ${options.privateKeyPath}`);
@@ -87,20 +100,31 @@ export async function signBundleFromPrivateKey(options: SignBundleOptions): Prom
   }
 
   const digest = await computeBundleDigest(bundlePath);
-  const signature = sign(null, digest.value, privateKey).toString("base64url");
+  const signedAt = new Date().toISOString();
+  const signature = sign(null, signedMessage(digest.value, signedAt), privateKey).toString("base64url");
 
   const signaturePath = path.join(bundlePath, "spell.sig.json");
-  const payload = {
-    version: "v1",
+  const entry: SpellSignatureEntry = {
     publisher,
     key_id: options.keyId,
     algorithm: "ed25519",
-    digest: {
-      algorithm: "sha256",
-      value: digest.valueHex
-    },
+    signed_at: signedAt,
     signature
-  } as const;
+  };
+  const payload = options.append
+    ? await appendSignature(bundlePath, digest.valueHex, entry)
+    : ({
+        version: "v1",
+        publisher,
+        key_id: options.keyId,
+        algorithm: "ed25519",
+        signed_at: signedAt,
+        digest: {
+          algorithm: "sha256",
+          value: digest.valueHex
+        },
+        signature
+      } as const);
 
   await writeFile(signaturePath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
 
@@ -108,7 +132,33 @@ export async function signBundleFromPrivateKey(options: SignBundleOptions): Prom
     signaturePath,
     digestHex: digest.valueHex,
     publisher,
-    keyId: options.keyId
+    keyId: options.keyId,
+    signedAt,
+    signatureCount: payload.version === "v2" ? payload.signatures.length : 1
+  };
+}
+
+async function appendSignature(
+  bundlePath: string,
+  digestHex: string,
+  entry: SpellSignatureEntry
+): Promise<SpellSignatureV2> {
+  const existing = await readSignatureFile(bundlePath);
+  if (!existing) {
+    throw new SpellError("cannot append: spell.sig.json not found; sign without --append first");
+  }
+  if (existing.digest.value !== digestHex) {
+    throw new SpellError("cannot append: spell.sig.json was made for different bundle contents; sign without --append");
+  }
+
+  // Re-signing with the same key replaces its previous entry.
+  const others = signatureEntries(existing).filter(
+    (current) => current.publisher !== entry.publisher || current.key_id !== entry.key_id
+  );
+  return {
+    version: "v2",
+    digest: { algorithm: "sha256", value: digestHex },
+    signatures: [...others, entry]
   };
 }
 
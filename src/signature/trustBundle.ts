@@ -0,0 +1,324 @@
+import { createPrivateKey, createPublicKey, randomUUID, sign, verify } from "node:crypto";
+import { access, cp, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SpellError } from "../util/errors";
+import { fetchHttp } from "../util/http";
+import { trustRoot, trustedPublishersRoot } from "../util/paths";
+import {
+  PublisherTrustV1,
+  listTrustedPublishers,
+  loadPublisherTrust,
+  parsePublisherTrust,
+  publisherTrustFilePath,
+  publisherTrustPayload
+} from "./trustStore";
+
+export type TrustBundlePublisher = Omit<PublisherTrustV1, "version">;
+
+export interface TrustBundleSignature {
+  key_id: string;
+  algorithm: "ed25519";
+  signature: string; // base64url, over trustBundleSigningPayload()
+}
+
+export interface TrustBundleV1 {
+  version: "v1";
+  issued_at: string;
+  publishers: TrustBundlePublisher[];
+  signature?: TrustBundleSignature;
+}
+
+export type TrustBundleSignatureStatus = "verified" | "unchecked" | "unsigned";
+
+export interface TrustImportChange {
+  change: "added" | "changed" | "removed" | "unchanged";
+  publisher: string;
+  // Omitted for publisher-level settings (threshold, revocation_mode).
+  key_id?: string;
+}
+
+export interface TrustImportResult {
+  signature: TrustBundleSignatureStatus;
+  changes: TrustImportChange[];
+  applied: boolean;
+}
+
+interface ExportTrustBundleOptions {
+  publishers?: string[];
+  signingKeyPath?: string;
+  keyId?: string;
+  now?: Date;
+}
+
+interface ImportTrustBundleOptions {
+  dryRun?: boolean;
+  // Also removes trusted publishers that the bundle does not list.
+  prune?: boolean;
+  // base64url spki DER; defaults to SPELL_TRUST_ROOT_KEY.
+  rootKey?: string;
+}
+
+export function trustRootKeyFromEnv(): string | undefined {
+  const configured = String(process.env.SPELL_TRUST_ROOT_KEY ?? "").trim();
+  return configured || undefined;
+}
+
+export async function exportTrustBundle(options: ExportTrustBundleOptions = {}): Promise<TrustBundleV1> {
+  const known = (await listTrustedPublishers()).map((entry) => entry.publisher);
+  const selected = options.publishers && options.publishers.length > 0 ? options.publishers : known;
+
+  const publishers: TrustBundlePublisher[] = [];
+  for (const publisher of [...new Set(selected)].sort((a, b) => a.localeCompare(b))) {
+    const record = await loadPublisherTrust(publisher);
+    if (!record) {
+      throw new SpellError(`trusted publisher not found: ${publisher}`);
+    }
+    publishers.push(toBundlePublisher(record));
+  }
+
+  const bundle: TrustBundleV1 = {
+    version: "v1",
+    issued_at: (options.now ?? new Date()).toISOString(),
+    publishers
+  };
+  if (!options.signingKeyPath) {
+    return bundle;
+  }
+
+  const privateKeyRaw = await readFile(path.resolve(options.signingKeyPath), "utf8").catch(() => {
+    throw new SpellError(`private key file not found: ${options.signingKeyPath}`);
+  });
+  let privateKey: ReturnType<typeof createPrivateKey>;
+  try {
+    privateKey = createPrivateKey(privateKeyRaw);
+  } catch (error) {
+    throw new SpellError(`failed to parse private key: ${(error as Error).message}`);
+  }
+
+  return {
+    ...bundle,
+    signature: {
+      key_id: options.keyId ?? "root",
+      algorithm: "ed25519",
+      signature: sign(null, trustBundleSigningPayload(bundle), privateKey).toString("base64url")
+    }
+  };
+}
+
+export function parseTrustBundle(raw: string, source: string): TrustBundleV1 {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw) as unknown;
+  } catch {
+    throw new SpellError(`failed to parse trust bundle: ${source}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new SpellError(`trust bundle must be a JSON object: ${source}`);
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  if (obj.version !== "v1") {
+    throw new SpellError(`unsupported trust bundle version: ${String(obj.version)}`);
+  }
+  if (typeof obj.issued_at !== "string" || Number.isNaN(Date.parse(obj.issued_at))) {
+    throw new SpellError("trust bundle issued_at must be an ISO timestamp");
+  }
+  if (!Array.isArray(obj.publishers)) {
+    throw new SpellError("trust bundle publishers must be an array");
+  }
+
+  const seen = new Set<string>();
+  const publishers = obj.publishers.map((entry, idx) => {
+    const label = `${source} publishers[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      throw new SpellError(`${label} must be an object`);
+    }
+    const publisher = (entry as Record<string, unknown>).publisher;
+    if (typeof publisher !== "string" || !publisher.trim()) {
+      throw new SpellError(`${label} missing 'publisher' string`);
+    }
+    if (seen.has(publisher)) {
+      throw new SpellError(`duplicate trust bundle publisher: ${publisher}`);
+    }
+    seen.add(publisher);
+    return toBundlePublisher(parsePublisherTrust({ ...entry, version: "v1" }, publisher, label));
+  });
+
+  return {
+    version: "v1",
+    issued_at: obj.issued_at,
+    publishers,
+    signature: obj.signature === undefined ? undefined : parseTrustBundleSignature(obj.signature)
+  };
+}
+
+// The signature covers the normalized bundle without its signature block.
+export function trustBundleSigningPayload(bundle: TrustBundleV1): Buffer {
+  const payload = { version: bundle.version, issued_at: bundle.issued_at, publishers: bundle.publishers };
+  return Buffer.from(JSON.stringify(payload), "utf8");
+}
+
+export async function readTrustBundle(source: string): Promise<TrustBundleV1> {
+  if (/^https?:\/\//.test(source)) {
+    let response: Awaited<ReturnType<typeof fetchHttp>>;
+    try {
+      response = await fetchHttp(source);
+    } catch (error) {
+      throw new SpellError(`failed to fetch trust bundle '${source}': ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw new SpellError(`failed to fetch trust bundle '${source}': HTTP ${response.status}`);
+    }
+    return parseTrustBundle(await response.text(), source);
+  }
+
+  const raw = await readFile(path.resolve(source), "utf8").catch(() => {
+    throw new SpellError(`trust bundle not found: ${source}`);
+  });
+  return parseTrustBundle(raw, source);
+}
+
+export function checkTrustBundleSignature(bundle: TrustBundleV1, rootKey?: string): TrustBundleSignatureStatus {
+  if (!rootKey) {
+    return bundle.signature ? "unchecked" : "unsigned";
+  }
+  if (!bundle.signature) {
+    throw new SpellError("trust bundle is unsigned but a trust root key is pinned (SPELL_TRUST_ROOT_KEY)");
+  }
+
+  let publicKey: ReturnType<typeof createPublicKey>;
+  try {
+    publicKey = createPublicKey({ key: Buffer.from(rootKey, "base64url"), format: "der", type: "spki" });
+  } catch (error) {
+    throw new SpellError(`invalid trust root key: ${(error as Error).message}`);
+  }
+
+  const signature = Buffer.from(bundle.signature.signature, "base64url");
+  if (!verify(null, trustBundleSigningPayload(bundle), publicKey, signature)) {
+    throw new SpellError(`trust bundle signature verification failed: key_id=${bundle.signature.key_id}`);
+  }
+  return "verified";
+}
+
+// Each listed publisher's record is replaced as a whole, so keys missing from the bundle are removed.
+export async function importTrustBundle(
+  bundle: TrustBundleV1,
+  options: ImportTrustBundleOptions = {}
+): Promise<TrustImportResult> {
+  const signature = checkTrustBundleSignature(bundle, options.rootKey ?? trustRootKeyFromEnv());
+
+  const changes: TrustImportChange[] = [];
+  for (const entry of bundle.publishers) {
+    changes.push(...diffPublisher(entry.publisher, await loadPublisherTrust(entry.publisher), entry));
+  }
+
+  const listed = new Set(bundle.publishers.map((entry) => entry.publisher));
+  const pruned = options.prune
+    ? (await listTrustedPublishers()).filter((entry) => !listed.has(entry.publisher)).map((entry) => entry.publisher)
+    : [];
+  for (const publisher of pruned) {
+    changes.push(...diffPublisher(publisher, await loadPublisherTrust(publisher), null));
+  }
+
+  const dirty = changes.some((change) => change.change !== "unchanged");
+  if (options.dryRun || !dirty) {
+    return { signature, changes, applied: false };
+  }
+
+  await replaceTrustedPublishers(bundle.publishers, pruned);
+  return { signature, changes, applied: true };
+}
+
+function diffPublisher(
+  publisher: string,
+  current: PublisherTrustV1 | null,
+  next: TrustBundlePublisher | null
+): TrustImportChange[] {
+  const currentKeys = new Map(
+    (current ? publisherTrustPayload(current).keys : []).map((key) => [key.key_id, JSON.stringify(key)])
+  );
+  const nextKeys = new Map(
+    (next ? next.keys : []).map((key): [string, string] => [key.key_id, JSON.stringify(key)])
+  );
+
+  const changes: TrustImportChange[] = [];
+  if (current && next && (current.threshold !== next.threshold || current.revocation_mode !== next.revocation_mode)) {
+    changes.push({ change: "changed", publisher });
+  }
+  for (const [keyId, serialized] of nextKeys) {
+    const existing = currentKeys.get(keyId);
+    const change = existing === undefined ? "added" : existing === serialized ? "unchanged" : "changed";
+    changes.push({ change, publisher, key_id: keyId });
+  }
+  for (const keyId of currentKeys.keys()) {
+    if (!nextKeys.has(keyId)) {
+      changes.push({ change: "removed", publisher, key_id: keyId });
+    }
+  }
+  return changes;
+}
+
+// Builds the new publishers directory next to the current one and swaps it in with renames, so a failed
+// import leaves the previous trust store untouched.
+async function replaceTrustedPublishers(records: TrustBundlePublisher[], removals: string[]): Promise<void> {
+  const publishersRoot = trustedPublishersRoot();
+  const token = randomUUID().slice(0, 8);
+  const stagingPath = path.join(trustRoot(), `.publishers-staging-${token}`);
+  const backupPath = path.join(trustRoot(), `.publishers-replaced-${token}`);
+  const exists = await access(publishersRoot).then(() => true).catch(() => false);
+
+  await mkdir(trustRoot(), { recursive: true });
+  try {
+    if (exists) {
+      await cp(publishersRoot, stagingPath, { recursive: true });
+    } else {
+      await mkdir(stagingPath, { recursive: true });
+    }
+    for (const record of records) {
+      const payload = publisherTrustPayload({ version: "v1", ...record });
+      const fileName = path.basename(publisherTrustFilePath(record.publisher));
+      await writeFile(path.join(stagingPath, fileName), `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+    }
+    for (const publisher of removals) {
+      await rm(path.join(stagingPath, path.basename(publisherTrustFilePath(publisher))), { force: true });
+    }
+  } catch (error) {
+    await rm(stagingPath, { recursive: true, force: true });
+    throw error;
+  }
+
+  if (!exists) {
+    await rename(stagingPath, publishersRoot);
+    return;
+  }
+  await rename(publishersRoot, backupPath);
+  try {
+    await rename(stagingPath, publishersRoot);
+  } catch (error) {
+    await rename(backupPath, publishersRoot);
+    throw error;
+  }
+  await rm(backupPath, { recursive: true, force: true });
+}
+
+function toBundlePublisher(record: PublisherTrustV1): TrustBundlePublisher {
+  const { publisher, keys, threshold, revocation_mode } = publisherTrustPayload(record);
+  return { publisher, keys, threshold, revocation_mode };
+}
+
+function parseTrustBundleSignature(raw: unknown): TrustBundleSignature {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SpellError("trust bundle signature must be an object");
+  }
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.key_id !== "string" || !obj.key_id.trim()) {
+    throw new SpellError("trust bundle signature missing 'key_id' string");
+  }
+  if (obj.algorithm !== "ed25519") {
+    throw new SpellError(`unsupported trust bundle signature algorithm: ${String(obj.algorithm)}`);
+  }
+  if (typeof obj.signature !== "string" || !/^[A-Za-z0-9_-]+$/.test(obj.signature)) {
+    throw new SpellError("trust bundle signature.signature must be base64url");
+  }
+  return { key_id: obj.key_id, algorithm: "ed25519", signature: obj.signature };
+}
@@ -10,12 +10,27 @@ export interface PublisherTrustKeyV1 {
   revoked?: boolean;
   revoked_at?: string;
   revoke_reason?: string;
+  // Validity window for signatures made with this key, compared against signed_at (or now when absent).
+  not_before?: string;
+  not_after?: string;
 }
 
+// `signed_before` keeps accepting signatures whose signed_at predates the key's revoked_at.
+export type TrustRevocationMode = "strict" | "signed_before";
+
 export interface PublisherTrustV1 {
   version: "v1";
   publisher: string;
   keys: PublisherTrustKeyV1[];
+  // Number of distinct non-revoked keys that must sign a bundle (M of N); omitted means 1.
+  threshold?: number;
+  // Omitted means strict: a revoked key rejects every signature it made.
+  revocation_mode?: TrustRevocationMode;
+}
+
+export interface RotatePublisherKeyResult {
+  added: PublisherTrustKeyV1;
+  retired: string[];
 }
 
 export function publisherFromId(id: string): string {
@@ -48,8 +63,13 @@ export async function loadPublisherTrust(publisher: string): Promise<PublisherTr
     throw new SpellError(`failed to parse trust file: ${filePath}`);
   }
 
+  return parsePublisherTrust(parsed, publisher, filePath);
+}
+
+// Validates one publisher trust record; `source` names the file or document it came from.
+export function parsePublisherTrust(parsed: unknown, publisher: string, source: string): PublisherTrustV1 {
   if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
-    throw new SpellError(`trust file must be a JSON object: ${filePath}`);
+    throw new SpellError(`trust file must be a JSON object: ${source}`);
   }
 
   const obj = parsed as Record<string, unknown>;
@@ -89,6 +109,9 @@ export async function loadPublisherTrust(publisher: string): Promise<PublisherTr
 
     const revokedAt = revoked === true ? readOptionalIsoTimestamp(e, "revoked_at", keyId) : undefined;
     const revokeReason = revoked === true ? readOptionalString(e, "revoke_reason") : undefined;
+    const notBefore = readOptionalIsoTimestamp(e, "not_before", keyId);
+    const notAfter = readOptionalIsoTimestamp(e, "not_after", keyId);
+    assertValidityWindow(keyId, notBefore, notAfter);
 
     return {
       key_id: keyId,
@@ -96,19 +119,41 @@ export async function loadPublisherTrust(publisher: string): Promise<PublisherTr
       public_key: publicKey,
       revoked: revoked === true,
       revoked_at: revokedAt,
-      revoke_reason: revokeReason
+      revoke_reason: revokeReason,
+      not_before: notBefore,
+      not_after: notAfter
     };
   });
 
   assertUniqueKeyIds(keys);
 
+  let threshold: number | undefined;
+  if (obj.threshold !== undefined) {
+    if (typeof obj.threshold !== "number" || !Number.isInteger(obj.threshold) || obj.threshold < 1) {
+      throw new SpellError("trust file threshold must be a positive integer");
+    }
+    assertThresholdFitsKeys(obj.threshold, keys.length);
+    threshold = obj.threshold;
+  }
+
+  const revocationMode = obj.revocation_mode;
+  if (revocationMode !== undefined && !isTrustRevocationMode(revocationMode)) {
+    throw new SpellError("trust file revocation_mode must be 'strict' or 'signed_before'");
+  }
+
   return {
     version: "v1",
     publisher,
-    keys
+    keys,
+    threshold,
+    revocation_mode: revocationMode
   };
 }
 
+export function isTrustRevocationMode(value: unknown): value is TrustRevocationMode {
+  return value === "strict" || value === "signed_before";
+}
+
 export async function upsertTrustedPublisherKey(
   publisher: string,
   key: PublisherTrustKeyV1
@@ -121,11 +166,93 @@ export async function upsertTrustedPublisherKey(
   const filtered = next.keys.filter((entry) => entry.key_id !== key.key_id);
   filtered.push(normalizeTrustKey(key));
 
-  await writePublisherTrust({
-    version: "v1",
-    publisher,
-    keys: filtered
-  });
+  await writePublisherTrust({ ...next, keys: filtered });
+}
+
+export async function setPublisherTrustThreshold(publisher: string, threshold: number): Promise<PublisherTrustV1> {
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new SpellError("threshold must be a positive integer");
+  }
+
+  const trust = await loadPublisherTrust(publisher);
+  if (!trust) {
+    throw new SpellError(`trusted publisher not found: ${publisher}`);
+  }
+  assertThresholdFitsKeys(threshold, trust.keys.length);
+
+  const updated: PublisherTrustV1 = { ...trust, threshold: threshold === 1 ? undefined : threshold };
+  await writePublisherTrust(updated);
+  return updated;
+}
+
+export async function setPublisherRevocationMode(
+  publisher: string,
+  mode: TrustRevocationMode
+): Promise<PublisherTrustV1> {
+  const trust = await loadPublisherTrust(publisher);
+  if (!trust) {
+    throw new SpellError(`trusted publisher not found: ${publisher}`);
+  }
+
+  const updated: PublisherTrustV1 = { ...trust, revocation_mode: mode === "strict" ? undefined : mode };
+  await writePublisherTrust(updated);
+  return updated;
+}
+
+// Adds `key` as valid from now and closes the validity window of the retired keys (default: every key
+// still usable), so signatures made before the rotation keep verifying without re-signing.
+export async function rotateTrustedPublisherKey(
+  publisher: string,
+  key: PublisherTrustKeyV1,
+  retireKeyIds?: string[],
+  now = new Date()
+): Promise<RotatePublisherKeyResult> {
+  const trust = await loadPublisherTrust(publisher);
+  if (!trust) {
+    throw new SpellError(`trusted publisher not found: ${publisher}`);
+  }
+
+  const retired = planPublisherKeyRotation(trust, key.key_id, retireKeyIds, now);
+  const rotatedAt = now.toISOString();
+  const keys = trust.keys.map((entry) => (retired.includes(entry.key_id) ? { ...entry, not_after: rotatedAt } : entry));
+  const added = normalizeTrustKey({ ...key, not_before: rotatedAt, not_after: undefined });
+  await writePublisherTrust({ ...trust, keys: [...keys, added] });
+
+  return { added, retired };
+}
+
+// Returns the key ids a rotation would retire, refusing rotations that leave fewer valid keys than the threshold.
+export function planPublisherKeyRotation(
+  trust: PublisherTrustV1,
+  newKeyId: string,
+  retireKeyIds?: string[],
+  now = new Date()
+): string[] {
+  if (trust.keys.some((entry) => entry.key_id === newKeyId)) {
+    throw new SpellError(`trusted key already exists: publisher=${trust.publisher} key_id=${newKeyId}`);
+  }
+
+  for (const keyId of retireKeyIds ?? []) {
+    if (!trust.keys.some((entry) => entry.key_id === keyId)) {
+      throw new SpellError(`trusted key not found: publisher=${trust.publisher} key_id=${keyId}`);
+    }
+  }
+
+  const isActive = (entry: PublisherTrustKeyV1): boolean =>
+    entry.revoked !== true && (entry.not_after === undefined || Date.parse(entry.not_after) > now.getTime());
+  const active = trust.keys.filter(isActive).map((entry) => entry.key_id);
+  const retired = active.filter((keyId) => (retireKeyIds ? retireKeyIds.includes(keyId) : true));
+
+  if (trust.threshold !== undefined) {
+    const validAfterRotation = active.length - retired.length + 1;
+    if (trust.threshold > validAfterRotation) {
+      throw new SpellError(
+        `trust threshold ${trust.threshold} exceeds the ${validAfterRotation} key(s) still valid after rotation`
+      );
+    }
+  }
+
+  return retired;
 }
 
 export async function revokeTrustedPublisherKey(
@@ -175,12 +302,11 @@ export async function removeTrustedPublisherKey(
     await rm(publisherTrustFilePath(publisher), { force: true });
     return removed;
   }
+  if (trust.threshold !== undefined) {
+    assertThresholdFitsKeys(trust.threshold, remaining.length);
+  }
 
-  await writePublisherTrust({
-    version: "v1",
-    publisher,
-    keys: remaining
-  });
+  await writePublisherTrust({ ...trust, keys: remaining });
 
   return removed;
 }
@@ -249,7 +375,9 @@ export async function listTrustedPublishers(): Promise<Array<{ publisher: string
         public_key: kk.public_key,
         revoked: revoked === true,
         revoked_at: revokedAt,
-        revoke_reason: revokeReason
+        revoke_reason: revokeReason,
+        not_before: readOptionalString(kk, "not_before"),
+        not_after: readOptionalString(kk, "not_after")
       });
     }
 
@@ -299,6 +427,18 @@ function readOptionalIsoTimestamp(
   return value;
 }
 
+function assertThresholdFitsKeys(threshold: number, keyCount: number): void {
+  if (threshold > keyCount) {
+    throw new SpellError(`trust threshold ${threshold} exceeds the ${keyCount} trusted key(s)`);
+  }
+}
+
+function assertValidityWindow(keyId: string, notBefore?: string, notAfter?: string): void {
+  if (notBefore && notAfter && Date.parse(notBefore) >= Date.parse(notAfter)) {
+    throw new SpellError(`trust key not_before must be earlier than not_after: ${keyId}`);
+  }
+}
+
 function assertUniqueKeyIds(keys: PublisherTrustKeyV1[]): void {
   const seen = new Set<string>();
   for (const key of keys) {
@@ -311,8 +451,11 @@ function assertUniqueKeyIds(keys: PublisherTrustKeyV1[]): void {
 
 function normalizeTrustKey(key: PublisherTrustKeyV1): PublisherTrustKeyV1 {
   const revoked = key.revoked === true;
-  const revokedAt = revoked ? normalizeOptionalIsoTimestamp(key.revoked_at) : undefined;
+  const revokedAt = revoked ? normalizeOptionalIsoTimestamp(key.revoked_at, "revoked_at") : undefined;
   const revokeReason = revoked ? normalizeOptionalReason(key.revoke_reason) : undefined;
+  const notBefore = normalizeOptionalIsoTimestamp(key.not_before, "not_before");
+  const notAfter = normalizeOptionalIsoTimestamp(key.not_after, "not_after");
+  assertValidityWindow(key.key_id, notBefore, notAfter);
 
   return {
     key_id: key.key_id,
@@ -320,15 +463,27 @@ function normalizeTrustKey(key: PublisherTrustKeyV1): PublisherTrustKeyV1 {
     public_key: key.public_key,
     revoked,
     revoked_at: revokedAt,
-    revoke_reason: revokeReason
+    revoke_reason: revokeReason,
+    not_before: notBefore,
+    not_after: notAfter
+  };
+}
+
+// The on-disk form of a trust record: normalized keys sorted by key_id.
+export function publisherTrustPayload(record: PublisherTrustV1): PublisherTrustV1 {
+  return {
+    version: "v1",
+    publisher: record.publisher,
+    keys: [...record.keys].map(normalizeTrustKey).sort((a, b) => a.key_id.localeCompare(b.key_id)),
+    threshold: record.threshold,
+    revocation_mode: record.revocation_mode
   };
 }
 
 async function writePublisherTrust(record: PublisherTrustV1): Promise<void> {
   await mkdir(trustedPublishersRoot(), { recursive: true });
   const filePath = publisherTrustFilePath(record.publisher);
-  const keys = [...record.keys].map(normalizeTrustKey).sort((a, b) => a.key_id.localeCompare(b.key_id));
-  await writeFile(filePath, `${JSON.stringify({ version: "v1", publisher: record.publisher, keys }, null, 2)}\n`, "utf8");
+  await writeFile(filePath, `${JSON.stringify(publisherTrustPayload(record), null, 2)}\n`, "utf8");
 }
 
 async function updateTrustedPublisherKey(
@@ -349,11 +504,7 @@ async function updateTrustedPublisherKey(
   const updated = normalizeTrustKey(transform(trust.keys[index]));
   const keys = [...trust.keys];
   keys[index] = updated;
-  await writePublisherTrust({
-    version: "v1",
-    publisher,
-    keys
-  });
+  await writePublisherTrust({ ...trust, keys });
 
   return updated;
 }
@@ -365,14 +516,14 @@ function normalizeOptionalReason(value?: string): string | undefined {
   return value.trim();
 }
 
-function normalizeOptionalIsoTimestamp(value?: string): string | undefined {
+function normalizeOptionalIsoTimestamp(value: string | undefined, key: string): string | undefined {
   if (typeof value !== "string" || !value.trim()) {
     return undefined;
   }
 
   const normalized = value.trim();
   if (Number.isNaN(Date.parse(normalized))) {
-    throw new SpellError("trust key revoked_at must be an ISO timestamp");
+    throw new SpellError(`trust key ${key} must be an ISO timestamp`);
   }
   return normalized;
 }
@@ -1,12 +1,18 @@
-import { createPublicKey, verify } from "node:crypto";
+import { createPublicKey, type KeyObject, verify } from "node:crypto";
 import { SpellBundleManifest } from "../types";
 import { SpellError } from "../util/errors";
 import { computeBundleDigest } from "./bundleDigest";
-import { readSignatureFile } from "./signatureFile";
-import { loadPublisherTrust, publisherFromId } from "./trustStore";
+import { SpellSignatureEntry, readSignatureFile, signatureEntries, signedMessage } from "./signatureFile";
+import { PublisherTrustKeyV1, PublisherTrustV1, loadPublisherTrust, publisherFromId } from "./trustStore";
 
 export type SignatureStatus = "verified" | "unsigned" | "untrusted" | "invalid";
 
+export interface VerifiedSigner {
+  publisher: string;
+  key_id: string;
+  signed_at?: string;
+}
+
 export interface SignatureVerificationResult {
   ok: boolean;
   status: SignatureStatus;
@@ -14,11 +20,17 @@ export interface SignatureVerificationResult {
   key_id?: string;
   digest?: string;
   message: string;
+  // Every signature that verified against a trusted, non-revoked key, countersignatures included.
+  signers: VerifiedSigner[];
 }
 
+// signed_at may run slightly ahead of the verifying host's clock.
+const SIGNED_AT_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
 export async function verifyBundleSignature(
   manifest: SpellBundleManifest,
-  bundlePath: string
+  bundlePath: string,
+  now = new Date()
 ): Promise<SignatureVerificationResult> {
   const publisher = publisherFromId(manifest.id);
 
@@ -28,105 +40,112 @@ export async function verifyBundleSignature(
       ok: false,
       status: "unsigned",
       publisher,
-      message: "spell.sig.json not found"
+      message: "spell.sig.json not found",
+      signers: []
     };
   }
 
-  if (sig.publisher !== publisher) {
-    return {
-      ok: false,
-      status: "invalid",
-      publisher,
-      key_id: sig.key_id,
-      digest: sig.digest.value,
-      message: `signature publisher mismatch: expected '${publisher}', got '${sig.publisher}'`
-    };
+  const entries = signatureEntries(sig);
+  const own = entries.filter((entry) => entry.publisher === publisher);
+  const fail = (status: SignatureStatus, message: string, keyId?: string, digest = sig.digest.value) => ({
+    ok: false,
+    status,
+    publisher,
+    key_id: keyId,
+    digest,
+    message,
+    signers: []
+  });
+
+  if (own.length === 0) {
+    const got = [...new Set(entries.map((entry) => entry.publisher))].join(", ");
+    return fail("invalid", `signature publisher mismatch: expected '${publisher}', got '${got}'`, entries[0]?.key_id);
   }
 
   const trust = await loadPublisherTrust(publisher);
   if (!trust) {
-    return {
-      ok: false,
-      status: "untrusted",
-      publisher,
-      key_id: sig.key_id,
-      digest: sig.digest.value,
-      message: `no trusted key for publisher: ${publisher}`
-    };
+    return fail("untrusted", `no trusted key for publisher: ${publisher}`, own[0].key_id);
   }
 
-  const key = trust.keys.find((entry) => entry.key_id === sig.key_id);
-  if (!key) {
-    return {
-      ok: false,
-      status: "untrusted",
-      publisher,
-      key_id: sig.key_id,
-      digest: sig.digest.value,
-      message: `trusted key_id not found: ${sig.key_id}`
-    };
+  const candidates: Array<{ entry: SpellSignatureEntry; key: PublisherTrustKeyV1 }> = [];
+  let rejected: { keyId: string; message: string } | undefined;
+  for (const entry of own) {
+    const key = trust.keys.find((candidate) => candidate.key_id === entry.key_id);
+    if (!key) {
+      continue;
+    }
+    const rejection = checkSigningKey(trust, key, entry, now);
+    if (rejection) {
+      rejected ??= { keyId: key.key_id, message: rejection };
+    } else {
+      candidates.push({ entry, key });
+    }
   }
 
-  if (key.revoked === true) {
-    const reason = key.revoke_reason ? ` (${key.revoke_reason})` : "";
-    return {
-      ok: false,
-      status: "invalid",
-      publisher,
-      key_id: sig.key_id,
-      digest: sig.digest.value,
-      message: `trusted key_id is revoked: ${sig.key_id}${reason}`
-    };
+  if (candidates.length === 0) {
+    if (rejected) {
+      return fail("invalid", rejected.message, rejected.keyId);
+    }
+    return fail("untrusted", `trusted key_id not found: ${own[0].key_id}`, own[0].key_id);
   }
 
   const digest = await computeBundleDigest(bundlePath);
   if (digest.valueHex !== sig.digest.value) {
-    return {
-      ok: false,
-      status: "invalid",
-      publisher,
-      key_id: sig.key_id,
-      digest: digest.valueHex,
-      message: "digest mismatch"
-    };
+    return fail("invalid", "digest mismatch", candidates[0].entry.key_id, digest.valueHex);
   }
 
-  const signatureBytes = decodeBase64Url(sig.signature, "spell.sig.json.signature");
-  const publicKeyDer = decodeBase64Url(key.public_key, "trust public_key");
+  const signers: VerifiedSigner[] = [];
+  for (const { entry, key } of candidates) {
+    const publicKey = parseTrustedPublicKey(key.public_key);
+    if (typeof publicKey === "string") {
+      return fail("untrusted", `invalid trusted public key: ${publicKey}`, entry.key_id, digest.valueHex);
+    }
+    if (!verifyEntry(entry, digest.value, publicKey)) {
+      return fail("invalid", "signature verification failed", entry.key_id, digest.valueHex);
+    }
+    signers.push(toVerifiedSigner(entry));
+  }
 
-  let publicKey: ReturnType<typeof createPublicKey>;
-  try {
-    publicKey = createPublicKey({ key: publicKeyDer, format: "der", type: "spki" });
-  } catch (error) {
-    return {
-      ok: false,
-      status: "untrusted",
-      publisher,
-      key_id: sig.key_id,
-      digest: digest.valueHex,
-      message: `invalid trusted public key: ${(error as Error).message}`
-    };
+  const threshold = trust.threshold ?? 1;
+  if (signers.length < threshold) {
+    return fail(
+      "untrusted",
+      `signature threshold not met: ${signers.length} of ${threshold} required keys signed`,
+      signers[0].key_id,
+      digest.valueHex
+    );
   }
 
-  const ok = verify(null, digest.value, publicKey, signatureBytes);
-  if (!ok) {
-    return {
-      ok: false,
-      status: "invalid",
-      publisher,
-      key_id: sig.key_id,
-      digest: digest.valueHex,
-      message: "signature verification failed"
-    };
+  // Countersignatures are checked against their own publisher's trust; unknown countersigners are ignored.
+  for (const entry of entries.filter((candidate) => candidate.publisher !== publisher)) {
+    const counterTrust = await loadPublisherTrust(entry.publisher).catch(() => null);
+    const key = counterTrust?.keys.find((candidate) => candidate.key_id === entry.key_id);
+    if (!counterTrust || !key || checkSigningKey(counterTrust, key, entry, now)) {
+      continue;
+    }
+    const publicKey = parseTrustedPublicKey(key.public_key);
+    if (typeof publicKey === "string") {
+      continue;
+    }
+    if (!verifyEntry(entry, digest.value, publicKey)) {
+      return fail(
+        "invalid",
+        `countersignature verification failed: publisher=${entry.publisher} key_id=${entry.key_id}`,
+        signers[0].key_id,
+        digest.valueHex
+      );
+    }
+    signers.push(toVerifiedSigner(entry));
   }
 
   return {
     ok: true,
     status: "verified",
     publisher,
-    key_id: sig.key_id,
+    key_id: signers[0].key_id,
     digest: digest.valueHex,
-    message: "verified"
+    message: "verified",
+    signers
   };
 }
 
@@ -134,14 +153,73 @@ export function enforceSignatureOrThrow(result: SignatureVerificationResult): vo
   if (result.ok) return;
 
   if (result.status === "unsigned") {
-    throw new SpellError("signature required: spell.sig.json not found");
+    throw new SpellError("signature required: spell.sig.json not found", "SIGNATURE_REQUIRED");
   }
 
   if (result.status === "untrusted") {
-    throw new SpellError(`signature required: ${result.message}`);
+    throw new SpellError(`signature required: ${result.message}`, "SIGNATURE_REQUIRED");
   }
 
-  throw new SpellError(`signature required: ${result.message}`);
+  throw new SpellError(`signature required: ${result.message}`, "SIGNATURE_REQUIRED");
+}
+
+// Returns why `key` cannot vouch for `entry`, or null. Validity is judged at signed_at when present,
+// which is what lets bundles signed before a rotation or revocation keep verifying.
+function checkSigningKey(
+  trust: PublisherTrustV1,
+  key: PublisherTrustKeyV1,
+  entry: SpellSignatureEntry,
+  now: Date
+): string | null {
+  const signedAt = entry.signed_at === undefined ? undefined : Date.parse(entry.signed_at);
+  if (signedAt !== undefined && signedAt > now.getTime() + SIGNED_AT_CLOCK_SKEW_MS) {
+    return `signed_at is in the future: ${entry.signed_at}`;
+  }
+
+  if (key.revoked === true) {
+    const signedBeforeRevocation =
+      trust.revocation_mode === "signed_before" &&
+      signedAt !== undefined &&
+      key.revoked_at !== undefined &&
+      signedAt < Date.parse(key.revoked_at);
+    if (!signedBeforeRevocation) {
+      const reason = key.revoke_reason ? ` (${key.revoke_reason})` : "";
+      return `trusted key_id is revoked: ${key.key_id}${reason}`;
+    }
+  }
+
+  const at = signedAt ?? now.getTime();
+  if (key.not_before !== undefined && at < Date.parse(key.not_before)) {
+    return `trusted key_id is not valid before ${key.not_before}: ${key.key_id}`;
+  }
+  if (key.not_after !== undefined && at >= Date.parse(key.not_after)) {
+    return `trusted key_id expired at ${key.not_after}: ${key.key_id}`;
+  }
+  return null;
+}
+
+function verifyEntry(entry: SpellSignatureEntry, digest: Buffer, publicKey: KeyObject): boolean {
+  const signatureBytes = decodeBase64Url(entry.signature, "spell.sig.json.signature");
+  return verify(null, signedMessage(digest, entry.signed_at), publicKey, signatureBytes);
+}
+
+function toVerifiedSigner(entry: SpellSignatureEntry): VerifiedSigner {
+  return entry.signed_at === undefined
+    ? { publisher: entry.publisher, key_id: entry.key_id }
+    : { publisher: entry.publisher, key_id: entry.key_id, signed_at: entry.signed_at };
+}
+
+// Returns the parse error message instead of throwing, so callers can report it as an untrusted key.
+function parseTrustedPublicKey(publicKeyBase64Url: string): KeyObject | string {
+  try {
+    return createPublicKey({
+      key: decodeBase64Url(publicKeyBase64Url, "trust public_key"),
+      format: "der",
+      type: "spki"
+    });
+  } catch (error) {
+    return (error as Error).message;
+  }
 }
 
 function decodeBase64Url(value: string, label: string): Buffer {
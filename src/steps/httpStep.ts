@@ -1,7 +1,9 @@
 import { readFile } from "node:fs/promises";
-import { SpellStep, StepResult } from "../types";
+import { isDeepStrictEqual } from "node:util";
+import { SpellStep, StepIteration, StepResult } from "../types";
 import { SpellError } from "../util/errors";
-import { fetchHttp } from "../util/http";
+import { fetchHttp, type HttpFetcher } from "../util/http";
+import { getByDotPath } from "../util/object";
 import { applyTemplate } from "../util/template";
 
 interface HttpStepDefinition {
@@ -9,20 +11,48 @@ interface HttpStepDefinition {
   url: string;
   headers?: Record<string, string>;
   body?: unknown;
+  expect?: HttpStepExpectation;
 }
 
+interface HttpStatusRange {
+  min: number;
+  max: number;
+  label: string;
+}
+
+interface HttpStepExpectation {
+  status: HttpStatusRange[];
+  headers: string[];
+  json: Array<{ path: string; equals: unknown }>;
+}
+
+const DEFAULT_EXPECTED_STATUS: HttpStatusRange[] = [{ min: 200, max: 299, label: "2xx" }];
+
 export interface HttpStepExecution {
   stepResult: StepResult;
   responseBody: unknown;
   status: number;
 }
 
+// Thrown when a response fails the step's expectations; carries the failed result so the status code is recorded.
+export class HttpStepError extends SpellError {
+  readonly stepResult: StepResult;
+
+  constructor(message: string, stepResult: StepResult) {
+    super(message);
+    this.stepResult = { ...stepResult, message };
+  }
+}
+
 export async function runHttpStep(
   step: SpellStep,
   runPath: string,
   input: Record<string, unknown>,
   env: NodeJS.ProcessEnv,
-  signal?: AbortSignal
+  outputs: Record<string, unknown>,
+  signal?: AbortSignal,
+  iteration?: StepIteration,
+  fetcher: HttpFetcher = fetchHttp
 ): Promise<HttpStepExecution> {
   const started = new Date().toISOString();
 
@@ -43,16 +73,17 @@ export async function runHttpStep(
   const urlValue = readRequiredString(def, "url");
   const headersValue = def.headers;
   const bodyValue = def.body;
+  const expectation = parseExpectation(step.name, def.expect);
 
-  const resolvedMethod = String(applyTemplate(method, input, env)).toUpperCase();
-  const resolvedUrl = applyTemplate(urlValue, input, env);
+  const resolvedMethod = String(applyTemplate(method, input, env, outputs, iteration)).toUpperCase();
+  const resolvedUrl = applyTemplate(urlValue, input, env, outputs, iteration);
   if (typeof resolvedUrl !== "string") {
     throw new SpellError(`http step '${step.name}' url must resolve to string`);
   }
 
-  const resolvedHeaders = applyTemplate(headersValue, input, env);
+  const resolvedHeaders = applyTemplate(headersValue, input, env, outputs, iteration);
   const headers = normalizeHeaders(resolvedHeaders);
-  const resolvedBody = applyTemplate(bodyValue, input, env);
+  const resolvedBody = applyTemplate(bodyValue, input, env, outputs, iteration);
 
   let body: string | undefined;
   if (resolvedBody !== undefined) {
@@ -66,9 +97,9 @@ export async function runHttpStep(
     }
   }
 
-  let response: Awaited<ReturnType<typeof fetchHttp>>;
+  let response: Awaited<ReturnType<HttpFetcher>>;
   try {
-    response = await fetchHttp(resolvedUrl, {
+    response = await fetcher(resolvedUrl, {
       method: resolvedMethod,
       headers,
       body,
@@ -94,6 +125,19 @@ export async function runHttpStep(
   }
 
   const finished = new Date().toISOString();
+  const summary = `http ${resolvedMethod} ${resolvedUrl} -> ${response.status}`;
+
+  const failure = checkExpectation(expectation, response.status, response.headers, responseBody);
+  if (failure) {
+    throw new HttpStepError(`http step '${step.name}' expectation failed: ${failure} (${summary})`, {
+      stepName: step.name,
+      uses: step.uses,
+      started_at: started,
+      finished_at: finished,
+      success: false,
+      statusCode: response.status
+    });
+  }
 
   const stepResult: StepResult = {
     stepName: step.name,
@@ -101,7 +145,8 @@ export async function runHttpStep(
     started_at: started,
     finished_at: finished,
     success: true,
-    message: `http ${resolvedMethod} ${resolvedUrl} -> ${response.status}`
+    statusCode: response.status,
+    message: summary
   };
 
   return {
@@ -119,6 +164,121 @@ function readRequiredString(obj: Record<string, unknown>, key: string): string {
   return value;
 }
 
+function parseExpectation(stepName: string, raw: unknown): HttpStepExpectation {
+  if (raw === undefined) {
+    return { status: DEFAULT_EXPECTED_STATUS, headers: [], json: [] };
+  }
+
+  const label = `http step '${stepName}' expect`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SpellError(`${label} must be an object`);
+  }
+
+  const obj = raw as Record<string, unknown>;
+  const allowedKeys = new Set(["status", "headers", "json"]);
+  for (const key of Object.keys(obj)) {
+    if (!allowedKeys.has(key)) {
+      throw new SpellError(`${label}.${key} is not supported`);
+    }
+  }
+
+  let status = DEFAULT_EXPECTED_STATUS;
+  if (obj.status !== undefined) {
+    const entries = Array.isArray(obj.status) ? obj.status : [obj.status];
+    if (entries.length === 0) {
+      throw new SpellError(`${label}.status must not be empty`);
+    }
+    status = entries.map((entry, idx) => parseStatusRange(entry, `${label}.status[${idx}]`));
+  }
+
+  let headers: string[] = [];
+  if (obj.headers !== undefined) {
+    if (!Array.isArray(obj.headers)) {
+      throw new SpellError(`${label}.headers must be an array of header names`);
+    }
+    headers = obj.headers.map((entry, idx) => {
+      if (typeof entry !== "string" || !entry.trim()) {
+        throw new SpellError(`${label}.headers[${idx}] must be a non-empty string`);
+      }
+      return entry.trim().toLowerCase();
+    });
+  }
+
+  let json: HttpStepExpectation["json"] = [];
+  if (obj.json !== undefined) {
+    if (!Array.isArray(obj.json)) {
+      throw new SpellError(`${label}.json must be an array`);
+    }
+    json = obj.json.map((entry, idx) => {
+      if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+        throw new SpellError(`${label}.json[${idx}] must be an object`);
+      }
+      const assertion = entry as Record<string, unknown>;
+      if (typeof assertion.path !== "string" || !assertion.path.trim()) {
+        throw new SpellError(`${label}.json[${idx}].path must be a non-empty string`);
+      }
+      if (!Object.prototype.hasOwnProperty.call(assertion, "equals")) {
+        throw new SpellError(`${label}.json[${idx}].equals is required`);
+      }
+      return { path: assertion.path.trim(), equals: assertion.equals };
+    });
+  }
+
+  return { status, headers, json };
+}
+
+function parseStatusRange(raw: unknown, label: string): HttpStatusRange {
+  if (typeof raw === "number" && Number.isInteger(raw) && raw >= 100 && raw <= 599) {
+    return { min: raw, max: raw, label: String(raw) };
+  }
+
+  if (typeof raw === "string") {
+    const value = raw.trim().toLowerCase();
+    const classMatch = /^([1-5])xx$/.exec(value);
+    if (classMatch) {
+      const base = Number(classMatch[1]) * 100;
+      return { min: base, max: base + 99, label: value };
+    }
+
+    const rangeMatch = /^(\d{3})-(\d{3})$/.exec(value);
+    if (rangeMatch) {
+      const min = Number(rangeMatch[1]);
+      const max = Number(rangeMatch[2]);
+      if (min >= 100 && max <= 599 && min <= max) {
+        return { min, max, label: value };
+      }
+    }
+  }
+
+  throw new SpellError(`${label} must be a status code (100-599), a class like '2xx', or a range like '200-204'`);
+}
+
+function checkExpectation(
+  expectation: HttpStepExpectation,
+  status: number,
+  headers: { has(name: string): boolean },
+  responseBody: unknown
+): string | undefined {
+  if (!expectation.status.some((range) => status >= range.min && status <= range.max)) {
+    return `status ${status} not in [${expectation.status.map((range) => range.label).join(",")}]`;
+  }
+
+  for (const header of expectation.headers) {
+    if (!headers.has(header)) {
+      return `missing response header '${header}'`;
+    }
+  }
+
+  for (const assertion of expectation.json) {
+    const actual = getByDotPath(responseBody, assertion.path);
+    if (!isDeepStrictEqual(actual, assertion.equals)) {
+      return `json ${assertion.path} expected ${JSON.stringify(assertion.equals)}, got ${JSON.stringify(actual)}`;
+    }
+  }
+
+  return undefined;
+}
+
 function normalizeHeaders(value: unknown): Record<string, string> {
   if (value === undefined) {
     return {};
@@ -0,0 +1,171 @@
+import { pathToFileURL } from "node:url";
+import { SpellStep, StepIteration, StepResult } from "../types";
+import { SpellError } from "../util/errors";
+import { abortErrorFromSignal } from "../runner/abort";
+import { formatExecutionTimeoutMessage, readRuntimeStepTimeoutMs } from "../runner/runtimeLimits";
+
+export interface NodeStepExecution {
+  stepResult: StepResult;
+  json?: unknown;
+}
+
+export interface NodeStepContext {
+  input: Record<string, unknown>;
+  outputs: Record<string, unknown>;
+  env: NodeJS.ProcessEnv;
+  signal: AbortSignal;
+  item?: unknown;
+  index?: number;
+}
+
+export interface NodeStepRunOptions {
+  maxDurationMs?: number;
+  executionTimeoutMs?: number;
+  stepTimeoutMs?: number;
+  iteration?: StepIteration;
+  signal?: AbortSignal;
+}
+
+type NodeStepHandler = (context: NodeStepContext) => unknown;
+
+// Keep a real dynamic import() after CommonJS compilation; used when require() cannot load an ES module.
+const importModule = new Function("specifier", "return import(specifier)") as (specifier: string) => Promise<unknown>;
+
+export async function runNodeStep(
+  step: SpellStep,
+  runPath: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  options: NodeStepRunOptions = {}
+): Promise<NodeStepExecution> {
+  const started = new Date().toISOString();
+  const configuredStepTimeoutMs = options.stepTimeoutMs ?? readRuntimeStepTimeoutMs(env);
+  const cappedByExecution =
+    options.maxDurationMs !== undefined &&
+    Number.isFinite(options.maxDurationMs) &&
+    options.maxDurationMs > 0 &&
+    options.maxDurationMs < configuredStepTimeoutMs;
+  const timeoutMs = cappedByExecution
+    ? Math.max(1, Math.ceil(options.maxDurationMs as number))
+    : configuredStepTimeoutMs;
+
+  const handler = await loadNodeStepHandler(step, runPath);
+
+  const controller = new AbortController();
+  const castSignal = options.signal;
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error =
+        cappedByExecution && options.executionTimeoutMs !== undefined
+          ? new SpellError(formatExecutionTimeoutMessage(options.executionTimeoutMs, step.name), "EXECUTION_TIMEOUT")
+          : new SpellError(`node step '${step.name}' timed out after ${timeoutMs}ms`, "STEP_TIMEOUT");
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+    if (castSignal) {
+      onAbort = () => {
+        const error = abortErrorFromSignal(castSignal);
+        controller.abort(error);
+        reject(error);
+      };
+      if (castSignal.aborted) {
+        onAbort();
+      } else {
+        castSignal.addEventListener("abort", onAbort, { once: true });
+      }
+    }
+  });
+
+  let returned: unknown;
+  try {
+    returned = await Promise.race([
+      Promise.resolve().then(() =>
+        handler({
+          input: structuredClone(input),
+          outputs: structuredClone(outputs),
+          env,
+          signal: controller.signal,
+          ...(options.iteration ? { item: structuredClone(options.iteration.item), index: options.iteration.index } : {})
+        })
+      ),
+      timeout
+    ]);
+  } catch (error) {
+    if (error instanceof SpellError) {
+      throw error;
+    }
+    throw new SpellError(`node step '${step.name}' failed: ${(error as Error)?.message ?? String(error)}`);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      castSignal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  const json = toJsonValue(step, returned);
+  const finished = new Date().toISOString();
+
+  return {
+    stepResult: {
+      stepName: step.name,
+      uses: step.uses,
+      started_at: started,
+      finished_at: finished,
+      success: true,
+      message: "ok"
+    },
+    json
+  };
+}
+
+async function loadNodeStepHandler(step: SpellStep, runPath: string): Promise<NodeStepHandler> {
+  let loaded: unknown;
+  try {
+    loaded = await loadModule(runPath);
+  } catch (error) {
+    throw new SpellError(`failed to load node step '${step.name}': ${(error as Error).message}`);
+  }
+
+  const moduleValue = loaded as { default?: unknown };
+  let handler = moduleValue.default;
+  if (handler && typeof handler === "object" && typeof (handler as { default?: unknown }).default === "function") {
+    handler = (handler as { default: unknown }).default;
+  }
+
+  if (typeof handler !== "function") {
+    throw new SpellError(`node step '${step.name}' module must export a default function`);
+  }
+
+  return handler as NodeStepHandler;
+}
+
+async function loadModule(runPath: string): Promise<unknown> {
+  const resolved = require.resolve(runPath);
+  delete require.cache[resolved];
+
+  try {
+    const exported = require(resolved) as unknown;
+    return { default: exported };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_REQUIRE_ESM") {
+      throw error;
+    }
+  }
+
+  return importModule(pathToFileURL(runPath).href);
+}
+
+function toJsonValue(step: SpellStep, value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(JSON.stringify(value)) as unknown;
+  } catch (error) {
+    throw new SpellError(`node step '${step.name}' returned a non-JSON value: ${(error as Error).message}`);
+  }
+}
@@ -1,17 +1,24 @@
 import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { SpellStep, StepResult } from "../types";
 import { SpellError } from "../util/errors";
+import { abortErrorFromSignal } from "../runner/abort";
 import { formatExecutionTimeoutMessage, readRuntimeStepTimeoutMs } from "../runner/runtimeLimits";
 
 export interface ShellStepExecution {
   stepResult: StepResult;
   stdout: string;
   stderr: string;
+  json?: unknown;
 }
 
 export interface ShellStepRunOptions {
   maxDurationMs?: number;
   executionTimeoutMs?: number;
+  stepTimeoutMs?: number;
+  signal?: AbortSignal;
 }
 
 export async function runShellStep(
@@ -22,7 +29,7 @@ export async function runShellStep(
   options: ShellStepRunOptions = {}
 ): Promise<ShellStepExecution> {
   const started = new Date().toISOString();
-  const configuredStepTimeoutMs = readRuntimeStepTimeoutMs(env);
+  const configuredStepTimeoutMs = options.stepTimeoutMs ?? readRuntimeStepTimeoutMs(env);
   const cappedByExecution =
     options.maxDurationMs !== undefined &&
     Number.isFinite(options.maxDurationMs) &&
@@ -32,69 +39,112 @@ export async function runShellStep(
     ? Math.max(1, Math.ceil(options.maxDurationMs as number))
     : configuredStepTimeoutMs;
 
-  const child = spawn(runPath, [], {
-    shell: false,
-    cwd,
-    env
-  });
+  if (options.signal?.aborted) {
+    throw abortErrorFromSignal(options.signal);
+  }
 
-  let stdout = "";
-  let stderr = "";
+  const outputDir = await mkdtemp(path.join(tmpdir(), "spell-output-"));
+  const outputPath = path.join(outputDir, "output.json");
 
-  child.stdout.on("data", (chunk) => {
-    stdout += chunk.toString();
-  });
+  try {
+    const child = spawn(runPath, [], {
+      shell: false,
+      cwd,
+      env: {
+        ...env,
+        SPELL_OUTPUT_JSON: outputPath
+      }
+    });
 
-  child.stderr.on("data", (chunk) => {
-    stderr += chunk.toString();
-  });
+    let stdout = "";
+    let stderr = "";
 
-  let timeoutHit = false;
-  const timer = setTimeout(() => {
-    timeoutHit = true;
-    child.kill("SIGKILL");
-  }, timeoutMs);
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk.toString();
+    });
 
-  let exitCode: number | null;
-  try {
-    exitCode = await new Promise<number | null>((resolve, reject) => {
-      child.on("error", reject);
-      child.on("close", resolve);
-    }).catch((error) => {
-      throw new SpellError(`failed to execute shell step '${step.name}': ${(error as Error).message}`);
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk.toString();
     });
+
+    let timeoutHit = false;
+    const timer = setTimeout(() => {
+      timeoutHit = true;
+      child.kill("SIGKILL");
+    }, timeoutMs);
+    const onAbort = (): void => {
+      child.kill("SIGKILL");
+    };
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    let exitCode: number | null;
+    try {
+      exitCode = await new Promise<number | null>((resolve, reject) => {
+        child.on("error", reject);
+        child.on("close", resolve);
+      }).catch((error) => {
+        throw new SpellError(`failed to execute shell step '${step.name}': ${(error as Error).message}`);
+      });
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+
+    if (options.signal?.aborted) {
+      throw abortErrorFromSignal(options.signal);
+    }
+
+    if (timeoutHit) {
+      if (cappedByExecution && options.executionTimeoutMs !== undefined) {
+        throw new SpellError(formatExecutionTimeoutMessage(options.executionTimeoutMs, step.name), "EXECUTION_TIMEOUT");
+      }
+      throw new SpellError(`shell step '${step.name}' timed out after ${timeoutMs}ms`, "STEP_TIMEOUT");
+    }
+
+    const finished = new Date().toISOString();
+
+    const stepResult: StepResult = {
+      stepName: step.name,
+      uses: step.uses,
+      started_at: started,
+      finished_at: finished,
+      success: exitCode === 0,
+      exitCode,
+      stdout_head: stdout.slice(0, 200),
+      stderr_head: stderr.slice(0, 200),
+      message: exitCode === 0 ? "ok" : `non-zero exit code: ${exitCode}`
+    };
+
+    if (exitCode !== 0) {
+      throw new SpellError(`step failed: ${step.name} (exit code ${exitCode})`);
+    }
+
+    return {
+      stepResult,
+      stdout,
+      stderr,
+      json: await readStepOutputJson(step, outputPath)
+    };
   } finally {
-    clearTimeout(timer);
+    await rm(outputDir, { recursive: true, force: true }).catch(() => undefined);
   }
+}
 
-  if (timeoutHit) {
-    if (cappedByExecution && options.executionTimeoutMs !== undefined) {
-      throw new SpellError(formatExecutionTimeoutMessage(options.executionTimeoutMs, step.name));
-    }
-    throw new SpellError(`shell step '${step.name}' timed out after ${timeoutMs}ms`);
+async function readStepOutputJson(step: SpellStep, outputPath: string): Promise<unknown> {
+  let raw: string;
+  try {
+    raw = await readFile(outputPath, "utf8");
+  } catch {
+    return undefined;
   }
 
-  const finished = new Date().toISOString();
-
-  const stepResult: StepResult = {
-    stepName: step.name,
-    uses: step.uses,
-    started_at: started,
-    finished_at: finished,
-    success: exitCode === 0,
-    exitCode,
-    stdout_head: stdout.slice(0, 200),
-    stderr_head: stderr.slice(0, 200),
-    message: exitCode === 0 ? "ok" : `non-zero exit code: ${exitCode}`
-  };
-
-  if (exitCode !== 0) {
-    throw new SpellError(`step failed: ${step.name} (exit code ${exitCode})`);
+  if (raw.trim() === "") {
+    return undefined;
   }
 
-  return {
-    stepResult,
-    stdout,
-    stderr
-  };
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch (error) {
+    throw new SpellError(`failed to parse shell step '${step.name}' SPELL_OUTPUT_JSON: ${(error as Error).message}`);
+  }
 }
@@ -1,6 +1,6 @@
 export type SpellRisk = "low" | "medium" | "high" | "critical";
 export type RuntimeExecution = "host" | "docker";
-export type StepUses = "shell" | "http";
+export type StepUses = "shell" | "http" | "node";
 export type CheckType = "exit_code" | "file_exists" | "http_status" | "jsonpath_equals";
 
 export interface SpellPermission {
@@ -33,6 +33,33 @@ export interface SpellStepCondition {
   output_path?: string;
   equals?: unknown;
   not_equals?: unknown;
+  in?: unknown[];
+  exists?: boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  matches?: string;
+  all?: SpellStepCondition[];
+  any?: SpellStepCondition[];
+  not?: SpellStepCondition;
+}
+
+export interface SpellStepForEach {
+  input_path?: string;
+  output_path?: string;
+  as?: string;
+  max_parallel?: number;
+}
+
+export interface StepIteration {
+  item: unknown;
+  index: number;
+}
+
+export interface StepResumeState {
+  outputs: Record<string, unknown>;
+  completedStepNames: string[];
 }
 
 export interface SpellStepRetry {
@@ -48,6 +75,10 @@ export interface SpellStep {
   retry?: SpellStepRetry;
   depends_on?: string[];
   when?: SpellStepCondition;
+  timeout_ms?: number;
+  env?: Record<string, string>;
+  env_passthrough?: string[];
+  for_each?: SpellStepForEach;
 }
 
 export interface SpellCheck {
@@ -68,6 +99,7 @@ export interface SpellBundleManifest {
   runtime: SpellRuntime;
   steps: SpellStep[];
   checks: SpellCheck[];
+  assets?: string[];
 }
 
 export interface LoadedBundle {
@@ -84,11 +116,27 @@ export interface StepResult {
   finished_at: string;
   success: boolean;
   exitCode?: number | null;
+  statusCode?: number;
   stdout_head?: string;
   stderr_head?: string;
   message?: string;
 }
 
+export type ProgressEventType = "step_started" | "step_finished" | "step_retry" | "rollback_started" | "check_result";
+
+// One NDJSON line of `spell cast --events` output.
+export interface ProgressEvent {
+  type: ProgressEventType;
+  at: string;
+  step?: string;
+  uses?: StepUses;
+  success?: boolean;
+  message?: string;
+  attempt?: number;
+  max_attempts?: number;
+  check?: CheckType;
+}
+
 export interface CheckResult {
   type: CheckType;
   success: boolean;
@@ -125,12 +173,16 @@ export interface ExecutionLog {
   id: string;
   version: string;
   input: Record<string, unknown>;
+  bundle_digest?: string;
+  resumed_from?: string;
   signature?: {
     required: boolean;
     status: "skipped" | "verified" | "unsigned" | "untrusted" | "invalid";
     publisher?: string;
     key_id?: string;
     digest?: string;
+    // Every verified signer, including countersignatures; omitted when nothing verified.
+    signers?: Array<{ publisher: string; key_id: string; signed_at?: string }>;
   };
   summary: {
     risk: SpellRisk;
@@ -160,4 +212,27 @@ export interface CastOptions {
   requireSignature: boolean;
   verbose: boolean;
   profile?: string;
-}
+  resume?: string;
+  events?: string;
+  // Embedding callers (the execution API) pass input directly instead of --input/-p.
+  input?: Record<string, unknown>;
+  quiet?: boolean;
+  signal?: AbortSignal;
+  onEvent?: (event: ProgressEvent) => void;
+}
+
+export type CastErrorCode =
+  | "EXECUTION_FAILED"
+  | "EXECUTION_CANCELED"
+  | "EXECUTION_TIMEOUT"
+  | "STEP_TIMEOUT"
+  | "INPUT_TOO_LARGE"
+  | "INPUT_SCHEMA_INVALID"
+  | "SIGNATURE_REQUIRED"
+  | "RISK_CONFIRMATION_REQUIRED"
+  | "BILLING_CONFIRMATION_REQUIRED"
+  | "CONNECTOR_TOKEN_MISSING"
+  | "PLATFORM_UNSUPPORTED"
+  | "POLICY_DENIED"
+  | "RESUME_REJECTED"
+  | "COMPENSATION_INCOMPLETE";
@@ -1,6 +1,37 @@
+import type { CastErrorCode } from "../types";
+
+// Keyed by CastErrorCode so adding a code without listing it here fails to compile.
+const CAST_ERROR_CODES: Record<CastErrorCode, true> = {
+  EXECUTION_FAILED: true,
+  EXECUTION_CANCELED: true,
+  EXECUTION_TIMEOUT: true,
+  STEP_TIMEOUT: true,
+  INPUT_TOO_LARGE: true,
+  INPUT_SCHEMA_INVALID: true,
+  SIGNATURE_REQUIRED: true,
+  RISK_CONFIRMATION_REQUIRED: true,
+  BILLING_CONFIRMATION_REQUIRED: true,
+  CONNECTOR_TOKEN_MISSING: true,
+  PLATFORM_UNSUPPORTED: true,
+  POLICY_DENIED: true,
+  RESUME_REJECTED: true,
+  COMPENSATION_INCOMPLETE: true
+};
+
 export class SpellError extends Error {
-  constructor(message: string) {
+  readonly code?: CastErrorCode;
+
+  constructor(message: string, code?: CastErrorCode) {
     super(message);
     this.name = "SpellError";
+    this.code = code;
   }
 }
+
+export function errorCodeOf(error: unknown): CastErrorCode | undefined {
+  return error instanceof SpellError ? error.code : undefined;
+}
+
+export function isCastErrorCode(value: unknown): value is CastErrorCode {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CAST_ERROR_CODES, value);
+}
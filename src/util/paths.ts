@@ -30,10 +30,18 @@ export function registryConfigPath(): string {
   return path.join(spellHome(), "registry.json");
 }
 
+export function registryStatePath(): string {
+  return path.join(spellHome(), "registry-state.json");
+}
+
 export function runtimePolicyPath(): string {
   return path.join(spellHome(), "policy.json");
 }
 
+export function tenantPoliciesRoot(): string {
+  return path.join(spellHome(), "policies");
+}
+
 export async function ensureSpellDirs(): Promise<void> {
   await mkdir(spellsRoot(), { recursive: true });
   await mkdir(logsRoot(), { recursive: true });
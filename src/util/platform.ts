@@ -1,3 +1,5 @@
+import { RuntimeExecution } from "../types";
+
 export function detectHostPlatform(): string {
   return `${process.platform}/${process.arch}`;
 }
@@ -7,6 +9,11 @@ export function detectDockerPlatformForHost(): string {
   return `linux/${normalizeArch(process.arch)}`;
 }
 
+// Platform a cast would actually run on for the given execution mode.
+export function detectTargetPlatform(execution: RuntimeExecution): string {
+  return execution === "docker" ? detectDockerPlatformForHost() : detectHostPlatform();
+}
+
 export function platformMatches(supported: string[], target: string): boolean {
   const expanded = expandPlatformAliases(target);
   return supported.some((entry) => expanded.includes(entry));
@@ -1,4 +1,4 @@
-const REDACTED = "[REDACTED]";
+export const REDACTED = "[REDACTED]";
 
 const SENSITIVE_KEY_RE = /(authorization|token|secret|password|api[-_]?key|private[-_]?key|cookie|set-cookie)/i;
 const SENSITIVE_ENV_NAME_RE = /(TOKEN|SECRET|PASSWORD|PRIVATE_KEY|API_KEY|ACCESS_KEY|AUTH|COOKIE|SESSION|CREDENTIAL)/i;
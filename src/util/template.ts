@@ -1,22 +1,32 @@
+import { StepIteration } from "../types";
 import { SpellError } from "./errors";
 import { getByDotPath } from "./object";
+import { resolveOutputReference } from "./outputs";
 
-const TEMPLATE_PATTERN = /{{\s*(INPUT|ENV)\.([A-Za-z0-9_.-]+)\s*}}/g;
+const TEMPLATE_PATTERN = /{{\s*(INPUT|ENV|OUTPUT|ITEM|INDEX)(?:\.([A-Za-z0-9_.-]+))?\s*}}/g;
+const ITERATION_TEMPLATE_PATTERN = /{{\s*(ITEM|INDEX)(?:\.[A-Za-z0-9_.-]+)?\s*}}/;
+const OUTPUT_TEMPLATE_PATTERN = /{{\s*OUTPUT\.([A-Za-z0-9_.-]+)\s*}}/g;
 const UNRESOLVED_PATTERN = /{{\s*[^}]+\s*}}/;
 
-export function applyTemplate(value: unknown, input: Record<string, unknown>, env: NodeJS.ProcessEnv): unknown {
+export function applyTemplate(
+  value: unknown,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown> = {},
+  iteration?: StepIteration
+): unknown {
   if (typeof value === "string") {
-    return resolveStringTemplate(value, input, env);
+    return resolveStringTemplate(value, input, env, outputs, iteration);
   }
 
   if (Array.isArray(value)) {
-    return value.map((entry) => applyTemplate(entry, input, env));
+    return value.map((entry) => applyTemplate(entry, input, env, outputs, iteration));
   }
 
   if (value && typeof value === "object") {
     const out: Record<string, unknown> = {};
     for (const [k, v] of Object.entries(value)) {
-      out[k] = applyTemplate(v, input, env);
+      out[k] = applyTemplate(v, input, env, outputs, iteration);
     }
     return out;
   }
@@ -24,7 +34,33 @@ export function applyTemplate(value: unknown, input: Record<string, unknown>, en
   return value;
 }
 
-function resolveStringTemplate(template: string, input: Record<string, unknown>, env: NodeJS.ProcessEnv): unknown {
+export function collectOutputTemplateReferences(value: unknown): string[] {
+  if (typeof value === "string") {
+    return [...value.matchAll(OUTPUT_TEMPLATE_PATTERN)].map((match) => match[1]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((entry) => collectOutputTemplateReferences(entry));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap((entry) => collectOutputTemplateReferences(entry));
+  }
+
+  return [];
+}
+
+export function hasIterationTemplate(text: string): boolean {
+  return ITERATION_TEMPLATE_PATTERN.test(text);
+}
+
+function resolveStringTemplate(
+  template: string,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  iteration: StepIteration | undefined
+): unknown {
   const matches = [...template.matchAll(TEMPLATE_PATTERN)];
   if (matches.length === 0) {
     if (UNRESOLVED_PATTERN.test(template)) {
@@ -34,13 +70,13 @@ function resolveStringTemplate(template: string, input: Record<string, unknown>,
   }
 
   if (matches.length === 1 && matches[0][0] === template) {
-    const resolved = resolveToken(matches[0][1], matches[0][2], input, env);
+    const resolved = resolveToken(matches[0][1], matches[0][2], input, env, outputs, iteration);
     return resolved;
   }
 
   let replaced = template;
   for (const match of matches) {
-    const resolved = resolveToken(match[1], match[2], input, env);
+    const resolved = resolveToken(match[1], match[2], input, env, outputs, iteration);
     const replacement = typeof resolved === "string" ? resolved : JSON.stringify(resolved);
     replaced = replaced.replace(match[0], replacement);
   }
@@ -52,7 +88,31 @@ function resolveStringTemplate(template: string, input: Record<string, unknown>,
   return replaced;
 }
 
-function resolveToken(source: string, path: string, input: Record<string, unknown>, env: NodeJS.ProcessEnv): unknown {
+function resolveToken(
+  source: string,
+  path: string | undefined,
+  input: Record<string, unknown>,
+  env: NodeJS.ProcessEnv,
+  outputs: Record<string, unknown>,
+  iteration: StepIteration | undefined
+): unknown {
+  const token = path === undefined ? source : `${source}.${path}`;
+
+  if (source === "ITEM" || source === "INDEX") {
+    if (!iteration || (source === "INDEX" && path !== undefined)) {
+      throw new SpellError(`unresolved template: {{${token}}}`);
+    }
+    const value = source === "INDEX" ? iteration.index : getByDotPath(iteration.item, path ?? "");
+    if (value === undefined) {
+      throw new SpellError(`unresolved template: {{${token}}}`);
+    }
+    return value;
+  }
+
+  if (path === undefined) {
+    throw new SpellError(`unresolved template: {{${token}}}`);
+  }
+
   if (source === "INPUT") {
     const value = getByDotPath(input, path);
     if (value === undefined) {
@@ -61,6 +121,14 @@ function resolveToken(source: string, path: string, input: Record<string, unknow
     return value;
   }
 
+  if (source === "OUTPUT") {
+    const value = resolveOutputReference(outputs, path);
+    if (value === undefined) {
+      throw new SpellError(`unresolved template: {{OUTPUT.${path}}}`);
+    }
+    return value;
+  }
+
   const value = env[path];
   if (value === undefined) {
     throw new SpellError(`unresolved template: {{ENV.${path}}}`);
@@ -1,4 +1,4 @@
-import { chmod, copyFile, cp, mkdtemp, mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { chmod, copyFile, cp, mkdtemp, mkdir, readdir, readFile, rm, symlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { spawn, spawnSync } from "node:child_process";
@@ -25,6 +25,7 @@ describe("spell cli integration", () => {
     delete process.env.SPELL_RUNTIME_STEP_TIMEOUT_MS;
     delete process.env.SPELL_RUNTIME_EXECUTION_TIMEOUT_MS;
     delete process.env.SPELL_REGISTRY_REQUIRED_PINS;
+    delete process.env.SPELL_TRUST_ROOT_KEY;
   });
 
   afterEach(async () => {
@@ -39,6 +40,7 @@ describe("spell cli integration", () => {
     delete process.env.SPELL_RUNTIME_STEP_TIMEOUT_MS;
     delete process.env.SPELL_RUNTIME_EXECUTION_TIMEOUT_MS;
     delete process.env.SPELL_REGISTRY_REQUIRED_PINS;
+    delete process.env.SPELL_TRUST_ROOT_KEY;
     await rm(tempHome, { recursive: true, force: true });
   });
 
@@ -95,6 +97,45 @@ describe("spell cli integration", () => {
     expect(missingOutput.stderr).toContain("stdout reference does not support nested path");
   });
 
+  test("shell steps expose SPELL_OUTPUT_JSON as step json outputs", async () => {
+    const bundleDir = await createHostShellBundle("tests/shell-output-json", [
+      {
+        name: "emit",
+        fileName: "emit.js",
+        source: [
+          "#!/usr/bin/env node",
+          "const fs = require('node:fs');",
+          "console.log('debug: writing structured output');",
+          "fs.writeFileSync(process.env.SPELL_OUTPUT_JSON, JSON.stringify({ release: { tag: 'v1.2.3' } }));"
+        ].join("\n")
+      }
+    ]);
+
+    try {
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const castResult = await runCliCapture([
+        "node",
+        "spell",
+        "cast",
+        "tests/shell-output-json",
+        "--allow-unsigned",
+        "-p",
+        "name=demo"
+      ]);
+      expect(castResult.code).toBe(0);
+
+      const executionId = String(/execution_id:\s*(.+)/.exec(castResult.stdout)?.[1]).trim();
+      const outputResult = await runCliCapture(["node", "spell", "get-output", executionId, "step.emit.json.release.tag"]);
+      expect(outputResult.code).toBe(0);
+      expect(outputResult.stdout).toBe("v1.2.3\n");
+
+      const stdoutResult = await runCliCapture(["node", "spell", "get-output", executionId, "step.emit.stdout"]);
+      expect(stdoutResult.stdout).toContain("debug: writing structured output");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
   test("install supports git https sources", async () => {
     const fixture = path.join(process.cwd(), "fixtures/spells/hello-host");
     const gitRepo = await createBareGitRepoFromSource(fixture);
@@ -150,6 +191,313 @@ describe("spell cli integration", () => {
     expect(result.stderr).toContain("invalid oci source");
   });
 
+  test("init scaffolds an installable bundle and lint reports findings as json", async () => {
+    const workDir = await mkdtemp(path.join(tmpdir(), "spell-init-"));
+    try {
+      const bundleDir = path.join(workDir, "greeter");
+      const init = await runCliCapture(["node", "spell", "init", "acme/greeter", "--template", "http", "--out", bundleDir]);
+      expect(init.code).toBe(0);
+      expect(init.stdout).toContain("created\tsteps/request.json");
+
+      const clean = await runCliCapture(["node", "spell", "lint", bundleDir]);
+      expect(clean.code).toBe(0);
+      expect(clean.stdout).toBe("No findings\n");
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+
+      await writeFile(path.join(bundleDir, "steps", "request.json"), "{ not json", "utf8");
+      const broken = await runCliCapture(["node", "spell", "lint", bundleDir, "--format", "json"]);
+      expect(broken.code).toBe(1);
+      const report = JSON.parse(broken.stdout) as { errors: number; findings: Array<{ rule: string }> };
+      expect(report.errors).toBeGreaterThan(0);
+      expect(report.findings.map((finding) => finding.rule)).toContain("http-json");
+      expect(broken.stderr).toContain("lint failed");
+
+      const again = await runCliCapture(["node", "spell", "init", "acme/greeter", "--out", bundleDir]);
+      expect(again.code).toBe(1);
+      expect(again.stderr).toContain("target directory is not empty");
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  test("test runs bundle cases with stubbed http and writes tap or junit reports", async () => {
+    const workDir = await mkdtemp(path.join(tmpdir(), "spell-test-"));
+    try {
+      const bundleDir = path.join(workDir, "greeter");
+      expect(await runCli(["node", "spell", "init", "acme/greeter", "--template", "http", "--out", bundleDir])).toBe(0);
+      await mkdir(path.join(bundleDir, "tests"));
+      await writeFile(
+        path.join(bundleDir, "tests", "greet.yaml"),
+        [
+          "input:",
+          "  name: ada",
+          "http:",
+          "  request:",
+          "    - method: POST",
+          "      url: https://api.example.test/v1/greetings",
+          "      body: { greeting: hello ada }",
+          "expect:",
+          "  ran: [request]",
+          "  outputs:",
+          "    step.request.json.greeting: hello ada",
+          ""
+        ].join("\n"),
+        "utf8"
+      );
+
+      const tap = await runCliCapture(["node", "spell", "test", bundleDir]);
+      expect(tap.code).toBe(0);
+      expect(tap.stdout).toContain("TAP version 13\n1..1\nok 1 - greet\n");
+
+      const junitPath = path.join(workDir, "reports", "junit.xml");
+      const junit = await runCliCapture(["node", "spell", "test", bundleDir, "--format", "junit", "--output", junitPath]);
+      expect(junit.code).toBe(0);
+      expect(junit.stdout).toBe("1 passed, 0 failed\n");
+      expect(await readFile(junitPath, "utf8")).toContain('<testsuite name="acme/greeter@0.1.0" tests="1" failures="0"');
+
+      await writeFile(
+        path.join(bundleDir, "tests", "missing-stub.yaml"),
+        ["input:", "  name: ada", "expect:", "  success: true", ""].join("\n"),
+        "utf8"
+      );
+      const failed = await runCliCapture(["node", "spell", "test", bundleDir]);
+      expect(failed.code).toBe(1);
+      expect(failed.stdout).toContain("not ok 2 - missing-stub");
+      expect(failed.stderr).toContain("1 of 2 test case(s) failed");
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  test("install copies manifest assets and rejects symlinked assets", async () => {
+    const bundleDir = await createVersionedHelloHostBundle("1.0.0");
+    try {
+      await mkdir(path.join(bundleDir, "templates", "nested"), { recursive: true });
+      await writeFile(path.join(bundleDir, "templates", "nested", "mail.txt"), "hello\n", "utf8");
+      await writeFile(path.join(bundleDir, "config.json"), "{}\n", "utf8");
+      const manifestPath = path.join(bundleDir, "spell.yaml");
+      const manifest = await readFile(manifestPath, "utf8");
+      await writeFile(manifestPath, `${manifest}assets:\n  - templates\n  - config.json\n`, "utf8");
+
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const versionRoot = path.join(tempHome, ".spell", "spells", toIdKey("fixtures/hello-host"), "1.0.0");
+      expect(await readFile(path.join(versionRoot, "templates", "nested", "mail.txt"), "utf8")).toBe("hello\n");
+      expect(await readFile(path.join(versionRoot, "config.json"), "utf8")).toBe("{}\n");
+
+      await rm(path.join(bundleDir, "config.json"));
+      await symlink(path.join(tmpdir()), path.join(bundleDir, "config.json"));
+      const rejected = await runCliCapture(["node", "spell", "install", bundleDir, "--reinstall"]);
+      expect(rejected.code).toBe(1);
+      expect(rejected.stderr).toContain("symlink is not allowed in assets: config.json");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
+  test("install --reinstall replaces an existing version", async () => {
+    const bundleDir = await createVersionedHelloHostBundle("1.0.0");
+    try {
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+
+      const again = await runCliCapture(["node", "spell", "install", bundleDir]);
+      expect(again.code).toBe(1);
+      expect(again.stderr).toContain("already installed: fixtures/hello-host@1.0.0");
+
+      await writeFile(path.join(bundleDir, "steps", "marker.txt"), "v2\n", "utf8");
+      expect(await runCli(["node", "spell", "install", bundleDir, "--reinstall"])).toBe(0);
+
+      const idRoot = path.join(tempHome, ".spell", "spells", toIdKey("fixtures/hello-host"));
+      expect(await readFile(path.join(idRoot, "1.0.0", "steps", "marker.txt"), "utf8")).toBe("v2\n");
+      expect((await readdir(idRoot)).sort()).toEqual(["1.0.0", "spell.id.txt"]);
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
+  test("uninstall removes one version, all versions, and requires a choice when ambiguous", async () => {
+    for (const version of ["1.0.0", "1.1.0", "2.0.0"]) {
+      const bundleDir = await createVersionedHelloHostBundle(version);
+      try {
+        expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      } finally {
+        await rm(bundleDir, { recursive: true, force: true });
+      }
+    }
+
+    const ambiguous = await runCliCapture(["node", "spell", "uninstall", "fixtures/hello-host"]);
+    expect(ambiguous.code).toBe(1);
+    expect(ambiguous.stderr).toContain("multiple versions installed for fixtures/hello-host: 2.0.0, 1.1.0, 1.0.0");
+
+    const one = await runCliCapture(["node", "spell", "uninstall", "fixtures/hello-host", "--version", "1.1.0"]);
+    expect(one.code).toBe(0);
+    expect(one.stdout).toBe("removed\tfixtures/hello-host@1.1.0\n");
+
+    const all = await runCliCapture(["node", "spell", "uninstall", "fixtures/hello-host", "--all"]);
+    expect(all.code).toBe(0);
+    expect(all.stdout).toContain("removed\tfixtures/hello-host@2.0.0");
+    expect(all.stdout).toContain("removed\tfixtures/hello-host@1.0.0");
+
+    const list = await runCliCapture(["node", "spell", "list"]);
+    expect(list.stdout).toContain("No spells installed");
+
+    const missing = await runCliCapture(["node", "spell", "uninstall", "fixtures/hello-host"]);
+    expect(missing.code).toBe(1);
+    expect(missing.stderr).toContain("spell not installed: fixtures/hello-host");
+  });
+
+  test("outdated and upgrade install the newest registry version and gate escalations on --yes", async () => {
+    const installedDir = await createVersionedHelloHostBundle("1.0.0");
+    const upgradeDir = await createVersionedHelloHostBundle("1.1.0");
+    const manifestPath = path.join(upgradeDir, "spell.yaml");
+    const upgradedManifest = (await readFile(manifestPath, "utf8"))
+      .replace("risk: low", "risk: high")
+      .replace("effects:\n", "effects:\n  - type: deploy\n    target: site\n    mutates: true\n");
+    await writeFile(manifestPath, upgradedManifest, "utf8");
+
+    const expectedDigest = `sha256:${(await computeBundleDigest(upgradeDir)).valueHex}`;
+    const gitRepo = await createBareGitRepoFromSource(upgradeDir);
+    const gitUrl = "https://spell.test/hello-host.git";
+    const indexUrl = "https://registry.test/spell-index.v1.json";
+
+    try {
+      expect(await runCli(["node", "spell", "install", installedDir])).toBe(0);
+      expect(await runCli(["node", "spell", "registry", "set", indexUrl])).toBe(0);
+
+      nock("https://registry.test")
+        .get("/spell-index.v1.json")
+        .times(6)
+        .reply(200, {
+          version: "v1",
+          spells: [
+            {
+              id: "fixtures/hello-host",
+              version: "1.1.0",
+              source: `${gitUrl}#main`,
+              commit: gitRepo.commit,
+              digest: expectedDigest
+            }
+          ]
+        });
+
+      const outdated = await runCliCapture(["node", "spell", "outdated"]);
+      expect(outdated.code).toBe(0);
+      expect(outdated.stdout).toContain("id\tinstalled\tlatest\tregistry");
+      expect(outdated.stdout).toContain("fixtures/hello-host\t1.0.0\t1.1.0\tdefault");
+
+      await withGitUrlRewrite(gitUrl, gitRepo.remotePath, async () => {
+        const refused = await runCliCapture(["node", "spell", "upgrade", "fixtures/hello-host"]);
+        expect(refused.code).toBe(1);
+        expect(refused.stdout).toContain("upgrade\tfixtures/hello-host\t1.0.0 -> 1.1.0\tdefault");
+        expect(refused.stdout).toContain("risk\tlow -> high");
+        expect(refused.stdout).toContain("effects\t+ deploy:site (mutates)");
+        expect(refused.stderr).toContain("requires --yes");
+
+        const listAfterRefusal = await runCliCapture(["node", "spell", "list"]);
+        expect(listAfterRefusal.stdout).not.toContain("fixtures/hello-host@1.1.0");
+
+        const upgraded = await runCliCapture(["node", "spell", "upgrade", "fixtures/hello-host", "--yes"]);
+        expect(upgraded.code).toBe(0);
+        expect(upgraded.stdout).toContain("fixtures/hello-host@1.1.0\n");
+      });
+
+      const sourceMetadata = JSON.parse(
+        await readFile(installedSourceMetadataPath(tempHome, "fixtures/hello-host", "1.1.0"), "utf8")
+      ) as Record<string, unknown>;
+      expect(sourceMetadata).toMatchObject({ type: "git", commit: gitRepo.commit });
+
+      const upToDate = await runCliCapture(["node", "spell", "upgrade", "--all"]);
+      expect(upToDate.code).toBe(0);
+      expect(upToDate.stdout).toContain("All installed spells are up to date");
+    } finally {
+      await rm(installedDir, { recursive: true, force: true });
+      await rm(upgradeDir, { recursive: true, force: true });
+      await rm(gitRepo.tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("prune keeps the newest versions and refuses pinned versions without --force", async () => {
+    for (const version of ["1.0.0", "1.2.0", "1.10.0"]) {
+      const bundleDir = await createVersionedHelloHostBundle(version);
+      try {
+        expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      } finally {
+        await rm(bundleDir, { recursive: true, force: true });
+      }
+    }
+
+    const registryPath = path.join(tempHome, "button-registry.json");
+    await writeFile(
+      registryPath,
+      JSON.stringify({
+        version: "v1",
+        buttons: [
+          {
+            button_id: "hello_old",
+            spell_id: "fixtures/hello-host",
+            version: "1.0.0",
+            defaults: {},
+            required_confirmations: { risk: false, billing: false },
+            allowed_roles: ["admin"]
+          }
+        ]
+      }),
+      "utf8"
+    );
+
+    const refused = await runCliCapture([
+      "node",
+      "spell",
+      "prune",
+      "--keep",
+      "1",
+      "--button-registry",
+      registryPath
+    ]);
+    expect(refused.code).toBe(1);
+    expect(refused.stderr).toContain("fixtures/hello-host@1.0.0 (buttons: hello_old)");
+
+    const uninstallRefused = await runCliCapture([
+      "node",
+      "spell",
+      "uninstall",
+      "fixtures/hello-host",
+      "--version",
+      "1.0.0",
+      "--button-registry",
+      registryPath
+    ]);
+    expect(uninstallRefused.code).toBe(1);
+    expect(uninstallRefused.stderr).toContain("use --force");
+
+    const listBefore = await runCliCapture(["node", "spell", "list"]);
+    expect(listBefore.stdout).toContain("fixtures/hello-host@1.2.0");
+    expect(listBefore.stdout).toContain("fixtures/hello-host@1.0.0");
+
+    const pruned = await runCliCapture([
+      "node",
+      "spell",
+      "prune",
+      "--keep",
+      "1",
+      "--force",
+      "--button-registry",
+      registryPath
+    ]);
+    expect(pruned.code).toBe(0);
+    expect(pruned.stdout).toBe("removed\tfixtures/hello-host@1.2.0\nremoved\tfixtures/hello-host@1.0.0\n");
+
+    const listAfter = await runCliCapture(["node", "spell", "list"]);
+    expect(listAfter.stdout).toContain("fixtures/hello-host@1.10.0");
+    expect(listAfter.stdout).not.toContain("fixtures/hello-host@1.2.0");
+
+    const nothing = await runCliCapture(["node", "spell", "prune", "--keep", "1"]);
+    expect(nothing.stdout).toContain("Nothing to prune");
+
+    const invalid = await runCliCapture(["node", "spell", "prune", "--keep", "0"]);
+    expect(invalid.code).toBe(1);
+    expect(invalid.stderr).toContain("--keep must be a positive integer");
+  });
+
   test("registry set/show and install resolves a registry source", async () => {
     const fixture = path.join(process.cwd(), "fixtures/spells/hello-host");
     const expectedDigest = `sha256:${(await computeBundleDigest(fixture)).valueHex.toUpperCase()}`;
@@ -510,6 +858,94 @@ describe("spell cli integration", () => {
     );
   });
 
+  test("registry sign produces a detached signature that validate verifies", async () => {
+    const workDir = await mkdtemp(path.join(tmpdir(), "spell-registry-sign-"));
+    const defaultUrl = "https://registry.test/spell-index.v1.json";
+
+    try {
+      expect(
+        await runCli(["node", "spell", "sign", "keygen", "registry", "--key-id", "idx", "--out-dir", workDir])
+      ).toBe(0);
+      const publicKey = (await readFile(path.join(workDir, "registry__idx.public.b64url.txt"), "utf8")).trim();
+      const indexPath = path.join(workDir, "spell-index.v1.json");
+      await writeFile(indexPath, `${JSON.stringify({ version: "v1", serial: 3, spells: [] }, null, 2)}\n`, "utf8");
+
+      const signed = await runCliCapture([
+        "node",
+        "spell",
+        "registry",
+        "sign",
+        indexPath,
+        "--private-key",
+        path.join(workDir, "registry__idx.private.pem"),
+        "--key-id",
+        "idx"
+      ]);
+      expect(signed.code).toBe(0);
+      expect(signed.stdout).toContain(`signed: ${indexPath}.sig`);
+      expect(signed.stdout).toContain("serial: 3");
+
+      expect(await runCli(["node", "spell", "registry", "set", defaultUrl, "--public-key", publicKey])).toBe(0);
+      const show = await runCliCapture(["node", "spell", "registry", "show"]);
+      expect(show.stdout).toContain("name\turl\tpublic_key");
+      expect(show.stdout).toMatch(/^default\thttps:\/\/registry\.test\/spell-index\.v1\.json\t[0-9a-f]{12}\.\.\./m);
+
+      nock("https://registry.test")
+        .get("/spell-index.v1.json")
+        .reply(200, await readFile(indexPath, "utf8"))
+        .get("/spell-index.v1.json.sig")
+        .reply(200, await readFile(`${indexPath}.sig`, "utf8"));
+      const validated = await runCliCapture(["node", "spell", "registry", "validate"]);
+      expect(validated.code).toBe(0);
+      expect(validated.stdout).toContain(`default\t${defaultUrl}\t0\tverified\t3`);
+
+      nock("https://registry.test")
+        .get("/spell-index.v1.json")
+        .reply(200, { version: "v1", serial: 4, spells: [] })
+        .get("/spell-index.v1.json.sig")
+        .reply(200, await readFile(`${indexPath}.sig`, "utf8"));
+      const install = await runCliCapture(["node", "spell", "install", "registry:fixtures/hello-host@1.0.0"]);
+      expect(install.code).toBe(1);
+      expect(install.stderr).toContain("registry index signature verification failed for 'default' (key_id=idx)");
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+
+  test("registry publish writes an entry that a pinned registry install accepts", async () => {
+    const fixture = path.join(process.cwd(), "fixtures/spells/hello-host");
+    const gitRepo = await createBareGitRepoFromSource(fixture);
+    const gitUrl = "https://spell.test/hello-host.git";
+    const gitSource = `${gitUrl}#main`;
+    const indexUrl = "https://registry.test/spell-index.v1.json";
+    const indexPath = path.join(gitRepo.tempDir, "registry", "spell-index.v1.json");
+    delete process.env.SPELL_REGISTRY_REQUIRED_PINS;
+
+    try {
+      await withGitUrlRewrite(gitUrl, gitRepo.remotePath, async () => {
+        const publish = ["node", "spell", "registry", "publish", fixture, "--index", indexPath, "--source", gitSource];
+        const published = await runCliCapture(publish);
+        expect(published.code).toBe(0);
+        expect(published.stdout).toContain("added\tfixtures/hello-host@1.0.0");
+        expect(published.stdout).toContain("serial: 1");
+        expect(published.stdout).toContain(`commit: ${gitRepo.commit}`);
+        expect(published.stdout).toMatch(/^digest: sha256:[0-9a-f]{64}$/m);
+
+        const again = await runCliCapture(publish);
+        expect(again.stdout).toContain("unchanged\tfixtures/hello-host@1.0.0");
+        const missingRef = await runCliCapture([...publish.slice(0, -1), `${gitUrl}#missing`]);
+        expect(missingRef.code).toBe(1);
+        expect(missingRef.stderr).toContain(`git ref not found for '${gitUrl}#missing': missing`);
+
+        expect(await runCli(["node", "spell", "registry", "set", indexUrl])).toBe(0);
+        nock("https://registry.test").get("/spell-index.v1.json").reply(200, await readFile(indexPath, "utf8"));
+        expect(await runCli(["node", "spell", "install", "registry:fixtures/hello-host@1.0.0"])).toBe(0);
+      });
+    } finally {
+      await rm(gitRepo.tempDir, { recursive: true, force: true });
+    }
+  });
+
   test("registry install reports missing entry", async () => {
     const indexUrl = "https://registry.test/spell-index.v1.json";
     expect(await runCli(["node", "spell", "registry", "set", indexUrl])).toBe(0);
@@ -1153,6 +1589,46 @@ describe("spell cli integration", () => {
     expect(stored).toBe(`${JSON.stringify({ version: "v1", default: "allow" }, null, 2)}\n`);
   });
 
+  test("policy explain traces rules for one spell and prints a matrix with --all", async () => {
+    expect(await runCli(["node", "spell", "install", path.join(process.cwd(), "fixtures/spells/hello-host")])).toBe(0);
+    expect(await runCli(["node", "spell", "install", path.join(process.cwd(), "fixtures/spells/risk-guard")])).toBe(0);
+    const candidatePath = path.join(tempHome, "explain-policy.json");
+    await writeFile(
+      candidatePath,
+      JSON.stringify({ version: "v1", default: "allow", max_risk: "medium", effects: { deny_types: ["delete"] } }),
+      "utf8"
+    );
+
+    const single = await runCliCapture([
+      "node",
+      "spell",
+      "policy",
+      "explain",
+      "fixtures/risk-guard",
+      "--policy-file",
+      candidatePath
+    ]);
+    expect(single.code).toBe(0);
+    expect(single.stdout).toContain(`policy\t${candidatePath}\nspell\tfixtures/risk-guard@1.0.0\n`);
+    expect(single.stdout).toContain("not_applicable\tspells.deny\n");
+    expect(single.stdout).toContain("deny\tmax_risk\trisk 'high' exceeds max_risk 'medium'\n");
+    expect(single.stdout).toContain("deny\teffects.deny_types\teffect type 'delete' is denied\n");
+    expect(single.stdout).toContain("decision\tdeny\trisk 'high' exceeds max_risk 'medium'\n");
+
+    const matrix = await runCliCapture(["node", "spell", "policy", "explain", "--all", "--policy-file", candidatePath]);
+    expect(matrix.code).toBe(0);
+    expect(matrix.stdout.split("\n").slice(1)).toEqual([
+      "spell\tdecision\tmax_risk\teffects.deny_types\tdefault",
+      "fixtures/hello-host@1.0.0\tallow\tpass\tpass\tpass",
+      "fixtures/risk-guard@1.0.0\tdeny\tdeny\tdeny\tpass",
+      ""
+    ]);
+
+    const missingId = await runCliCapture(["node", "spell", "policy", "explain"]);
+    expect(missingId.code).toBe(1);
+    expect(missingId.stderr).toContain("missing spell id (or use --all)");
+  });
+
   test("policy file default deny blocks cast", async () => {
     const fixture = path.join(process.cwd(), "fixtures/spells/hello-host");
     expect(await runCli(["node", "spell", "install", fixture])).toBe(0);
@@ -1187,6 +1663,26 @@ describe("spell cli integration", () => {
     expect(result.stderr).toContain("policy denied: effect type 'deploy' mutates target 'github' and mutations are denied");
   });
 
+  test("policy schedule freeze blocks cast and names the active window", async () => {
+    const fixture = path.join(process.cwd(), "fixtures/spells/permissions-guard");
+    expect(await runCli(["node", "spell", "install", fixture])).toBe(0);
+
+    const spellDir = path.join(tempHome, ".spell");
+    await mkdir(spellDir, { recursive: true });
+    const schedule = [
+      { name: "freeze", action: "deny", windows: [{ start: "00:00", end: "24:00" }], match: { mutates: true } }
+    ];
+    await writeFile(
+      path.join(spellDir, "policy.json"),
+      `${JSON.stringify({ version: "v1", default: "allow", schedule }, null, 2)}\n`,
+      "utf8"
+    );
+
+    const result = await runCliCapture(["node", "spell", "cast", "fixtures/permissions-guard", "--allow-unsigned"]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("policy denied: schedule 'freeze' denies this spell during daily 00:00-24:00 UTC");
+  });
+
   test("policy signature.require_verified blocks --allow-unsigned path", async () => {
     const fixture = path.join(process.cwd(), "fixtures/spells/hello-host");
     expect(await runCli(["node", "spell", "install", fixture])).toBe(0);
@@ -1317,6 +1813,143 @@ describe("spell cli integration", () => {
     }
   });
 
+  test("cast --events writes NDJSON step progress events", async () => {
+    const eventsPath = path.join(tempHome, "events.ndjson");
+    const bundleDir = await createHostShellBundle("tests/events-shell", [
+      {
+        name: "hello",
+        fileName: "hello.js",
+        source: ["#!/usr/bin/env node", "console.log('hello');"].join("\n")
+      }
+    ]);
+
+    try {
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const result = await runCliCapture([
+        "node",
+        "spell",
+        "cast",
+        "tests/events-shell",
+        "--allow-unsigned",
+        "-p",
+        "name=demo",
+        "--events",
+        eventsPath
+      ]);
+      expect(result.code).toBe(0);
+
+      const events = (await readFile(eventsPath, "utf8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as Record<string, unknown>);
+      expect(events.map((event) => event.type)).toEqual(["step_started", "step_finished", "check_result"]);
+      expect(events[0]).toMatchObject({ step: "hello", uses: "shell" });
+      expect(events[1]).toMatchObject({ step: "hello", success: true });
+      expect(events[2]).toMatchObject({ check: "exit_code", success: true });
+
+      const invalid = await runCliCapture([
+        "node",
+        "spell",
+        "cast",
+        "tests/events-shell",
+        "--allow-unsigned",
+        "-p",
+        "name=demo",
+        "--events",
+        "fd:abc"
+      ]);
+      expect(invalid.code).toBe(1);
+      expect(invalid.stderr).toContain("invalid --events target: fd:abc");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
+  test("cast --resume continues a failed execution without rerunning completed steps", async () => {
+    const counterPath = path.join(tempHome, "first-runs.txt");
+    const bundleDir = await createHostShellBundle("tests/resume-shell", [
+      {
+        name: "first",
+        fileName: "first.js",
+        source: [
+          "#!/usr/bin/env node",
+          "const fs = require('node:fs');",
+          "fs.appendFileSync(process.env.RESUME_TEST_COUNTER, 'run\\n');",
+          "console.log('first-done');"
+        ].join("\n")
+      },
+      {
+        name: "second",
+        fileName: "second.js",
+        source: [
+          "#!/usr/bin/env node",
+          "if (process.env.RESUME_TEST_ALLOW !== '1') {",
+          "  process.stderr.write('transient failure\\n');",
+          "  process.exit(1);",
+          "}",
+          "console.log('second-done');"
+        ].join("\n"),
+        dependsOn: ["first"]
+      }
+    ]);
+
+    process.env.RESUME_TEST_COUNTER = counterPath;
+    try {
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const failed = await runCliCapture(["node", "spell", "cast", "tests/resume-shell", "--allow-unsigned", "-p", "name=demo"]);
+      expect(failed.code).toBe(1);
+
+      const logsDir = path.join(tempHome, ".spell", "logs");
+      const [failedLog] = await readdir(logsDir);
+      const failedPayload = JSON.parse(await readFile(path.join(logsDir, failedLog), "utf8")) as Record<string, unknown>;
+      expect(typeof failedPayload.bundle_digest).toBe("string");
+
+      const changedInput = await runCliCapture([
+        "node",
+        "spell",
+        "cast",
+        "tests/resume-shell",
+        "--allow-unsigned",
+        "-p",
+        "name=other",
+        "--resume",
+        failedLog
+      ]);
+      expect(changedInput.code).toBe(1);
+      expect(changedInput.stderr).toContain(`cannot resume ${failedLog}: input changed`);
+
+      process.env.RESUME_TEST_ALLOW = "1";
+      const resumed = await runCliCapture([
+        "node",
+        "spell",
+        "cast",
+        "tests/resume-shell",
+        "--allow-unsigned",
+        "-p",
+        "name=demo",
+        "--resume",
+        failedLog
+      ]);
+      expect(resumed.code).toBe(0);
+
+      const resumedLog = /execution_id: (\S+)/.exec(resumed.stdout)?.[1] as string;
+      const payload = JSON.parse(await readFile(path.join(logsDir, resumedLog), "utf8")) as Record<string, unknown>;
+      expect(payload.success).toBe(true);
+      expect(payload.resumed_from).toBe(failedLog);
+      expect(payload.outputs).toMatchObject({
+        "step.first.stdout": "first-done\n",
+        "step.second.stdout": "second-done\n"
+      });
+      const steps = payload.steps as Array<Record<string, unknown>>;
+      expect(steps.find((entry) => entry.stepName === "first")?.message).toBe("restored from resumed execution");
+      expect(await readFile(counterPath, "utf8")).toBe("run\n");
+    } finally {
+      delete process.env.RESUME_TEST_COUNTER;
+      delete process.env.RESUME_TEST_ALLOW;
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
   test("permissions guard blocks without connector token", async () => {
     const fixture = path.join(process.cwd(), "fixtures/spells/permissions-guard");
     expect(await runCli(["node", "spell", "install", fixture])).toBe(0);
@@ -1372,6 +2005,30 @@ describe("spell cli integration", () => {
     const outputs = payload.outputs as Record<string, unknown>;
     const stepOutput = outputs["step.request.json"] as Record<string, unknown>;
     expect(stepOutput.data).toEqual({ id: "abc123" });
+
+    const steps = payload.steps as Array<Record<string, unknown>>;
+    expect(steps.find((entry) => entry.stepName === "request")?.statusCode).toBe(200);
+  });
+
+  test("http step fails the cast on non-2xx response", async () => {
+    const fixture = path.join(process.cwd(), "fixtures/spells/http-step");
+    expect(await runCli(["node", "spell", "install", fixture])).toBe(0);
+
+    process.env.TEST_HEADER = "header-value";
+
+    nock("https://api.example.test").post("/v1/deploy/demo").reply(500, { error: "upstream down" });
+
+    const result = await runCliCapture([
+      "node",
+      "spell",
+      "cast",
+      "fixtures/http-step",
+      "--allow-unsigned",
+      "-p",
+      "project=demo"
+    ]);
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain("http step 'request' expectation failed: status 500 not in [2xx]");
   });
 
   test("real sample: call-webhook succeeds with http checks", async () => {
@@ -1811,6 +2468,187 @@ describe("spell cli integration", () => {
     }
   });
 
+  test("sign bundle --append collects threshold signatures and countersignatures", async () => {
+    const bundleDir = await createHostShellBundle("multisig/hello", [
+      { name: "hello", fileName: "hello.js", source: "#!/usr/bin/env node\nprocess.stdout.write('multisig\\n');\n" }
+    ]);
+    const keysDir = await mkdtemp(path.join(tmpdir(), "spell-multisig-keys-"));
+
+    try {
+      for (const [publisher, keyId] of [
+        ["multisig", "release"],
+        ["multisig", "backup"],
+        ["secteam", "review"]
+      ]) {
+        expect(
+          await runCli(["node", "spell", "sign", "keygen", publisher, "--key-id", keyId, "--out-dir", keysDir])
+        ).toBe(0);
+        const publicKeyPath = path.join(keysDir, `${publisher}__${keyId}.public.b64url.txt`);
+        const publicKey = (await readFile(publicKeyPath, "utf8")).trim();
+        expect(await runCli(["node", "spell", "trust", "add", publisher, publicKey, "--key-id", keyId])).toBe(0);
+      }
+      expect(await runCli(["node", "spell", "trust", "set-threshold", "multisig", "2"])).toBe(0);
+      const inspect = await runCliCapture(["node", "spell", "trust", "inspect", "multisig"]);
+      expect(inspect.stdout).toContain("threshold: 2");
+
+      const signWith = (publisher: string, keyId: string, extra: string[]) =>
+        runCliCapture([
+          "node",
+          "spell",
+          "sign",
+          "bundle",
+          bundleDir,
+          "--private-key",
+          path.join(keysDir, `${publisher}__${keyId}.private.pem`),
+          "--key-id",
+          keyId,
+          ...extra
+        ]);
+
+      const foreign = await signWith("secteam", "review", ["--publisher", "secteam"]);
+      expect(foreign.code).toBe(1);
+      expect(foreign.stderr).toContain("publisher mismatch: manifest expects 'multisig', got 'secteam'");
+
+      expect((await signWith("multisig", "release", [])).code).toBe(0);
+      expect((await signWith("multisig", "backup", ["--append"])).stdout).toContain("signatures: 2");
+      const counter = await signWith("secteam", "review", ["--append", "--publisher", "secteam"]);
+      expect(counter.code).toBe(0);
+      expect(counter.stdout).toContain("signatures: 3");
+
+      const sigFile = JSON.parse(await readFile(path.join(bundleDir, "spell.sig.json"), "utf8"));
+      expect(sigFile.version).toBe("v2");
+
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const verified = await runCliCapture(["node", "spell", "verify", "multisig/hello"]);
+      expect(verified.code).toBe(0);
+      expect(verified.stdout).toContain("signers: multisig:release,multisig:backup,secteam:review");
+
+      await writeFile(path.join(bundleDir, "steps", "hello.js"), "#!/usr/bin/env node\n", "utf8");
+      const stale = await signWith("multisig", "release", ["--append"]);
+      expect(stale.code).toBe(1);
+      expect(stale.stderr).toContain("spell.sig.json was made for different bundle contents");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+      await rm(keysDir, { recursive: true, force: true });
+    }
+  });
+
+  test("trust rotate retires current keys while older signatures keep verifying", async () => {
+    const bundleDir = await createHostShellBundle("rotating/hello", [
+      { name: "hello", fileName: "hello.js", source: "#!/usr/bin/env node\nprocess.stdout.write('rotating\\n');\n" }
+    ]);
+    const keysDir = await mkdtemp(path.join(tmpdir(), "spell-rotate-keys-"));
+
+    try {
+      expect(
+        await runCli(["node", "spell", "sign", "keygen", "rotating", "--key-id", "k1", "--out-dir", keysDir])
+      ).toBe(0);
+      const publicKey = (await readFile(path.join(keysDir, "rotating__k1.public.b64url.txt"), "utf8")).trim();
+      expect(await runCli(["node", "spell", "trust", "add", "rotating", publicKey, "--key-id", "k1"])).toBe(0);
+      const signed = await runCliCapture([
+        "node",
+        "spell",
+        "sign",
+        "bundle",
+        bundleDir,
+        "--private-key",
+        path.join(keysDir, "rotating__k1.private.pem"),
+        "--key-id",
+        "k1"
+      ]);
+      expect(signed.stdout).toMatch(/^signed_at: \d{4}-\d{2}-\d{2}T/m);
+
+      const rotated = await runCliCapture([
+        "node",
+        "spell",
+        "trust",
+        "rotate",
+        "rotating",
+        "--key-id",
+        "k2",
+        "--out-dir",
+        keysDir
+      ]);
+      expect(rotated.code).toBe(0);
+      expect(rotated.stdout).toContain("retired: k1");
+      expect(rotated.stdout).toContain(`private_key: ${path.join(keysDir, "rotating__k2.private.pem")}`);
+
+      const inspect = await runCliCapture(["node", "spell", "trust", "inspect", "rotating"]);
+      expect(inspect.stdout).toContain("revocation_mode: strict");
+      expect(inspect.stdout).toMatch(/^k1\tactive\ted25519\t\S+\t-\t\d{4}-/m);
+      expect(inspect.stdout).toMatch(/^k2\tactive\ted25519\t\S+\t\d{4}-\S+\t-$/m);
+
+      const duplicate = await runCliCapture(["node", "spell", "trust", "rotate", "rotating", "--key-id", "k2"]);
+      expect(duplicate.code).toBe(1);
+      expect(duplicate.stderr).toContain("trusted key already exists: publisher=rotating key_id=k2");
+
+      expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+      const verified = await runCliCapture(["node", "spell", "verify", "rotating/hello"]);
+      expect(verified.code).toBe(0);
+      expect(verified.stdout).toContain("signers: rotating:k1");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+      await rm(keysDir, { recursive: true, force: true });
+    }
+  });
+
+  test("trust export and import move publishers between trust stores under a pinned root key", async () => {
+    const workDir = await mkdtemp(path.join(tmpdir(), "spell-trust-bundle-"));
+
+    try {
+      for (const [publisher, keyId] of [
+        ["org", "root"],
+        ["acme", "k1"]
+      ]) {
+        expect(
+          await runCli(["node", "spell", "sign", "keygen", publisher, "--key-id", keyId, "--out-dir", workDir])
+        ).toBe(0);
+      }
+      const rootPublicKey = (await readFile(path.join(workDir, "org__root.public.b64url.txt"), "utf8")).trim();
+      const acmePublicKey = (await readFile(path.join(workDir, "acme__k1.public.b64url.txt"), "utf8")).trim();
+      expect(await runCli(["node", "spell", "trust", "add", "acme", acmePublicKey, "--key-id", "k1"])).toBe(0);
+
+      const signedPath = path.join(workDir, "signed.json");
+      const unsignedPath = path.join(workDir, "unsigned.json");
+      const exported = await runCliCapture([
+        "node",
+        "spell",
+        "trust",
+        "export",
+        "--out",
+        signedPath,
+        "--sign-key",
+        path.join(workDir, "org__root.private.pem")
+      ]);
+      expect(exported.code).toBe(0);
+      expect(exported.stdout).toContain("publishers: 1");
+      expect(exported.stdout).toContain("signed: yes");
+      expect(await runCli(["node", "spell", "trust", "export", "--out", unsignedPath])).toBe(0);
+
+      expect(await runCli(["node", "spell", "trust", "remove", "acme"])).toBe(0);
+      process.env.SPELL_TRUST_ROOT_KEY = rootPublicKey;
+
+      const rejected = await runCliCapture(["node", "spell", "trust", "import", unsignedPath]);
+      expect(rejected.code).toBe(1);
+      expect(rejected.stderr).toContain("trust bundle is unsigned but a trust root key is pinned");
+
+      const planned = await runCliCapture(["node", "spell", "trust", "import", signedPath, "--dry-run"]);
+      expect(planned.code).toBe(0);
+      expect(planned.stdout).toContain("signature: verified");
+      expect(planned.stdout).toContain("added\tacme\tk1");
+      expect(planned.stdout).toContain("applied: false");
+      const stillMissing = await runCliCapture(["node", "spell", "trust", "inspect", "acme"]);
+      expect(stillMissing.code).toBe(1);
+
+      const imported = await runCliCapture(["node", "spell", "trust", "import", signedPath]);
+      expect(imported.stdout).toContain("applied: true");
+      const inspect = await runCliCapture(["node", "spell", "trust", "inspect", "acme"]);
+      expect(inspect.stdout).toMatch(/^k1\tactive\t/m);
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  });
+
   const dockerTest = process.env.SPELL_DOCKER_TESTS === "1" && isDockerDaemonAvailable() ? test : test.skip;
   const dockerTestTimeoutMs = 120_000;
 
@@ -2002,6 +2840,15 @@ async function createBareGitRepoFromSource(
   return { tempDir, remotePath, commit };
 }
 
+async function createVersionedHelloHostBundle(version: string): Promise<string> {
+  const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-versioned-bundle-"));
+  await cp(path.join(process.cwd(), "fixtures/spells/hello-host"), bundleDir, { recursive: true });
+  const manifestPath = path.join(bundleDir, "spell.yaml");
+  const manifest = await readFile(manifestPath, "utf8");
+  await writeFile(manifestPath, manifest.replace(/^version: .*$/m, `version: ${version}`), "utf8");
+  return bundleDir;
+}
+
 function installedSourceMetadataPath(homeDir: string, spellId: string, version: string): string {
   return path.join(homeDir, ".spell", "spells", toIdKey(spellId), version, "source.json");
 }
@@ -115,8 +115,11 @@ describe("execution api integration", () => {
       expect(script).toContain("/cancel");
       expect(script).toContain("data-retry-id");
       expect(script).toContain("/retry");
+      expect(script).toContain("data-approve-id");
+      expect(script).toContain("awaiting_approval");
       expect(script).toContain("/events");
       expect(script).toContain("startExecutionStream");
+      expect(script).toContain("renderStepTimeline");
       expect(script).toContain("/api/spell-executions/events");
       expect(script).toContain("startListStream");
       expect(script).toContain("params.set('button_id'");
@@ -454,6 +457,18 @@ describe("execution api integration", () => {
       const terminalPayload = (terminal?.data ?? {}) as { execution?: { status?: string } };
       const status = String(terminalPayload.execution?.status ?? "");
       expect(["succeeded", "failed", "timeout", "canceled"]).toContain(status);
+      const stepEvents = events
+        .filter((event) => event.event === "step")
+        .map((event) => event.data as Record<string, unknown>);
+      if (status === "succeeded") {
+        expect(stepEvents.map((event) => [event.type, event.step])).toEqual(
+          expect.arrayContaining([
+            ["step_started", "build"],
+            ["step_finished", "build"]
+          ])
+        );
+        expect(stepEvents.every((event) => event.execution_id === executionId)).toBe(true);
+      }
     } finally {
       await server.close();
     }
@@ -625,6 +640,97 @@ describe("execution api integration", () => {
     }
   });
 
+  test("runs casts in a worker thread when executionIsolation is worker", async () => {
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath: path.join(process.cwd(), "examples/button-registry.v1.json"),
+      executionIsolation: "worker"
+    });
+
+    try {
+      const executionId = await createExecution(server.port, {
+        button_id: "publish_site_high_risk",
+        actor_role: "admin",
+        confirmation: { risk_acknowledged: true }
+      });
+
+      const done = await waitForExecution(server.port, executionId);
+      expect(done.execution.status).toBe("succeeded");
+      expect(String(done.execution.runtime_execution_id ?? "")).toContain("samples_publish-site");
+      expect((done.receipt as Record<string, unknown>).success).toBe(true);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("aborts the in-process cast and keeps its runtime log when the execution times out", async () => {
+    const bundleDir = await createHostShellBundle("tests/timeout-running", [
+      {
+        name: "slow",
+        fileName: "slow.js",
+        source: "#!/usr/bin/env node\nsetTimeout(() => { process.stdout.write('done\\n'); }, 5000);\n"
+      }
+    ]);
+    const registryDir = await mkdtemp(path.join(tmpdir(), "spell-api-registry-"));
+    const registryPath = path.join(registryDir, "button-registry.v1.json");
+    await writeFile(
+      registryPath,
+      `${JSON.stringify(
+        {
+          version: "v1",
+          buttons: [
+            {
+              button_id: "timeout_running_demo",
+              label: "Timeout Running Demo",
+              description: "Fixture for execution timeouts",
+              spell_id: "tests/timeout-running",
+              version: "1.0.0",
+              defaults: {
+                name: "world"
+              },
+              required_confirmations: {
+                risk: false,
+                billing: false
+              },
+              require_signature: false,
+              allowed_roles: ["admin"]
+            }
+          ]
+        },
+        null,
+        2
+      )}\n`,
+      "utf8"
+    );
+
+    expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      executionTimeoutMs: 300
+    });
+
+    try {
+      const executionId = await createExecution(server.port, {
+        button_id: "timeout_running_demo",
+        actor_role: "admin"
+      });
+
+      const startedAt = Date.now();
+      const done = await waitForExecution(server.port, executionId);
+      expect(Date.now() - startedAt).toBeLessThan(4_000);
+      expect(done.execution.status).toBe("timeout");
+      expect(done.execution.error_code).toBe("EXECUTION_TIMEOUT");
+      expect(String(done.execution.runtime_execution_id ?? "")).toContain("tests_timeout-running");
+      expect((done.receipt as Record<string, unknown>).success).toBe(false);
+    } finally {
+      await server.close();
+      await rm(bundleDir, { recursive: true, force: true });
+      await rm(registryDir, { recursive: true, force: true });
+    }
+  });
+
   test("POST /api/spell-executions/:execution_id/cancel returns ALREADY_TERMINAL for terminal execution", async () => {
     const server = await startExecutionApiServer({
       port: 0,
@@ -702,6 +808,46 @@ describe("execution api integration", () => {
     }
   });
 
+  test("POST /api/spell-executions/:execution_id/retry with mode resume links the runtime log", async () => {
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath: path.join(process.cwd(), "examples/button-registry.v1.json")
+    });
+
+    try {
+      const sourceExecutionId = await createExecution(server.port, {
+        button_id: "repo_ops_guarded",
+        actor_role: "admin"
+      });
+      const sourceDone = await waitForExecution(server.port, sourceExecutionId);
+      expect(sourceDone.execution.status).toBe("failed");
+      expect(typeof sourceDone.execution.runtime_execution_id).toBe("string");
+
+      const invalid = await fetch(`http://127.0.0.1:${server.port}/api/spell-executions/${sourceExecutionId}/retry`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ mode: "replay" })
+      });
+      expect(invalid.status).toBe(400);
+
+      const retried = await fetch(`http://127.0.0.1:${server.port}/api/spell-executions/${sourceExecutionId}/retry`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ mode: "resume" })
+      });
+      expect(retried.status).toBe(202);
+      const retriedPayload = (await retried.json()) as Record<string, unknown>;
+      expect(retriedPayload.retry_of).toBe(sourceExecutionId);
+      expect(retriedPayload.resume_from).toBe(sourceDone.execution.runtime_execution_id);
+
+      const retryDone = await waitForExecution(server.port, String(retriedPayload.execution_id));
+      expect(retryDone.execution.resume_from).toBe(sourceDone.execution.runtime_execution_id);
+      expect(retryDone.execution.status).toBe("failed");
+    } finally {
+      await server.close();
+    }
+  });
+
   test("POST /api/spell-executions/:execution_id/retry returns NOT_RETRYABLE for non-retryable status", async () => {
     const server = await startExecutionApiServer({
       port: 0,
@@ -1335,6 +1481,384 @@ describe("execution api integration", () => {
     }
   });
 
+  test("evaluates tenant and button policies before queueing and records them on the job", async () => {
+    const tempRegistryDir = await mkdtemp(path.join(tmpdir(), "spell-api-policy-registry-"));
+    const registryPath = path.join(tempRegistryDir, "button-registry.v1.json");
+    const registry = JSON.parse(await readFile(path.join(process.cwd(), "examples/button-registry.v1.json"), "utf8")) as {
+      version: "v1";
+      buttons: Array<Record<string, unknown>>;
+    };
+    for (const button of registry.buttons) {
+      if (button.button_id === "call_webhook_demo") {
+        button.policy = { version: "v1", default: "allow", effects: { deny_types: ["notify"] } };
+      }
+    }
+    await writeFile(registryPath, `${JSON.stringify(registry, null, 2)}\n`, "utf8");
+
+    const policiesDir = path.join(tempHome, ".spell", "policies");
+    await mkdir(policiesDir, { recursive: true });
+    await writeFile(
+      path.join(policiesDir, "team_a.json"),
+      JSON.stringify({ version: "v1", default: "allow", permissions: { deny_scopes: ["github:contents:*"] } }),
+      "utf8"
+    );
+    await writeFile(path.join(policiesDir, "team_b.json"), JSON.stringify({ version: "v1", default: "allow", max_risk: "medium" }), "utf8");
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      authKeys: ["team_a:admin=team-a-admin-token", "team_b:admin=team-b-admin-token"]
+    });
+
+    const post = (token: string, buttonId: string): Promise<Response> =>
+      fetch(`http://127.0.0.1:${server.port}/api/spell-executions`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify({ button_id: buttonId, dry_run: true })
+      });
+
+    try {
+      const tenantDenied = await post("team-a-admin-token", "repo_ops_guarded");
+      expect(tenantDenied.status).toBe(403);
+      const tenantDeniedPayload = (await tenantDenied.json()) as Record<string, unknown>;
+      expect(tenantDeniedPayload.error_code).toBe("POLICY_DENIED");
+      expect(tenantDeniedPayload.message).toBe(
+        "policy denied: tenant policy: permission 'github:contents:write' is denied by 'github:contents:*'"
+      );
+
+      const buttonDenied = await post("team-b-admin-token", "call_webhook_demo");
+      expect(buttonDenied.status).toBe(403);
+      const buttonDeniedPayload = (await buttonDenied.json()) as { message: string; policy: { layers: unknown[] } };
+      expect(buttonDeniedPayload.message).toBe("policy denied: button policy: effect type 'notify' is denied");
+      expect(buttonDeniedPayload.policy.layers).toMatchObject([
+        { scope: "tenant", allow: true },
+        { scope: "button", source: "call_webhook_demo", allow: false }
+      ]);
+
+      const allowed = await post("team-b-admin-token", "repo_ops_guarded");
+      expect(allowed.status).toBe(202);
+      const executionId = String(((await allowed.json()) as Record<string, unknown>).execution_id);
+      const detail = await fetch(`http://127.0.0.1:${server.port}/api/spell-executions/${executionId}`, {
+        headers: { authorization: "Bearer team-b-admin-token" }
+      });
+      const detailPayload = (await detail.json()) as { execution: { policy: Record<string, unknown> } };
+      expect(detailPayload.execution.policy).toMatchObject({
+        allow: true,
+        layers: [{ scope: "tenant", source: path.join(policiesDir, "team_b.json"), allow: true, policy: { max_risk: "medium" } }]
+      });
+    } finally {
+      await server.close();
+      await rm(tempRegistryDir, { recursive: true, force: true });
+    }
+  });
+
+  test("holds executions for approval from other approvers and records decisions in tenant audit", async () => {
+    const tempRegistryDir = await mkdtemp(path.join(tmpdir(), "spell-api-approval-registry-"));
+    const registryPath = path.join(tempRegistryDir, "button-registry.v1.json");
+    const registry = JSON.parse(await readFile(path.join(process.cwd(), "examples/button-registry.v1.json"), "utf8")) as {
+      version: "v1";
+      buttons: Array<Record<string, unknown>>;
+    };
+    for (const button of registry.buttons) {
+      if (button.button_id === "call_webhook_demo") {
+        button.approval = { approver_roles: ["admin"], required_approvals: 2, expires_in_seconds: 3600 };
+      }
+      if (button.button_id === "repo_ops_guarded") {
+        button.approval = { approver_roles: ["admin"], required_approvals: 1, expires_in_seconds: 1 };
+      }
+    }
+    await writeFile(registryPath, `${JSON.stringify(registry, null, 2)}\n`, "utf8");
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      authKeys: [
+        "team_a:operator=operator-token",
+        "team_a:operator=operator-2-token",
+        "team_a:admin=admin-1-token",
+        "team_a:admin=admin-2-token"
+      ]
+    });
+
+    const post = (token: string, route: string, body: Record<string, unknown>): Promise<Response> =>
+      fetch(`http://127.0.0.1:${server.port}/api/${route}`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify(body)
+      });
+    const decide = async (token: string, executionId: string, decision: "approve" | "reject") => {
+      const response = await post(token, `spell-executions/${executionId}/${decision}`, {});
+      return { status: response.status, payload: (await response.json()) as Record<string, unknown> };
+    };
+
+    try {
+      const created = await post("operator-token", "spell-executions", { button_id: "call_webhook_demo", dry_run: true });
+      expect(created.status).toBe(202);
+      const createdPayload = (await created.json()) as Record<string, unknown>;
+      expect(createdPayload.status).toBe("awaiting_approval");
+      const executionId = String(createdPayload.execution_id);
+
+      expect((await decide("operator-2-token", executionId, "approve")).payload.error_code).toBe(
+        "APPROVER_ROLE_NOT_ALLOWED"
+      );
+
+      const first = await decide("admin-1-token", executionId, "approve");
+      expect(first).toMatchObject({ status: 200, payload: { status: "awaiting_approval", approvals: 1, required_approvals: 2 } });
+      expect(await decide("admin-1-token", executionId, "approve")).toMatchObject({
+        status: 409,
+        payload: { error_code: "ALREADY_DECIDED" }
+      });
+
+      const second = await decide("admin-2-token", executionId, "approve");
+      expect(second).toMatchObject({ status: 200, payload: { status: "queued", approvals: 2 } });
+      const done = await waitForExecution(server.port, executionId, "admin-1-token");
+      expect(done.execution.status).toBe("succeeded");
+      const approval = done.execution.approval as { requested_by: string; decisions: Array<Record<string, unknown>> };
+      expect(approval.requested_by).toMatch(/^key_[0-9a-f]{12}$/);
+      expect(approval.decisions.map((entry) => entry.decision)).toEqual(["approve", "approve"]);
+
+      const selfRequested = await post("admin-1-token", "spell-executions", { button_id: "call_webhook_demo", dry_run: true });
+      const selfExecutionId = String(((await selfRequested.json()) as Record<string, unknown>).execution_id);
+      expect(await decide("admin-1-token", selfExecutionId, "approve")).toMatchObject({
+        status: 403,
+        payload: { error_code: "SELF_APPROVAL_FORBIDDEN", message: "approver must differ from the requester" }
+      });
+      expect(await decide("admin-2-token", selfExecutionId, "reject")).toMatchObject({
+        status: 200,
+        payload: { status: "canceled" }
+      });
+      expect(await decide("admin-1-token", selfExecutionId, "approve")).toMatchObject({
+        status: 409,
+        payload: { error_code: "NOT_AWAITING_APPROVAL" }
+      });
+
+      const auditRaw = await readFile(path.join(tempHome, ".spell", "logs", "tenant-audit.jsonl"), "utf8");
+      const decisions = auditRaw
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as Record<string, unknown>)
+        .filter((event) => event.approval_decision !== undefined);
+      expect(decisions).toMatchObject([
+        { execution_id: executionId, status: "awaiting_approval", approval_decision: "approve", approver_role: "admin" },
+        { execution_id: executionId, status: "queued", approval_decision: "approve", approver_role: "admin" },
+        { execution_id: selfExecutionId, status: "canceled", approval_decision: "reject", error_code: "APPROVAL_REJECTED" }
+      ]);
+
+      const expiring = await post("admin-1-token", "spell-executions", { button_id: "repo_ops_guarded", dry_run: true });
+      const expiringId = String(((await expiring.json()) as Record<string, unknown>).execution_id);
+      await new Promise((resolve) => setTimeout(resolve, 1_100));
+      const expired = await waitForExecution(server.port, expiringId, "admin-2-token");
+      expect(expired.execution).toMatchObject({ status: "canceled", error_code: "APPROVAL_EXPIRED" });
+    } finally {
+      await server.close();
+      await rm(tempRegistryDir, { recursive: true, force: true });
+    }
+  });
+
+  test("approver role comes only from a role-bound auth key", async () => {
+    const tempRegistryDir = await mkdtemp(path.join(tmpdir(), "spell-api-approval-role-registry-"));
+    const registryPath = path.join(tempRegistryDir, "button-registry.v1.json");
+    const registry = JSON.parse(await readFile(path.join(process.cwd(), "examples/button-registry.v1.json"), "utf8")) as {
+      version: "v1";
+      buttons: Array<Record<string, unknown>>;
+    };
+    for (const button of registry.buttons) {
+      if (button.button_id === "call_webhook_demo") {
+        button.approval = { approver_roles: ["admin"], required_approvals: 1, expires_in_seconds: 3600 };
+      }
+    }
+    await writeFile(registryPath, `${JSON.stringify(registry, null, 2)}\n`, "utf8");
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      authTokens: ["requester-token", "approver-token"]
+    });
+    const post = async (token: string, route: string, body: Record<string, unknown>, role?: string) => {
+      const response = await fetch(`http://127.0.0.1:${server.port}/api/${route}`, {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${token}`,
+          "content-type": "application/json",
+          ...(role ? { "x-role": role } : {})
+        },
+        body: JSON.stringify(body)
+      });
+      return { status: response.status, payload: (await response.json()) as Record<string, unknown> };
+    };
+
+    try {
+      const created = await post("requester-token", "spell-executions", {
+        button_id: "call_webhook_demo",
+        actor_role: "operator",
+        dry_run: true
+      });
+      expect(created.payload.status).toBe("awaiting_approval");
+      const executionId = String(created.payload.execution_id);
+
+      expect(await post("approver-token", `spell-executions/${executionId}/approve`, {}, "admin")).toMatchObject({
+        status: 403,
+        payload: { error_code: "APPROVER_ROLE_REQUIRED" }
+      });
+      expect(
+        await post("approver-token", `spell-executions/${executionId}/approve`, { actor_role: "admin" })
+      ).toMatchObject({
+        status: 400,
+        payload: { error_code: "BAD_REQUEST", message: "unsupported field in request body: actor_role" }
+      });
+    } finally {
+      await server.close();
+      await rm(tempRegistryDir, { recursive: true, force: true });
+    }
+  });
+
+  test("the approval that queues a held job evaluates its policy again", async () => {
+    const tempRegistryDir = await mkdtemp(path.join(tmpdir(), "spell-api-approval-policy-registry-"));
+    const registryPath = path.join(tempRegistryDir, "button-registry.v1.json");
+    const registry = JSON.parse(await readFile(path.join(process.cwd(), "examples/button-registry.v1.json"), "utf8")) as {
+      version: "v1";
+      buttons: Array<Record<string, unknown>>;
+    };
+    for (const button of registry.buttons) {
+      if (button.button_id === "call_webhook_demo") {
+        button.approval = { approver_roles: ["admin"], required_approvals: 1, expires_in_seconds: 3600 };
+      }
+    }
+    await writeFile(registryPath, `${JSON.stringify(registry, null, 2)}\n`, "utf8");
+
+    const policyPath = path.join(tempHome, ".spell", "policies", "team_a.json");
+    await mkdir(path.dirname(policyPath), { recursive: true });
+    await writeFile(policyPath, JSON.stringify({ version: "v1", default: "allow" }), "utf8");
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      authKeys: ["team_a:operator=operator-token", "team_a:admin=admin-token"]
+    });
+    const post = async (token: string, route: string, body: Record<string, unknown> = {}) => {
+      const response = await fetch(`http://127.0.0.1:${server.port}/api/${route}`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      return { status: response.status, payload: (await response.json()) as Record<string, unknown> };
+    };
+
+    try {
+      const created = await post("operator-token", "spell-executions", { button_id: "call_webhook_demo", dry_run: true });
+      expect(created.payload.status).toBe("awaiting_approval");
+      const executionId = String(created.payload.execution_id);
+
+      await writeFile(
+        policyPath,
+        JSON.stringify({ version: "v1", default: "allow", effects: { deny_types: ["notify"] } }),
+        "utf8"
+      );
+      const approved = await post("admin-token", `spell-executions/${executionId}/approve`);
+      expect(approved).toMatchObject({
+        status: 403,
+        payload: { error_code: "POLICY_DENIED", execution_id: executionId, status: "canceled", policy: { allow: false } }
+      });
+      expect(String(approved.payload.message)).toMatch(/^policy denied: tenant policy: /);
+
+      const done = await waitForExecution(server.port, executionId, "admin-token");
+      expect(done.execution).toMatchObject({
+        status: "canceled",
+        error_code: "POLICY_DENIED",
+        policy: { allow: false, layers: [{ scope: "tenant", allow: false }] },
+        approval: { decisions: [{ decision: "approve", actor_role: "admin" }] }
+      });
+    } finally {
+      await server.close();
+      await rm(tempRegistryDir, { recursive: true, force: true });
+    }
+  });
+
+  test("approvals that would queue a job respect the concurrency limits", async () => {
+    const bundleDir = await createHostShellBundle("tests/approval-slow", [
+      {
+        name: "slow",
+        fileName: "slow.js",
+        source: "#!/usr/bin/env node\nsetTimeout(() => { process.stdout.write('done\\n'); }, 5000);\n"
+      }
+    ]);
+    const registryDir = await mkdtemp(path.join(tmpdir(), "spell-api-registry-"));
+    const registryPath = path.join(registryDir, "button-registry.v1.json");
+    await writeFile(
+      registryPath,
+      `${JSON.stringify(
+        {
+          version: "v1",
+          buttons: [
+            {
+              button_id: "approval_slow_demo",
+              spell_id: "tests/approval-slow",
+              version: "1.0.0",
+              defaults: { name: "world" },
+              required_confirmations: { risk: false, billing: false },
+              require_signature: false,
+              allowed_roles: ["operator"],
+              approval: { approver_roles: ["admin"], required_approvals: 1, expires_in_seconds: 3600 }
+            }
+          ]
+        },
+        null,
+        2
+      )}\n`,
+      "utf8"
+    );
+    expect(await runCli(["node", "spell", "install", bundleDir])).toBe(0);
+
+    const server = await startExecutionApiServer({
+      port: 0,
+      registryPath,
+      executionTimeoutMs: 10_000,
+      maxConcurrentExecutions: 1,
+      authKeys: ["team_a:operator=operator-token", "team_a:admin=admin-token"]
+    });
+    const post = async (token: string, route: string, body: Record<string, unknown> = {}) => {
+      const response = await fetch(`http://127.0.0.1:${server.port}/api/${route}`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      return { status: response.status, payload: (await response.json()) as Record<string, unknown> };
+    };
+
+    try {
+      const first = await post("operator-token", "spell-executions", { button_id: "approval_slow_demo" });
+      const second = await post("operator-token", "spell-executions", { button_id: "approval_slow_demo" });
+      expect([first.payload.status, second.payload.status]).toEqual(["awaiting_approval", "awaiting_approval"]);
+      const firstId = String(first.payload.execution_id);
+      const secondId = String(second.payload.execution_id);
+
+      expect(await post("admin-token", `spell-executions/${firstId}/approve`)).toMatchObject({
+        status: 200,
+        payload: { status: "queued" }
+      });
+      expect(await post("admin-token", `spell-executions/${secondId}/approve`)).toMatchObject({
+        status: 429,
+        payload: { error_code: "CONCURRENCY_LIMITED" }
+      });
+      const held = await fetch(`http://127.0.0.1:${server.port}/api/spell-executions/${secondId}`, {
+        headers: { authorization: "Bearer admin-token" }
+      });
+      const heldPayload = (await held.json()) as { execution: Record<string, unknown> };
+      expect(heldPayload.execution).toMatchObject({ status: "awaiting_approval", approval: { decisions: [] } });
+
+      expect((await post("admin-token", `spell-executions/${firstId}/cancel`)).status).toBe(200);
+      expect(await post("admin-token", `spell-executions/${secondId}/approve`)).toMatchObject({
+        status: 200,
+        payload: { status: "queued", approvals: 1 }
+      });
+      expect((await post("admin-token", `spell-executions/${secondId}/cancel`)).status).toBe(200);
+    } finally {
+      await server.close();
+      await rm(bundleDir, { recursive: true, force: true });
+      await rm(registryDir, { recursive: true, force: true });
+    }
+  });
+
   test("applies log retention max-files policy and prunes execution index", async () => {
     const server = await startExecutionApiServer({
       port: 0,
@@ -0,0 +1,178 @@
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { runBundleTests } from "../../src/runner/bundleTests";
+import { formatJunitReport, formatTapReport } from "../../src/runner/testReports";
+
+const PASSING_CASE = [
+  "name: deploy succeeds",
+  "input:",
+  "  project: demo",
+  "env:",
+  "  TEST_HEADER: on",
+  "http:",
+  "  request:",
+  "    - method: post",
+  "      url: https://api.example.test/v1/deploy/demo",
+  "      status: 200",
+  "      body:",
+  "        data:",
+  "          id: abc123",
+  "        health_url: https://api.example.test/health",
+  "  checks:",
+  "    - url: https://api.example.test/health",
+  "      status: 200",
+  "expect:",
+  "  ran: [request]",
+  "  skipped: []",
+  "  outputs:",
+  "    step.request.json.data.id: abc123",
+  "  checks:",
+  "    - type: exit_code",
+  "      success: true",
+  "    - type: http_status",
+  "      success: true",
+  "    - type: jsonpath_equals",
+  "      success: true",
+  ""
+].join("\n");
+
+describe("runBundleTests", () => {
+  let dir: string;
+  let bundlePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "spell-bundle-tests-"));
+    bundlePath = path.join(dir, "http-step");
+    await cp(path.join(process.cwd(), "fixtures/spells/http-step"), bundlePath, { recursive: true });
+    await mkdir(path.join(bundlePath, "tests"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("runs cases against stubbed http responses and checks", async () => {
+    await writeFile(path.join(bundlePath, "tests", "deploy.yaml"), PASSING_CASE, "utf8");
+    await writeFile(
+      path.join(bundlePath, "tests", "server-error.yaml"),
+      [
+        "input:",
+        "  project: demo",
+        "env:",
+        "  TEST_HEADER: on",
+        "http:",
+        "  request:",
+        "    - method: POST",
+        "      url: https://api.example.test/v1/deploy/demo",
+        "      status: 503",
+        "      body: unavailable",
+        "expect:",
+        "  success: false",
+        "  error: -> 503",
+        "  ran: [request]",
+        ""
+      ].join("\n"),
+      "utf8"
+    );
+
+    const run = await runBundleTests(bundlePath);
+    expect(run.cases.flatMap((result) => result.failures)).toEqual([]);
+    expect(run.cases.map((result) => [result.name, result.passed])).toEqual([
+      ["deploy succeeds", true],
+      ["server-error", true]
+    ]);
+  });
+
+  test("reports mismatched expectations and unstubbed requests", async () => {
+    await writeFile(
+      path.join(bundlePath, "tests", "wrong.yaml"),
+      PASSING_CASE.replace("    step.request.json.data.id: abc123", "    step.request.json.data.id: other"),
+      "utf8"
+    );
+    await writeFile(
+      path.join(bundlePath, "tests", "unstubbed.yaml"),
+      ["input:", "  project: demo", "env:", "  TEST_HEADER: on", "expect:", "  ran: [request]", ""].join("\n"),
+      "utf8"
+    );
+
+    const run = await runBundleTests(bundlePath);
+    expect(run.failed).toBe(2);
+
+    const unstubbed = run.cases.find((result) => result.name === "unstubbed");
+    expect(unstubbed?.failures.join("\n")).toContain("no http stub for POST https://api.example.test/v1/deploy/demo");
+
+    const wrong = run.cases.find((result) => result.name === "deploy succeeds");
+    expect(wrong?.failures).toEqual(['output step.request.json.data.id expected "other", got "abc123"']);
+
+    expect(formatTapReport(run)).toContain("not ok 2 - deploy succeeds");
+    const junit = formatJunitReport(run);
+    expect(junit).toContain('<testsuite name="fixtures/http-step@1.0.0" tests="2" failures="2"');
+    expect(junit).toContain("expected &quot;other&quot;");
+  });
+
+  test("matches stubs and ran names of for_each iterations to their step", async () => {
+    const manifestPath = path.join(bundlePath, "spell.yaml");
+    const manifest = await readFile(manifestPath, "utf8");
+    await writeFile(
+      manifestPath,
+      `${manifest.slice(0, manifest.indexOf("steps:"))}${[
+        "steps:",
+        "  - uses: http",
+        "    name: call",
+        "    run: steps/call.json",
+        "    for_each:",
+        "      input_path: paths",
+        "      as: path",
+        "checks:",
+        "  - type: exit_code",
+        "    params: {}",
+        ""
+      ].join("\n")}`,
+      "utf8"
+    );
+    await writeFile(
+      path.join(bundlePath, "steps", "call.json"),
+      JSON.stringify({ method: "GET", url: "https://api.example.test/{{INPUT.path}}" }),
+      "utf8"
+    );
+    await writeFile(
+      path.join(bundlePath, "tests", "fan-out.yaml"),
+      [
+        "input:",
+        "  project: demo",
+        "  paths: [a, b]",
+        "http:",
+        "  call:",
+        "    - url: https://api.example.test/a",
+        "      body: { name: a }",
+        "    - url: https://api.example.test/b",
+        "      body: { name: b }",
+        "expect:",
+        "  ran: [call]",
+        "  outputs:",
+        "    step.call.json: [{ name: a }, { name: b }]",
+        ""
+      ].join("\n"),
+      "utf8"
+    );
+
+    const run = await runBundleTests(bundlePath);
+    expect(run.cases.flatMap((result) => result.failures)).toEqual([]);
+    expect(run.passed).toBe(1);
+  });
+
+  test("rejects stubs for steps that are not http steps", async () => {
+    await writeFile(
+      path.join(bundlePath, "tests", "bad.yaml"),
+      ["http:", "  missing:", "    - url: https://api.example.test/", ""].join("\n"),
+      "utf8"
+    );
+    await expect(runBundleTests(bundlePath)).rejects.toThrow("tests/bad.yaml: http.missing is not an http step");
+  });
+
+  test("fails when the bundle has no test cases", async () => {
+    await expect(runBundleTests(bundlePath)).rejects.toThrow("no test cases found");
+  });
+});
@@ -161,4 +161,63 @@ describe("button registry contract", () => {
     await expect(loadButtonRegistryFromFile(emptyListFile)).rejects.toThrow(/button registry validation failed/);
     await expect(loadButtonRegistryFromFile(emptyTenantFile)).rejects.toThrow(/button registry validation failed/);
   });
+
+  test("parses an optional button policy with the runtime policy parser", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "button-registry-"));
+    const validFile = path.join(dir, "policy.json");
+    const invalidFile = path.join(dir, "policy-invalid.json");
+    const button = {
+      button_id: "policy_bound",
+      spell_id: "samples/call-webhook",
+      version: "1.0.0",
+      defaults: {},
+      required_confirmations: { risk: false, billing: false },
+      allowed_roles: ["admin"]
+    };
+
+    await writeFile(
+      validFile,
+      JSON.stringify({ version: "v1", buttons: [{ ...button, policy: { version: "v1", default: "deny", max_risk: "low" } }] }),
+      "utf8"
+    );
+    await writeFile(
+      invalidFile,
+      JSON.stringify({ version: "v1", buttons: [{ ...button, policy: { version: "v1", default: "allow", max_risk: "huge" } }] }),
+      "utf8"
+    );
+
+    const registry = await loadButtonRegistryFromFile(validFile);
+    expect(registry.buttons[0]?.policy).toMatchObject({ version: "v1", default: "deny", max_risk: "low" });
+    await expect(loadButtonRegistryFromFile(invalidFile)).rejects.toThrow(
+      "button registry validation failed: policy_bound policy: invalid policy: max_risk must be one of low|medium|high|critical"
+    );
+  });
+
+  test("validates an optional approval block", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "button-registry-"));
+    const validFile = path.join(dir, "approval.json");
+    const invalidFile = path.join(dir, "approval-invalid.json");
+    const button = {
+      button_id: "approval_bound",
+      spell_id: "samples/call-webhook",
+      version: "1.0.0",
+      defaults: {},
+      required_confirmations: { risk: true, billing: false },
+      allowed_roles: ["operator"]
+    };
+    const approval = { approver_roles: ["admin"], required_approvals: 2, expires_in_seconds: 900 };
+
+    await writeFile(validFile, JSON.stringify({ version: "v1", buttons: [{ ...button, approval }] }), "utf8");
+    await writeFile(
+      invalidFile,
+      JSON.stringify({ version: "v1", buttons: [{ ...button, approval: { ...approval, required_approvals: 0 } }] }),
+      "utf8"
+    );
+
+    const registry = await loadButtonRegistryFromFile(validFile);
+    expect(registry.buttons[0]?.approval).toEqual(approval);
+    await expect(loadButtonRegistryFromFile(invalidFile)).rejects.toThrow(
+      "button registry validation failed: /buttons/0/approval/required_approvals must be >= 1"
+    );
+  });
 });
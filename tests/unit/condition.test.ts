@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+import { evaluateStepCondition } from "../../src/runner/condition";
+
+describe("evaluateStepCondition", () => {
+  const input = {
+    env: "prod",
+    replicas: 3,
+    tags: ["a", "b"],
+    config: { region: "eu", zones: [1, 2] },
+    branch: "release/1.2"
+  };
+  const outputs = {
+    "step.plan.json": { changes: 4, summary: { drift: false } }
+  };
+
+  test("uses deep equality for objects and arrays", () => {
+    expect(evaluateStepCondition({ input_path: "config", equals: { region: "eu", zones: [1, 2] } }, input, outputs).matched).toBe(
+      true
+    );
+    expect(evaluateStepCondition({ input_path: "tags", not_equals: ["a", "b"] }, input, outputs).matched).toBe(false);
+  });
+
+  test("supports membership, existence, comparison and regex operators", () => {
+    expect(evaluateStepCondition({ input_path: "env", in: ["staging", "prod"] }, input, outputs).matched).toBe(true);
+    expect(evaluateStepCondition({ input_path: "missing", exists: false }, input, outputs).matched).toBe(true);
+    expect(evaluateStepCondition({ input_path: "replicas", gte: 3, lt: 5 }, input, outputs).matched).toBe(true);
+    expect(evaluateStepCondition({ output_path: "step.plan.json.changes", gt: 4 }, input, outputs).matched).toBe(false);
+    expect(evaluateStepCondition({ input_path: "branch", matches: "^release/" }, input, outputs).matched).toBe(true);
+    expect(evaluateStepCondition({ input_path: "replicas", matches: "3" }, input, outputs).matched).toBe(false);
+  });
+
+  test("composes all/any/not and explains the evaluation", () => {
+    const result = evaluateStepCondition(
+      {
+        all: [
+          { input_path: "env", equals: "prod" },
+          { any: [{ output_path: "step.plan.json.summary.drift", equals: true }, { not: { input_path: "replicas", lt: 2 } }] }
+        ]
+      },
+      input,
+      outputs
+    );
+
+    expect(result.matched).toBe(true);
+    expect(result.explanation).toBe(
+      'all(input_path env="prod" equals "prod" -> true, any(output_path step.plan.json.summary.drift=false equals true -> false, not(input_path replicas=3 lt 2 -> false) -> true) -> true)'
+    );
+  });
+
+  test("treats missing upstream outputs as not matched unless checking existence", () => {
+    expect(evaluateStepCondition({ output_path: "step.skipped.stdout", not_equals: "x" }, input, outputs).matched).toBe(false);
+    expect(evaluateStepCondition({ output_path: "step.skipped.stdout", exists: false }, input, outputs)).toEqual({
+      matched: true,
+      explanation: "output_path step.skipped.stdout=<missing> exists false"
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import path from "node:path";
 import { describe, expect, test } from "vitest";
-import { buildDockerArgs } from "../../src/runner/dockerRunner";
+import { buildDockerArgs, parseRunnerEventLine } from "../../src/runner/dockerRunner";
 import { SpellBundleManifest } from "../../src/types";
 
 const manifest: SpellBundleManifest = {
@@ -94,6 +94,17 @@ describe("buildDockerArgs", () => {
   });
 });
 
+describe("parseRunnerEventLine", () => {
+  test("returns progress events and ignores result and non-json lines", () => {
+    const event = { type: "step_started", at: "2026-01-01T00:00:00.000Z", step: "hello", uses: "shell" };
+
+    expect(parseRunnerEventLine(JSON.stringify({ event }))).toEqual(event);
+    expect(parseRunnerEventLine(JSON.stringify({ success: true, stepResults: [] }))).toBeUndefined();
+    expect(parseRunnerEventLine(JSON.stringify({ event: { step: "hello" } }))).toBeUndefined();
+    expect(parseRunnerEventLine("not json")).toBeUndefined();
+  });
+});
+
 function expectFlagValue(args: string[], flag: string, expectedValue: string): void {
   const index = args.indexOf(flag);
   expect(index).toBeGreaterThan(-1);
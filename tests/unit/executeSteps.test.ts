@@ -1,6 +1,11 @@
+import { chmod, mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { describe, expect, test } from "vitest";
 import { executeSteps, StepExecutionError } from "../../src/runner/executeSteps";
-import { SpellBundleManifest, SpellStep, StepResult } from "../../src/types";
+import { HttpStepError } from "../../src/steps/httpStep";
+import { ProgressEvent, SpellBundleManifest, SpellStep, StepResult } from "../../src/types";
+import { SpellError } from "../../src/util/errors";
 
 describe("executeSteps", () => {
   test("respects depends_on and condition skip", async () => {
@@ -47,7 +52,164 @@ describe("executeSteps", () => {
 
     const stepB = result.stepResults.find((entry) => entry.stepName === "b");
     expect(stepB?.success).toBe(true);
-    expect(stepB?.message).toBe("skipped by condition");
+    expect(stepB?.message).toBe("skipped by condition: input_path flags.runB=false equals true");
+  });
+
+  test("passes earlier step outputs to http steps", async () => {
+    const manifest = makeManifest([
+      { uses: "http", name: "create", run: "steps/create.json" },
+      { uses: "http", name: "notify", run: "steps/notify.json", depends_on: ["create"] }
+    ]);
+
+    const seen: Array<Record<string, unknown>> = [];
+    await executeSteps(manifest, "/tmp", {}, {}, {
+      httpRunner: async (step, _runPath, _input, _env, outputs) => {
+        seen.push({ ...outputs });
+        return {
+          stepResult: okStepResult(step),
+          responseBody: { id: step.name },
+          status: 200
+        };
+      }
+    });
+
+    expect(seen).toEqual([{}, { "step.create.json": { id: "create" } }]);
+  });
+
+  test("records shell step json output next to stdout", async () => {
+    const manifest = makeManifest([
+      { uses: "shell", name: "emit", run: "steps/emit.js" },
+      {
+        uses: "shell",
+        name: "after",
+        run: "steps/after.js",
+        depends_on: ["emit"],
+        when: {
+          output_path: "step.emit.json.release.ready",
+          equals: true
+        }
+      }
+    ]);
+
+    const called: string[] = [];
+    const result = await executeSteps(manifest, "/tmp", {}, {}, {
+      shellRunner: async (step) => {
+        called.push(step.name);
+        return {
+          stepResult: okStepResult(step),
+          stdout: "debug line\n",
+          stderr: "",
+          json: step.name === "emit" ? { release: { ready: true } } : undefined
+        };
+      }
+    });
+
+    expect(called).toEqual(["emit", "after"]);
+    expect(result.outputs["step.emit.stdout"]).toBe("debug line\n");
+    expect(result.outputs["step.emit.json"]).toEqual({ release: { ready: true } });
+    expect(result.outputs).not.toHaveProperty("step.after.json");
+  });
+
+  test("runs node steps with retry and records json output", async () => {
+    let attempts = 0;
+    const manifest = makeManifest([
+      { uses: "shell", name: "fetch", run: "steps/fetch.js" },
+      {
+        uses: "node",
+        name: "transform",
+        run: "steps/transform.mjs",
+        depends_on: ["fetch"],
+        retry: { max_attempts: 2, backoff_ms: 0 }
+      }
+    ]);
+
+    const result = await executeSteps(manifest, "/tmp", { name: "demo" }, {}, {
+      shellRunner: async (step) => ({ stepResult: okStepResult(step), stdout: "raw", stderr: "" }),
+      nodeRunner: async (step, _runPath, input, _env, outputs) => {
+        attempts += 1;
+        if (attempts < 2) {
+          throw new Error("transient");
+        }
+        return {
+          stepResult: okStepResult(step),
+          json: { name: input.name, upstream: outputs["step.fetch.stdout"] }
+        };
+      }
+    });
+
+    expect(attempts).toBe(2);
+    expect(result.outputs["step.transform.json"]).toEqual({ name: "demo", upstream: "raw" });
+    expect(result.stepResults.find((entry) => entry.stepName === "transform")?.message).toBe("ok (attempt 2/2)");
+  });
+
+  test("runs shell rollback for executed node steps after failure", async () => {
+    const called: string[] = [];
+    const manifest = makeManifest([
+      { uses: "node", name: "prepare", run: "steps/prepare.js", rollback: "steps/rollback-prepare.js" },
+      { uses: "node", name: "deploy", run: "steps/deploy.js", depends_on: ["prepare"] }
+    ]);
+
+    await expect(
+      executeSteps(manifest, "/tmp", {}, {}, {
+        shellRunner: async (step) => {
+          called.push(step.name);
+          return { stepResult: okStepResult(step), stdout: "", stderr: "" };
+        },
+        nodeRunner: async (step) => {
+          called.push(step.name);
+          if (step.name === "deploy") {
+            throw new Error("deploy failed");
+          }
+          return { stepResult: okStepResult(step) };
+        }
+      })
+    ).rejects.toBeInstanceOf(StepExecutionError);
+
+    expect(called).toEqual(["prepare", "deploy", "rollback.prepare"]);
+  });
+
+  test("passes per-step env and timeout to step runners", async () => {
+    const manifest = makeManifest([
+      {
+        uses: "shell",
+        name: "migrate",
+        run: "steps/migrate.js",
+        timeout_ms: 600_000,
+        env: { TARGET: "{{INPUT.target}}" },
+        env_passthrough: ["DB_*"]
+      },
+      { uses: "shell", name: "notify", run: "steps/notify.js" }
+    ]);
+
+    const seen: Record<string, { env: NodeJS.ProcessEnv; stepTimeoutMs?: number }> = {};
+    await executeSteps(manifest, "/tmp", { target: "prod" }, { PATH: "/bin", DB_URL: "postgres://db", OTHER: "x" }, {
+      shellRunner: async (step, _runPath, _cwd, env, options) => {
+        seen[step.name] = { env, stepTimeoutMs: options?.stepTimeoutMs };
+        return { stepResult: okStepResult(step), stdout: "", stderr: "" };
+      }
+    });
+
+    expect(seen.migrate).toEqual({
+      env: { PATH: "/bin", DB_URL: "postgres://db", TARGET: "prod" },
+      stepTimeoutMs: 600_000
+    });
+    expect(seen.notify).toEqual({
+      env: { PATH: "/bin", DB_URL: "postgres://db", OTHER: "x" },
+      stepTimeoutMs: undefined
+    });
+  });
+
+  test("aborts http steps that exceed timeout_ms", async () => {
+    const manifest = makeManifest([{ uses: "http", name: "slow", run: "steps/slow.json", timeout_ms: 20 }]);
+
+    await expect(
+      executeSteps(manifest, "/tmp", {}, {}, {
+        httpRunner: (_step, _runPath, _input, _env, _outputs, signal) =>
+          new Promise((_, reject) => {
+            signal?.addEventListener("abort", () => reject(signal.reason));
+          })
+      })
+    ).rejects.toThrow("http step 'slow' timed out after 20ms");
   });
 
   test("runs independent steps in parallel batches", async () => {
@@ -145,6 +307,47 @@ describe("executeSteps", () => {
     expect(executionError.message).toContain("attempt 2/2");
   });
 
+  test("keeps the status code of a failed http step on its step result", async () => {
+    const manifest = makeManifest([
+      { uses: "shell", name: "prepare", run: "steps/prepare.sh" },
+      {
+        uses: "http",
+        name: "call",
+        run: "steps/call.json",
+        depends_on: ["prepare"],
+        retry: { max_attempts: 2, backoff_ms: 0 }
+      }
+    ]);
+
+    let caught: unknown;
+    try {
+      await executeSteps(manifest, "/tmp", {}, {}, {
+        shellRunner: async (step) => ({ stepResult: okStepResult(step), stdout: "", stderr: "" }),
+        httpRunner: async (step) => {
+          const now = new Date().toISOString();
+          throw new HttpStepError(`http step '${step.name}' expectation failed: status 500 not in [2xx]`, {
+            stepName: step.name,
+            uses: step.uses,
+            started_at: now,
+            finished_at: now,
+            success: false,
+            statusCode: 500
+          });
+        }
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(StepExecutionError);
+    const failed = (caught as StepExecutionError).stepResults.find((result) => result.stepName === "call");
+    expect(failed).toMatchObject({
+      success: false,
+      statusCode: 500,
+      message: "http step 'call' expectation failed: status 500 not in [2xx] (attempt 2/2)"
+    });
+  });
+
   test("runs rollback steps in reverse order after failure", async () => {
     const called: string[] = [];
     const manifest = makeManifest([
@@ -187,6 +390,76 @@ describe("executeSteps", () => {
     });
   });
 
+  test("emits progress events for retries, failures and rollbacks", async () => {
+    let deployAttempts = 0;
+    const manifest = makeManifest([
+      { uses: "shell", name: "prepare", run: "steps/prepare.js", rollback: "steps/rollback-prepare.js" },
+      {
+        uses: "shell",
+        name: "deploy",
+        run: "steps/deploy.js",
+        depends_on: ["prepare"],
+        retry: { max_attempts: 2, backoff_ms: 0 }
+      }
+    ]);
+
+    const events: ProgressEvent[] = [];
+    await expect(
+      executeSteps(manifest, "/tmp", {}, {}, {
+        onEvent: (event) => events.push(event),
+        shellRunner: async (step) => {
+          if (step.name === "deploy") {
+            deployAttempts += 1;
+            throw new Error(`deploy failed ${deployAttempts}`);
+          }
+          return { stepResult: okStepResult(step), stdout: "", stderr: "" };
+        }
+      })
+    ).rejects.toBeInstanceOf(StepExecutionError);
+
+    expect(events.map((event) => [event.type, event.step, event.success])).toEqual([
+      ["step_started", "prepare", undefined],
+      ["step_finished", "prepare", true],
+      ["step_started", "deploy", undefined],
+      ["step_retry", "deploy", undefined],
+      ["step_finished", "deploy", false],
+      ["rollback_started", "rollback.prepare", undefined],
+      ["step_finished", "rollback.prepare", true]
+    ]);
+    expect(events[3]).toMatchObject({ attempt: 1, max_attempts: 2, message: "deploy failed 1" });
+    expect(events[4]?.message).toContain("attempt 2/2");
+  });
+
+  test("stops scheduling steps once the abort signal fires and keeps the abort error code", async () => {
+    const called: string[] = [];
+    const controller = new AbortController();
+    const manifest = makeManifest([
+      { uses: "shell", name: "first", run: "steps/first.js", rollback: "steps/rollback-first.js" },
+      { uses: "shell", name: "second", run: "steps/second.js", depends_on: ["first"] }
+    ]);
+
+    let caught: unknown;
+    try {
+      await executeSteps(manifest, "/tmp", {}, {}, {
+        signal: controller.signal,
+        shellRunner: async (step) => {
+          called.push(step.name);
+          if (step.name === "first") {
+            controller.abort(new SpellError("execution canceled by request", "EXECUTION_CANCELED"));
+          }
+          return { stepResult: okStepResult(step), stdout: "", stderr: "" };
+        }
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(called).toEqual(["first", "rollback.first"]);
+    expect(caught).toBeInstanceOf(StepExecutionError);
+    expect((caught as StepExecutionError).code).toBe("EXECUTION_CANCELED");
+    expect((caught as StepExecutionError).message).toBe("execution canceled by request");
+  });
+
   test("records rollback failures and keeps running remaining rollbacks", async () => {
     const called: string[] = [];
     const manifest = makeManifest([
@@ -237,6 +510,196 @@ describe("executeSteps", () => {
     });
     expect(executionError.rollback?.failed_step_names).toEqual(["rollback.b"]);
   });
+
+  test("fans out for_each steps and collects iteration outputs", async () => {
+    const manifest = makeManifest([
+      {
+        uses: "http",
+        name: "star",
+        run: "steps/star.json",
+        for_each: { input_path: "repos", as: "repo", max_parallel: 2 }
+      }
+    ]);
+
+    const seen: Array<{ name: string; repo: unknown; index: number | undefined }> = [];
+    const result = await executeSteps(manifest, "/tmp", { repos: ["a/one", "b/two", "c/three"] }, {}, {
+      httpRunner: async (step, _runPath, input, _env, _outputs, _signal, iteration) => {
+        seen.push({ name: step.name, repo: input.repo, index: iteration?.index });
+        return {
+          stepResult: okStepResult(step),
+          responseBody: { starred: iteration?.item },
+          status: 200
+        };
+      }
+    });
+
+    expect(seen).toEqual([
+      { name: "star[0]", repo: "a/one", index: 0 },
+      { name: "star[1]", repo: "b/two", index: 1 },
+      { name: "star[2]", repo: "c/three", index: 2 }
+    ]);
+    expect(result.outputs["step.star.json"]).toEqual([{ starred: "a/one" }, { starred: "b/two" }, { starred: "c/three" }]);
+    expect(result.stepResults.map((entry) => entry.stepName)).toEqual(["star[0]", "star[1]", "star[2]"]);
+    expect(result.executedStepNames).toEqual(["star"]);
+  });
+
+  test("records an empty for_each as a skipped step", async () => {
+    const manifest = makeManifest([
+      { uses: "shell", name: "each", run: "steps/each.js", for_each: { output_path: "step.list.json" }, depends_on: ["list"] },
+      { uses: "shell", name: "list", run: "steps/list.js" }
+    ]);
+
+    const result = await executeSteps(manifest, "/tmp", {}, {}, {
+      shellRunner: async (step) => ({
+        stepResult: okStepResult(step),
+        stdout: "",
+        stderr: "",
+        json: []
+      })
+    });
+
+    expect(result.outputs["step.each.json"]).toEqual([]);
+    expect(result.stepResults.find((entry) => entry.stepName === "each")?.message).toBe("skipped: for_each has no items");
+  });
+
+  test("rolls back each executed for_each iteration after failure", async () => {
+    const called: Array<{ name: string; item?: string; index?: string }> = [];
+    const manifest = makeManifest([
+      {
+        uses: "shell",
+        name: "deploy",
+        run: "steps/deploy.js",
+        rollback: "steps/undeploy.js",
+        for_each: { input_path: "regions" }
+      }
+    ]);
+
+    let caught: unknown;
+    try {
+      await executeSteps(manifest, "/tmp", { regions: ["eu", "us", "ap"] }, {}, {
+        shellRunner: async (step, _runPath, _cwd, env) => {
+          called.push({ name: step.name, item: env.SPELL_ITEM_JSON, index: env.SPELL_ITEM_INDEX });
+          if (step.name === "deploy[2]") {
+            throw new Error("ap unavailable");
+          }
+          return { stepResult: okStepResult(step), stdout: "", stderr: "" };
+        }
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(StepExecutionError);
+    const executionError = caught as StepExecutionError;
+    expect(executionError.message).toBe("ap unavailable");
+    expect(called).toEqual([
+      { name: "deploy[0]", item: '"eu"', index: "0" },
+      { name: "deploy[1]", item: '"us"', index: "1" },
+      { name: "deploy[2]", item: '"ap"', index: "2" },
+      { name: "rollback.deploy[1]", item: '"us"', index: "1" },
+      { name: "rollback.deploy[0]", item: '"eu"', index: "0" }
+    ]);
+    expect(executionError.stepResults.map((entry) => entry.stepName)).toEqual([
+      "deploy[0]",
+      "deploy[1]",
+      "rollback.deploy[1]",
+      "rollback.deploy[0]"
+    ]);
+    expect(executionError.rollback).toMatchObject({
+      total_executed_steps: 2,
+      rollback_planned_steps: 2,
+      rollback_succeeded_steps: 2,
+      state: "fully_compensated"
+    });
+  });
+
+  test("gives for_each shell steps and rollbacks an INPUT_JSON file with the iteration input", async () => {
+    const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-for-each-input-"));
+    try {
+      await mkdir(path.join(bundleDir, "steps"), { recursive: true });
+      await writeScript(path.join(bundleDir, "steps", "read.sh"), 'cat "$INPUT_JSON" > "$SPELL_OUTPUT_JSON"');
+      await writeScript(path.join(bundleDir, "steps", "undo.sh"), 'cat "$INPUT_JSON" >> "$ROLLBACK_LOG"; echo >> "$ROLLBACK_LOG"');
+      await writeScript(path.join(bundleDir, "steps", "fail.sh"), "exit 1");
+      const rollbackLog = path.join(bundleDir, "rollback.log");
+      const manifest = makeManifest([
+        {
+          uses: "shell",
+          name: "read",
+          run: "steps/read.sh",
+          rollback: "steps/undo.sh",
+          for_each: { input_path: "regions", as: "region" }
+        },
+        { uses: "shell", name: "fail", run: "steps/fail.sh", depends_on: ["read"] }
+      ]);
+      const input = { regions: ["eu", "us"] };
+      const inputPath = path.join(bundleDir, "input.json");
+      await writeFile(inputPath, JSON.stringify(input), "utf8");
+
+      let caught: unknown;
+      try {
+        await executeSteps(manifest, bundleDir, input, { ...process.env, INPUT_JSON: inputPath, ROLLBACK_LOG: rollbackLog });
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toBeInstanceOf(StepExecutionError);
+      const executionError = caught as StepExecutionError;
+      expect(executionError.outputs["step.read.json"]).toEqual([
+        { regions: ["eu", "us"], region: "eu" },
+        { regions: ["eu", "us"], region: "us" }
+      ]);
+      const rolledBack = (await readFile(rollbackLog, "utf8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as unknown);
+      expect(rolledBack).toEqual([
+        { regions: ["eu", "us"], region: "us" },
+        { regions: ["eu", "us"], region: "eu" }
+      ]);
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
+  test("skips completed steps and restores their outputs when resuming", async () => {
+    const called: string[] = [];
+    const manifest = makeManifest([
+      { uses: "shell", name: "build", run: "steps/build.js" },
+      {
+        uses: "shell",
+        name: "deploy",
+        run: "steps/deploy.js",
+        depends_on: ["build"],
+        when: { output_path: "step.build.stdout", equals: "BUILT" }
+      }
+    ]);
+
+    const result = await executeSteps(manifest, "/tmp", {}, {}, {
+      resume: { outputs: { "step.build.stdout": "BUILT" }, completedStepNames: ["build"] },
+      shellRunner: async (step) => {
+        called.push(step.name);
+        return { stepResult: okStepResult(step), stdout: "DEPLOYED", stderr: "" };
+      }
+    });
+
+    expect(called).toEqual(["deploy"]);
+    expect(result.outputs).toEqual({ "step.build.stdout": "BUILT", "step.deploy.stdout": "DEPLOYED" });
+    expect(result.stepResults.map((entry) => [entry.stepName, entry.message])).toEqual([
+      ["build", "restored from resumed execution"],
+      ["deploy", "ok"]
+    ]);
+    expect(result.executedStepNames).toEqual(["deploy"]);
+  });
+
+  test("fails when for_each source is not an array", async () => {
+    const manifest = makeManifest([{ uses: "shell", name: "each", run: "steps/each.js", for_each: { input_path: "repos" } }]);
+
+    await expect(
+      executeSteps(manifest, "/tmp", { repos: "a/one" }, {}, {
+        shellRunner: async (step) => ({ stepResult: okStepResult(step), stdout: "", stderr: "" })
+      })
+    ).rejects.toThrow("step 'each' for_each input_path repos must resolve to an array");
+  });
 });
 
 function makeManifest(steps: SpellStep[], maxParallelSteps = 1): SpellBundleManifest {
@@ -277,3 +740,8 @@ function okStepResult(step: SpellStep): StepResult {
     message: "ok"
   };
 }
+
+async function writeScript(filePath: string, body: string): Promise<void> {
+  await writeFile(filePath, `#!/bin/sh\n${body}\n`, "utf8");
+  await chmod(filePath, 0o755);
+}
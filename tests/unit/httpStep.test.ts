@@ -0,0 +1,103 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import nock from "nock";
+import { afterEach, describe, expect, test } from "vitest";
+import { HttpStepError, runHttpStep } from "../../src/steps/httpStep";
+import { SpellStep } from "../../src/types";
+
+describe("runHttpStep", () => {
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  test("records status code on success", async () => {
+    const runPath = await writeDefinition({ method: "GET", url: "https://api.http-step.test/items" });
+    nock("https://api.http-step.test").get("/items").reply(201, { ok: true });
+
+    const result = await runHttpStep(makeStep(), runPath, {}, {}, {});
+
+    expect(result.status).toBe(201);
+    expect(result.stepResult.statusCode).toBe(201);
+    expect(result.responseBody).toEqual({ ok: true });
+  });
+
+  test("fails on status outside the default 2xx set", async () => {
+    const runPath = await writeDefinition({ method: "GET", url: "https://api.http-step.test/items" });
+    nock("https://api.http-step.test").get("/items").reply(404, { error: "missing" });
+
+    await expect(runHttpStep(makeStep(), runPath, {}, {}, {})).rejects.toThrow(
+      "http step 'call' expectation failed: status 404 not in [2xx]"
+    );
+  });
+
+  test("keeps the status code on the failed step result", async () => {
+    const runPath = await writeDefinition({ method: "GET", url: "https://api.http-step.test/items" });
+    nock("https://api.http-step.test").get("/items").reply(500, { error: "boom" });
+
+    const error = await runHttpStep(makeStep(), runPath, {}, {}, {}).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(HttpStepError);
+    expect((error as HttpStepError).stepResult).toMatchObject({
+      stepName: "call",
+      success: false,
+      statusCode: 500,
+      message: expect.stringContaining("status 500 not in [2xx]")
+    });
+  });
+
+  test("accepts configured status codes and ranges", async () => {
+    const runPath = await writeDefinition({
+      method: "DELETE",
+      url: "https://api.http-step.test/items/1",
+      expect: { status: [404, "200-204"] }
+    });
+    nock("https://api.http-step.test").delete("/items/1").reply(404, "gone");
+
+    const result = await runHttpStep(makeStep(), runPath, {}, {}, {});
+    expect(result.stepResult.statusCode).toBe(404);
+  });
+
+  test("checks required headers and json path equality", async () => {
+    const runPath = await writeDefinition({
+      method: "GET",
+      url: "https://api.http-step.test/deploy",
+      expect: {
+        headers: ["X-Request-Id"],
+        json: [{ path: "deploy.state", equals: "ready" }]
+      }
+    });
+
+    nock("https://api.http-step.test").get("/deploy").reply(200, { deploy: { state: "ready" } }, { "x-request-id": "r1" });
+    await expect(runHttpStep(makeStep(), runPath, {}, {}, {})).resolves.toMatchObject({ status: 200 });
+
+    nock("https://api.http-step.test").get("/deploy").reply(200, { deploy: { state: "ready" } });
+    await expect(runHttpStep(makeStep(), runPath, {}, {}, {})).rejects.toThrow("missing response header 'x-request-id'");
+
+    nock("https://api.http-step.test").get("/deploy").reply(200, { deploy: { state: "failed" } }, { "x-request-id": "r2" });
+    await expect(runHttpStep(makeStep(), runPath, {}, {}, {})).rejects.toThrow(
+      'json deploy.state expected "ready", got "failed"'
+    );
+  });
+
+  test("rejects invalid expect definitions", async () => {
+    const runPath = await writeDefinition({
+      method: "GET",
+      url: "https://api.http-step.test/items",
+      expect: { status: ["6xx"] }
+    });
+
+    await expect(runHttpStep(makeStep(), runPath, {}, {}, {})).rejects.toThrow("expect.status[0] must be a status code");
+  });
+});
+
+function makeStep(): SpellStep {
+  return { uses: "http", name: "call", run: "steps/call.json" };
+}
+
+async function writeDefinition(definition: Record<string, unknown>): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "spell-http-step-"));
+  const runPath = path.join(dir, "call.json");
+  await writeFile(runPath, JSON.stringify(definition), "utf8");
+  return runPath;
+}
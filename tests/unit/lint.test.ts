@@ -0,0 +1,188 @@
+import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { lintBundle } from "../../src/bundle/lint";
+import { scaffoldBundle } from "../../src/bundle/scaffold";
+
+describe("lintBundle", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "spell-lint-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test.each(["shell", "http", "docker"] as const)("scaffolded %s template has no findings", async (template) => {
+    const result = await scaffoldBundle(`acme/${template}-demo`, { template, outDir: path.join(dir, template) });
+    const report = await lintBundle(result.bundlePath);
+    expect(report.findings).toEqual([]);
+  });
+
+  test("scaffold refuses a non-empty target directory", async () => {
+    await writeFile(path.join(dir, "keep.txt"), "x", "utf8");
+    await expect(scaffoldBundle("acme/demo", { outDir: dir })).rejects.toThrow("target directory is not empty");
+  });
+
+  test("reports every deeper finding at once", async () => {
+    await mkdir(path.join(dir, "steps"), { recursive: true });
+    await writeFile(
+      path.join(dir, "schema.json"),
+      JSON.stringify({ type: "object", properties: { name: { type: "strng" } } }),
+      "utf8"
+    );
+    await writeFile(path.join(dir, "steps", "a.js"), "#!/usr/bin/env node\n", "utf8");
+    await chmod(path.join(dir, "steps", "a.js"), 0o755);
+    await writeFile(path.join(dir, "steps", "undo.js"), "#!/usr/bin/env node\n", "utf8");
+    await chmod(path.join(dir, "steps", "undo.js"), 0o644);
+    await writeFile(path.join(dir, "steps", "broken.json"), "{ \"method\": ", "utf8");
+    await writeFile(
+      path.join(dir, "steps", "call.json"),
+      JSON.stringify({ method: "GET", url: "https://api.test/{{INPUT.name}}/{{SECRET.key}}/{{ITEM}}" }),
+      "utf8"
+    );
+    await writeFile(
+      path.join(dir, "spell.yaml"),
+      [
+        "id: tests/lint",
+        "version: 1.0.0",
+        "name: Lint",
+        "summary: lint fixture",
+        "inputs_schema: ./schema.json",
+        "risk: low",
+        "permissions: []",
+        "effects:",
+        "  - type: deploy",
+        "    target: site",
+        "    mutates: true",
+        "billing:",
+        "  enabled: false",
+        "  mode: none",
+        "  currency: USD",
+        "  max_amount: 0",
+        "runtime:",
+        "  execution: host",
+        "  platforms:",
+        "    - linux/amd64",
+        "steps:",
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/a.js",
+        "    rollback: steps/undo.js",
+        "    depends_on: [second]",
+        "  - uses: shell",
+        "    name: second",
+        "    run: steps/a.js",
+        "    depends_on: [first]",
+        "  - uses: shell",
+        "    name: gated",
+        "    run: steps/a.js",
+        "    when:",
+        "      output_path: step.first.stdout",
+        "      equals: ok",
+        "  - uses: http",
+        "    name: broken",
+        "    run: steps/broken.json",
+        "  - uses: http",
+        "    name: call",
+        "    run: steps/call.json",
+        "checks:",
+        "  - type: exit_code",
+        "    params: {}",
+        ""
+      ].join("\n"),
+      "utf8"
+    );
+
+    const report = await lintBundle(dir);
+    const rules = report.findings.map((finding) => finding.rule);
+
+    expect(rules[0]).toBe("manifest");
+    expect(rules).toEqual(
+      expect.arrayContaining([
+        "schema-compile",
+        "depends-on-cycle",
+        "when-output-upstream",
+        "rollback-not-executable",
+        "http-json",
+        "template-token"
+      ])
+    );
+    expect(report.findings).toContainEqual({
+      severity: "error",
+      rule: "depends-on-cycle",
+      message: "depends_on cycle never becomes runnable: first -> second -> first"
+    });
+    expect(report.findings.map((finding) => finding.message)).toEqual(
+      expect.arrayContaining([
+        "step 'call' request steps/call.json: unresolved template token {{SECRET.key}}",
+        "step 'call' request steps/call.json: {{ITEM}} is only available in for_each steps",
+        "step 'gated' when.output_path step.first.stdout references step 'first', which is not in its depends_on"
+      ])
+    );
+    expect(rules).not.toContain("mutating-effect-rollback");
+    expect(report.errors).toBe(report.findings.length);
+  });
+
+  test("warns on mutating effects without rollback and undeclared input tokens", async () => {
+    await mkdir(path.join(dir, "steps"), { recursive: true });
+    await writeFile(path.join(dir, "schema.json"), JSON.stringify({ type: "object", properties: {} }), "utf8");
+    await writeFile(
+      path.join(dir, "steps", "call.json"),
+      JSON.stringify({ method: "POST", url: "https://api.test/{{INPUT.project}}" }),
+      "utf8"
+    );
+    await writeFile(
+      path.join(dir, "spell.yaml"),
+      [
+        "id: tests/lint-warn",
+        "version: 1.0.0",
+        "name: Lint",
+        "summary: lint fixture",
+        "inputs_schema: ./schema.json",
+        "risk: low",
+        "permissions: []",
+        "effects:",
+        "  - type: deploy",
+        "    target: api",
+        "    mutates: true",
+        "billing:",
+        "  enabled: false",
+        "  mode: none",
+        "  currency: USD",
+        "  max_amount: 0",
+        "runtime:",
+        "  execution: host",
+        "  platforms:",
+        "    - linux/amd64",
+        "steps:",
+        "  - uses: http",
+        "    name: call",
+        "    run: steps/call.json",
+        "checks:",
+        "  - type: exit_code",
+        "    params: {}",
+        ""
+      ].join("\n"),
+      "utf8"
+    );
+
+    const report = await lintBundle(dir);
+    expect(report.errors).toBe(0);
+    expect(report.findings).toEqual([
+      {
+        severity: "warning",
+        rule: "template-token",
+        message: "step 'call' request steps/call.json: {{INPUT.project}} is not declared in schema.json properties"
+      },
+      {
+        severity: "warning",
+        rule: "mutating-effect-rollback",
+        message: "effect deploy:api mutates, but no step declares a rollback"
+      }
+    ]);
+  });
+});
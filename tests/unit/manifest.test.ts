@@ -1,4 +1,4 @@
-import { mkdtemp, mkdir, writeFile } from "node:fs/promises";
+import { mkdtemp, mkdir, readFile, symlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { describe, expect, test } from "vitest";
@@ -91,6 +91,234 @@ describe("loadManifestFromDir", () => {
     await expect(loadManifestFromDir(dir)).rejects.toThrow("when.output_path requires depends_on 'first'");
   });
 
+  test("accepts http OUTPUT templates from the depends_on chain", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "  - uses: shell",
+        "    name: second",
+        "    run: steps/second.js",
+        "    depends_on: [first]",
+        "  - uses: http",
+        "    name: notify",
+        "    run: steps/notify.json",
+        "    depends_on: [second]"
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(dir, "steps/notify.json"),
+      JSON.stringify({ method: "POST", url: "https://api.test/{{OUTPUT.step.first.stdout}}" }),
+      "utf8"
+    );
+
+    const loaded = await loadManifestFromDir(dir);
+    expect(loaded.manifest.steps).toHaveLength(3);
+  });
+
+  test("fails when http OUTPUT template references a step outside the depends_on chain", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "  - uses: http",
+        "    name: notify",
+        "    run: steps/notify.json"
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(dir, "steps/notify.json"),
+      JSON.stringify({ method: "POST", url: "https://api.test/{{OUTPUT.step.first.stdout}}" }),
+      "utf8"
+    );
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow("requires depends_on chain to 'first'");
+  });
+
+  test("accepts node steps and rejects non-module run paths", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(dir, ["  - uses: node", "    name: first", "    run: steps/first.js"].join("\n"));
+    const loaded = await loadManifestFromDir(dir);
+    expect(loaded.manifest.steps[0]?.uses).toBe("node");
+
+    const invalidDir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(invalidDir, ["  - uses: node", "    name: first", "    run: steps/first.sh"].join("\n"));
+    await expect(loadManifestFromDir(invalidDir)).rejects.toThrow("steps[0].run must be a .js, .mjs or .cjs module for uses=node");
+  });
+
+  test("parses per-step timeout_ms, env and env_passthrough", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "    timeout_ms: 900000",
+        "    env:",
+        "      TARGET: '{{INPUT.target}}'",
+        "      MODE: fast",
+        "    env_passthrough: [PATH, AWS_*]"
+      ].join("\n")
+    );
+
+    const loaded = await loadManifestFromDir(dir);
+    expect(loaded.manifest.steps[0]).toMatchObject({
+      timeout_ms: 900000,
+      env: { TARGET: "{{INPUT.target}}", MODE: "fast" },
+      env_passthrough: ["PATH", "AWS_*"]
+    });
+  });
+
+  test("fails on invalid step env entries", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      ["  - uses: shell", "    name: first", "    run: steps/first.js", "    env:", "      TARGET: '{{OUTPUT.step.x.stdout}}'"].join(
+        "\n"
+      )
+    );
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow(
+      "steps[0].env.TARGET only supports {{INPUT.*}} and {{ENV.*}} templates"
+    );
+  });
+
+  test("parses nested when combinators and operators", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "  - uses: shell",
+        "    name: second",
+        "    run: steps/second.js",
+        "    depends_on: [first]",
+        "    when:",
+        "      all:",
+        "        - input_path: env",
+        "          in: [staging, prod]",
+        "        - not:",
+        "            output_path: step.first.stdout",
+        "            matches: '^skip'"
+      ].join("\n")
+    );
+
+    const loaded = await loadManifestFromDir(dir);
+    expect(loaded.manifest.steps[1]?.when).toEqual({
+      all: [{ input_path: "env", in: ["staging", "prod"] }, { not: { output_path: "step.first.stdout", matches: "^skip" } }]
+    });
+  });
+
+  test("fails when nested when.output_path is missing depends_on", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "  - uses: shell",
+        "    name: second",
+        "    run: steps/second.js",
+        "    when:",
+        "      any:",
+        "        - output_path: step.first.json.count",
+        "          gt: 3"
+      ].join("\n")
+    );
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow("when.output_path requires depends_on 'first'");
+  });
+
+  test("fails on invalid when operators", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      ["  - uses: shell", "    name: first", "    run: steps/first.js", "    when:", "      input_path: count", "      gt: many"].join(
+        "\n"
+      )
+    );
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow("steps[0].when.gt must be a finite number");
+  });
+
+  test("parses for_each and allows ITEM templates in step env", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "    for_each:",
+        "      input_path: repos",
+        "      as: repo",
+        "      max_parallel: 4",
+        "    env:",
+        "      REPO: '{{ITEM.name}}'",
+        "      POSITION: '{{INDEX}}'"
+      ].join("\n")
+    );
+
+    const loaded = await loadManifestFromDir(dir);
+    expect(loaded.manifest.steps[0]?.for_each).toEqual({ input_path: "repos", as: "repo", max_parallel: 4 });
+  });
+
+  test("fails on invalid for_each config", async () => {
+    const bothDir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      bothDir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "    for_each:",
+        "      input_path: repos",
+        "      output_path: step.first.json"
+      ].join("\n")
+    );
+    await expect(loadManifestFromDir(bothDir)).rejects.toThrow(
+      "steps[0].for_each must define exactly one of input_path or output_path"
+    );
+
+    const dependsDir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(
+      dependsDir,
+      [
+        "  - uses: shell",
+        "    name: first",
+        "    run: steps/first.js",
+        "  - uses: shell",
+        "    name: second",
+        "    run: steps/second.js",
+        "    for_each:",
+        "      output_path: step.first.json.items"
+      ].join("\n")
+    );
+    await expect(loadManifestFromDir(dependsDir)).rejects.toThrow("for_each.output_path requires depends_on 'first'");
+  });
+
+  test("fails when http ITEM templates are used without for_each", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(dir, ["  - uses: http", "    name: notify", "    run: steps/notify.json"].join("\n"));
+    await writeFile(
+      path.join(dir, "steps/notify.json"),
+      JSON.stringify({ method: "POST", url: "https://api.test/{{ITEM.repo}}" }),
+      "utf8"
+    );
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow("step 'notify' uses {{ITEM}} or {{INDEX}} templates without for_each");
+  });
+
   test("fails when rollback path does not exist", async () => {
     const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
     await writeMinimalBundle(
@@ -142,8 +370,43 @@ describe("loadManifestFromDir", () => {
 
     await expect(loadManifestFromDir(dir)).rejects.toThrow("steps[0].retry.max_attempts must be an integer between 1 and 10");
   });
+
+  test("parses and normalizes assets", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(dir, ["  - uses: shell", "    name: first", "    run: steps/first.js"].join("\n"));
+    await mkdir(path.join(dir, "templates"));
+    await writeFile(path.join(dir, "templates", "mail.txt"), "hello\n", "utf8");
+    await writeFile(path.join(dir, "config.json"), "{}\n", "utf8");
+    await appendAssets(dir, ["./templates/", "config.json"]);
+
+    const { manifest } = await loadManifestFromDir(dir);
+    expect(manifest.assets).toEqual(["templates", "config.json"]);
+  });
+
+  test.each([
+    [["../outside"], "assets[0] escapes bundle root"],
+    [["steps/first.js"], "assets[0] must not reference reserved bundle path: steps"],
+    [["templates", "templates/mail.txt"], "assets[1] overlaps another asset: templates"],
+    [["missing.txt"], "asset not found: missing.txt"],
+    [["linked"], "symlink is not allowed in assets: linked"]
+  ])("rejects invalid assets %j", async (assets, message) => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-manifest-"));
+    await writeMinimalBundle(dir, ["  - uses: shell", "    name: first", "    run: steps/first.js"].join("\n"));
+    await mkdir(path.join(dir, "templates"));
+    await writeFile(path.join(dir, "templates", "mail.txt"), "hello\n", "utf8");
+    await symlink(path.join(dir, "templates"), path.join(dir, "linked"));
+    await appendAssets(dir, assets);
+
+    await expect(loadManifestFromDir(dir)).rejects.toThrow(message);
+  });
 });
 
+async function appendAssets(dir: string, assets: string[]): Promise<void> {
+  const manifestPath = path.join(dir, "spell.yaml");
+  const lines = ["assets:", ...assets.map((asset) => `  - ${JSON.stringify(asset)}`)];
+  await writeFile(manifestPath, `${await readFile(manifestPath, "utf8")}\n${lines.join("\n")}\n`, "utf8");
+}
+
 async function writeMinimalBundle(dir: string, stepsYamlBody: string): Promise<void> {
   await mkdir(path.join(dir, "steps"), { recursive: true });
 
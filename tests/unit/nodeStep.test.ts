@@ -0,0 +1,74 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, test } from "vitest";
+import { runNodeStep } from "../../src/steps/nodeStep";
+import { SpellStep } from "../../src/types";
+
+describe("runNodeStep", () => {
+  test("runs a CommonJS default export with input and outputs", async () => {
+    const runPath = await writeModule(
+      "transform.js",
+      [
+        "module.exports = async function ({ input, outputs, env }) {",
+        "  return { greeting: `hello ${input.name}`, upstream: outputs['step.prev.json'].id, env: env.NODE_STEP_TEST };",
+        "};"
+      ].join("\n")
+    );
+
+    const result = await runNodeStep(
+      makeStep(runPath),
+      runPath,
+      { name: "world" },
+      { NODE_STEP_TEST: "yes" },
+      { "step.prev.json": { id: 7 } }
+    );
+
+    expect(result.json).toEqual({ greeting: "hello world", upstream: 7, env: "yes" });
+    expect(result.stepResult).toMatchObject({ stepName: "transform", uses: "node", success: true, message: "ok" });
+  });
+
+  test("runs an ES module default export", async () => {
+    const runPath = await writeModule("esm.mjs", "export default async ({ input }) => [input.count, input.count + 1];\n");
+
+    const result = await runNodeStep(makeStep(runPath), runPath, { count: 1 }, {}, {});
+    expect(result.json).toEqual([1, 2]);
+  });
+
+  test("wraps thrown errors and rejects modules without default function", async () => {
+    const throwing = await writeModule("throws.js", "module.exports = async () => { throw new Error('boom'); };\n");
+    await expect(runNodeStep(makeStep(throwing), throwing, {}, {}, {})).rejects.toThrow("node step 'transform' failed: boom");
+
+    const invalid = await writeModule("invalid.js", "module.exports = { value: 1 };\n");
+    await expect(runNodeStep(makeStep(invalid), invalid, {}, {}, {})).rejects.toThrow(
+      "node step 'transform' module must export a default function"
+    );
+  });
+
+  test("aborts the signal and fails on step timeout", async () => {
+    const runPath = await writeModule(
+      "slow.js",
+      [
+        "module.exports = ({ signal }) => new Promise((resolve) => {",
+        "  const timer = setTimeout(() => resolve('late'), 5000);",
+        "  signal.addEventListener('abort', () => clearTimeout(timer));",
+        "});"
+      ].join("\n")
+    );
+
+    await expect(
+      runNodeStep(makeStep(runPath), runPath, {}, { SPELL_RUNTIME_STEP_TIMEOUT_MS: "50" }, {})
+    ).rejects.toThrow("node step 'transform' timed out after 50ms");
+  });
+});
+
+function makeStep(runPath: string): SpellStep {
+  return { uses: "node", name: "transform", run: `steps/${path.basename(runPath)}` };
+}
+
+async function writeModule(fileName: string, source: string): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "spell-node-step-"));
+  const runPath = path.join(dir, fileName);
+  await writeFile(runPath, source, "utf8");
+  return runPath;
+}
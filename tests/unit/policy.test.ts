@@ -7,7 +7,8 @@ import {
   loadRuntimePolicy,
   parseRuntimePolicy,
   parseRuntimePolicyFile,
-  runtimePolicyFilePath
+  runtimePolicyFilePath,
+  traceRuntimePolicy
 } from "../../src/policy";
 
 describe("parseRuntimePolicy", () => {
@@ -83,6 +84,101 @@ describe("parseRuntimePolicy", () => {
     ).toThrow("invalid policy: policy contains unknown key 'unexpected'");
   });
 
+  test("parses permissions, billing and platforms blocks", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      permissions: { allow_connectors: ["github"], deny_connectors: ["aws"], deny_scopes: ["github:admin"] },
+      billing: { max_amount: { USD: 5, JPY: 500 }, allow_modes: ["upfront"] },
+      platforms: { allow: ["linux/amd64"] }
+    });
+
+    expect(policy.permissions).toEqual({
+      allow_connectors: ["github"],
+      deny_connectors: ["aws"],
+      deny_scopes: ["github:admin"]
+    });
+    expect(policy.billing).toEqual({ max_amount: { USD: 5, JPY: 500 }, allow_modes: ["upfront"] });
+    expect(policy.platforms).toEqual({ allow: ["linux/amd64"] });
+  });
+
+  test.each([
+    [{ permissions: { deny_scope: ["github:admin"] } }, "permissions contains unknown key 'deny_scope'"],
+    [{ permissions: { deny_scopes: ["admin"] } }, "permissions.deny_scopes[0] must match 'connector:scope'"],
+    [{ billing: { max_amount: 10 } }, "billing.max_amount must be an object of currency to amount"],
+    [{ billing: { max_amount: { USD: -1 } } }, "billing.max_amount.USD must be a non-negative number"],
+    [{ billing: { allow_modes: ["monthly"] } }, "billing.allow_modes[0] must be one of"],
+    [{ platforms: { deny: ["linux/amd64"] } }, "platforms contains unknown key 'deny'"]
+  ])("rejects invalid permissions, billing and platforms blocks (%#)", (block, message) => {
+    expect(() => parseRuntimePolicy({ version: "v1", default: "allow", ...block })).toThrow(`invalid policy: ${message}`);
+  });
+
+  test("parses schedule rules", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      schedule: [
+        {
+          name: "friday-freeze",
+          action: "deny",
+          timezone: "Europe/Berlin",
+          windows: [{ days: ["fri"], start: "16:00", end: "24:00" }],
+          dates: [{ from: "2026-12-20T00:00:00Z", to: "2027-01-04T00:00:00Z" }],
+          match: { mutates: true }
+        }
+      ]
+    });
+
+    expect(policy.schedule).toEqual([
+      {
+        name: "friday-freeze",
+        action: "deny",
+        timezone: "Europe/Berlin",
+        windows: [{ days: ["fri"], start: "16:00", end: "24:00" }],
+        dates: [{ from: "2026-12-20T00:00:00Z", to: "2027-01-04T00:00:00Z" }],
+        match: { spells: undefined, risk: undefined, mutates: true }
+      }
+    ]);
+  });
+
+  test.each([
+    [{ schedule: {} }, "schedule must be an array of rules"],
+    [
+      { schedule: [{ name: "x", action: "block", windows: [{ start: "09:00", end: "17:00" }] }] },
+      "schedule[0].action must be 'allow' or 'deny'"
+    ],
+    [{ schedule: [{ name: "x", action: "deny" }] }, "schedule[0] must declare windows or dates"],
+    [
+      {
+        schedule: [{ name: "x", action: "deny", timezone: "Mars/Olympus", windows: [{ start: "09:00", end: "17:00" }] }]
+      },
+      "schedule[0].timezone must be an IANA time zone, got 'Mars/Olympus'"
+    ],
+    [
+      { schedule: [{ name: "x", action: "deny", windows: [{ days: ["fr"], start: "09:00", end: "17:00" }] }] },
+      "schedule[0].windows[0].days[0] must be one of"
+    ],
+    [
+      { schedule: [{ name: "x", action: "deny", windows: [{ start: "24:00", end: "17:00" }] }] },
+      "schedule[0].windows[0].start must be HH:MM"
+    ],
+    [
+      { schedule: [{ name: "x", action: "deny", dates: [{ from: "2027-01-04", to: "2026-12-20" }] }] },
+      "schedule[0].dates[0].to must be after from"
+    ],
+    [
+      {
+        schedule: [
+          { name: "x", action: "deny", dates: [{ from: "2026-12-20", to: "2027-01-04" }] },
+          { name: "x", action: "allow", dates: [{ from: "2026-12-20", to: "2027-01-04" }] }
+        ]
+      },
+      "schedule[1].name 'x' is duplicated"
+    ]
+  ])("rejects invalid schedule rules (%#)", (block, message) => {
+    expect(() => parseRuntimePolicy({ version: "v1", default: "allow", ...block })).toThrow(`invalid policy: ${message}`);
+  });
+
   test("rejects invalid rollback policy shape", () => {
     expect(() =>
       parseRuntimePolicy({
@@ -101,6 +197,9 @@ describe("evaluateRuntimePolicy", () => {
     risk: "medium" as const,
     execution: "host" as const,
     effects: [{ type: "notify", target: "stdout", mutates: false }],
+    permissions: [{ connector: "github", scopes: ["repo:read"] }],
+    billing: { enabled: false, mode: "none" as const, currency: "USD", max_amount: 0 },
+    platform: "linux/amd64",
     signature_status: "verified" as const
   };
 
@@ -355,6 +454,157 @@ describe("evaluateRuntimePolicy", () => {
     });
   });
 
+  test("denies any github:admin permission regardless of publisher", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      publishers: { allow: ["fixtures"] },
+      permissions: { deny_scopes: ["github:admin*", "*:delete"] }
+    });
+
+    expect(
+      evaluateRuntimePolicy(policy, {
+        ...context,
+        permissions: [{ connector: "github", scopes: ["repo:read", "admin:org"] }]
+      })
+    ).toEqual({
+      allow: false,
+      reason: "permission 'github:admin:org' is denied by 'github:admin*'"
+    });
+    expect(
+      evaluateRuntimePolicy(policy, {
+        ...context,
+        permissions: [{ connector: "slack", scopes: ["delete"] }]
+      })
+    ).toEqual({
+      allow: false,
+      reason: "permission 'slack:delete' is denied by '*:delete'"
+    });
+    expect(evaluateRuntimePolicy(policy, context)).toEqual({ allow: true });
+  });
+
+  test("deny_connectors takes precedence over allow_connectors", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      permissions: { allow_connectors: ["github", "slack"], deny_connectors: ["github"] }
+    });
+
+    expect(evaluateRuntimePolicy(policy, context)).toEqual({
+      allow: false,
+      reason: "connector 'github' is denied"
+    });
+    expect(
+      evaluateRuntimePolicy(policy, {
+        ...context,
+        permissions: [{ connector: "aws", scopes: [] }]
+      })
+    ).toEqual({
+      allow: false,
+      reason: "connector 'aws' is not allowed"
+    });
+  });
+
+  test("enforces billing caps per currency and allowed modes for billed spells", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      billing: { max_amount: { USD: 10 }, allow_modes: ["on_success"] }
+    });
+    const billed = { enabled: true, mode: "on_success" as const, currency: "USD", max_amount: 10 };
+
+    expect(evaluateRuntimePolicy(policy, context)).toEqual({ allow: true });
+    expect(evaluateRuntimePolicy(policy, { ...context, billing: billed })).toEqual({ allow: true });
+    expect(evaluateRuntimePolicy(policy, { ...context, billing: { ...billed, max_amount: 25 } })).toEqual({
+      allow: false,
+      reason: "billing max_amount 25 USD exceeds policy max_amount 10"
+    });
+    expect(evaluateRuntimePolicy(policy, { ...context, billing: { ...billed, currency: "EUR" } })).toEqual({
+      allow: false,
+      reason: "billing currency 'EUR' has no max_amount"
+    });
+    expect(evaluateRuntimePolicy(policy, { ...context, billing: { ...billed, mode: "upfront" } })).toEqual({
+      allow: false,
+      reason: "billing mode 'upfront' is not allowed"
+    });
+  });
+
+  test("denies platforms not in platforms.allow, treating x64 and amd64 as aliases", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      platforms: { allow: ["linux/x64"] }
+    });
+
+    expect(evaluateRuntimePolicy(policy, context)).toEqual({ allow: true });
+    expect(evaluateRuntimePolicy(policy, { ...context, platform: "darwin/arm64" })).toEqual({
+      allow: false,
+      reason: "platform 'darwin/arm64' is not allowed"
+    });
+  });
+
+  test("denies mutating spells during a timezone-aware weekly window and names it", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      schedule: [
+        {
+          name: "friday-freeze",
+          action: "deny",
+          timezone: "Europe/Berlin",
+          windows: [{ days: ["fri"], start: "16:00", end: "24:00" }],
+          match: { mutates: true }
+        }
+      ]
+    });
+    const mutating = { ...context, effects: [{ type: "deploy", target: "site", mutates: true }] };
+    // 2026-10-16 is a Friday; Berlin is UTC+2 until the end of October.
+    const fridayAfternoon = () => new Date("2026-10-16T14:30:00Z");
+    const fridayLunch = () => new Date("2026-10-16T11:00:00Z");
+
+    expect(evaluateRuntimePolicy(policy, mutating, fridayAfternoon)).toEqual({
+      allow: false,
+      reason: "schedule 'friday-freeze' denies this spell during fri 16:00-24:00 Europe/Berlin"
+    });
+    expect(evaluateRuntimePolicy(policy, mutating, fridayLunch)).toEqual({ allow: true });
+    expect(evaluateRuntimePolicy(policy, context, fridayAfternoon)).toEqual({ allow: true });
+  });
+
+  test("denies during declared freeze dates and outside allow windows", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      schedule: [
+        {
+          name: "year-end-freeze",
+          action: "deny",
+          dates: [{ from: "2026-12-20T00:00:00Z", to: "2027-01-04T00:00:00Z" }],
+          match: { spells: ["fixtures/*"] }
+        },
+        {
+          name: "night-shift",
+          action: "allow",
+          timezone: "UTC",
+          windows: [{ days: ["mon", "tue", "wed", "thu", "fri"], start: "22:00", end: "06:00" }],
+          match: { risk: ["high", "critical"] }
+        }
+      ]
+    });
+    const highRisk = { ...context, spell_id: "ops/restart", risk: "high" as const };
+
+    expect(evaluateRuntimePolicy(policy, context, () => new Date("2026-12-24T12:00:00Z"))).toEqual({
+      allow: false,
+      reason: "schedule 'year-end-freeze' denies this spell during 2026-12-20T00:00:00Z..2027-01-04T00:00:00Z"
+    });
+    expect(evaluateRuntimePolicy(policy, context, () => new Date("2027-01-04T00:00:00Z"))).toEqual({ allow: true });
+    // Saturday 03:00 UTC still belongs to Friday night's window.
+    expect(evaluateRuntimePolicy(policy, highRisk, () => new Date("2026-10-17T03:00:00Z"))).toEqual({ allow: true });
+    expect(evaluateRuntimePolicy(policy, highRisk, () => new Date("2026-10-17T12:00:00Z"))).toEqual({
+      allow: false,
+      reason: "schedule 'night-shift' allows this spell only during mon,tue,wed,thu,fri 22:00-06:00 UTC"
+    });
+  });
+
   test("allows verified signature when signature.require_verified is true", () => {
     const policy = parseRuntimePolicy({
       version: "v1",
@@ -373,6 +623,51 @@ describe("evaluateRuntimePolicy", () => {
   });
 });
 
+describe("traceRuntimePolicy", () => {
+  const context = {
+    spell_id: "fixtures/hello-host",
+    publisher: "fixtures",
+    risk: "high" as const,
+    execution: "host" as const,
+    effects: [{ type: "deploy", target: "site", mutates: true }],
+    permissions: [],
+    billing: { enabled: false, mode: "none" as const, currency: "USD", max_amount: 0 },
+    platform: "linux/amd64",
+    signature_status: "unsigned" as const
+  };
+
+  test("reports every rule in order and decides on the first denial", () => {
+    const policy = parseRuntimePolicy({
+      version: "v1",
+      default: "allow",
+      publishers: { allow: ["fixtures"] },
+      max_risk: "medium",
+      effects: { deny_mutations: true },
+      billing: { allow_modes: ["upfront"] }
+    });
+
+    const trace = traceRuntimePolicy(policy, context);
+    expect(trace.allow).toBe(false);
+    expect(trace.reason).toBe("risk 'high' exceeds max_risk 'medium'");
+    expect(trace.rules.filter((rule) => rule.outcome !== "not_applicable")).toEqual([
+      { rule: "publishers.allow", outcome: "pass" },
+      { rule: "max_risk", outcome: "deny", reason: "risk 'high' exceeds max_risk 'medium'" },
+      {
+        rule: "effects.deny_mutations",
+        outcome: "deny",
+        reason: "effect type 'deploy' mutates target 'site' and mutations are denied"
+      },
+      { rule: "default", outcome: "pass" }
+    ]);
+    expect(trace.rules.find((rule) => rule.rule === "billing.allow_modes")?.outcome).toBe("not_applicable");
+    expect(evaluateRuntimePolicy(policy, context)).toEqual({ allow: false, reason: trace.reason });
+  });
+
+  test("has no rules without a policy", () => {
+    expect(traceRuntimePolicy(null, context)).toEqual({ allow: true, rules: [] });
+  });
+});
+
 describe("loadRuntimePolicy", () => {
   let originalHome: string | undefined;
   let tempHome: string;
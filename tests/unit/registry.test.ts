@@ -1,4 +1,5 @@
-import { mkdtemp, rm } from "node:fs/promises";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import nock from "nock";
@@ -16,6 +17,7 @@ import {
   removeRegistryIndex,
   resolveRegistryEntry,
   setDefaultRegistryIndex,
+  signRegistryIndexFile,
   validateRegistryIndexes
 } from "../../src/bundle/registry";
 
@@ -308,12 +310,14 @@ describe("registry config lifecycle", () => {
       {
         name: "default",
         url: "https://registry-primary.test/spell-index.v1.json",
-        spellCount: 1
+        spellCount: 1,
+        signature: "unsigned"
       },
       {
         name: "mirror",
         url: "https://registry-mirror.test/spell-index.v1.json",
-        spellCount: 2
+        spellCount: 2,
+        signature: "unsigned"
       }
     ]);
   });
@@ -334,7 +338,8 @@ describe("registry config lifecycle", () => {
       {
         name: "mirror",
         url: "https://registry-mirror.test/spell-index.v1.json",
-        spellCount: 1
+        spellCount: 1,
+        signature: "unsigned"
       }
     ]);
   });
@@ -437,4 +442,57 @@ describe("registry config lifecycle", () => {
       /registry validation failed for 'default': failed to fetch registry index 'https:\/\/registry-primary\.test\/spell-index\.v1\.json': HTTP 500/
     );
   });
+
+  test("signed indexes are verified against the configured key and cannot roll back", async () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+    const privateKeyPath = path.join(tempHome, "registry.pem");
+    await writeFile(privateKeyPath, privateKey.export({ format: "pem", type: "pkcs8" }) as string, "utf8");
+    const publicKeyBase64Url = (publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url");
+    const indexUrl = "https://registry-signed.test/spell-index.v1.json";
+    const config = await setDefaultRegistryIndex(indexUrl, publicKeyBase64Url);
+    expect(config.indexes[0].public_key).toBe(publicKeyBase64Url);
+    await expect(setDefaultRegistryIndex(indexUrl, "AAAA")).rejects.toThrow(/invalid registry public key/);
+
+    const indexPath = path.join(tempHome, "spell-index.v1.json");
+    const spells = [{ id: "a/spell", version: "1.0.0", source: "https://spell.test/a.git#main" }];
+    await writeFile(indexPath, JSON.stringify({ version: "v1", spells }), "utf8");
+    await expect(signRegistryIndexFile(indexPath, privateKeyPath, "reg")).rejects.toThrow(
+      "registry index must declare serial before signing"
+    );
+
+    const publish = async (serial: number) => {
+      await writeFile(indexPath, JSON.stringify({ version: "v1", serial, spells }), "utf8");
+      const signed = await signRegistryIndexFile(indexPath, privateKeyPath, "reg");
+      expect(signed.serial).toBe(serial);
+      return { raw: await readFile(indexPath, "utf8"), sig: await readFile(signed.signaturePath, "utf8") };
+    };
+    const serve = (raw: string, sig: string) =>
+      nock("https://registry-signed.test")
+        .get("/spell-index.v1.json")
+        .reply(200, raw)
+        .get("/spell-index.v1.json.sig")
+        .reply(sig ? 200 : 404, sig);
+
+    const v5 = await publish(5);
+    serve(v5.raw, v5.sig);
+    expect(await validateRegistryIndexes()).toEqual([
+      { name: "default", url: indexUrl, spellCount: 1, signature: "verified", serial: 5 }
+    ]);
+
+    serve(v5.raw.replace("a.git", "evil.git"), v5.sig);
+    await expect(resolveRegistryInstallSource("registry:a/spell@1.0.0")).rejects.toThrow(
+      "registry index signature verification failed for 'default' (key_id=reg)"
+    );
+
+    serve(v5.raw, "");
+    await expect(validateRegistryIndexes()).rejects.toThrow(
+      /failed to fetch registry index signature 'https:\/\/registry-signed\.test\/spell-index\.v1\.json\.sig': HTTP 404/
+    );
+
+    const v4 = await publish(4);
+    serve(v4.raw, v4.sig);
+    await expect(validateRegistryIndexes()).rejects.toThrow(
+      "registry index rollback detected for 'default': serial 4 is older than last seen 5"
+    );
+  });
 });
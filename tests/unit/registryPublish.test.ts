@@ -0,0 +1,127 @@
+import { access, cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { generateKeyPairSync, verify } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { publishRegistryEntry } from "../../src/bundle/registryPublish";
+import { parseRegistryIndexJson, parseRegistryIndexSignatureJson } from "../../src/bundle/registry";
+import { computeBundleDigest } from "../../src/signature/bundleDigest";
+
+const COMMIT = "0123456789abcdef0123456789abcdef01234567";
+const SOURCE = "https://spell.test/hello-host.git#v1.0.0";
+
+describe("registry publish", () => {
+  let workDir: string;
+  let bundleDir: string;
+  let indexPath: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), "spell-registry-publish-"));
+    bundleDir = path.join(workDir, "hello-host");
+    await cp(path.join(process.cwd(), "fixtures/spells/hello-host"), bundleDir, { recursive: true });
+    indexPath = path.join(workDir, "registry", "spell-index.v1.json");
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("creates the index with the manifest id, version, commit and bundle digest", async () => {
+    const result = await publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: COMMIT.toUpperCase() });
+
+    const digest = await computeBundleDigest(bundleDir);
+    expect(result.change).toBe("added");
+    expect(result.serial).toBe(1);
+    expect(result.signature).toBeUndefined();
+    const index = parseRegistryIndexJson(await readFile(indexPath, "utf8"), indexPath);
+    expect(index).toEqual({
+      version: "v1",
+      serial: 1,
+      spells: [
+        {
+          id: "fixtures/hello-host",
+          version: "1.0.0",
+          source: SOURCE,
+          commit: COMMIT,
+          digest: `sha256:${digest.valueHex}`
+        }
+      ]
+    });
+  });
+
+  test("republishing the same entry is a no-op and a conflicting one needs --force", async () => {
+    await publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: COMMIT });
+    const before = await readFile(indexPath, "utf8");
+
+    const again = await publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: COMMIT });
+    expect(again.change).toBe("unchanged");
+    expect(await readFile(indexPath, "utf8")).toBe(before);
+
+    const otherCommit = "f".repeat(40);
+    await expect(publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: otherCommit })).rejects.toThrow(
+      "registry entry already exists: fixtures/hello-host@1.0.0 (use --force to replace it)"
+    );
+
+    const replaced = await publishRegistryEntry(bundleDir, {
+      indexPath,
+      source: SOURCE,
+      commit: otherCommit,
+      force: true
+    });
+    expect(replaced.change).toBe("replaced");
+    expect(replaced.serial).toBe(2);
+    const index = parseRegistryIndexJson(await readFile(indexPath, "utf8"), indexPath);
+    expect(index.spells.map((spell) => spell.commit)).toEqual([otherCommit]);
+  });
+
+  test("rejects oci sources that registry installs cannot resolve", async () => {
+    await expect(
+      publishRegistryEntry(bundleDir, { indexPath, source: "oci:ghcr.io/acme/hello-host:1.0.0", commit: COMMIT })
+    ).rejects.toThrow(
+      "oci sources are not supported by registry installs: oci:ghcr.io/acme/hello-host:1.0.0 (expected <git-url>#<ref>)"
+    );
+    await expect(access(indexPath)).rejects.toThrow();
+  });
+
+  test("rejects unpinned sources, bad commits and invalid existing indexes", async () => {
+    await expect(
+      publishRegistryEntry(bundleDir, { indexPath, source: "https://spell.test/hello-host.git" })
+    ).rejects.toThrow("invalid registry source: https://spell.test/hello-host.git");
+    await expect(publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: "abc" })).rejects.toThrow(
+      "invalid commit: abc (expected a 40-character SHA-1)"
+    );
+
+    await publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: COMMIT });
+    await writeFile(indexPath, JSON.stringify({ version: "v1", spells: [{ id: "x" }] }), "utf8");
+    await expect(publishRegistryEntry(bundleDir, { indexPath, source: SOURCE, commit: COMMIT })).rejects.toThrow(
+      "registry index validation failed"
+    );
+  });
+
+  test("re-signs the index with a private key and otherwise flags an existing signature as stale", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const keyPath = path.join(workDir, "registry.pem");
+    await writeFile(keyPath, privateKey.export({ format: "pem", type: "pkcs8" }) as string, "utf8");
+
+    const signed = await publishRegistryEntry(bundleDir, {
+      indexPath,
+      source: SOURCE,
+      commit: COMMIT,
+      privateKeyPath: keyPath,
+      keyId: "idx"
+    });
+    expect(signed.signature).toBe("signed");
+    const signature = parseRegistryIndexSignatureJson(await readFile(`${indexPath}.sig`, "utf8"), indexPath);
+    expect(signature.key_id).toBe("idx");
+    expect(verify(null, await readFile(indexPath), publicKey, Buffer.from(signature.signature, "base64url"))).toBe(true);
+
+    const stale = await publishRegistryEntry(bundleDir, {
+      indexPath,
+      source: SOURCE,
+      commit: "f".repeat(40),
+      force: true
+    });
+    expect(stale.signature).toBe("stale");
+    await expect(access(`${indexPath}.sig`)).resolves.toBeUndefined();
+  });
+});
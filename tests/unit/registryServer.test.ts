@@ -0,0 +1,54 @@
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { startRegistryServer } from "../../src/bundle/registryServer";
+
+describe("registry serve", () => {
+  let workDir: string;
+  let registryDir: string;
+
+  beforeEach(async () => {
+    workDir = await mkdtemp(path.join(tmpdir(), "spell-registry-serve-"));
+    registryDir = path.join(workDir, "registry");
+    await mkdir(path.join(registryDir, "bundles"), { recursive: true });
+    await writeFile(path.join(registryDir, "spell-index.v1.json"), '{"version":"v1","spells":[]}\n', "utf8");
+    await writeFile(path.join(registryDir, "bundles", "hello-host-1.0.0.tgz"), Buffer.from([0x1f, 0x8b, 0x08]));
+    await writeFile(path.join(registryDir, ".env"), "SECRET=1\n", "utf8");
+    await writeFile(path.join(workDir, "outside.json"), "{}\n", "utf8");
+    await symlink(path.join(workDir, "outside.json"), path.join(registryDir, "escape.json"));
+  });
+
+  afterEach(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  test("serves index and tarballs read-only and refuses paths outside the directory", async () => {
+    const server = await startRegistryServer(registryDir, { port: 0 });
+    const base = `http://127.0.0.1:${server.port}`;
+    try {
+      const index = await fetch(`${base}/spell-index.v1.json`);
+      expect(index.status).toBe(200);
+      expect(index.headers.get("content-type")).toBe("application/json; charset=utf-8");
+      expect(await index.json()).toEqual({ version: "v1", spells: [] });
+
+      const tarball = await fetch(`${base}/bundles/hello-host-1.0.0.tgz`);
+      expect(tarball.status).toBe(200);
+      expect(tarball.headers.get("content-type")).toBe("application/gzip");
+      expect(Buffer.from(await tarball.arrayBuffer())).toEqual(Buffer.from([0x1f, 0x8b, 0x08]));
+
+      for (const blocked of ["/", "/bundles", "/.env", "/%2e%2e/outside.json", "/escape.json", "/missing.json"]) {
+        expect((await fetch(`${base}${blocked}`)).status).toBe(404);
+      }
+      expect((await fetch(`${base}/spell-index.v1.json`, { method: "PUT", body: "{}" })).status).toBe(405);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("rejects a missing directory", async () => {
+    await expect(startRegistryServer(path.join(workDir, "missing"), { port: 0 })).rejects.toThrow(
+      "registry directory not found"
+    );
+  });
+});
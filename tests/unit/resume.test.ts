@@ -0,0 +1,119 @@
+import { describe, expect, test } from "vitest";
+import { buildResumeState } from "../../src/runner/resume";
+import { SpellBundleManifest, SpellStep } from "../../src/types";
+
+describe("buildResumeState", () => {
+  test("restores outputs of completed steps only", () => {
+    const manifest = makeManifest([
+      { uses: "shell", name: "build", run: "steps/build.js" },
+      { uses: "http", name: "notify", run: "steps/notify.json", for_each: { input_path: "targets" }, depends_on: ["build"] },
+      { uses: "shell", name: "deploy", run: "steps/deploy.js", depends_on: ["build"] }
+    ]);
+
+    const state = buildResumeState(
+      "exec_1.json",
+      makeLog({
+        steps: [
+          { stepName: "build", success: true },
+          { stepName: "notify[0]", success: true }
+        ],
+        outputs: {
+          "step.build.stdout": "built",
+          "step.build.json": { artifact: "a.tgz" }
+        }
+      }),
+      manifest,
+      "digest-1",
+      { targets: ["a", "b"] }
+    );
+
+    expect(state).toEqual({
+      outputs: { "step.build.stdout": "built", "step.build.json": { artifact: "a.tgz" } },
+      completedStepNames: ["build"]
+    });
+  });
+
+  test("rejects changed digest, changed input and succeeded executions", () => {
+    const manifest = makeManifest([{ uses: "shell", name: "build", run: "steps/build.js" }]);
+    const input = { targets: ["a", "b"] };
+
+    expect(() => buildResumeState("exec_1.json", makeLog({}), manifest, "digest-2", input)).toThrow(
+      "cannot resume exec_1.json: bundle digest changed"
+    );
+    expect(() => buildResumeState("exec_1.json", makeLog({}), manifest, "digest-1", { targets: ["a"] })).toThrow(
+      "cannot resume exec_1.json: input changed"
+    );
+    expect(() => buildResumeState("exec_1.json", makeLog({ success: true }), manifest, "digest-1", input)).toThrow(
+      "cannot resume exec_1.json: execution already succeeded"
+    );
+  });
+
+  test("rejects executions whose completed steps were already rolled back", () => {
+    const manifest = makeManifest([{ uses: "shell", name: "build", run: "steps/build.js" }]);
+
+    expect(() =>
+      buildResumeState(
+        "exec_1.json",
+        makeLog({ rollback: { rollback_attempted_steps: 1 } }),
+        manifest,
+        "digest-1",
+        { targets: ["a", "b"] }
+      )
+    ).toThrow("cannot resume exec_1.json: rollback already ran for 1 step(s)");
+  });
+
+  test("rejects redacted outputs of completed steps", () => {
+    const manifest = makeManifest([{ uses: "shell", name: "login", run: "steps/login.js" }]);
+
+    expect(() =>
+      buildResumeState(
+        "exec_1.json",
+        makeLog({
+          steps: [{ stepName: "login", success: true }],
+          outputs: { "step.login.json": { token: "[REDACTED]" } }
+        }),
+        manifest,
+        "digest-1",
+        { targets: ["a", "b"] }
+      )
+    ).toThrow("cannot resume exec_1.json: output step.login.json was redacted in the log");
+  });
+});
+
+function makeLog(overrides: Record<string, unknown>): Record<string, unknown> {
+  return {
+    id: "tests/resume",
+    version: "1.0.0",
+    bundle_digest: "digest-1",
+    input: { targets: ["a", "b"] },
+    steps: [],
+    outputs: {},
+    success: false,
+    ...overrides
+  };
+}
+
+function makeManifest(steps: SpellStep[]): SpellBundleManifest {
+  return {
+    id: "tests/resume",
+    version: "1.0.0",
+    name: "resume",
+    summary: "resume",
+    inputs_schema: "./schema.json",
+    risk: "low",
+    permissions: [],
+    effects: [],
+    billing: {
+      enabled: false,
+      mode: "none",
+      currency: "USD",
+      max_amount: 0
+    },
+    runtime: {
+      execution: "host",
+      platforms: ["linux/x64"]
+    },
+    steps,
+    checks: [{ type: "exit_code", params: {} }]
+  };
+}
@@ -1,4 +1,4 @@
-import { chmod, mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { chmod, mkdtemp, mkdir, rm, symlink, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import { generateKeyPairSync, sign } from "node:crypto";
@@ -10,8 +10,12 @@ import {
   removeTrustedPublisherKey,
   restoreTrustedPublisherKey,
   revokeTrustedPublisherKey,
+  rotateTrustedPublisherKey,
+  setPublisherRevocationMode,
+  setPublisherTrustThreshold,
   upsertTrustedPublisherKey
 } from "../../src/signature/trustStore";
+import { signedMessage } from "../../src/signature/signatureFile";
 import { verifyBundleSignature } from "../../src/signature/verify";
 import { loadManifestFromDir } from "../../src/bundle/manifest";
 
@@ -55,6 +59,35 @@ describe("signature", () => {
     }
   });
 
+  test("computeBundleDigest covers manifest assets", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "spell-digest-"));
+
+    try {
+      await mkdir(path.join(dir, "steps"), { recursive: true });
+      await mkdir(path.join(dir, "templates", "nested"), { recursive: true });
+      const manifest = "id: pub/digest\nversion: 1.0.0\nname: x\nsummary: x\ninputs_schema: ./schema.json\nrisk: low\npermissions: []\neffects: []\nbilling:\n  enabled: false\n  mode: none\n  currency: USD\n  max_amount: 0\nruntime:\n  execution: host\n  platforms: [darwin/arm64]\nsteps:\n  - uses: shell\n    name: s\n    run: steps/s.js\nchecks:\n  - type: exit_code\n    params: {}\n";
+      await writeFile(path.join(dir, "spell.yaml"), manifest, "utf8");
+      await writeFile(path.join(dir, "schema.json"), "{\"type\":\"object\"}\n", "utf8");
+      await writeFile(path.join(dir, "steps", "s.js"), "console.log('a')\n", "utf8");
+      await writeFile(path.join(dir, "templates", "nested", "mail.txt"), "hello\n", "utf8");
+
+      const withoutAssets = await computeBundleDigest(dir);
+      await writeFile(path.join(dir, "templates", "nested", "mail.txt"), "changed\n", "utf8");
+      expect((await computeBundleDigest(dir)).valueHex).toBe(withoutAssets.valueHex);
+
+      await writeFile(path.join(dir, "spell.yaml"), `${manifest}assets:\n  - templates\n`, "utf8");
+      const first = await computeBundleDigest(dir);
+      await writeFile(path.join(dir, "templates", "nested", "mail.txt"), "hello\n", "utf8");
+      const second = await computeBundleDigest(dir);
+      expect(second.valueHex).not.toBe(first.valueHex);
+
+      await symlink(path.join(dir, "steps", "s.js"), path.join(dir, "templates", "link.js"));
+      await expect(computeBundleDigest(dir)).rejects.toThrow("symlink is not allowed in assets");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
   test("verifyBundleSignature succeeds with trusted key and matching digest", async () => {
     const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-signed-bundle-"));
 
@@ -361,4 +394,183 @@ describe("signature", () => {
       await rm(bundleDir, { recursive: true, force: true });
     }
   });
+
+  test("verifyBundleSignature enforces key thresholds and verifies countersignatures", async () => {
+    const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-signed-bundle-multi-"));
+
+    try {
+      await writeMinimalBundle(bundleDir, "pub/multi");
+
+      const digest = await computeBundleDigest(bundleDir);
+      const signers = {
+        "pub:release": generateKeyPairSync("ed25519"),
+        "pub:backup": generateKeyPairSync("ed25519"),
+        "secteam:review": generateKeyPairSync("ed25519")
+      };
+      for (const [name, pair] of Object.entries(signers)) {
+        const [publisher, keyId] = name.split(":");
+        await upsertTrustedPublisherKey(publisher, {
+          key_id: keyId,
+          algorithm: "ed25519",
+          public_key: (pair.publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url")
+        });
+      }
+      await expect(setPublisherTrustThreshold("pub", 3)).rejects.toThrow("trust threshold 3 exceeds the 2 trusted key(s)");
+      await setPublisherTrustThreshold("pub", 2);
+      await expect(removeTrustedPublisherKey("pub", "backup")).rejects.toThrow("trust threshold 2 exceeds");
+
+      const writeSignatures = async (names: Array<keyof typeof signers>, tamper?: string) => {
+        const signatures = names.map((name) => {
+          const [publisher, key_id] = name.split(":");
+          const signed = sign(null, name === tamper ? Buffer.from("other") : digest.value, signers[name].privateKey);
+          return { publisher, key_id, algorithm: "ed25519", signature: signed.toString("base64url") };
+        });
+        const payload = { version: "v2", digest: { algorithm: "sha256", value: digest.valueHex }, signatures };
+        await writeFile(path.join(bundleDir, "spell.sig.json"), `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+      };
+      const { manifest } = await loadManifestFromDir(bundleDir);
+
+      await writeSignatures(["pub:release"]);
+      const single = await verifyBundleSignature(manifest, bundleDir);
+      expect(single.status).toBe("untrusted");
+      expect(single.message).toBe("signature threshold not met: 1 of 2 required keys signed");
+
+      await writeSignatures(["pub:release", "pub:backup", "secteam:review"]);
+      const verified = await verifyBundleSignature(manifest, bundleDir);
+      expect(verified.status).toBe("verified");
+      expect(verified.signers).toEqual([
+        { publisher: "pub", key_id: "release" },
+        { publisher: "pub", key_id: "backup" },
+        { publisher: "secteam", key_id: "review" }
+      ]);
+
+      await writeSignatures(["pub:release", "pub:backup", "secteam:review"], "secteam:review");
+      const tampered = await verifyBundleSignature(manifest, bundleDir);
+      expect(tampered.status).toBe("invalid");
+      expect(tampered.message).toBe("countersignature verification failed: publisher=secteam key_id=review");
+
+      await revokeTrustedPublisherKey("pub", "backup");
+      await writeSignatures(["pub:release", "pub:backup"]);
+      const revoked = await verifyBundleSignature(manifest, bundleDir);
+      expect(revoked.status).toBe("untrusted");
+      expect(revoked.message).toContain("1 of 2");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rotateTrustedPublisherKey refuses to drop below the trust threshold", async () => {
+    for (const keyId of ["k1", "k2"]) {
+      await upsertTrustedPublisherKey("pub", {
+        key_id: keyId,
+        algorithm: "ed25519",
+        public_key: generatePublicKeyBase64Url()
+      });
+    }
+    await setPublisherTrustThreshold("pub", 2);
+    const newKey = { key_id: "k3", algorithm: "ed25519" as const, public_key: generatePublicKeyBase64Url() };
+
+    await expect(rotateTrustedPublisherKey("pub", newKey)).rejects.toThrow(
+      "trust threshold 2 exceeds the 1 key(s) still valid after rotation"
+    );
+    expect((await loadPublisherTrust("pub"))?.keys.map((key) => key.key_id)).toEqual(["k1", "k2"]);
+
+    const rotation = await rotateTrustedPublisherKey("pub", newKey, ["k1"]);
+    expect(rotation.retired).toEqual(["k1"]);
+    const trust = await loadPublisherTrust("pub");
+    expect(trust?.keys.filter((key) => key.not_after === undefined).map((key) => key.key_id)).toEqual(["k2", "k3"]);
+  });
+
+  test("signed_at keeps pre-revocation and pre-rotation signatures verifiable", async () => {
+    const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-signed-bundle-dated-"));
+
+    try {
+      await writeMinimalBundle(bundleDir, "pub/dated");
+      const digest = await computeBundleDigest(bundleDir);
+      const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+      await upsertTrustedPublisherKey("pub", {
+        key_id: "old",
+        algorithm: "ed25519",
+        public_key: (publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url")
+      });
+
+      const writeSigned = async (signedAt?: string, claimedSignedAt = signedAt) => {
+        const signature = sign(null, signedMessage(digest.value, signedAt), privateKey).toString("base64url");
+        const payload = {
+          version: "v1",
+          publisher: "pub",
+          key_id: "old",
+          algorithm: "ed25519",
+          signed_at: claimedSignedAt,
+          digest: { algorithm: "sha256", value: digest.valueHex },
+          signature
+        };
+        await writeFile(path.join(bundleDir, "spell.sig.json"), `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+      };
+      const { manifest } = await loadManifestFromDir(bundleDir);
+      const verifyAt = (iso: string) => verifyBundleSignature(manifest, bundleDir, new Date(iso));
+
+      await writeSigned("2026-02-01T00:00:00.000Z", "2026-01-01T00:00:00.000Z");
+      expect((await verifyAt("2026-02-02T00:00:00.000Z")).message).toBe("signature verification failed");
+
+      await writeSigned("2026-02-01T00:00:00.000Z");
+      expect((await verifyAt("2026-01-31T00:00:00.000Z")).message).toBe(
+        "signed_at is in the future: 2026-02-01T00:00:00.000Z"
+      );
+      const dated = await verifyAt("2026-02-02T00:00:00.000Z");
+      expect(dated.status).toBe("verified");
+      expect(dated.signers).toEqual([{ publisher: "pub", key_id: "old", signed_at: "2026-02-01T00:00:00.000Z" }]);
+
+      const rotation = await rotateTrustedPublisherKey(
+        "pub",
+        { key_id: "new", algorithm: "ed25519", public_key: generatePublicKeyBase64Url() },
+        undefined,
+        new Date("2026-03-01T00:00:00.000Z")
+      );
+      expect(rotation.retired).toEqual(["old"]);
+      expect(rotation.added.not_before).toBe("2026-03-01T00:00:00.000Z");
+      expect((await verifyAt("2026-06-01T00:00:00.000Z")).status).toBe("verified");
+
+      await writeSigned("2026-04-01T00:00:00.000Z");
+      expect((await verifyAt("2026-06-01T00:00:00.000Z")).message).toBe(
+        "trusted key_id expired at 2026-03-01T00:00:00.000Z: old"
+      );
+      await writeSigned(undefined);
+      expect((await verifyAt("2026-06-01T00:00:00.000Z")).status).toBe("invalid");
+
+      await writeSigned("2026-02-01T00:00:00.000Z");
+      await upsertTrustedPublisherKey("pub", {
+        ...(await loadPublisherTrust("pub"))!.keys.find((key) => key.key_id === "old")!,
+        revoked: true,
+        revoked_at: "2026-05-01T00:00:00.000Z"
+      });
+      const strict = await verifyAt("2026-06-01T00:00:00.000Z");
+      expect(strict.status).toBe("invalid");
+      expect(strict.message).toBe("trusted key_id is revoked: old");
+
+      await setPublisherRevocationMode("pub", "signed_before");
+      expect((await loadPublisherTrust("pub"))?.revocation_mode).toBe("signed_before");
+      expect((await verifyAt("2026-06-01T00:00:00.000Z")).status).toBe("verified");
+
+      await upsertTrustedPublisherKey("pub", {
+        ...(await loadPublisherTrust("pub"))!.keys.find((key) => key.key_id === "old")!,
+        revoked_at: "2026-01-15T00:00:00.000Z"
+      });
+      expect((await verifyAt("2026-06-01T00:00:00.000Z")).message).toBe("trusted key_id is revoked: old");
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+    }
+  });
 });
+
+async function writeMinimalBundle(dir: string, id: string): Promise<void> {
+  await mkdir(path.join(dir, "steps"), { recursive: true });
+  await writeFile(path.join(dir, "spell.yaml"), `id: ${id}\nversion: 1.0.0\nname: x\nsummary: x\ninputs_schema: ./schema.json\nrisk: low\npermissions: []\neffects: []\nbilling:\n  enabled: false\n  mode: none\n  currency: USD\n  max_amount: 0\nruntime:\n  execution: host\n  platforms: [darwin/arm64]\nsteps:\n  - uses: shell\n    name: s\n    run: steps/s.js\nchecks:\n  - type: exit_code\n    params: {}\n`, "utf8");
+  await writeFile(path.join(dir, "schema.json"), "{\"type\":\"object\"}\n", "utf8");
+  await writeFile(path.join(dir, "steps", "s.js"), "console.log('a')\n", "utf8");
+}
+
+function generatePublicKeyBase64Url(): string {
+  const { publicKey } = generateKeyPairSync("ed25519");
+  return (publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url");
+}
@@ -0,0 +1,79 @@
+import { chmod, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, test } from "vitest";
+import { runSpellRunner } from "../../src/runner/spell-runner";
+import { ProgressEvent } from "../../src/types";
+
+describe("runSpellRunner", () => {
+  test("copies manifest assets into the execution work dir", async () => {
+    const bundleDir = await mkdtemp(path.join(tmpdir(), "spell-runner-bundle-"));
+    const inputDir = await mkdtemp(path.join(tmpdir(), "spell-runner-input-"));
+
+    try {
+      await mkdir(path.join(bundleDir, "steps"), { recursive: true });
+      await mkdir(path.join(bundleDir, "templates"), { recursive: true });
+      await writeFile(path.join(bundleDir, "templates", "greeting.txt"), "hello from asset\n", "utf8");
+      await writeFile(path.join(bundleDir, "schema.json"), JSON.stringify({ type: "object" }), "utf8");
+      const stepPath = path.join(bundleDir, "steps", "read.js");
+      await writeFile(
+        stepPath,
+        [
+          "#!/usr/bin/env node",
+          "const fs = require('node:fs');",
+          "process.stdout.write(fs.readFileSync('templates/greeting.txt', 'utf8'));"
+        ].join("\n"),
+        "utf8"
+      );
+      await chmod(stepPath, 0o755);
+      await writeFile(
+        path.join(bundleDir, "spell.yaml"),
+        [
+          "id: tests/runner-assets",
+          "version: 1.0.0",
+          "name: Runner Assets",
+          "summary: runner asset copy",
+          "inputs_schema: ./schema.json",
+          "risk: low",
+          "permissions: []",
+          "effects: []",
+          "billing:",
+          "  enabled: false",
+          "  mode: none",
+          "  currency: USD",
+          "  max_amount: 0",
+          "runtime:",
+          "  execution: host",
+          "  platforms:",
+          `    - ${process.platform}/${process.arch}`,
+          "assets:",
+          "  - templates",
+          "steps:",
+          "  - uses: shell",
+          "    name: read",
+          "    run: steps/read.js",
+          "checks:",
+          "  - type: exit_code",
+          "    params: {}",
+          ""
+        ].join("\n"),
+        "utf8"
+      );
+      const inputPath = path.join(inputDir, "input.json");
+      await writeFile(inputPath, "{}", "utf8");
+
+      const events: ProgressEvent[] = [];
+      const result = await runSpellRunner(path.join(bundleDir, "spell.yaml"), inputPath, undefined, (event) =>
+        events.push(event)
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(result.success).toBe(true);
+      expect(result.outputs["step.read.stdout"]).toBe("hello from asset\n");
+      expect(events.map((event) => event.type)).toEqual(["step_started", "step_finished", "check_result"]);
+    } finally {
+      await rm(bundleDir, { recursive: true, force: true });
+      await rm(inputDir, { recursive: true, force: true });
+    }
+  });
+});
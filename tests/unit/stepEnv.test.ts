@@ -0,0 +1,55 @@
+import { describe, expect, test } from "vitest";
+import { resolveStepEnv } from "../../src/runner/stepEnv";
+import { SpellStep } from "../../src/types";
+
+describe("resolveStepEnv", () => {
+  const hostEnv = {
+    PATH: "/usr/bin",
+    INPUT_JSON: "/tmp/input.json",
+    AWS_REGION: "eu-west-1",
+    AWS_PROFILE: "ops",
+    SECRET_TOKEN: "s3cr3t",
+    DB_PASSWORD: "pw"
+  };
+
+  test("inherits the full host env by default and overlays step env templates", () => {
+    const env = resolveStepEnv(
+      makeStep({ env: { TARGET: "{{INPUT.target}}", MODE: "literal", TOKEN: "Bearer {{ENV.SECRET_TOKEN}}" } }),
+      { target: "prod" },
+      hostEnv
+    );
+
+    expect(env).toEqual({
+      ...hostEnv,
+      TARGET: "prod",
+      MODE: "literal",
+      TOKEN: "Bearer s3cr3t"
+    });
+  });
+
+  test("env_passthrough restricts inherited host variables", () => {
+    const env = resolveStepEnv(
+      makeStep({ env_passthrough: ["AWS_*"], env: { DATABASE_PASSWORD: "{{ENV.DB_PASSWORD}}" } }),
+      {},
+      hostEnv
+    );
+
+    expect(env).toEqual({
+      PATH: "/usr/bin",
+      INPUT_JSON: "/tmp/input.json",
+      AWS_REGION: "eu-west-1",
+      AWS_PROFILE: "ops",
+      DATABASE_PASSWORD: "pw"
+    });
+  });
+
+  test("fails on unresolved step env templates", () => {
+    expect(() => resolveStepEnv(makeStep({ env: { TARGET: "{{INPUT.missing}}" } }), {}, hostEnv)).toThrow(
+      /unresolved template/
+    );
+  });
+});
+
+function makeStep(overrides: Partial<SpellStep>): SpellStep {
+  return { uses: "shell", name: "migrate", run: "steps/migrate.js", ...overrides };
+}
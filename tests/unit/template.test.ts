@@ -21,4 +21,42 @@ describe("template replacement", () => {
   test("fails on unresolved template", () => {
     expect(() => applyTemplate("{{INPUT.missing}}", {}, {})).toThrow(/unresolved template/);
   });
+
+  test("replaces OUTPUT placeholders from earlier steps", () => {
+    const result = applyTemplate(
+      {
+        url: "https://api.test/items/{{OUTPUT.step.create.json.data.id}}",
+        note: "{{OUTPUT.step.build.stdout}}",
+        raw: "{{OUTPUT.step.create.json.data}}"
+      },
+      {},
+      {},
+      {
+        "step.create.json": { data: { id: 42 } },
+        "step.build.stdout": "built"
+      }
+    );
+
+    expect(result).toEqual({
+      url: "https://api.test/items/42",
+      note: "built",
+      raw: { id: 42 }
+    });
+  });
+
+  test("fails on missing OUTPUT reference", () => {
+    expect(() => applyTemplate("{{OUTPUT.step.create.json.id}}", {}, {}, {})).toThrow(/output reference not found/);
+    expect(() => applyTemplate("{{OUTPUT.step.create.json.id}}", {}, {}, { "step.create.json": {} })).toThrow(
+      /unresolved template/
+    );
+  });
+
+  test("replaces ITEM and INDEX placeholders inside for_each iterations", () => {
+    const iteration = { item: { repo: "acme/api" }, index: 2 };
+    expect(applyTemplate("https://api.test/{{ITEM.repo}}?n={{INDEX}}", {}, {}, {}, iteration)).toBe(
+      "https://api.test/acme/api?n=2"
+    );
+    expect(applyTemplate("{{ITEM}}", {}, {}, {}, iteration)).toEqual({ repo: "acme/api" });
+    expect(() => applyTemplate("{{ITEM.repo}}", {}, {})).toThrow("unresolved template: {{ITEM.repo}}");
+  });
 });
@@ -0,0 +1,170 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { generateKeyPairSync } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  exportTrustBundle,
+  importTrustBundle,
+  parseTrustBundle,
+  readTrustBundle
+} from "../../src/signature/trustBundle";
+import {
+  PublisherTrustKeyV1,
+  listTrustedPublishers,
+  loadPublisherTrust,
+  setPublisherTrustThreshold,
+  upsertTrustedPublisherKey
+} from "../../src/signature/trustStore";
+import { trustRoot } from "../../src/util/paths";
+
+describe("trust bundles", () => {
+  let originalHome: string | undefined;
+  let originalRootKey: string | undefined;
+  let tempHome: string;
+
+  beforeEach(async () => {
+    originalHome = process.env.HOME;
+    originalRootKey = process.env.SPELL_TRUST_ROOT_KEY;
+    tempHome = await mkdtemp(path.join(tmpdir(), "spell-trust-bundle-home-"));
+    process.env.HOME = tempHome;
+    delete process.env.SPELL_TRUST_ROOT_KEY;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.HOME;
+    } else {
+      process.env.HOME = originalHome;
+    }
+    if (originalRootKey === undefined) {
+      delete process.env.SPELL_TRUST_ROOT_KEY;
+    } else {
+      process.env.SPELL_TRUST_ROOT_KEY = originalRootKey;
+    }
+    await rm(tempHome, { recursive: true, force: true });
+  });
+
+  test("export and import round-trip publishers, thresholds and key metadata", async () => {
+    await upsertTrustedPublisherKey("acme", trustKey("a"));
+    await upsertTrustedPublisherKey("acme", { ...trustKey("b"), not_after: "2030-01-01T00:00:00.000Z" });
+    await setPublisherTrustThreshold("acme", 2);
+    await upsertTrustedPublisherKey("tools", trustKey("default"));
+
+    const exported = await exportTrustBundle({ publishers: ["acme"], now: new Date("2026-10-01T00:00:00.000Z") });
+    expect(exported.issued_at).toBe("2026-10-01T00:00:00.000Z");
+    expect(exported.publishers.map((entry) => entry.publisher)).toEqual(["acme"]);
+    const acme = await loadPublisherTrust("acme");
+
+    await rm(path.join(trustRoot(), "publishers"), { recursive: true, force: true });
+    const parsed = parseTrustBundle(JSON.stringify(exported), "bundle.json");
+    const result = await importTrustBundle(parsed);
+    expect(result.signature).toBe("unsigned");
+    expect(result.applied).toBe(true);
+    expect(result.changes).toEqual([
+      { change: "added", publisher: "acme", key_id: "a" },
+      { change: "added", publisher: "acme", key_id: "b" }
+    ]);
+    expect(await loadPublisherTrust("acme")).toEqual(acme);
+
+    const again = await importTrustBundle(parsed);
+    expect(again.applied).toBe(false);
+    expect(again.changes.every((change) => change.change === "unchanged")).toBe(true);
+  });
+
+  test("import diffs against the trust store, replaces listed publishers and prunes on request", async () => {
+    await upsertTrustedPublisherKey("acme", trustKey("a"));
+    await upsertTrustedPublisherKey("acme", trustKey("old"));
+    await upsertTrustedPublisherKey("stale", trustKey("default"));
+    const current = await exportTrustBundle({ publishers: ["acme"] });
+    const bundle = parseTrustBundle(
+      JSON.stringify({
+        ...current,
+        publishers: [
+          {
+            publisher: "acme",
+            threshold: 2,
+            keys: [current.publishers[0].keys.find((key) => key.key_id === "a"), trustKey("new")]
+          }
+        ]
+      }),
+      "bundle.json"
+    );
+
+    const planned = await importTrustBundle(bundle, { dryRun: true, prune: true });
+    expect(planned.applied).toBe(false);
+    expect(planned.changes).toEqual([
+      { change: "changed", publisher: "acme" },
+      { change: "unchanged", publisher: "acme", key_id: "a" },
+      { change: "added", publisher: "acme", key_id: "new" },
+      { change: "removed", publisher: "acme", key_id: "old" },
+      { change: "removed", publisher: "stale", key_id: "default" }
+    ]);
+    expect((await loadPublisherTrust("acme"))?.keys.map((key) => key.key_id)).toEqual(["a", "old"]);
+
+    const applied = await importTrustBundle(bundle, { prune: true });
+    expect(applied.applied).toBe(true);
+    const acme = await loadPublisherTrust("acme");
+    expect(acme?.threshold).toBe(2);
+    expect(acme?.keys.map((key) => key.key_id)).toEqual(["a", "new"]);
+    expect((await listTrustedPublishers()).map((entry) => entry.publisher)).toEqual(["acme"]);
+    expect((await readdir(trustRoot())).filter((name) => name.startsWith("."))).toEqual([]);
+  });
+
+  test("a pinned trust root key requires a valid bundle signature", async () => {
+    const root = generateKeyPairSync("ed25519");
+    const rootKeyPath = path.join(tempHome, "root.pem");
+    await writeFile(rootKeyPath, root.privateKey.export({ format: "pem", type: "pkcs8" }) as string, "utf8");
+    const rootPublicKey = (root.publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url");
+    await upsertTrustedPublisherKey("acme", trustKey("a"));
+
+    const unsigned = await exportTrustBundle();
+    const signed = await exportTrustBundle({ signingKeyPath: rootKeyPath, keyId: "org-root" });
+    expect(signed.signature?.key_id).toBe("org-root");
+
+    const bundlePath = path.join(tempHome, "trust-bundle.json");
+    await writeFile(bundlePath, JSON.stringify(signed), "utf8");
+    expect((await importTrustBundle(await readTrustBundle(bundlePath))).signature).toBe("unchecked");
+
+    process.env.SPELL_TRUST_ROOT_KEY = rootPublicKey;
+    await expect(importTrustBundle(unsigned)).rejects.toThrow(
+      "trust bundle is unsigned but a trust root key is pinned (SPELL_TRUST_ROOT_KEY)"
+    );
+    expect((await importTrustBundle(await readTrustBundle(bundlePath))).signature).toBe("verified");
+
+    const tampered = parseTrustBundle(
+      JSON.stringify({ ...signed, publishers: [{ ...signed.publishers[0], threshold: 1, keys: [] }] }).replace(
+        '"keys":[]',
+        `"keys":[{"key_id":"evil","algorithm":"ed25519","public_key":"${publicKeyBase64Url()}"}]`
+      ),
+      "tampered.json"
+    );
+    await expect(importTrustBundle(tampered)).rejects.toThrow(
+      "trust bundle signature verification failed: key_id=org-root"
+    );
+    expect((await loadPublisherTrust("acme"))?.keys.map((key) => key.key_id)).toEqual(["a"]);
+  });
+
+  test("parseTrustBundle rejects malformed bundles", () => {
+    expect(() => parseTrustBundle("{", "x.json")).toThrow("failed to parse trust bundle: x.json");
+    expect(() => parseTrustBundle(JSON.stringify({ version: "v2" }), "x.json")).toThrow(
+      "unsupported trust bundle version: v2"
+    );
+    const entry = { publisher: "acme", keys: [{ key_id: "a", algorithm: "ed25519", public_key: "AAAA" }] };
+    expect(() =>
+      parseTrustBundle(
+        JSON.stringify({ version: "v1", issued_at: "2026-10-01T00:00:00Z", publishers: [entry, entry] }),
+        "x.json"
+      )
+    ).toThrow("duplicate trust bundle publisher: acme");
+  });
+});
+
+function trustKey(keyId: string): PublisherTrustKeyV1 {
+  return { key_id: keyId, algorithm: "ed25519", public_key: publicKeyBase64Url() };
+}
+
+function publicKeyBase64Url(): string {
+  const { publicKey } = generateKeyPairSync("ed25519");
+  return (publicKey.export({ format: "der", type: "spki" }) as Buffer).toString("base64url");
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "vitest";
+import { diffManifests, formatManifestChange } from "../../src/bundle/upgrade";
+import { SpellBundleManifest } from "../../src/types";
+
+function manifest(overrides: Partial<SpellBundleManifest> = {}): SpellBundleManifest {
+  return {
+    id: "samples/upgrade",
+    version: "1.0.0",
+    name: "Upgrade",
+    summary: "upgrade fixture",
+    inputs_schema: "./schema.json",
+    risk: "low",
+    permissions: [],
+    effects: [{ type: "notify", target: "stdout", mutates: false }],
+    billing: { enabled: false, mode: "none", currency: "USD", max_amount: 0 },
+    runtime: { execution: "host", platforms: ["linux/amd64"] },
+    steps: [{ uses: "shell", name: "run", run: "steps/run.js" }],
+    checks: [{ type: "exit_code", params: {} }],
+    ...overrides
+  };
+}
+
+describe("upgrade manifest diff", () => {
+  test("reports no changes for identical manifests", () => {
+    expect(diffManifests(manifest(), manifest({ version: "1.1.0" }))).toEqual({ changes: [], escalations: [] });
+  });
+
+  test("flags risk escalation and new mutating effects", () => {
+    const diff = diffManifests(
+      manifest(),
+      manifest({
+        risk: "high",
+        permissions: [{ connector: "github", scopes: ["repo:write"] }],
+        effects: [
+          { type: "notify", target: "stdout", mutates: true },
+          { type: "deploy", target: "site", mutates: true }
+        ],
+        billing: { enabled: true, mode: "upfront", currency: "USD", max_amount: 5 }
+      })
+    );
+
+    expect(diff.escalations).toEqual([
+      "risk escalates from low to high",
+      "adds mutating effect notify:stdout",
+      "adds mutating effect deploy:site"
+    ]);
+    expect(diff.changes.map(formatManifestChange)).toEqual([
+      "risk\tlow -> high",
+      "permissions\t+ github:repo:write",
+      "effects\t- notify:stdout",
+      "effects\t+ deploy:site (mutates)",
+      "effects\t+ notify:stdout (mutates)",
+      "billing\tdisabled -> upfront 5 USD"
+    ]);
+  });
+
+  test("does not require confirmation for lower risk or removed effects", () => {
+    const diff = diffManifests(
+      manifest({ risk: "high", effects: [{ type: "deploy", target: "site", mutates: true }] }),
+      manifest({ risk: "medium", effects: [] })
+    );
+
+    expect(diff.escalations).toEqual([]);
+    expect(diff.changes.map(formatManifestChange)).toEqual(["risk\thigh -> medium", "effects\t- deploy:site (mutates)"]);
+  });
+});